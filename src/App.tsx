@@ -51,7 +51,6 @@ function App() {
 // Component to handle routing based on authentication state
 const AppContent: React.FC = () => {
   const { authState, isTeacher, isPlayer } = useAuth();
-  const { gameState } = useAppContext();
 
   // If not authenticated, show login page
   if (!authState.user) {
@@ -67,22 +66,8 @@ const AppContent: React.FC = () => {
     );
   }
 
-  // Player view - show the appropriate player screen based on game state
+  // Player view - the waiting room renders every player screen from the lobby to the results
   if (isPlayer()) {
-    // Logic to determine which player screen to show based on game state
-    if (gameState.status === 'playing') {
-      // This will be implemented later
-      return (
-        <div className="min-h-screen flex items-center justify-center bg-[#EEF4FF]">
-          <div className="bg-white p-8 rounded-lg shadow-md text-center">
-            <h1 className="text-xl font-bold mb-4">Game in Progress</h1>
-            <p>The game has started! Questions will appear here.</p>
-          </div>
-        </div>
-      );
-    }
-    
-    // Default: show waiting room
     return <WaitingRoom />;
   }
 
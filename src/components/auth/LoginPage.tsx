@@ -13,6 +13,7 @@ const LoginPage: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
+  const [gameCode, setGameCode] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   const { signIn, joinAsPlayer, authState } = useAuth();
@@ -39,6 +40,11 @@ const LoginPage: React.FC = () => {
   const handleStudentJoin = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (!gameCode.trim()) {
+      alert('Please enter the game code from your teacher');
+      return;
+    }
+    
     if (!name) {
       alert('Please enter your name');
       return;
@@ -47,7 +53,7 @@ const LoginPage: React.FC = () => {
     setIsSubmitting(true);
     
     try {
-      await joinAsPlayer(name);
+      await joinAsPlayer(name, gameCode);
     } catch (error) {
       console.error('Join error:', error);
     } finally {
@@ -155,6 +161,24 @@ const LoginPage: React.FC = () => {
             ) : (
               <form onSubmit={handleStudentJoin}>
                 <div className="space-y-4">
+                  <div>
+                    <label htmlFor="gameCode" className="block text-sm font-medium text-gray-700">
+                      Game Code
+                    </label>
+                    <input
+                      id="gameCode"
+                      name="gameCode"
+                      type="text"
+                      required
+                      maxLength={6}
+                      autoComplete="off"
+                      value={gameCode}
+                      onChange={(e) => setGameCode(e.target.value.toUpperCase())}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-[#3A7AFE] focus:border-[#3A7AFE] sm:text-sm font-mono tracking-widest uppercase"
+                      placeholder="ABC123"
+                    />
+                  </div>
+                  
                   <div>
                     <label htmlFor="name" className="block text-sm font-medium text-gray-700">
                       Your Name
@@ -188,7 +212,7 @@ const LoginPage: React.FC = () => {
             <p className="text-xs text-gray-500 text-center w-full">
               {activeTab === 'teacher' 
                 ? 'Sign in to manage your games and review student progress'
-                : 'Enter your name to join the game'}
+                : 'Enter the game code from your teacher and your name to join'}
             </p>
           </CardFooter>
         </Card>
@@ -0,0 +1,95 @@
+/**
+ * Export Menu component for Ether Excel
+ * Downloads a chapter's questions as an LMS file (QTI, GIFT, CSV) or a printable worksheet
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import Button from '../ui/Button';
+import { Question, Topic } from '../../types';
+import { EXPORT_FORMAT_LABELS, ExportFormat, exportQuestionSet, toQuestionSet } from '../../lib/exporters';
+import { downloadBlob } from '../../lib/results-report';
+
+interface ExportMenuProps {
+  title: string;
+  grade: string;
+  topics: Topic[];
+  questions: Record<string, Question[]>;
+  size?: 'sm' | 'md';
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ title, grade, topics, questions, size = 'md' }) => {
+  const [open, setOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const questionCount = topics.reduce((total, topic) => total + (questions[topic.id]?.length || 0), 0);
+
+  // Close the menu on a click anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = (format: ExportFormat) => {
+    setOpen(false);
+    setNotice(null);
+
+    try {
+      const file = exportQuestionSet(toQuestionSet(title, grade, topics, questions), format);
+      downloadBlob(file.filename, file.blob);
+      if (file.omitted > 0) {
+        setNotice(
+          `${file.omitted} question${file.omitted === 1 ? ' was' : 's were'} left out because ` +
+          `${EXPORT_FORMAT_LABELS[format]} has no matching question type.`
+        );
+      }
+    } catch (error) {
+      console.error('Error exporting questions:', error);
+      setNotice('The questions could not be exported. Please try again.');
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        variant="outline"
+        size={size}
+        onClick={() => setOpen(!open)}
+        disabled={questionCount === 0}
+        icon={<Download className="w-4 h-4" />}
+      >
+        Export
+        <ChevronDown className="w-4 h-4 ml-1" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-[#EEF4FF]"
+            >
+              {EXPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {notice && (
+        <div className="absolute right-0 mt-2 w-64 bg-amber-50 border border-amber-200 text-amber-800 text-xs p-2 rounded-md z-10">
+          {notice}
+          <button onClick={() => setNotice(null)} className="block mt-1 text-amber-700 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -1,8 +1,10 @@
 /**
  * Game Launch component for Ether Excel
- * Handles creating and managing a game session
+ * Handles creating and managing a game session, including how many questions of each
+ * difficulty the session plays, whether self-paced questions adapt to each student, and
+ * whether students play in teams
  */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Rocket, 
   Play, 
@@ -14,18 +16,48 @@ import {
   Eye,
   RefreshCw,
   Trash2,
-  AlertCircle
+  AlertCircle,
+  Key,
+  User,
+  Monitor,
+  BarChart2
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '../ui/Card';
 import Button from '../ui/Button';
 import { useAppContext } from '../../context/AppContext';
-import { getAllStudents, updateStudentStatus, removeStudent, updateGameSessionStatus } from '../../services/database';
-import { Student } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { 
+  getOrCreateDefaultGameSession, 
+  getStudentsBySession, 
+  updateStudentStatus, 
+  removeStudent, 
+  updateGameSessionStatus,
+  updateGameSessionPacing,
+  updateGameSessionQuestions,
+  updateGameSessionScoring,
+  updateGameSessionTeams,
+  updateStudentTeams
+} from '../../services/database';
+import { GamePacing, ScoringConfig, Student, Team } from '../../types';
+import ScoringSetup from './ScoringSetup';
+import TeamSetup from './TeamSetup';
+import { assignUnassigned, TeamAssignments } from '../../lib/teams';
+import {
+  countByDifficulty,
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  DIFFICULTY_STYLES,
+  DifficultyOrUntagged,
+  pickQuestionsByDifficulty
+} from '../../lib/question-mix';
+
+const DIFFICULTY_OPTIONS: DifficultyOrUntagged[] = [...DIFFICULTIES, 'untagged'];
 
 const GameLaunch: React.FC = () => {
   const { 
     currentChapter, 
     topics, 
+    questions,
     resetState, 
     setView, 
     gameState,
@@ -33,31 +65,80 @@ const GameLaunch: React.FC = () => {
     gameSession,
     setGameSession
   } = useAppContext();
+  const { authState } = useAuth();
   
   const [launchState, setLaunchState] = useState<'ready' | 'starting' | 'active'>('ready');
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [timeLimit, setTimeLimit] = useState(5);
+  const [pacing, setPacing] = useState<GamePacing>(gameSession?.pacing || 'self_paced');
+  const [adaptive, setAdaptive] = useState(gameSession?.adaptive ?? false);
+  const [teams, setTeams] = useState<Team[] | null>(gameSession?.teams ?? null);
+  const [scoring, setScoring] = useState<Partial<ScoringConfig>>(gameSession?.scoring ?? {});
+  // Unsaved team choices by student id; students not in here keep the team they're saved on
+  const [teamAssignments, setTeamAssignments] = useState<TeamAssignments>({});
   const [selectedStudents, setSelectedStudents] = useState<string[]>([]);
   const [removingStudent, setRemovingStudent] = useState<string | null>(null);
+
+  // Questions available at each difficulty, and how many of each the teacher wants played
+  const available = useMemo(
+    () => countByDifficulty(topics.flatMap(topic => questions[topic.id] || [])),
+    [topics, questions]
+  );
+  const [questionCounts, setQuestionCounts] = useState<Record<DifficultyOrUntagged, number>>(available);
+  const chosenTotal = DIFFICULTY_OPTIONS.reduce((total, difficulty) => total + questionCounts[difficulty], 0);
+  const availableTotal = DIFFICULTY_OPTIONS.reduce((total, difficulty) => total + available[difficulty], 0);
+
+  useEffect(() => {
+    setQuestionCounts(available);
+  }, [available]);
+  
+  // Make sure this teacher has a session students can join with its code
+  useEffect(() => {
+    if (!gameSession) {
+      initializeGameSession();
+    }
+  }, []);
   
-  // Initialize or fetch students on component mount
+  // Fetch the session roster once the session is known
   useEffect(() => {
+    if (!gameSession) return;
+    
     fetchStudents();
     
     // Create polling for students list
     const interval = setInterval(fetchStudents, 10000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [gameSession?.id]);
+
+  // Get or create the game session for the current chapter
+  const initializeGameSession = async () => {
+    try {
+      const session = await getOrCreateDefaultGameSession(
+        currentChapter?.id,
+        authState.user?.display_name,
+        authState.user?.id
+      );
+      setGameSession(session);
+    } catch (error) {
+      console.error('Error initializing game session:', error);
+    }
+  };
 
-  // Fetch all students in the system
+  // Fetch the students who joined this session
   const fetchStudents = async () => {
+    if (!gameSession) return;
+    
     try {
       setLoading(true);
-      const studentsData = await getAllStudents();
+      const studentsData = await getStudentsBySession(gameSession.id);
       setStudents(studentsData);
+      setTeamAssignments(prev => ({
+        ...Object.fromEntries(studentsData.map((student: Student) => [student.id, student.team_id ?? null])),
+        ...prev
+      }));
       setLoading(false);
       setRefreshing(false);
     } catch (error) {
@@ -113,14 +194,32 @@ const GameLaunch: React.FC = () => {
   // Handle start game
   const handleStartGame = async () => {
     try {
+      if (chosenTotal === 0) {
+        alert('Please choose at least one question to play.');
+        return;
+      }
+
       // Update all student statuses to 'playing'
       for (const student of students) {
         await updateStudentStatus(student.id, 'playing');
       }
       
-      // Update game session status to 'in_progress' if we have a session
+      // Save the pacing first so students know how to follow the game once it starts
       if (gameSession) {
-        await updateGameSessionStatus(gameSession.id, 'in_progress');
+        await updateGameSessionPacing(gameSession.id, pacing, adaptive);
+        // Everyone still off a team goes on the smallest one
+        if (teams) {
+          await updateStudentTeams(assignUnassigned(students.map(student => student.id), teams, teamAssignments));
+        }
+        await updateGameSessionTeams(gameSession.id, teams);
+        await updateGameSessionScoring(gameSession.id, scoring);
+        // Every question plays unless the teacher left some out
+        await updateGameSessionQuestions(
+          gameSession.id,
+          chosenTotal < availableTotal ? pickQuestionsByDifficulty(topics, questions, questionCounts) : null
+        );
+        const session = await updateGameSessionStatus(gameSession.id, 'in_progress');
+        setGameSession(session);
       }
       
       // Update game state to playing
@@ -182,6 +281,21 @@ const GameLaunch: React.FC = () => {
                   Game Session: {currentChapter?.title}
                 </h2>
                 
+                <div className="bg-white p-4 rounded-lg flex items-center justify-between mb-4 border border-[#3A7AFE]/30">
+                  <div className="flex items-center">
+                    <Key className="w-5 h-5 text-[#3A7AFE] mr-2" />
+                    <div>
+                      <p className="text-xs text-gray-500">Game Code</p>
+                      <p className="text-2xl font-mono font-bold tracking-widest text-[#1F2937]">
+                        {gameSession?.game_code || '······'}
+                      </p>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 max-w-[14rem] text-right">
+                    Students enter this code on the join screen to enter your lobby
+                  </p>
+                </div>
+                
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                   <div className="bg-white p-3 rounded-lg flex items-center">
                     <Users className="w-5 h-5 text-[#3A7AFE] mr-2" />
@@ -209,23 +323,121 @@ const GameLaunch: React.FC = () => {
                 </div>
                 
                 <div className="mb-6">
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Time Limit per Topic (minutes)
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pacing
                   </label>
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={timeLimit}
-                    onChange={(e) => setTimeLimit(parseInt(e.target.value))}
-                    className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer"
-                  />
-                  <div className="flex justify-between text-xs text-gray-500 mt-1">
-                    <span>1 min</span>
-                    <span>5 min</span>
-                    <span>10 min</span>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {[
+                      {
+                        value: 'self_paced' as const,
+                        title: 'Self-paced',
+                        description: 'Each student works through the questions on their own timer',
+                        icon: <User className="w-5 h-5" />
+                      },
+                      {
+                        value: 'teacher_paced' as const,
+                        title: 'Teacher-paced',
+                        description: 'You show each question to the whole class and reveal answers together',
+                        icon: <Monitor className="w-5 h-5" />
+                      }
+                    ].map(option => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setPacing(option.value)}
+                        className={`text-left p-3 rounded-lg border-2 bg-white transition-colors ${
+                          pacing === option.value ? 'border-[#3A7AFE]' : 'border-transparent hover:border-gray-200'
+                        }`}
+                      >
+                        <div className={`flex items-center font-medium mb-1 ${
+                          pacing === option.value ? 'text-[#3A7AFE]' : 'text-[#1F2937]'
+                        }`}>
+                          <span className="mr-2">{option.icon}</span>
+                          {option.title}
+                        </div>
+                        <p className="text-xs text-gray-500">{option.description}</p>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                
+                <div className="mb-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="flex items-center text-sm font-medium text-gray-700">
+                      <BarChart2 className="w-4 h-4 mr-1 text-[#3A7AFE]" />
+                      Question Mix
+                    </label>
+                    <span className="text-xs text-gray-500">
+                      {chosenTotal} of {availableTotal} questions
+                    </span>
                   </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {DIFFICULTY_OPTIONS.filter(difficulty => available[difficulty] > 0).map(difficulty => (
+                      <label key={difficulty} className="bg-white p-3 rounded-lg text-sm">
+                        <span className={`inline-block text-xs px-2 py-0.5 rounded-full mb-2 ${
+                          difficulty === 'untagged' ? 'bg-gray-100 text-gray-600' : DIFFICULTY_STYLES[difficulty]
+                        }`}>
+                          {difficulty === 'untagged' ? 'Untagged' : DIFFICULTY_LABELS[difficulty]}
+                        </span>
+                        <div className="flex items-center space-x-1">
+                          <input
+                            type="number"
+                            min={0}
+                            max={available[difficulty]}
+                            value={questionCounts[difficulty]}
+                            onChange={(e) => setQuestionCounts({
+                              ...questionCounts,
+                              [difficulty]: Math.max(0, Math.min(available[difficulty], parseInt(e.target.value) || 0))
+                            })}
+                            className="w-16 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+                          />
+                          <span className="text-gray-500">of {available[difficulty]}</span>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Questions are taken from every topic in turn, so the whole chapter stays covered.
+                  </p>
                 </div>
+
+                <ScoringSetup scoring={scoring} onChange={setScoring} />
+
+                {pacing === 'self_paced' && (
+                  <div className="mb-6">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Time Limit per Topic (minutes)
+                    </label>
+                    <input
+                      type="range"
+                      min="1"
+                      max="10"
+                      value={timeLimit}
+                      onChange={(e) => setTimeLimit(parseInt(e.target.value))}
+                      className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer"
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>1 min</span>
+                      <span>5 min</span>
+                      <span>10 min</span>
+                    </div>
+                    <label className="flex items-start space-x-2 mt-4 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={adaptive}
+                        onChange={(e) => setAdaptive(e.target.checked)}
+                        className="mt-0.5 rounded text-[#3A7AFE] focus:ring-[#3A7AFE]"
+                      />
+                      <span>
+                        <span className="font-medium">Adapt questions to each student</span>
+                        <span className="block text-xs text-gray-500">
+                          Students who are struggling get easier questions to build on, strong students get harder
+                          ones and move on once they've mastered a topic
+                        </span>
+                      </span>
+                    </label>
+                  </div>
+                )}
                 
                 {/* Students in Lobby section with selection and removal */}
                 <div className="bg-white p-4 rounded-lg border border-gray-200">
@@ -322,12 +534,20 @@ const GameLaunch: React.FC = () => {
                   </div>
                   
                   <div className="text-xs text-gray-500 flex items-center justify-between">
-                    <p>Students are automatically added when they join the classroom</p>
+                    <p>Students are automatically added when they join with your game code</p>
                     <p className="text-blue-600">
                       {selectedStudents.length > 0 ? `${selectedStudents.length} students selected` : ''}
                     </p>
                   </div>
                 </div>
+                
+                <TeamSetup
+                  students={students}
+                  teams={teams}
+                  assignments={teamAssignments}
+                  onTeamsChange={setTeams}
+                  onAssignmentsChange={setTeamAssignments}
+                />
               </div>
               
               <div className="flex justify-center gap-4">
@@ -375,7 +595,8 @@ const GameLaunch: React.FC = () => {
                 <div>
                   <h3 className="font-medium text-green-800">Game Session Active</h3>
                   <p className="text-sm text-green-600">
-                    Your game is now ready to start. {students.length} students in the lobby.
+                    Your game is now ready to start. {students.length} students in the lobby
+                    {gameSession && <> using code <span className="font-mono font-semibold">{gameSession.game_code}</span></>}.
                   </p>
                 </div>
               </div>
@@ -0,0 +1,85 @@
+/**
+ * Scoring Setup component for Ether Excel
+ * Lets the teacher choose how a game is scored: points per correct answer, the speed bonus, how
+ * far streaks multiply points, and whether wrong answers or timeouts cost anything
+ */
+import React from 'react';
+import { RotateCcw, Trophy } from 'lucide-react';
+import Button from '../ui/Button';
+import { ScoringConfig } from '../../types';
+import { DEFAULT_SCORING } from '../../lib/scoring';
+
+interface ScoringSetupProps {
+  // Only the choices that differ from the defaults need to be set
+  scoring: Partial<ScoringConfig>;
+  onChange: (scoring: Partial<ScoringConfig>) => void;
+}
+
+type NumberSetting = 'basePoints' | 'maxSpeedBonus' | 'maxStreakMultiplier' | 'wrongAnswerPenalty';
+
+const NUMBER_SETTINGS: { key: NumberSetting; label: string; min: number; max: number; step: number }[] = [
+  { key: 'basePoints', label: 'Points per correct answer', min: 0, max: 1000, step: 10 },
+  { key: 'maxSpeedBonus', label: 'Speed bonus for an instant answer', min: 0, max: 1000, step: 10 },
+  { key: 'maxStreakMultiplier', label: 'Highest streak multiplier', min: 1, max: 3, step: 0.1 },
+  { key: 'wrongAnswerPenalty', label: 'Points lost for a wrong answer', min: 0, max: 1000, step: 10 }
+];
+
+const ScoringSetup: React.FC<ScoringSetupProps> = ({ scoring, onChange }) => {
+  const config = { ...DEFAULT_SCORING, ...scoring };
+
+  const setNumber = (key: NumberSetting, value: string, min: number, max: number) => {
+    const parsed = parseFloat(value);
+    onChange({ ...scoring, [key]: Math.max(min, Math.min(max, Number.isNaN(parsed) ? min : parsed)) });
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="flex items-center text-sm font-medium text-gray-700">
+          <Trophy className="w-4 h-4 mr-1 text-[#3A7AFE]" />
+          Scoring
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({})}
+          disabled={Object.keys(scoring).length === 0}
+          icon={<RotateCcw className="w-4 h-4" />}
+        >
+          Defaults
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {NUMBER_SETTINGS.map(setting => (
+          <label key={setting.key} className="bg-white p-3 rounded-lg text-sm">
+            <span className="block text-xs text-gray-500 mb-2">{setting.label}</span>
+            <input
+              type="number"
+              min={setting.min}
+              max={setting.max}
+              step={setting.step}
+              value={config[setting.key]}
+              onChange={(e) => setNumber(setting.key, e.target.value, setting.min, setting.max)}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+            />
+          </label>
+        ))}
+      </div>
+      <label className="flex items-center space-x-2 mt-3 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={config.timeoutBreaksStreak}
+          onChange={(e) => onChange({ ...scoring, timeoutBreaksStreak: e.target.checked })}
+          className="rounded text-[#3A7AFE] focus:ring-[#3A7AFE]"
+        />
+        <span>Running out of time ends a streak</span>
+      </label>
+      <p className="text-xs text-gray-500 mt-1">
+        The speed bonus is off unless set, and shrinks to nothing as the question's time runs out.
+        Timeouts never lose points.
+      </p>
+    </div>
+  );
+};
+
+export default ScoringSetup;
@@ -0,0 +1,145 @@
+/**
+ * Team Setup component for Ether Excel
+ * Turns team play on or off, names the teams, and splits the lobby between them: automatically
+ * balanced, or by dragging students from one team to another
+ */
+import React, { useState } from 'react';
+import { Shuffle, Users } from 'lucide-react';
+import Button from '../ui/Button';
+import { Student, Team } from '../../types';
+import { balanceTeams, createTeams, MAX_TEAMS, MIN_TEAMS, TeamAssignments } from '../../lib/teams';
+
+interface TeamSetupProps {
+  students: Student[];
+  // null plays individually
+  teams: Team[] | null;
+  assignments: TeamAssignments;
+  onTeamsChange: (teams: Team[] | null) => void;
+  onAssignmentsChange: (assignments: TeamAssignments) => void;
+}
+
+// Drop target for students who aren't on a team
+const UNASSIGNED = 'unassigned';
+
+const TeamSetup: React.FC<TeamSetupProps> = ({ students, teams, assignments, onTeamsChange, onAssignmentsChange }) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const studentIds = students.map(student => student.id);
+
+  // Changing the teams re-balances the lobby across them
+  const changeTeams = (updated: Team[] | null) => {
+    onTeamsChange(updated);
+    if (updated) onAssignmentsChange(balanceTeams(studentIds, updated, assignments));
+  };
+
+  const renameTeam = (teamId: string, name: string) => {
+    onTeamsChange(teams!.map(team => team.id === teamId ? { ...team, name } : team));
+  };
+
+  const handleDrop = (e: React.DragEvent, teamId: string | null) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const studentId = e.dataTransfer.getData('text/plain');
+    if (studentId) onAssignmentsChange({ ...assignments, [studentId]: teamId });
+  };
+
+  const renderColumn = (key: string, title: React.ReactNode, members: Student[], teamId: string | null) => (
+    <div
+      key={key}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDropTarget(key);
+      }}
+      onDragLeave={() => setDropTarget(null)}
+      onDrop={(e) => handleDrop(e, teamId)}
+      className={`bg-white rounded-lg border-2 p-2 min-h-[6rem] ${dropTarget === key ? 'border-[#3A7AFE]' : 'border-gray-200'}`}
+    >
+      <div className="mb-2">{title}</div>
+      <div className="space-y-1">
+        {members.map(student => (
+          <div
+            key={student.id}
+            draggable
+            onDragStart={(e) => e.dataTransfer.setData('text/plain', student.id)}
+            className="px-2 py-1 text-sm bg-gray-50 rounded cursor-move hover:bg-[#EEF4FF]"
+          >
+            {student.name}
+          </div>
+        ))}
+        {members.length === 0 && <p className="text-xs text-gray-400 px-1">Drag students here</p>}
+      </div>
+    </div>
+  );
+
+  const unassigned = students.filter(student => !teams?.some(team => team.id === assignments[student.id]));
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!teams}
+            onChange={(e) => changeTeams(e.target.checked ? createTeams(MIN_TEAMS) : null)}
+            className="rounded text-[#3A7AFE] focus:ring-[#3A7AFE]"
+          />
+          <Users className="w-4 h-4 text-[#3A7AFE]" />
+          <span>Play in teams</span>
+        </label>
+        {teams && (
+          <div className="flex items-center space-x-2">
+            <select
+              value={teams.length}
+              onChange={(e) => changeTeams(createTeams(parseInt(e.target.value), teams))}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+            >
+              {Array.from({ length: MAX_TEAMS - MIN_TEAMS + 1 }, (_, i) => MIN_TEAMS + i).map(count => (
+                <option key={count} value={count}>{count} teams</option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onAssignmentsChange(balanceTeams(studentIds, teams, {}))}
+              disabled={students.length === 0}
+              icon={<Shuffle className="w-4 h-4" />}
+            >
+              Auto-balance
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {teams && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {teams.map(team => renderColumn(
+              team.id,
+              <div className="flex items-center space-x-2">
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: team.color }} />
+                <input
+                  type="text"
+                  value={team.name}
+                  onChange={(e) => renameTeam(team.id, e.target.value)}
+                  className="flex-1 min-w-0 px-1 py-0.5 text-sm font-medium border border-transparent rounded hover:border-gray-300 focus:outline-none focus:border-[#3A7AFE]"
+                />
+              </div>,
+              students.filter(student => assignments[student.id] === team.id),
+              team.id
+            ))}
+            {unassigned.length > 0 && renderColumn(
+              UNASSIGNED,
+              <p className="text-sm font-medium text-gray-500">Not on a team</p>,
+              unassigned,
+              null
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Drag students between teams. Anyone not on a team, or joining later, goes on the smallest team.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TeamSetup;
@@ -0,0 +1,200 @@
+/**
+ * Answer Input component for Ether Excel
+ * Lets a student answer the question types other than multiple choice, encoding the answer
+ * the way the server grades it
+ */
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Send } from 'lucide-react';
+import Button from '../ui/Button';
+import { decodeIndexes, encodeIndexes } from '../../lib/question-types';
+import { PlayerQuestion } from '../../types';
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE] disabled:bg-gray-50';
+
+interface AnswerInputProps {
+  question: PlayerQuestion;
+  // The answer already submitted, shown in place of a fresh input
+  response: string | null;
+  locked: boolean;
+  onSubmit: (response: string) => void;
+}
+
+const AnswerInput: React.FC<AnswerInputProps> = ({ question, response, locked, onSubmit }) => {
+  const content = question.content ?? {};
+  const items = content.items ?? [];
+  const left = content.left ?? [];
+  const right = content.right ?? [];
+  const submittedIndexes = response ? decodeIndexes(response) : null;
+
+  const [text, setText] = useState(response && response !== 'timeout' ? response : '');
+  const [selected, setSelected] = useState<number[]>(
+    question.question_type === 'multi_select' ? submittedIndexes ?? [] : []
+  );
+  const [order, setOrder] = useState<number[]>(
+    question.question_type === 'ordering' && submittedIndexes ? submittedIndexes : items.map((_, i) => i)
+  );
+  const [matches, setMatches] = useState<number[]>(
+    question.question_type === 'matching' && submittedIndexes ? submittedIndexes : left.map(() => -1)
+  );
+
+  const submitButton = (disabled: boolean, onClick: () => void) => (
+    <Button fullWidth onClick={onClick} disabled={locked || disabled} icon={<Send className="w-4 h-4" />}>
+      Submit answer
+    </Button>
+  );
+
+  switch (question.question_type) {
+    case 'true_false':
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {['true', 'false'].map(value => (
+            <button
+              key={value}
+              className={`p-4 rounded-lg border font-medium ${
+                response === value
+                  ? 'border-[#3A7AFE] bg-[#EEF4FF] text-[#3A7AFE]'
+                  : 'border-gray-300 bg-white hover:bg-gray-50'
+              } ${locked ? 'cursor-default' : 'cursor-pointer'}`}
+              onClick={() => !locked && onSubmit(value)}
+              disabled={locked}
+            >
+              {value === 'true' ? 'True' : 'False'}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'multi_select':
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Select all that apply.</p>
+          {(content.options ?? []).map((option, index) => (
+            <label
+              key={index}
+              className={`flex items-center p-3 rounded-lg border ${
+                selected.includes(index) ? 'border-[#3A7AFE] bg-[#EEF4FF]' : 'border-gray-300 bg-white'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(index)}
+                onChange={() => setSelected(selected.includes(index)
+                  ? selected.filter(i => i !== index)
+                  : [...selected, index])}
+                disabled={locked}
+                className="mr-3 rounded text-[#3A7AFE] focus:ring-[#3A7AFE]"
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+          {submitButton(selected.length === 0, () => onSubmit(encodeIndexes([...selected].sort((a, b) => a - b))))}
+        </div>
+      );
+
+    case 'numeric':
+      return (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              disabled={locked}
+              placeholder="Your answer"
+              className={INPUT_CLASS}
+            />
+            {content.unit && <span className="text-gray-600">{content.unit}</span>}
+          </div>
+          {submitButton(!text.trim() || !Number.isFinite(Number(text)), () => onSubmit(text.trim()))}
+        </div>
+      );
+
+    case 'short_text':
+      return (
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            disabled={locked}
+            maxLength={200}
+            placeholder="Your answer"
+            className={INPUT_CLASS}
+          />
+          {submitButton(!text.trim(), () => onSubmit(text.trim()))}
+        </div>
+      );
+
+    case 'ordering': {
+      const move = (position: number, direction: -1 | 1) => {
+        const target = position + direction;
+        if (target < 0 || target >= order.length) return;
+        const updated = [...order];
+        [updated[position], updated[target]] = [updated[target], updated[position]];
+        setOrder(updated);
+      };
+
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Put these in the right order.</p>
+          {order.map((itemIndex, position) => (
+            <div key={itemIndex} className="flex items-center p-3 rounded-lg border border-gray-300 bg-white">
+              <span className="w-6 text-sm font-medium text-gray-500">{position + 1}.</span>
+              <span className="flex-1">{items[itemIndex]}</span>
+              {!locked && (
+                <>
+                  <button
+                    className="p-1 text-gray-400 hover:text-[#3A7AFE] disabled:opacity-50"
+                    onClick={() => move(position, -1)}
+                    disabled={position === 0}
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    className="p-1 text-gray-400 hover:text-[#3A7AFE] disabled:opacity-50"
+                    onClick={() => move(position, 1)}
+                    disabled={position === order.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+          {submitButton(false, () => onSubmit(encodeIndexes(order)))}
+        </div>
+      );
+    }
+
+    case 'matching':
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Match each item with its partner.</p>
+          {left.map((item, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <span className="flex-1">{item}</span>
+              <select
+                value={matches[index] ?? -1}
+                onChange={(e) => setMatches(matches.map((m, i) => (i === index ? Number(e.target.value) : m)))}
+                disabled={locked}
+                className={`flex-1 ${INPUT_CLASS}`}
+              >
+                <option value={-1}>Choose...</option>
+                {right.map((option, optionIndex) => (
+                  <option key={optionIndex} value={optionIndex}>{option}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          {submitButton(matches.some(m => m < 0), () => onSubmit(encodeIndexes(matches)))}
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export default AnswerInput;
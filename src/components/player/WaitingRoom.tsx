@@ -1,16 +1,74 @@
 /**
  * Waiting Room component for Ether Excel
- * Student-facing component for waiting to join the game and play the quiz
+ * Student-facing component for waiting to join the game and play the quiz. After each answer,
+ * and in the review at the end, students see why the answer is right and theirs was wrong.
+ * In adaptive games each student's next question is chosen from how they've answered so far.
+ * A student who reloads or drops mid-game is put back on the question they were on. In team
+ * games students see their team's color and where it stands.
  */
-import React, { useEffect, useState, useRef } from 'react';
-import { Clock, Users, RefreshCw, CheckCircle, AlertCircle, ArrowRight, Timer, ThumbsUp, ThumbsDown } from 'lucide-react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { Clock, Users, RefreshCw, CheckCircle, AlertCircle, ArrowRight, Timer, ThumbsUp, ThumbsDown, Lightbulb, XCircle } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/Card';
 import Button from '../ui/Button';
-import { getAllStudents, updateStudentStatus, saveStudentResponse } from '../../services/database';
-import { Student, Question, Topic } from '../../types';
+import {
+  getStudentsBySession,
+  getPlayerSession,
+  getTeamStandings,
+  updateStudentStatus,
+  getTopicsByChapterId,
+  getPlayerQuestionsByTopicId,
+  openQuestion,
+  submitAnswer,
+  getStudentScoringResponses,
+  getAnswerReview,
+  getPlayerProgress
+} from '../../services/database';
+import { AnswerResult, AnswerReviewItem, Student, Topic, LiveLeaderboardEntry, LiveState, PlayerQuestion, PlayerQuestionSummary, ScoringConfig, TeamStanding, TopicMastery } from '../../types';
 import { useAuth } from '../../context/AuthContext';
 import { useAppContext } from '../../context/AppContext';
 import { supabase } from '../../lib/supabase';
+import { subscribeToLiveGame } from '../../lib/live-game';
+import { getScoringConfig, scoreResponses, ScoreSummary } from '../../lib/scoring';
+import { describeCorrectAnswer, describeResponse, getResponseDistractorExplanations, isCorrectResponse } from '../../lib/question-types';
+import { getSessionQuestions, getSessionTopics } from '../../lib/question-mix';
+import { chooseNextQuestion, getOverallAbility, isTopicMastered, startEstimate, updateEstimate } from '../../lib/adaptive';
+import { findResumePoint } from '../../lib/player-progress';
+import { formatRank } from '../../lib/teams';
+import AnswerInput from './AnswerInput';
+
+// The answer key a student sees once the answer may be shown
+type AnswerKey = Pick<AnswerResult, 'correct_option' | 'answer' | 'explanation' | 'distractor_explanations'>;
+
+// Why the answer is right and, for a wrong answer, why the student's choice isn't
+const AnswerExplanation: React.FC<{
+  question: Pick<PlayerQuestion, 'question_type'>,
+  response: string | null,
+  isCorrect: boolean,
+  explanation: string | null,
+  distractorExplanations: Record<string, string> | null
+}> = ({ question, response, isCorrect, explanation, distractorExplanations }) => {
+  const wrongReasons = isCorrect
+    ? []
+    : getResponseDistractorExplanations(question.question_type, response, distractorExplanations);
+  if (!explanation && wrongReasons.length === 0) return null;
+
+  return (
+    <div className="p-4 rounded-lg bg-white border border-gray-200 text-sm text-gray-700 space-y-2">
+      {wrongReasons.map((reason, index) => (
+        <p key={index} className="flex items-start">
+          <XCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-red-500" />
+          <span>{reason}</span>
+        </p>
+      ))}
+      {explanation && (
+        <p className="flex items-start">
+          <Lightbulb className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-[#3A7AFE]" />
+          <span>{explanation}</span>
+        </p>
+      )}
+    </div>
+  );
+};
 
 // Timer component for the question countdown
 const QuestionTimer: React.FC<{ timeLeft: number, totalTime: number }> = ({ timeLeft, totalTime }) => {
@@ -34,7 +92,11 @@ const QuestionTimer: React.FC<{ timeLeft: number, totalTime: number }> = ({ time
 };
 
 // Narrative screen component to show topic introduction
-const NarrativeScreen: React.FC<{topic: Topic, onContinue: () => void}> = ({ topic, onContinue }) => {
+// Without onContinue (teacher-paced games) the teacher moves everyone on
+const NarrativeScreen: React.FC<{
+  topic: Pick<Topic, 'topic_name' | 'topic_narrative'>,
+  onContinue?: () => void
+}> = ({ topic, onContinue }) => {
   return (
     <div className="min-h-screen flex items-center justify-center bg-[#EEF4FF] p-4">
       <Card className="w-full max-w-lg animate-fadeIn">
@@ -52,15 +114,21 @@ const NarrativeScreen: React.FC<{topic: Topic, onContinue: () => void}> = ({ top
               </p>
             </div>
             
-            <Button 
-              onClick={onContinue}
-              fullWidth
-              size="lg"
-              icon={<ArrowRight className="w-4 h-4 ml-2" />}
-              iconPosition="right"
-            >
-              Begin Questions
-            </Button>
+            {onContinue ? (
+              <Button 
+                onClick={onContinue}
+                fullWidth
+                size="lg"
+                icon={<ArrowRight className="w-4 h-4 ml-2" />}
+                iconPosition="right"
+              >
+                Begin Questions
+              </Button>
+            ) : (
+              <p className="text-center text-sm text-gray-500">
+                Your teacher will show the first question shortly
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -69,40 +137,56 @@ const NarrativeScreen: React.FC<{topic: Topic, onContinue: () => void}> = ({ top
 };
 
 // Question screen component with timer and options
+// answerKey is only passed once the answer may be shown; locked stops further answers;
+// onContinue lets the student move on once they've read the explanation
 const QuestionScreen: React.FC<{
-  question: Question, 
+  question: PlayerQuestion, 
   onAnswer: (option: string) => void,
-  answered: boolean,
   selectedOption: string | null,
-  isCorrect: boolean | null,
-  timeLeft: number,
-  totalTime: number
+  answerKey: AnswerKey | null,
+  locked: boolean,
+  lockedMessage?: string,
+  timeLeft?: number,
+  totalTime?: number,
+  onContinue?: () => void
 }> = ({ 
   question, 
   onAnswer, 
-  answered, 
   selectedOption, 
-  isCorrect,
+  answerKey,
+  locked,
+  lockedMessage,
   timeLeft,
-  totalTime
+  totalTime,
+  onContinue
 }) => {
+  const revealed = answerKey !== null;
+  const correctOption = answerKey?.correct_option ?? null;
+  const isCorrect = revealed && isCorrectResponse(question.question_type, selectedOption, correctOption, answerKey.answer);
+  const isMultipleChoice = question.question_type === 'multiple_choice';
+  
   return (
     <div className="min-h-screen flex items-center justify-center bg-[#EEF4FF] p-4">
       <Card className="w-full max-w-lg">
         <CardHeader>
           <CardTitle>Question</CardTitle>
           <CardDescription>
-            Select the correct option
+            {isMultipleChoice ? 'Select the correct option' : 'Answer the question'}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
             {/* Timer */}
-            <QuestionTimer timeLeft={timeLeft} totalTime={totalTime} />
+            {timeLeft !== undefined && totalTime !== undefined && (
+              <QuestionTimer timeLeft={timeLeft} totalTime={totalTime} />
+            )}
             
             <div className="bg-white rounded-lg p-6 border border-gray-200">
               <p className="text-lg font-medium mb-6">{question.question_stem}</p>
               
+              {!isMultipleChoice ? (
+                <AnswerInput key={question.id} question={question} response={selectedOption} locked={locked} onSubmit={onAnswer} />
+              ) : (
               <div className="space-y-3">
                 {[
                   { id: 'A', text: question.option_a },
@@ -112,61 +196,83 @@ const QuestionScreen: React.FC<{
                 ].map((option) => {
                   // Determine button styling based on answer state
                   let buttonStyle = "border border-gray-300 bg-white hover:bg-gray-50";
+                  let badgeStyle = "border-gray-300 bg-white text-gray-700";
                   
-                  if (answered && selectedOption === option.id) {
-                    buttonStyle = isCorrect 
-                      ? "border-green-500 bg-green-50 text-green-700" 
-                      : "border-red-500 bg-red-50 text-red-700";
+                  if (selectedOption === option.id) {
+                    if (!revealed) {
+                      buttonStyle = "border-[#3A7AFE] bg-[#EEF4FF] text-[#3A7AFE]";
+                      badgeStyle = "border-[#3A7AFE] bg-[#3A7AFE] text-white";
+                    } else if (!isCorrect) {
+                      buttonStyle = "border-red-500 bg-red-50 text-red-700";
+                      badgeStyle = "border-red-500 bg-red-500 text-white";
+                    }
                   }
                   
-                  if (answered && option.id === question.correct_option && selectedOption !== option.id) {
+                  if (revealed && option.id === correctOption) {
                     buttonStyle = "border-green-500 bg-green-50 text-green-700";
+                    badgeStyle = "border-green-500 bg-green-500 text-white";
                   }
                   
                   return (
                     <button
                       key={option.id}
                       className={`w-full p-4 rounded-lg text-left flex items-center justify-between ${buttonStyle} ${
-                        answered ? "cursor-default" : "cursor-pointer"
+                        locked ? "cursor-default" : "cursor-pointer"
                       } option-button`}
-                      onClick={() => !answered && onAnswer(option.id)}
-                      disabled={answered}
+                      onClick={() => !locked && onAnswer(option.id)}
+                      disabled={locked}
                     >
                       <div className="flex items-center">
-                        <div className={`w-8 h-8 rounded-full flex items-center justify-center mr-3 border ${
-                          answered && selectedOption === option.id
-                            ? isCorrect 
-                              ? "border-green-500 bg-green-500 text-white"
-                              : "border-red-500 bg-red-500 text-white"
-                            : answered && option.id === question.correct_option
-                              ? "border-green-500 bg-green-500 text-white"
-                              : "border-gray-300 bg-white text-gray-700"
-                        }`}>
+                        <div className={`w-8 h-8 rounded-full flex items-center justify-center mr-3 border ${badgeStyle}`}>
                           {option.id}
                         </div>
                         <span>{option.text}</span>
                       </div>
                       
-                      {answered && option.id === question.correct_option && (
+                      {revealed && option.id === correctOption && (
                         <CheckCircle className="w-5 h-5 text-green-500" />
                       )}
-                      {answered && selectedOption === option.id && !isCorrect && (
+                      {revealed && selectedOption === option.id && !isCorrect && (
                         <AlertCircle className="w-5 h-5 text-red-500" />
                       )}
                     </button>
                   );
                 })}
               </div>
+              )}
             </div>
             
-            {answered && (
-              <div className={`p-4 rounded-lg flex items-center ${
-                isCorrect ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
-              }`}>
-                {isCorrect 
-                  ? <><ThumbsUp className="w-5 h-5 mr-2" /> Correct! Well done!</>
-                  : <><ThumbsDown className="w-5 h-5 mr-2" /> Incorrect. The correct answer is {question.correct_option}.</>
-                }
+            {revealed ? (
+              <>
+                <div className={`p-4 rounded-lg flex items-center ${
+                  isCorrect ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                }`}>
+                  {isCorrect 
+                    ? <><ThumbsUp className="w-5 h-5 mr-2" /> Correct! Well done!</>
+                    : <><ThumbsDown className="w-5 h-5 mr-2" /> Incorrect. The correct answer is {isMultipleChoice
+                        ? correctOption
+                        : describeCorrectAnswer(question, correctOption, answerKey.answer)}.</>
+                  }
+                </div>
+                <AnswerExplanation
+                  question={question}
+                  response={selectedOption}
+                  isCorrect={isCorrect}
+                  explanation={answerKey.explanation}
+                  distractorExplanations={answerKey.distractor_explanations}
+                />
+                {onContinue && (
+                  <Button onClick={onContinue} fullWidth>
+                    Continue
+                  </Button>
+                )}
+              </>
+            ) : locked && (
+              <div className="p-4 rounded-lg flex items-center bg-[#EEF4FF] text-[#3A7AFE]">
+                <Clock className="w-5 h-5 mr-2" />
+                {lockedMessage || (selectedOption
+                  ? 'Answer locked in. Waiting for your teacher to reveal the answer.'
+                  : 'Answers are closed. Waiting for your teacher to reveal the answer.')}
               </div>
             )}
           </div>
@@ -176,9 +282,91 @@ const QuestionScreen: React.FC<{
   );
 };
 
+// Leaderboard screen shown when the teacher shares standings in a teacher-paced game
+const LeaderboardScreen: React.FC<{entries: LiveLeaderboardEntry[], currentStudentId?: string}> = ({ entries, currentStudentId }) => {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#EEF4FF] p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle>Leaderboard</CardTitle>
+          <CardDescription>
+            Top players so far
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length > 0 ? (
+            <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg overflow-hidden">
+              {entries.map((entry, index) => (
+                <div
+                  key={entry.studentId}
+                  className={`p-3 flex items-center justify-between ${
+                    entry.studentId === currentStudentId ? 'bg-[#EEF4FF]' : 'bg-white'
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <div className="w-6 h-6 rounded-full bg-[#3A7AFE] text-white flex items-center justify-center text-xs mr-3">
+                      {index + 1}
+                    </div>
+                    <span className="font-medium">
+                      {entry.studentName}
+                      {entry.studentId === currentStudentId && ' (You)'}
+                    </span>
+                  </div>
+                  <span className="text-sm font-semibold text-[#3A7AFE]">{entry.score} pts</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-500">No scores yet</p>
+          )}
+          <p className="text-center text-sm text-gray-500 mt-4">The next question is coming up soon.</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
 // Results screen component to show at the end of the game
-const ResultsScreen: React.FC<{correctAnswers: number, totalQuestions: number}> = ({ correctAnswers, totalQuestions }) => {
-  const score = Math.round((correctAnswers / totalQuestions) * 100);
+// Scores come from the server-graded responses, scored the same way as the teacher's leaderboard
+const ResultsScreen: React.FC<{
+  studentId?: string,
+  playerToken?: string,
+  totalQuestions: number,
+  scoringConfig: ScoringConfig
+}> = ({ studentId, playerToken, totalQuestions, scoringConfig }) => {
+  const [summary, setSummary] = useState<ScoreSummary | null>(null);
+  const [loadingScore, setLoadingScore] = useState(Boolean(studentId));
+  const [review, setReview] = useState<AnswerReviewItem[]>([]);
+  
+  useEffect(() => {
+    if (!studentId) return;
+    
+    const fetchScore = async () => {
+      try {
+        const responses = await getStudentScoringResponses(studentId, playerToken);
+        setSummary(scoreResponses(responses, scoringConfig));
+      } catch (error) {
+        console.error('Error loading results:', error);
+      } finally {
+        setLoadingScore(false);
+      }
+    };
+    
+    // The review is extra; the score is still shown if it can't be loaded
+    const fetchReview = async () => {
+      try {
+        setReview(await getAnswerReview(studentId, playerToken));
+      } catch (error) {
+        console.error('Error loading answer review:', error);
+      }
+    };
+    
+    fetchScore();
+    fetchReview();
+  }, [studentId]);
+  
+  const correctAnswers = summary?.correctAnswers || 0;
+  const percentage = totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0;
   
   return (
     <div className="min-h-screen flex items-center justify-center bg-[#EEF4FF] p-4">
@@ -195,17 +383,64 @@ const ResultsScreen: React.FC<{correctAnswers: number, totalQuestions: number}>
               <CheckCircle className="w-12 h-12 text-green-500" />
             </div>
             
-            <div>
-              <p className="text-2xl font-bold">{score}%</p>
-              <p className="text-lg mt-2">
-                You got {correctAnswers} out of {totalQuestions} questions correct
-              </p>
-            </div>
+            {loadingScore ? (
+              <p className="text-gray-500">Adding up your score...</p>
+            ) : summary ? (
+              <div>
+                <p className="text-2xl font-bold">{summary.score} points</p>
+                <p className="text-lg mt-2">
+                  You got {correctAnswers} out of {totalQuestions} questions correct ({percentage}%)
+                </p>
+                <div className="flex justify-center space-x-6 mt-4 text-sm text-gray-600">
+                  <span>Best streak: {summary.bestStreak}</span>
+                  {summary.averageResponseMs !== null && (
+                    <span>Average time: {(summary.averageResponseMs / 1000).toFixed(1)}s</span>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-gray-500">Your score couldn't be loaded.</p>
+            )}
             
             <p className="text-gray-600">
               Thank you for playing! Your teacher will share the results soon.
             </p>
           </div>
+          
+          {review.length > 0 && (
+            <div className="mt-6 text-left">
+              <h3 className="font-medium mb-3">Review your answers</h3>
+              <div className="space-y-4">
+                {review.map((item, index) => (
+                  <div key={item.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                    <p className="text-sm font-medium flex items-start">
+                      {item.is_correct
+                        ? <CheckCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-green-500" />
+                        : <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-red-500" />}
+                      <span>{index + 1}. {item.question_stem}</span>
+                    </p>
+                    <div className="text-sm pl-6 space-y-1">
+                      <p className={item.is_correct ? 'text-green-700' : 'text-red-700'}>
+                        Your answer: {describeResponse(item, item.selected_option)}
+                      </p>
+                      {!item.is_correct && (
+                        <p className="text-green-700">
+                          Correct answer: {describeCorrectAnswer(item, item.correct_option, item.answer)}
+                        </p>
+                      )}
+                    </div>
+                    <AnswerExplanation
+                      question={item}
+                      response={item.selected_option}
+                      isCorrect={item.is_correct}
+                      explanation={item.explanation}
+                      distractorExplanations={item.distractor_explanations}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -216,38 +451,119 @@ const WaitingRoom: React.FC = () => {
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { authState } = useAuth();
-  const { gameState, setGameState, topics, questions, gameSession } = useAppContext();
+  const { authState, student } = useAuth();
+  const { gameState, setGameState, gameSession, setGameSession } = useAppContext();
+  const sessionId = student?.session_id || null;
+  const isLive = gameSession?.pacing === 'teacher_paced';
+  const isAdaptive = !isLive && !!gameSession?.adaptive;
   
   // Countdown state for game start (5 seconds)
   const [countdown, setCountdown] = useState<number | null>(null);
   const countdownTimerRef = useRef<number | null>(null);
+  // The session's last known status, to tell the game starting from later updates to it
+  const sessionStatusRef = useRef(gameSession?.status);
+  
+  // The chapter being played; questions come without the answer key, which stays on the server
+  const [chapterTopics, setTopics] = useState<Topic[]>([]);
+  const [chapterQuestions, setQuestions] = useState<Record<string, PlayerQuestionSummary[]>>({});
+  // Only the questions the teacher chose for this game, and the topics they're in
+  const questions = useMemo(
+    () => getSessionQuestions(chapterQuestions, gameSession?.question_ids),
+    [chapterQuestions, gameSession?.question_ids]
+  );
+  const topics = useMemo(
+    () => getSessionTopics(chapterTopics, questions, gameSession?.question_ids),
+    [chapterTopics, questions, gameSession?.question_ids]
+  );
   
   // Game flow state
   const [currentTopicIndex, setCurrentTopicIndex] = useState(0);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  // Adaptive games: ids of the questions asked in the current topic, in order, and the
+  // student's ability estimate on each topic (a ref, so the delayed move to the next
+  // question sees the answer just graded)
+  const [askedIds, setAskedIds] = useState<string[]>([]);
+  const estimatesRef = useRef<Record<string, TopicMastery>>({});
+  
+  // Resuming after a reload: whether it's been tried, whether to skip the topic's narrative, and
+  // the time left on a question that was already on screen
+  const resumedRef = useRef(false);
+  const skipNarrativeRef = useRef(false);
+  const resumeSecondsRef = useRef<number | null>(null);
   const [showingNarrative, setShowingNarrative] = useState(false);
   const [answered, setAnswered] = useState(false);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
-  const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  // Correct option returned by the server once a self-paced answer is graded
+  const [answerKey, setAnswerKey] = useState<AnswerKey | null>(null);
+  const [answerError, setAnswerError] = useState<string | null>(null);
+  // Pending open_question call for the question on screen; answers wait for it so they're never early
+  const openingRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Self-paced games: the question on screen, which only the server's opening of it returns
+  const [openedQuestion, setOpenedQuestion] = useState<PlayerQuestion | null>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [openAttempt, setOpenAttempt] = useState(0);
   
   // User stats
-  const [correctAnswers, setCorrectAnswers] = useState(0);
   const [totalAnswered, setTotalAnswered] = useState(0);
   
-  // Question timer state (60 seconds per question)
-  const [questionTimeLeft, setQuestionTimeLeft] = useState(60);
+  // Question timer state (60 seconds per question unless the session says otherwise)
+  const questionTime = gameSession?.question_seconds || 60;
+  const [questionTimeLeft, setQuestionTimeLeft] = useState(questionTime);
   const questionTimerRef = useRef<number | null>(null);
-  const QUESTION_TIME = 60; // 60 seconds per question
+  
+  // Teacher-paced games: the screen the teacher is showing and this student's answers by question id
+  const [liveState, setLiveState] = useState<LiveState | null>(null);
+  const [liveAnswers, setLiveAnswers] = useState<Record<string, string>>({});
+  
+  // Team games: the latest standings from the teacher's leaderboard
+  const [teamStandings, setTeamStandings] = useState<TeamStanding[]>([]);
+  
+  // Apply a live state unless a newer one has already arrived
+  const applyLiveState = (state: LiveState | null | undefined) => {
+    if (!state) return;
+    setLiveState(prev => (prev && prev.sentAt > state.sentAt ? prev : state));
+  };
+  
+  // Re-read the student's session: players can't subscribe to it, so its status and the teacher's
+  // screen are polled, and fetched straight away when the teacher announces a change
+  const refreshSession = async () => {
+    const session = await getPlayerSession(student!.id, student!.player_token);
+    const previousStatus = sessionStatusRef.current;
+    sessionStatusRef.current = session.status;
+    setGameSession(prev => (JSON.stringify(prev) === JSON.stringify(session) ? prev : session));
+    
+    // Teacher-paced games store each screen on the session; only that copy is ever shown
+    applyLiveState(session.live_state);
+    
+    // If game session status changes to in_progress, start the countdown; later updates to
+    // the running game (the teacher's screen, standings) mustn't restart it
+    if (session.status === 'in_progress' && previousStatus && previousStatus !== 'in_progress') {
+      startCountdownIfWaiting();
+    }
+    return session;
+  };
   
   // Poll for updates and set up subscription
   useEffect(() => {
+    if (!sessionId) {
+      setError('You are not part of a game session. Please join again with your game code.');
+      setLoading(false);
+      return;
+    }
+    
     const fetchData = async () => {
       try {
-        // Get all students
-        const studentsData = await getAllStudents();
+        // Get the students in this session only
+        const studentsData = await getStudentsBySession(sessionId);
         setStudents(studentsData);
         
+        const session = await refreshSession();
+        
+        // Team games: see how the teams stand
+        if (session.teams?.length) {
+          setTeamStandings(await getTeamStandings(student!.id, student!.player_token));
+        }
+        
         setLoading(false);
       } catch (error) {
         console.error('Error fetching lobby data:', error);
@@ -259,65 +575,129 @@ const WaitingRoom: React.FC = () => {
     // Initial fetch
     fetchData();
     
-    // Subscribe to students changes
+    // Subscribe to changes for students in this session
     const studentSubscription = supabase
-      .channel('public:students')
+      .channel(`students:${sessionId}`)
       .on('postgres_changes', { 
         event: 'UPDATE', 
         schema: 'public', 
-        table: 'students' 
+        table: 'students',
+        filter: `session_id=eq.${sessionId}`
       }, (payload) => {
         console.log('Student update received:', payload);
         
         // Check if the current student is changing to playing status
         if (authState.user && payload.new.id === authState.user.id && payload.new.status === 'playing') {
-          // Start countdown
-          setGameState({
-            ...gameState,
-            status: 'countdown'
-          });
-        }
-      })
-      .subscribe();
-    
-    // Subscribe to game_sessions changes - this is the reliable way to detect game start
-    const sessionSubscription = supabase
-      .channel('public:game_sessions')
-      .on('postgres_changes', { 
-        event: 'UPDATE', 
-        schema: 'public', 
-        table: 'game_sessions' 
-      }, (payload) => {
-        console.log('Game session update received:', payload);
-        
-        // If game session status changes to in_progress, start the countdown
-        if (payload.new.status === 'in_progress') {
-          setGameState({
-            ...gameState,
-            status: 'countdown'
-          });
+          // Start countdown, and pick up the session the teacher just started
+          startCountdownIfWaiting();
+          refreshSession().catch(error => console.error('Error refreshing game session:', error));
         }
       })
       .subscribe();
     
-    // Set up polling for students
+    // Set up polling for students and the session
     const interval = window.setInterval(fetchData, 5000);
     
     return () => {
       clearInterval(interval);
       supabase.removeChannel(studentSubscription);
-      supabase.removeChannel(sessionSubscription);
     };
-  }, []);
+  }, [sessionId]);
 
+  // Load the chapter's topics and questions once the session is known
+  useEffect(() => {
+    const chapterId = gameSession?.chapter_id;
+    if (!chapterId || chapterTopics[0]?.chapter_id === chapterId) return;
+    
+    const loadGameContent = async () => {
+      try {
+        const topicsData = await getTopicsByChapterId(chapterId);
+        const questionsData: Record<string, PlayerQuestionSummary[]> = {};
+        for (const topic of topicsData) {
+          questionsData[topic.id] = await getPlayerQuestionsByTopicId(topic.id);
+        }
+        
+        setTopics(topicsData);
+        setQuestions(questionsData);
+      } catch (error) {
+        console.error('Error loading game content:', error);
+        setError('Could not load the game questions. Please try again.');
+      }
+    };
+    
+    loadGameContent();
+  }, [gameSession?.chapter_id]);
+  
+  // Follow the teacher's screen in teacher-paced games
+  useEffect(() => {
+    if (!sessionId || !isLive) return;
+    
+    return subscribeToLiveGame(sessionId, () => {
+      refreshSession().catch(error => console.error('Error refreshing game session:', error));
+    });
+  }, [sessionId, isLive]);
+  
+  // Students who join a teacher-paced game after it started go straight to the current screen
+  useEffect(() => {
+    if (isLive && gameSession?.status === 'in_progress' && gameState.status === 'waiting') {
+      setGameState({
+        ...gameState,
+        status: 'playing'
+      });
+    }
+  }, [isLive, gameSession?.status]);
+  
+  // Students who reload or drop mid-game pick up where they left off
+  useEffect(() => {
+    if (resumedRef.current || !authState.user || gameSession?.status !== 'in_progress' || gameState.status !== 'waiting') return;
+    // Self-paced games need the questions to find their place in
+    if (!isLive && topics.length === 0) return;
+    
+    resumedRef.current = true;
+    resumeGame(authState.user.id);
+  }, [gameSession?.status, topics, isLive, error]);
+  
+  const resumeGame = async (studentId: string) => {
+    try {
+      const progress = await getPlayerProgress(studentId, student?.player_token);
+      setTotalAnswered(progress.answered.length);
+      
+      // Teacher-paced games follow the teacher's screen; just remember what was answered
+      if (isLive) {
+        setLiveAnswers(Object.fromEntries(progress.answered.map(response => [response.question_id, response.selected_option])));
+        return;
+      }
+      
+      const point = findResumePoint(topics, questions, progress, isAdaptive);
+      if (point.finished) {
+        setGameState({ ...gameState, status: 'results' });
+        return;
+      }
+      
+      console.log(`Resuming at topic ${point.topicIndex + 1}, question ${point.questionIndex + 1}`);
+      estimatesRef.current = point.estimates;
+      setAskedIds(point.askedIds);
+      setCurrentTopicIndex(point.topicIndex);
+      setCurrentQuestionIndex(point.questionIndex);
+      skipNarrativeRef.current = !point.showNarrative;
+      resumeSecondsRef.current = point.secondsLeft;
+      setGameState({ ...gameState, status: 'playing' });
+    } catch (error) {
+      console.error('Error resuming game:', error);
+      resumedRef.current = false;
+      setError('Could not rejoin your game. Please try again.');
+    }
+  };
+  
   // Handle game state changes
   useEffect(() => {
     if (gameState.status === 'countdown') {
       // Start countdown from 5 seconds
       startCountdown();
     } else if (gameState.status === 'playing') {
-      // Show narrative for first topic
-      setShowingNarrative(true);
+      // Show the topic's narrative first, unless resuming part way through it
+      setShowingNarrative(!skipNarrativeRef.current);
+      skipNarrativeRef.current = false;
     }
   }, [gameState.status]);
 
@@ -333,19 +713,40 @@ const WaitingRoom: React.FC = () => {
   
   // Question timer effect
   useEffect(() => {
-    // Start timer when a new question is shown (not during narrative)
-    if (gameState.status === 'playing' && !showingNarrative && !answered) {
-      startQuestionTimer();
-    }
+    // Open a new question on the server when it's due (not during narrative); it arrives with
+    // the server's clock already running, so the timer starts then too
+    if (gameState.status !== 'playing' || isLive || showingNarrative || answered) return;
+    const currentQuestion = getCurrentQuestion();
+    if (!currentQuestion || !authState.user) return;
+    
+    let cancelled = false;
+    setOpenedQuestion(null);
+    setOpenError(null);
+    openingRef.current = openQuestion(authState.user.id, student?.player_token, currentQuestion.id)
+      .then(question => {
+        if (cancelled) return;
+        setOpenedQuestion(question);
+        startQuestionTimer();
+      })
+      .catch(error => {
+        console.error('Error opening question:', error);
+        if (!cancelled) setOpenError('This question could not be loaded.');
+      });
     
     return () => {
       // Clean up timer on unmount or when moving to next question
+      cancelled = true;
       if (questionTimerRef.current) {
         clearInterval(questionTimerRef.current);
       }
     };
-  }, [gameState.status, showingNarrative, currentQuestionIndex, answered]);
+  }, [gameState.status, isLive, showingNarrative, currentQuestionIndex, answered, openAttempt]);
 
+  // Only students still in the lobby count down; anyone already playing or resuming carries on
+  const startCountdownIfWaiting = () => {
+    setGameState(prev => prev.status === 'waiting' ? { ...prev, status: 'countdown' } : prev);
+  };
+  
   // Start countdown from 5 to 0
   const startCountdown = () => {
     // Start with 5 seconds
@@ -359,12 +760,10 @@ const WaitingRoom: React.FC = () => {
             clearInterval(countdownTimerRef.current);
           }
           
-          // Set game state to playing after countdown finishes
+          // Hide the overlay and set game state to playing after countdown finishes
           setTimeout(() => {
-            setGameState({
-              ...gameState,
-              status: 'playing'
-            });
+            setCountdown(null);
+            setGameState(prev => ({ ...prev, status: 'playing' }));
           }, 1000);
           
           return 0;
@@ -376,7 +775,9 @@ const WaitingRoom: React.FC = () => {
   
   // Start the 60-second timer for questions
   const startQuestionTimer = () => {
-    setQuestionTimeLeft(QUESTION_TIME);
+    // A question that was on screen before a reload keeps the time it had left
+    setQuestionTimeLeft(resumeSecondsRef.current ?? questionTime);
+    resumeSecondsRef.current = null;
     
     questionTimerRef.current = window.setInterval(() => {
       setQuestionTimeLeft(prev => {
@@ -393,6 +794,53 @@ const WaitingRoom: React.FC = () => {
     }, 1000);
   };
   
+  // Send a self-paced answer ('timeout' if time ran out) for grading, then move on
+  const submitSelfPacedAnswer = async (questionId: string, option: string) => {
+    try {
+      if (!authState.user) throw new Error('Not signed in');
+      await openingRef.current;
+      const result = await submitAnswer(authState.user.id, student?.player_token, questionId, option);
+      recordAdaptiveAnswer(questionId, !!result.is_correct);
+      setAnswerKey({
+        correct_option: result.correct_option,
+        answer: result.answer,
+        explanation: result.explanation,
+        distractor_explanations: result.distractor_explanations
+      });
+      
+      // Give students time to read an explanation; they move on when they're ready
+      if (result.explanation || result.distractor_explanations) return;
+    } catch (error) {
+      console.error('Error submitting answer:', error);
+      setAnswerError('Your answer could not be submitted.');
+    }
+    
+    // Move to next question after delay
+    setTimeout(moveToNextQuestion, 3000);
+  };
+  
+  // Update the student's ability on the current topic from a graded answer
+  const recordAdaptiveAnswer = (questionId: string, correct: boolean) => {
+    const topic = getCurrentTopic();
+    const question = getTopicQuestions(topic).find(q => q.id === questionId);
+    if (!isAdaptive || !topic || !question) return;
+
+    const estimate = estimatesRef.current[topic.id] ?? startEstimate(getOverallAbility(Object.values(estimatesRef.current)));
+    estimatesRef.current = {
+      ...estimatesRef.current,
+      [topic.id]: updateEstimate(estimate, { difficulty: question.difficulty, correct })
+    };
+  };
+  
+  // Adaptive games: the next question for the student's ability, or null once the topic is
+  // mastered or out of questions
+  const chooseAdaptiveQuestion = (topic: Topic | null, asked: string[]) => {
+    if (!topic) return null;
+    const estimate = estimatesRef.current[topic.id] ?? startEstimate(getOverallAbility(Object.values(estimatesRef.current)));
+    if (isTopicMastered(estimate)) return null;
+    return chooseNextQuestion(getTopicQuestions(topic).filter(q => !asked.includes(q.id)), estimate.ability);
+  };
+  
   // Handle when time runs out for a question
   const handleTimeUp = () => {
     // Only process if the question hasn't been answered yet
@@ -402,21 +850,8 @@ const WaitingRoom: React.FC = () => {
         // Record that time ran out (no selection)
         setAnswered(true);
         setSelectedOption(null);
-        setIsCorrect(false);
         setTotalAnswered(prev => prev + 1);
-        
-        // Record response in database
-        if (authState.user) {
-          saveStudentResponse(
-            authState.user.id, 
-            currentQuestion.id, 
-            'timeout', // Custom value for timeout
-            false
-          );
-        }
-        
-        // Move to next question after delay
-        setTimeout(moveToNextQuestion, 3000);
+        submitSelfPacedAnswer(currentQuestion.id, 'timeout');
       }
     }
   };
@@ -433,6 +868,7 @@ const WaitingRoom: React.FC = () => {
   const getCurrentQuestion = () => {
     const topic = getCurrentTopic();
     const topicQuestions = getTopicQuestions(topic);
+    if (isAdaptive) return topicQuestions.find(q => q.id === askedIds[currentQuestionIndex]) ?? null;
     return topicQuestions.length > currentQuestionIndex ? topicQuestions[currentQuestionIndex] : null;
   };
   
@@ -445,11 +881,14 @@ const WaitingRoom: React.FC = () => {
   
   // Handle continuing from narrative to questions
   const handleContinueFromNarrative = () => {
+    if (isAdaptive) {
+      const first = chooseAdaptiveQuestion(getCurrentTopic(), []);
+      setAskedIds(first ? [first.id] : []);
+    }
     setShowingNarrative(false);
     // Reset question state
     setAnswered(false);
     setSelectedOption(null);
-    setIsCorrect(null);
     // Timer will start automatically via the useEffect
   };
   
@@ -462,40 +901,103 @@ const WaitingRoom: React.FC = () => {
     
     const currentQuestion = getCurrentQuestion();
     if (currentQuestion) {
-      const correct = option === currentQuestion.correct_option;
-      
       setSelectedOption(option);
-      setIsCorrect(correct);
       setAnswered(true);
       setTotalAnswered(prev => prev + 1);
-      
-      // Update correct answers count
-      if (correct) {
-        setCorrectAnswers(prev => prev + 1);
-      }
-      
-      // Record response in database
-      if (authState.user) {
-        saveStudentResponse(
-          authState.user.id, 
-          currentQuestion.id, 
-          option,
-          correct
-        );
-      }
-      
-      // Move to next question after delay
-      setTimeout(moveToNextQuestion, 3000);
+      submitSelfPacedAnswer(currentQuestion.id, option);
+    }
+  };
+  
+  // Handle answering the question the teacher is showing; the answer is locked in until the reveal
+  const handleLiveAnswer = async (option: string) => {
+    const liveQuestion = liveState?.question;
+    if (!liveQuestion || liveState?.phase !== 'question' || liveAnswers[liveQuestion.id] || !authState.user) return;
+    
+    setLiveAnswers(prev => ({ ...prev, [liveQuestion.id]: option }));
+    
+    try {
+      await submitAnswer(authState.user.id, student?.player_token, liveQuestion.id, option);
+      setTotalAnswered(prev => prev + 1);
+    } catch (error) {
+      // Most likely the teacher closed answers first; let the student see the question unanswered
+      console.error('Error submitting live answer:', error);
+      setLiveAnswers(prev => {
+        const next = { ...prev };
+        delete next[liveQuestion.id];
+        return next;
+      });
+    }
+  };
+  
+  // Render the screen the teacher is showing in a teacher-paced game
+  const renderLiveScreen = () => {
+    if (!liveState || liveState.phase === 'lobby') {
+      return (
+        <div className="min-h-screen flex items-center justify-center bg-[#EEF4FF] p-4">
+          <Card className="w-full max-w-lg">
+            <CardContent>
+              <div className="text-center py-6">
+                <Clock className="w-8 h-8 text-[#3A7AFE] mx-auto mb-2" />
+                <p className="text-gray-700">Get ready! Your teacher will show the first question shortly.</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      );
+    }
+    
+    if (liveState.phase === 'ended') {
+      return (
+        <ResultsScreen
+          studentId={authState.user?.id}
+          playerToken={student?.player_token}
+          totalQuestions={liveState.totalQuestions}
+          scoringConfig={getScoringConfig(gameSession)}
+        />
+      );
+    }
+    
+    if (liveState.phase === 'leaderboard') {
+      return <LeaderboardScreen entries={liveState.leaderboard || []} currentStudentId={authState.user?.id} />;
+    }
+    
+    if (liveState.phase === 'narrative' && liveState.topic) {
+      return <NarrativeScreen topic={liveState.topic} />;
     }
+    
+    if (liveState.question) {
+      const selected = liveAnswers[liveState.question.id] || null;
+      return (
+        <QuestionScreen
+          question={liveState.question}
+          onAnswer={handleLiveAnswer}
+          selectedOption={selected}
+          answerKey={liveState.phase === 'revealed'
+            ? {
+                correct_option: liveState.correctOption,
+                answer: liveState.correctAnswer,
+                explanation: liveState.explanation ?? null,
+                distractor_explanations: liveState.distractorExplanations ?? null
+              }
+            : null}
+          locked={liveState.phase !== 'question' || selected !== null}
+        />
+      );
+    }
+    
+    return null;
   };
   
   // Move to the next question or topic
   const moveToNextQuestion = () => {
     const currentTopic = getCurrentTopic();
-    const topicQuestions = getTopicQuestions(currentTopic);
+    const nextQuestion = isAdaptive
+      ? chooseAdaptiveQuestion(currentTopic, askedIds)
+      : getTopicQuestions(currentTopic)[currentQuestionIndex + 1];
     
-    if (currentQuestionIndex < topicQuestions.length - 1) {
+    if (nextQuestion) {
       // Next question in same topic
+      if (isAdaptive) setAskedIds([...askedIds, nextQuestion.id]);
       setCurrentQuestionIndex(currentQuestionIndex + 1);
     } else if (currentTopicIndex < topics.length - 1) {
       // Move to next topic
@@ -518,14 +1020,33 @@ const WaitingRoom: React.FC = () => {
     // Reset for next question
     setAnswered(false);
     setSelectedOption(null);
-    setIsCorrect(null);
+    setAnswerKey(null);
+    setAnswerError(null);
   };
   
   // Find current student
   const currentStudent = authState.user 
-    ? students.find(s => s.name === authState.user?.display_name)
+    ? students.find(s => s.id === authState.user?.id)
     : null;
   
+  // Team games: the student's team and where it stands
+  const myTeam = gameSession?.teams?.find(team => team.id === (currentStudent ?? student)?.team_id);
+  const myStanding = myTeam ? teamStandings.find(standing => standing.teamId === myTeam.id) : undefined;
+  const teamBadge = myTeam && (
+    <div
+      className="fixed top-3 right-3 z-40 flex items-center px-3 py-1.5 rounded-full bg-white shadow text-sm border-2"
+      style={{ borderColor: myTeam.color }}
+    >
+      <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: myTeam.color }} />
+      <span className="font-medium" style={{ color: myTeam.color }}>{myTeam.name}</span>
+      {myStanding && (
+        <span className="ml-2 text-gray-500">
+          {formatRank(myStanding.rank)} of {gameSession!.teams!.length}
+        </span>
+      )}
+    </div>
+  );
+  
   // Handle refresh
   const handleRefresh = () => {
     setLoading(true);
@@ -580,9 +1101,25 @@ const WaitingRoom: React.FC = () => {
     );
   }
   
+  // Teacher-paced games show whatever the teacher is on
+  if (isLive && gameState.status === 'playing') {
+    const liveScreen = renderLiveScreen();
+    if (liveScreen) return <>{teamBadge}{liveScreen}</>;
+  }
+  
   // Show game completed screen with results
   if (gameState.status === 'results') {
-    return <ResultsScreen correctAnswers={correctAnswers} totalQuestions={getTotalQuestions()} />;
+    return (
+      <>
+        {teamBadge}
+        <ResultsScreen
+          studentId={authState.user?.id}
+          playerToken={student?.player_token}
+          totalQuestions={isAdaptive ? totalAnswered : getTotalQuestions()}
+          scoringConfig={getScoringConfig(gameSession)}
+        />
+      </>
+    );
   }
   
   // Show active game screens - narrative or questions
@@ -591,20 +1128,55 @@ const WaitingRoom: React.FC = () => {
     const currentQuestion = getCurrentQuestion();
     
     if (showingNarrative && currentTopic) {
-      return <NarrativeScreen topic={currentTopic} onContinue={handleContinueFromNarrative} />;
+      return (
+        <>
+          {teamBadge}
+          <NarrativeScreen topic={currentTopic} onContinue={handleContinueFromNarrative} />
+        </>
+      );
     }
     
-    if (currentQuestion) {
+    if (currentQuestion && openedQuestion?.id !== currentQuestion.id) {
       return (
-        <QuestionScreen 
-          question={currentQuestion} 
-          onAnswer={handleAnswer}
-          answered={answered}
-          selectedOption={selectedOption}
-          isCorrect={isCorrect}
-          timeLeft={questionTimeLeft}
-          totalTime={QUESTION_TIME}
-        />
+        <div className="min-h-screen flex items-center justify-center bg-[#EEF4FF] p-4">
+          {teamBadge}
+          <Card className="w-full max-w-lg">
+            <CardContent>
+              <div className="text-center py-6">
+                {openError ? (
+                  <>
+                    <AlertCircle className="w-8 h-8 text-red-500 mx-auto mb-2" />
+                    <p className="text-gray-700 mb-4">{openError}</p>
+                    <Button onClick={() => setOpenAttempt(prev => prev + 1)} icon={<RefreshCw className="w-4 h-4" />}>
+                      Try Again
+                    </Button>
+                  </>
+                ) : (
+                  <p className="text-gray-700">Loading the next question...</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      );
+    }
+    
+    if (currentQuestion && openedQuestion) {
+      return (
+        <>
+          {teamBadge}
+          <QuestionScreen 
+            question={openedQuestion} 
+            onAnswer={handleAnswer}
+            selectedOption={selectedOption}
+            answerKey={answerKey}
+            locked={answered}
+            lockedMessage={answerError || 'Checking your answer...'}
+            timeLeft={questionTimeLeft}
+            totalTime={questionTime}
+            onContinue={answerKey?.explanation || answerKey?.distractor_explanations ? moveToNextQuestion : undefined}
+          />
+        </>
       );
     }
   }
@@ -612,6 +1184,7 @@ const WaitingRoom: React.FC = () => {
   // Main waiting room (default view)
   return (
     <div className="min-h-screen bg-gray-50 p-4 flex items-center justify-center">
+      {teamBadge}
       <Card className="w-full max-w-lg">
         <CardHeader>
           <CardTitle>Waiting Room</CardTitle>
@@ -624,6 +1197,11 @@ const WaitingRoom: React.FC = () => {
             <div className="bg-[#EEF4FF] rounded-lg p-4 text-center">
               <Clock className="w-8 h-8 text-[#3A7AFE] mx-auto mb-2" />
               <p className="text-gray-700">Waiting for the teacher to start the game...</p>
+              {gameSession && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Game code <span className="font-mono font-semibold text-gray-700">{gameSession.game_code}</span>
+                </p>
+              )}
             </div>
             
             <div>
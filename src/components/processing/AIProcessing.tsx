@@ -1,29 +1,76 @@
 /**
  * AI Processing component for Ether Excel
  * Handles the extraction of educational content from chapter text using OpenAI
+ *
+ * Generation runs as a persisted job: each step's status and output are saved to
+ * `generation_jobs`, so an interrupted run resumes from the last completed step and a
+ * failed step can be retried on its own.
  */
 import React, { useEffect, useState } from 'react';
-import { Brain, CheckCircle, AlertCircle, RefreshCw } from 'lucide-react';
+import { Brain, CheckCircle, AlertCircle, RefreshCw, Circle, Loader } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/Card';
 import Button from '../ui/Button';
 import ProgressBar from '../ui/ProgressBar';
 import { useAppContext } from '../../context/AppContext';
-import { extractTopics, generateNarratives, generateQuestions, ExtractedTopic } from '../../lib/openai';
-import { extractTextFromPDF } from '../../lib/pdf-parser';
-import { saveChapter, saveTopics, saveQuestions, getTopicsByChapterId, getQuestionsByTopicId } from '../../services/database';
+import { useAuth } from '../../context/AuthContext';
+import { extractTopics, generateNarratives, generateQuestions, ExtractedTopic, GeneratedQuestion, TopicNarrative } from '../../lib/openai';
+import {
+  saveChapter,
+  updateChapter,
+  saveTopics,
+  saveQuestions,
+  getTopicsByChapterId,
+  getQuestionsByTopicId,
+  deleteTopicsByChapterId,
+  createGenerationJob,
+  updateGenerationJob,
+  getIncompleteGenerationJob
+} from '../../services/database';
+import { uploadChapterFile } from '../../services/storage';
+import { GenerationJob, GenerationStep, GenerationStepState } from '../../types';
+import { getChapterExcerpt } from '../../lib/chunker';
+import { describeMix } from '../../lib/question-mix';
+
+// Pipeline steps in order, with the progress bar value each one starts at
+const GENERATION_STEPS: { step: GenerationStep; label: string; progress: number }[] = [
+  { step: 'extract_topics', label: 'Identify instructional topics', progress: 30 },
+  { step: 'generate_narratives', label: 'Generate narrative elements', progress: 50 },
+  { step: 'generate_questions', label: 'Create question bank', progress: 60 },
+  { step: 'save_content', label: 'Save topics and questions', progress: 85 }
+];
+
+// Questions generated so far, keyed by topic index
+type QuestionsByTopic = Record<string, GeneratedQuestion[]>;
+
+/**
+ * First step of a job that hasn't completed yet
+ */
+function getResumeStep(job: GenerationJob): GenerationStep {
+  const pending = GENERATION_STEPS.find(({ step }) => job.steps[step]?.status !== 'completed');
+  return pending ? pending.step : 'save_content';
+}
+
+function withStepState(job: GenerationJob, step: GenerationStep, state: GenerationStepState) {
+  return {
+    ...job.steps,
+    [step]: { ...job.steps[step], ...state, updated_at: new Date().toISOString() }
+  };
+}
 
 const AIProcessing: React.FC = () => {
-  const { 
-    currentChapter, 
-    processingState, 
-    setProcessingState, 
+  const {
+    currentChapter,
+    processingState,
+    setProcessingState,
     setView,
     setTopics,
-    setQuestions 
+    setQuestions
   } = useAppContext();
+  const { authState } = useAuth();
 
   const [error, setError] = useState<string | null>(null);
   const [savedChapter, setSavedChapter] = useState<any>(null);
+  const [job, setJob] = useState<GenerationJob | null>(null);
 
   // Process content with OpenAI and save to Supabase
   useEffect(() => {
@@ -34,187 +81,313 @@ const AIProcessing: React.FC = () => {
 
   const processChapterContent = async () => {
     if (!currentChapter) return;
-    
+
     // Start processing
-    setProcessingState({ 
-      status: 'processing', 
+    setProcessingState({
+      status: 'processing',
       progress: 0,
       message: 'Starting AI processing...'
     });
 
     try {
-      // Step 1: Parse PDF if needed and extract text
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 10,
-        message: 'Extracting content from chapter...'
-      }));
+      let chapterToUse = savedChapter;
+      let currentJob: GenerationJob | null = null;
 
-      let chapterContent = currentChapter.content;
-      if (currentChapter.file && currentChapter.file.type === 'application/pdf') {
-        chapterContent = await extractTextFromPDF(currentChapter.file);
-      }
+      // Chapters picked from ChapterSelection with an unfinished job are already saved
+      if (currentChapter.status === 'processing') {
+        chapterToUse = { id: currentChapter.id, content: currentChapter.content };
+        setSavedChapter(chapterToUse);
+        currentJob = await getIncompleteGenerationJob(currentChapter.id);
 
-      // Step 2: Save chapter to database (only if not already saved)
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 20,
-        message: 'Saving chapter to database...'
-      }));
+        // Re-processing from the stored file replaces the chapter's text and starts the job over
+        if (currentChapter.reprocess) {
+          console.log('Replacing chapter text read again from its stored file');
+          await updateChapter(currentChapter.id, { content: currentChapter.content });
+          if (currentJob) {
+            currentJob = await updateGenerationJob(currentJob.id, {
+              status: 'running',
+              current_step: 'extract_topics',
+              steps: {},
+              error: null,
+              settings: currentChapter.generationSettings ?? currentJob.settings
+            });
+          }
+        }
+      }
 
-      console.log('Saving chapter to database:', currentChapter.title);
-      
-      // If we don't already have a saved chapter, create one
-      let chapterToUse = savedChapter;
       if (!chapterToUse) {
-        const savedChapterData = await saveChapter(
+        // Step 1: The chapter text was extracted from the file during upload
+        setProcessingState(prev => ({
+          ...prev,
+          progress: 10,
+          message: 'Extracting content from chapter...'
+        }));
+
+        const chapterContent = currentChapter.content;
+
+        // Step 2: Save chapter to database
+        setProcessingState(prev => ({
+          ...prev,
+          progress: 20,
+          message: 'Saving chapter to database...'
+        }));
+
+        console.log('Saving chapter to database:', currentChapter.title);
+        chapterToUse = await saveChapter(
           currentChapter.title,
           chapterContent,
           currentChapter.grade,
-          null // pdfUrl - would be implemented with file storage
+          null
         );
-        
-        chapterToUse = savedChapterData;
-        setSavedChapter(savedChapterData);
-        console.log('Chapter saved with ID:', savedChapterData.id);
+        setSavedChapter(chapterToUse);
+        console.log('Chapter saved with ID:', chapterToUse.id);
+
+        // Keep the original file so it can be viewed and re-processed later. The chapter text is
+        // already saved, so a failed upload shouldn't stop generation.
+        if (currentChapter.file && authState.user) {
+          try {
+            const filePath = await uploadChapterFile(authState.user.id, chapterToUse.id, currentChapter.file);
+            chapterToUse = await updateChapter(chapterToUse.id, { pdf_url: filePath });
+            setSavedChapter(chapterToUse);
+          } catch (uploadError) {
+            console.error('Chapter file was not stored:', uploadError);
+          }
+        }
       } else {
         console.log('Using already saved chapter with ID:', chapterToUse.id);
+        currentJob = currentJob ?? job ?? await getIncompleteGenerationJob(chapterToUse.id);
       }
 
-      // Step 3: Extract topics with OpenAI
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 30,
-        message: 'Identifying instructional topics...'
-      }));
-
-      console.log('Extracting topics with OpenAI');
-      const extractedTopics = await extractTopics(chapterContent, currentChapter.grade);
-      console.log('Topics extracted:', extractedTopics.length);
+      if (!currentJob) {
+        currentJob = await createGenerationJob(chapterToUse.id, authState.user?.id, currentChapter.generationSettings);
+      }
+      setJob(currentJob);
 
-      // Step 4: Generate narrative elements
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 50,
-        message: 'Generating narrative elements...'
-      }));
+      await runJob(currentJob, chapterToUse, getResumeStep(currentJob));
+    } catch (err) {
+      handleFailure(err);
+    }
+  };
 
-      console.log('Generating narratives');
-      const narratives = await generateNarratives(extractedTopics);
-      console.log('Narratives generated:', narratives.length);
+  /**
+   * Run the job's steps in order starting at `fromStep`, saving each step's result
+   */
+  const runJob = async (startJob: GenerationJob, chapter: { id: string; content: string }, fromStep: GenerationStep) => {
+    if (!currentChapter) return;
 
-      // Step 5: Save topics and narratives to database
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 60,
-        message: 'Saving topics to database...'
-      }));
+    let currentJob = startJob;
+    const startIndex = GENERATION_STEPS.findIndex(({ step }) => step === fromStep);
+    console.log(`Running generation job ${currentJob.id} from step ${fromStep}`);
 
-      console.log('Saving topics to database');
-      const savedTopics = await saveTopics(extractedTopics, narratives, chapterToUse.id);
-      console.log('Topics saved:', savedTopics.length);
+    for (const { step, label, progress } of GENERATION_STEPS.slice(startIndex)) {
+      setProcessingState(prev => ({ ...prev, progress, message: `${label}...` }));
 
-      // Create a mapping from topic title to database ID
-      const topicIdMap: Record<string, string> = {};
-      savedTopics.forEach(topic => {
-        topicIdMap[topic.topic_name] = topic.id;
+      currentJob = await updateGenerationJob(currentJob.id, {
+        status: 'running',
+        current_step: step,
+        error: null,
+        steps: withStepState(currentJob, step, { status: 'running', error: null })
       });
+      setJob(currentJob);
+
+      try {
+        const output = await runStep(step, currentJob, chapter, (partialJob) => {
+          currentJob = partialJob;
+          setJob(partialJob);
+        });
+
+        currentJob = await updateGenerationJob(currentJob.id, {
+          steps: withStepState(currentJob, step, { status: 'completed', output })
+        });
+        setJob(currentJob);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'An unexpected error occurred';
+        currentJob = await updateGenerationJob(currentJob.id, {
+          status: 'failed',
+          error: message,
+          steps: withStepState(currentJob, step, { status: 'failed', error: message })
+        });
+        setJob(currentJob);
+        throw err;
+      }
+    }
+
+    currentJob = await updateGenerationJob(currentJob.id, { status: 'completed' });
+    setJob(currentJob);
+
+    // Finalize and prepare for review
+    setProcessingState(prev => ({
+      ...prev,
+      progress: 100,
+      message: 'Finalizing content...'
+    }));
 
-      // Step 6: Generate questions for each topic
+    // Load topics from database for display
+    console.log('Loading topics from database');
+    const dbTopics = await getTopicsByChapterId(chapter.id);
+    setTopics(dbTopics);
+
+    // Load questions for each topic
+    console.log('Loading questions for topics');
+    const questionsMap: Record<string, any[]> = {};
+    for (const topic of dbTopics) {
+      const topicQuestions = await getQuestionsByTopicId(topic.id);
+      questionsMap[topic.id] = topicQuestions;
+    }
+    setQuestions(questionsMap);
+
+    // Mark processing as complete
+    setTimeout(() => {
       setProcessingState(prev => ({
         ...prev,
-        progress: 70,
-        message: 'Creating question bank...'
+        status: 'ready',
+        message: 'Processing complete!'
       }));
+    }, 1000);
+  };
 
-      console.log('Generating questions for topics');
-      let allQuestions = [];
-      for (const topic of extractedTopics) {
-        try {
-          const topicQuestions = await generateQuestions(topic, currentChapter.grade);
-          if (topicQuestions.length > 0) {
-            allQuestions = [...allQuestions, ...topicQuestions];
+  /**
+   * Run a single step using the outputs of earlier steps, returning this step's output
+   */
+  const runStep = async (
+    step: GenerationStep,
+    currentJob: GenerationJob,
+    chapter: { id: string; content: string },
+    onJobUpdate: (job: GenerationJob) => void
+  ): Promise<unknown> => {
+    const grade = currentChapter!.grade;
+    const topics = currentJob.steps.extract_topics?.output as ExtractedTopic[] | undefined;
+    const narratives = currentJob.steps.generate_narratives?.output as TopicNarrative[] | undefined;
+
+    switch (step) {
+      case 'extract_topics': {
+        console.log('Extracting topics with OpenAI');
+        const extractedTopics = await extractTopics(chapter.content, grade, (completed, total) => {
+          // Long chapters are read in parts; spread them across the 30-50% range
+          if (total > 1) {
+            setProcessingState(prev => ({
+              ...prev,
+              progress: 30 + Math.round((completed / total) * 18),
+              message: completed < total
+                ? `Identifying instructional topics (part ${completed + 1} of ${total})...`
+                : 'Merging topics from all parts of the chapter...'
+            }));
           }
-        } catch (err) {
-          console.warn(`Error generating questions for topic ${topic.title}:`, err);
-          // Continue with other topics instead of failing completely
-        }
+        });
+        console.log('Topics extracted:', extractedTopics.length);
+        return extractedTopics;
       }
-      console.log('Generated questions:', allQuestions.length);
 
-      // Only proceed if we have questions
-      if (allQuestions.length > 0) {
-        // Step 7: Save questions to database
-        setProcessingState(prev => ({
-          ...prev,
-          progress: 90,
-          message: 'Saving questions to database...'
-        }));
+      case 'generate_narratives': {
+        console.log('Generating narratives');
+        const generated = await generateNarratives(topics!);
+        console.log('Narratives generated:', generated.length);
+        return generated;
+      }
 
-        console.log('Saving questions to database');
-        await saveQuestions(allQuestions, topicIdMap);
-        console.log('Questions saved successfully');
-      } else {
-        console.warn('No questions were generated for any topics');
+      case 'generate_questions': {
+        // Questions are saved per topic, so a resumed job skips topics already done
+        let questionsByTopic: QuestionsByTopic = {
+          ...(currentJob.steps.generate_questions?.output as QuestionsByTopic | undefined)
+        };
+        let latestJob = currentJob;
+
+        for (const [index, topic] of topics!.entries()) {
+          if (questionsByTopic[index]) continue;
+
+          setProcessingState(prev => ({
+            ...prev,
+            progress: 60 + Math.round((index / topics!.length) * 25),
+            message: `Creating questions for "${topic.title}" (${index + 1} of ${topics!.length})...`
+          }));
+
+          try {
+            // Ground the questions in the text the topic came from, so each can cite it
+            questionsByTopic = { ...questionsByTopic, [index]: await generateQuestions(topic, grade, {
+              context: getChapterExcerpt(chapter.content, topic.sourceChunks),
+              types: currentJob.settings?.questionTypes,
+              difficultyMix: currentJob.settings?.difficultyMix,
+              cognitiveLevelMix: currentJob.settings?.cognitiveLevelMix
+            }) };
+          } catch (err) {
+            console.error(`Error generating questions for topic ${topic.title}:`, err);
+            throw new Error(`Could not create questions for "${topic.title}". ${err instanceof Error ? err.message : ''}`.trim());
+          }
+
+          latestJob = await updateGenerationJob(latestJob.id, {
+            steps: withStepState(latestJob, 'generate_questions', { status: 'running', output: questionsByTopic })
+          });
+          onJobUpdate(latestJob);
+        }
+
+        return questionsByTopic;
       }
 
-      // Step 8: Finalize and prepare for review
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 100,
-        message: 'Finalizing content...'
-      }));
+      case 'save_content': {
+        const questionsByTopic = currentJob.steps.generate_questions?.output as QuestionsByTopic;
+
+        // Clear anything a previous, interrupted save left behind
+        await deleteTopicsByChapterId(chapter.id);
 
-      // Load topics from database for display
-      console.log('Loading topics from database');
-      const dbTopics = await getTopicsByChapterId(chapterToUse.id);
-      setTopics(dbTopics);
-
-      // Load questions for each topic
-      console.log('Loading questions for topics');
-      const questionsMap: Record<string, any[]> = {};
-      for (const topic of dbTopics) {
-        const topicQuestions = await getQuestionsByTopicId(topic.id);
-        questionsMap[topic.id] = topicQuestions;
+        console.log('Saving topics to database');
+        const savedTopics = await saveTopics(topics!, narratives!, chapter.id);
+        console.log('Topics saved:', savedTopics.length);
+
+        // Create a mapping from topic title to database ID
+        const topicIdMap: Record<string, string> = {};
+        savedTopics.forEach(topic => {
+          topicIdMap[topic.topic_name] = topic.id;
+        });
+
+        console.log('Saving questions to database');
+        await saveQuestions(Object.values(questionsByTopic).flat(), topicIdMap);
+        console.log('Questions saved successfully');
+        return null;
       }
-      setQuestions(questionsMap);
-
-      // Mark processing as complete
-      setTimeout(() => {
-        setProcessingState(prev => ({ 
-          ...prev, 
-          status: 'ready',
-          message: 'Processing complete!' 
-        }));
-      }, 1000);
-    } catch (err) {
-      console.error('Error processing chapter:', err);
-      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
-      setProcessingState(prev => ({ 
-        ...prev, 
-        status: 'error',
-        error: err instanceof Error ? err.message : 'An unexpected error occurred'
-      }));
     }
   };
 
+  const handleFailure = (err: unknown) => {
+    console.error('Error processing chapter:', err);
+    setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    setProcessingState(prev => ({
+      ...prev,
+      status: 'error',
+      error: err instanceof Error ? err.message : 'An unexpected error occurred'
+    }));
+  };
+
   const handleContinue = () => {
     setView('review');
   };
 
   const handleRetry = () => {
     setError(null);
-    setSavedChapter(null); // Reset saved chapter to allow retrying
-    setProcessingState({ 
-      status: 'idle', 
-      progress: 0 
+    setProcessingState({
+      status: 'idle',
+      progress: 0
     });
   };
 
+  // Re-run a single step (and the ones after it) without redoing earlier steps
+  const handleRetryStep = async (step: GenerationStep) => {
+    if (!job || !savedChapter) return;
+
+    setError(null);
+    setProcessingState({ status: 'processing', progress: 0, message: 'Retrying...' });
+    try {
+      await runJob(job, savedChapter, step);
+    } catch (err) {
+      handleFailure(err);
+    }
+  };
+
   if (!currentChapter) {
     return <div>No chapter selected</div>;
   }
 
+  const failedStep = job ? GENERATION_STEPS.find(({ step }) => job.steps[step]?.status === 'failed') : undefined;
+
   return (
     <div className="max-w-4xl mx-auto">
       <Card>
@@ -233,18 +406,18 @@ const AIProcessing: React.FC = () => {
                     <Brain className="w-16 h-16 text-[#3A7AFE]" />
                   </div>
                 </div>
-                
+
                 <h3 className="text-xl font-medium text-[#1F2937] mb-2">
                   Processing Chapter
                 </h3>
                 <p className="text-gray-500 mb-6">
                   {processingState.message || 'Please wait while our AI analyzes your content...'}
                 </p>
-                
+
                 <div className="w-full max-w-md mb-8">
-                  <ProgressBar 
-                    value={processingState.progress} 
-                    showLabel 
+                  <ProgressBar
+                    value={processingState.progress}
+                    showLabel
                     size="lg"
                   />
                 </div>
@@ -256,14 +429,14 @@ const AIProcessing: React.FC = () => {
                 <div className="w-24 h-24 rounded-full bg-green-50 flex items-center justify-center mb-6">
                   <CheckCircle className="w-12 h-12 text-green-500" />
                 </div>
-                
+
                 <h3 className="text-xl font-medium text-[#1F2937] mb-2">
                   Processing Complete!
                 </h3>
                 <p className="text-gray-500 mb-6">
                   Your chapter has been processed and content has been generated.
                 </p>
-                
+
                 <Button onClick={handleContinue}>
                   Review Content
                 </Button>
@@ -275,19 +448,63 @@ const AIProcessing: React.FC = () => {
                 <div className="w-24 h-24 rounded-full bg-red-50 flex items-center justify-center mb-6">
                   <AlertCircle className="w-12 h-12 text-red-500" />
                 </div>
-                
+
                 <h3 className="text-xl font-medium text-[#1F2937] mb-2">
                   Processing Error
                 </h3>
-                <p className="text-gray-500 mb-6">
+                <p className="text-gray-500 mb-2 text-center max-w-lg">
                   {processingState.error || 'There was an error processing your chapter.'}
                 </p>
-                
-                <Button onClick={handleRetry} icon={<RefreshCw className="w-4 h-4" />}>
-                  Try Again
-                </Button>
+                <p className="text-sm text-gray-400 mb-6">
+                  {job
+                    ? 'Completed steps are saved. Retrying picks up where this run stopped.'
+                    : 'Invalid AI content is never saved. Try again to regenerate it.'}
+                </p>
+
+                {failedStep ? (
+                  <Button onClick={() => handleRetryStep(failedStep.step)} icon={<RefreshCw className="w-4 h-4" />}>
+                    Retry "{failedStep.label}"
+                  </Button>
+                ) : (
+                  <Button onClick={handleRetry} icon={<RefreshCw className="w-4 h-4" />}>
+                    Try Again
+                  </Button>
+                )}
               </>
             )}
+
+            {job && processingState.status !== 'ready' && (
+              <div className="w-full max-w-md mt-8 border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {GENERATION_STEPS.map(({ step, label }) => {
+                  const state = job.steps[step];
+                  return (
+                    <div key={step} className="flex items-center justify-between px-4 py-2">
+                      <div className="flex items-center space-x-3">
+                        {state?.status === 'completed' && <CheckCircle className="w-4 h-4 text-green-500" />}
+                        {state?.status === 'running' && <Loader className="w-4 h-4 text-[#3A7AFE] animate-spin" />}
+                        {state?.status === 'failed' && <AlertCircle className="w-4 h-4 text-red-500" />}
+                        {!state && <Circle className="w-4 h-4 text-gray-300" />}
+                        <span className={`text-sm ${state ? 'text-gray-700' : 'text-gray-400'}`}>{label}</span>
+                      </div>
+                      {state?.status === 'failed' && processingState.status === 'error' && (
+                        <button
+                          className="text-xs font-medium text-[#3A7AFE] hover:underline"
+                          onClick={() => handleRetryStep(step)}
+                        >
+                          Retry step
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+                {(job.settings?.difficultyMix || job.settings?.cognitiveLevelMix) && (
+                  <div className="px-4 py-2 text-xs text-gray-500 space-y-0.5">
+                    {job.settings.difficultyMix && <p>Difficulty: {describeMix(job.settings.difficultyMix)}</p>}
+                    {job.settings.cognitiveLevelMix && <p>Cognitive level: {describeMix(job.settings.cognitiveLevelMix)}</p>}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -295,4 +512,4 @@ const AIProcessing: React.FC = () => {
   );
 };
 
-export default AIProcessing;
\ No newline at end of file
+export default AIProcessing;
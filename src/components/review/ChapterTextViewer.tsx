@@ -0,0 +1,74 @@
+/**
+ * Chapter Text Viewer component for Ether Excel
+ * Shows the chapter text a question cites, on its page, with the cited passage highlighted
+ */
+import React, { useEffect, useRef } from 'react';
+import { BookOpen, X } from 'lucide-react';
+import { formatPageRange } from '../../lib/chunker';
+import { CitationMatch } from '../../lib/citations';
+import { PAGE_BREAK } from '../../lib/pdf-parser';
+
+// Text shown either side of the passage when the chapter has no pages
+const CONTEXT_CHARS = 2000;
+
+interface ChapterTextViewerProps {
+  content: string;
+  match: CitationMatch;
+  pageLabels: string[];
+  // The question the passage supports
+  question: string;
+  onClose: () => void;
+}
+
+const ChapterTextViewer: React.FC<ChapterTextViewerProps> = ({ content, match, pageLabels, question, onClose }) => {
+  const highlightRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [match.start]);
+
+  // The page(s) the passage is on, or the paragraphs around it
+  const from = match.page !== null
+    ? content.lastIndexOf(PAGE_BREAK, match.start) + 1
+    : Math.max(0, content.lastIndexOf('\n\n', Math.max(0, match.start - CONTEXT_CHARS)));
+  const nextBreak = match.page !== null ? content.indexOf(PAGE_BREAK, match.end) : content.indexOf('\n\n', match.end + CONTEXT_CHARS);
+  const to = nextBreak >= 0 ? nextBreak : content.length;
+  const lastPage = match.page !== null
+    ? match.page + (content.slice(match.start, match.end).split(PAGE_BREAK).length - 1)
+    : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between px-4 py-3 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 className="font-medium flex items-center">
+              <BookOpen className="w-4 h-4 mr-2 text-[#3A7AFE]" />
+              Source in chapter
+              {match.page !== null && (
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  {formatPageRange(pageLabels, match.page, lastPage)}
+                </span>
+              )}
+            </h3>
+            <p className="text-xs text-gray-500 mt-0.5 truncate">{question}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-4 overflow-y-auto text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+          {from > 0 && match.page === null && '…'}
+          {content.slice(from, match.start)}
+          <mark ref={highlightRef} className="bg-yellow-200 rounded px-0.5">
+            {content.slice(match.start, match.end)}
+          </mark>
+          {content.slice(match.end, to)}
+          {to < content.length && match.page === null && '…'}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChapterTextViewer;
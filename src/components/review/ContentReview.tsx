@@ -1,46 +1,464 @@
 /**
  * Content Review component for Ether Excel
- * Displays AI-generated topics, narratives, and questions for review
+ * Displays AI-generated topics, narratives, and questions for review, and lets the
+ * teacher edit, reorder, add and delete content before launching a game. Each generated
+ * question shows the chapter text it cites, and citations missing from the chapter are flagged.
+ * Questions can be filtered by difficulty and cognitive level.
  */
-import React, { useState } from 'react';
-import { ChevronDown, ChevronUp, CheckCircle, Book, MessageSquare } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import {
+  ChevronDown,
+  ChevronUp,
+  CheckCircle,
+  Book,
+  MessageSquare,
+  ArrowUp,
+  ArrowDown,
+  Edit2,
+  Trash2,
+  Plus,
+  Save,
+  X,
+  RefreshCw,
+  ThumbsUp,
+  Quote,
+  AlertTriangle,
+  Lightbulb,
+  Filter
+} from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '../ui/Card';
 import Button from '../ui/Button';
+import QuestionEditor, { QuestionDraft } from './QuestionEditor';
+import ExportMenu from '../export/ExportMenu';
+import ChapterTextViewer from './ChapterTextViewer';
 import { useAppContext } from '../../context/AppContext';
+import { CognitiveLevel, Question, Topic } from '../../types';
+import {
+  updateTopic,
+  updateTopicOrder,
+  createQuestion,
+  updateQuestion,
+  deleteQuestion,
+  deleteQuestions,
+  saveQuestions
+} from '../../services/database';
+import { generateNarratives, generateQuestions, ExtractedTopic } from '../../lib/openai';
+import { formatPageRange, getChapterExcerpt, getPageLabels } from '../../lib/chunker';
+import { describeCorrectAnswer, getDistractors, QUESTION_TYPE_LABELS, toQuestionFields } from '../../lib/question-types';
+import { checkCitation, CitationMatch, indexCitationText } from '../../lib/citations';
+import {
+  COGNITIVE_LEVEL_LABELS,
+  COGNITIVE_LEVELS,
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  DIFFICULTY_STYLES,
+  DifficultyOrUntagged,
+  getDifficulty
+} from '../../lib/question-mix';
+
+type TopicDraft = Pick<Topic, 'topic_name' | 'topic_coverage' | 'topic_narrative'>;
+
+// 'all' shows every question; 'untagged' shows questions without the tag
+type DifficultyFilter = DifficultyOrUntagged | 'all';
+type LevelFilter = CognitiveLevel | 'untagged' | 'all';
+
+// Marks the editor used for adding a new question rather than editing one
+const NEW_QUESTION = 'new';
+
+function toExtractedTopic(topic: Topic): ExtractedTopic {
+  return { title: topic.topic_name, description: topic.topic_coverage };
+}
 
 const ContentReview: React.FC = () => {
-  const { topics, questions, setView } = useAppContext();
+  const { topics, setTopics, questions, setQuestions, setView, currentChapter } = useAppContext();
   const [expandedTopic, setExpandedTopic] = useState<string | null>(topics[0]?.id || null);
+  const [editingTopicId, setEditingTopicId] = useState<string | null>(null);
+  const [topicDraft, setTopicDraft] = useState<TopicDraft | null>(null);
+  const [editingQuestionId, setEditingQuestionId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Which regeneration is running, e.g. `question:<id>`, `topic:<id>` or `narratives`
+  const [regenerating, setRegenerating] = useState<string | null>(null);
+
+  // Printed page numbers, so topics can cite the book's pages rather than the PDF's
+  const pageLabels = useMemo(() => getPageLabels(currentChapter?.content || ''), [currentChapter?.content]);
+  // Citations can only be checked once the chapter text is loaded
+  const citationIndex = useMemo(
+    () => (currentChapter?.content ? indexCitationText(currentChapter.content) : null),
+    [currentChapter?.content]
+  );
+  const [viewingSource, setViewingSource] = useState<{ question: Question; match: CitationMatch } | null>(null);
+  const [difficultyFilter, setDifficultyFilter] = useState<DifficultyFilter>('all');
+  const [levelFilter, setLevelFilter] = useState<LevelFilter>('all');
+  const isFiltered = difficultyFilter !== 'all' || levelFilter !== 'all';
+
+  const matchesFilters = (question: Question) =>
+    (difficultyFilter === 'all' || getDifficulty(question) === difficultyFilter) &&
+    (levelFilter === 'all' || (question.cognitive_level ?? 'untagged') === levelFilter);
+
+  const getCitation = (question: Question) => citationIndex
+    ? checkCitation(citationIndex, question.source_excerpt)
+    : { status: 'none' as const, match: null };
+
+  const unsupportedCount = (topicQuestions: Question[]) =>
+    topicQuestions.filter(question => getCitation(question).status === 'not_found').length;
+  const totalUnsupported = topics.reduce((total, topic) => total + unsupportedCount(questions[topic.id] || []), 0);
 
   const handleTopicToggle = (topicId: string) => {
     setExpandedTopic(expandedTopic === topicId ? null : topicId);
+    setEditingQuestionId(null);
   };
 
   const handleLaunch = () => {
     setView('launch');
   };
 
+  // Run a save against the database, surfacing any failure above the topic list
+  const persist = async (action: () => Promise<void>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error('Error saving content changes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMoveTopic = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= topics.length) return;
+
+    const previous = topics;
+    const reordered = [...topics];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setTopics(reordered.map((topic, position) => ({ ...topic, position })));
+
+    persist(async () => {
+      try {
+        await updateTopicOrder(reordered.map(topic => topic.id));
+      } catch (err) {
+        // Put the topics back so the screen matches what's saved
+        setTopics(previous);
+        throw err;
+      }
+    });
+  };
+
+  const handleEditTopic = (topic: Topic) => {
+    setEditingTopicId(topic.id);
+    setTopicDraft({
+      topic_name: topic.topic_name,
+      topic_coverage: topic.topic_coverage,
+      topic_narrative: topic.topic_narrative
+    });
+  };
+
+  const handleCancelTopicEdit = () => {
+    setEditingTopicId(null);
+    setTopicDraft(null);
+  };
+
+  const handleSaveTopic = (topicId: string) => {
+    if (!topicDraft) return;
+    if (!topicDraft.topic_name.trim()) {
+      setError('Topic name cannot be empty');
+      return;
+    }
+
+    persist(async () => {
+      const updated = await updateTopic(topicId, {
+        topic_name: topicDraft.topic_name.trim(),
+        topic_coverage: topicDraft.topic_coverage.trim(),
+        topic_narrative: topicDraft.topic_narrative.trim()
+      });
+      setTopics(topics.map(topic => topic.id === topicId ? { ...topic, ...updated } : topic));
+      handleCancelTopicEdit();
+    });
+  };
+
+  const setTopicQuestions = (topicId: string, topicQuestions: Question[]) => {
+    setQuestions({ ...questions, [topicId]: topicQuestions });
+  };
+
+  const handleSaveQuestion = (topicId: string, questionId: string, draft: QuestionDraft) => {
+    const topicQuestions = questions[topicId] || [];
+
+    persist(async () => {
+      if (questionId === NEW_QUESTION) {
+        const created = await createQuestion(topicId, draft);
+        setTopicQuestions(topicId, [...topicQuestions, created]);
+      } else {
+        const updated = await updateQuestion(questionId, draft);
+        setTopicQuestions(topicId, topicQuestions.map(q => q.id === questionId ? updated : q));
+      }
+      setEditingQuestionId(null);
+    });
+  };
+
+  const handleDeleteQuestion = (topicId: string, question: Question) => {
+    if (!window.confirm(`Delete the question "${question.question_stem}"?`)) return;
+
+    persist(async () => {
+      await deleteQuestion(question.id);
+      setTopicQuestions(topicId, (questions[topicId] || []).filter(q => q.id !== question.id));
+    });
+  };
+
+  const handleToggleApproved = (topicId: string, question: Question) => {
+    persist(async () => {
+      const updated = await updateQuestion(question.id, { approved: !question.approved });
+      setTopicQuestions(topicId, (questions[topicId] || []).map(q => q.id === question.id ? updated : q));
+    });
+  };
+
+  // Run a regeneration, marking which one is in progress for the spinner
+  const regenerate = (key: string, action: () => Promise<void>) => {
+    if (!currentChapter) {
+      setError('The chapter text is not loaded, so content cannot be regenerated.');
+      return;
+    }
+
+    setRegenerating(key);
+    persist(action).finally(() => setRegenerating(null));
+  };
+
+  // Chapter text the topic came from, so new content stays grounded in the chapter
+  const getTopicContext = (topic: Topic) =>
+    getChapterExcerpt(currentChapter?.content || '', topic.source_chunks);
+
+  const handleRegenerateQuestion = (topic: Topic, question: Question) => {
+    const topicQuestions = questions[topic.id] || [];
+
+    regenerate(`question:${question.id}`, async () => {
+      const [generated] = await generateQuestions(toExtractedTopic(topic), currentChapter!.grade, {
+        context: getTopicContext(topic),
+        count: 1,
+        avoidStems: topicQuestions.map(q => q.question_stem),
+        types: [question.question_type],
+        // A replacement pitched at the same level as the question it replaces
+        difficultyMix: question.difficulty ? { [question.difficulty]: 100 } : undefined,
+        cognitiveLevelMix: question.cognitive_level ? { [question.cognitive_level]: 100 } : undefined
+      });
+
+      const updated = await updateQuestion(question.id, { ...toQuestionFields(generated), approved: false });
+      setTopicQuestions(topic.id, topicQuestions.map(q => q.id === question.id ? updated : q));
+    });
+  };
+
+  const handleRegenerateTopicQuestions = (topic: Topic) => {
+    const topicQuestions = questions[topic.id] || [];
+    const kept = topicQuestions.filter(q => q.approved);
+    const replaced = topicQuestions.filter(q => !q.approved);
+
+    if (topicQuestions.length > 0 && replaced.length === 0) {
+      setError('Every question in this topic is approved. Unapprove the ones you want to replace.');
+      return;
+    }
+    if (replaced.length > 0 && !window.confirm(
+      `Replace ${replaced.length} unapproved question${replaced.length === 1 ? '' : 's'}? Approved questions are kept.`
+    )) return;
+
+    regenerate(`topic:${topic.id}`, async () => {
+      const generated = await generateQuestions(toExtractedTopic(topic), currentChapter!.grade, {
+        context: getTopicContext(topic),
+        count: replaced.length > 0 ? Math.min(5, replaced.length) : 3,
+        avoidStems: topicQuestions.map(q => q.question_stem),
+        // Keep the mix of question types the replaced questions had
+        types: replaced.length > 0 ? [...new Set(replaced.map(q => q.question_type))] : undefined
+      });
+
+      // Save the new questions before removing the old ones, so a failure loses nothing
+      const saved = await saveQuestions(generated, { [topic.topic_name]: topic.id });
+      await deleteQuestions(replaced.map(q => q.id));
+      setTopicQuestions(topic.id, [...kept, ...saved]);
+    });
+  };
+
+  const handleRegenerateNarratives = () => {
+    if (!window.confirm('Rewrite the story narrative for every topic?')) return;
+
+    regenerate('narratives', async () => {
+      const narratives = await generateNarratives(
+        topics.map(toExtractedTopic),
+        getChapterExcerpt(currentChapter!.content)
+      );
+
+      const updatedTopics = await Promise.all(topics.map(async (topic, index) => {
+        const narrative = narratives.find(n => parseInt(n.topicId) === index)?.narrative;
+        return narrative ? { ...topic, ...await updateTopic(topic.id, { topic_narrative: narrative }) } : topic;
+      }));
+      setTopics(updatedTopics);
+    });
+  };
+
+  // Difficulty and cognitive level badges, when the question has them
+  const renderTags = (question: Question) => {
+    if (!question.difficulty && !question.cognitive_level) return null;
+
+    return (
+      <div className="flex flex-wrap gap-1 ml-4 mb-2">
+        {question.difficulty && (
+          <span className={`text-xs px-2 py-0.5 rounded-full ${DIFFICULTY_STYLES[question.difficulty]}`}>
+            {DIFFICULTY_LABELS[question.difficulty]}
+          </span>
+        )}
+        {question.cognitive_level && (
+          <span className="text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-700">
+            {COGNITIVE_LEVEL_LABELS[question.cognitive_level]}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  // What students are told after answering: why the answer is right and why wrong answers are wrong
+  const renderExplanation = (question: Question) => {
+    const distractors = getDistractors(question)
+      .filter(({ key }) => question.distractor_explanations?.[key]);
+    if (!question.explanation && distractors.length === 0) return null;
+
+    return (
+      <div className="mt-2 ml-4 text-xs text-gray-600 space-y-1">
+        {question.explanation && (
+          <p className="flex items-start">
+            <Lightbulb className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0 text-[#3A7AFE]" />
+            <span>{question.explanation}</span>
+          </p>
+        )}
+        {distractors.map(({ key, label }) => (
+          <p key={key} className="pl-4 text-gray-500">
+            <span className="font-medium">Not {label}:</span> {question.distractor_explanations![key]}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  // The chapter text a question cites, or a warning when it can't be found in the chapter
+  const renderSource = (question: Question) => {
+    const { status, match } = getCitation(question);
+    if (status === 'none') return null;
+
+    const foundPage = match?.page != null ? formatPageRange(pageLabels, match.page) : null;
+    const citedPage = question.source_page ? `p. ${question.source_page}` : null;
+
+    if (status === 'not_found') {
+      return (
+        <div className="mt-2 ml-4 p-2 rounded-md bg-amber-50 border border-amber-200 text-xs text-amber-800">
+          <p className="flex items-center font-medium">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            Cited text not found in the chapter{citedPage ? ` (cited as ${citedPage})` : ''}
+          </p>
+          <p className="mt-1 italic">"{question.source_excerpt}"</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="mt-2 ml-4 p-2 rounded-md bg-white border border-gray-200 text-xs text-gray-600">
+        <div className="flex items-start space-x-2">
+          <Quote className="w-3 h-3 mt-0.5 flex-shrink-0 text-[#3A7AFE]" />
+          <p className="italic flex-1">{question.source_excerpt}</p>
+        </div>
+        <div className="flex items-center justify-between mt-1 pl-5">
+          <span className="text-gray-400">
+            {foundPage ?? ''}
+            {foundPage && citedPage && foundPage !== citedPage ? ` (cited as ${citedPage})` : ''}
+          </span>
+          <button
+            className="text-[#3A7AFE] hover:underline"
+            onClick={() => setViewingSource({ question, match: match! })}
+          >
+            Show in chapter
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
       <Card>
         <CardHeader>
           <CardTitle>Review Generated Content</CardTitle>
           <CardDescription>
-            Review the topics, narratives, and questions generated by our AI
+            Review and edit the topics, narratives, and questions generated by our AI
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded-md">
+              {error}
+            </div>
+          )}
+
+          {totalUnsupported > 0 && (
+            <div className="mb-4 p-3 flex items-start space-x-2 bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-md">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              <p>
+                {totalUnsupported === 1 ? '1 question quotes' : `${totalUnsupported} questions quote`} text that
+                isn't in the chapter, so {totalUnsupported === 1 ? 'it' : 'they'} may not be supported by it.
+                Check, edit or regenerate the flagged questions before launching.
+              </p>
+            </div>
+          )}
+
+          <div className="mb-4 flex flex-wrap items-center gap-3 text-sm">
+            <span className="flex items-center text-gray-500">
+              <Filter className="w-4 h-4 mr-1" />
+              Show
+            </span>
+            <select
+              value={difficultyFilter}
+              onChange={(e) => setDifficultyFilter(e.target.value as DifficultyFilter)}
+              className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+            >
+              <option value="all">Any difficulty</option>
+              {DIFFICULTIES.map(difficulty => (
+                <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+              ))}
+              <option value="untagged">No difficulty</option>
+            </select>
+            <select
+              value={levelFilter}
+              onChange={(e) => setLevelFilter(e.target.value as LevelFilter)}
+              className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+            >
+              <option value="all">Any cognitive level</option>
+              {COGNITIVE_LEVELS.map(level => (
+                <option key={level} value={level}>{COGNITIVE_LEVEL_LABELS[level]}</option>
+              ))}
+              <option value="untagged">No cognitive level</option>
+            </select>
+            {isFiltered && (
+              <button
+                className="text-[#3A7AFE] hover:underline"
+                onClick={() => {
+                  setDifficultyFilter('all');
+                  setLevelFilter('all');
+                }}
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+
           <div className="space-y-4">
             {topics.map((topic, index) => {
               const topicQuestions = questions[topic.id] || [];
+              const visibleQuestions = topicQuestions.filter(matchesFilters);
               const isExpanded = expandedTopic === topic.id;
-              
+              const isEditingTopic = editingTopicId === topic.id && topicDraft;
+
               return (
-                <div 
-                  key={topic.id} 
+                <div
+                  key={topic.id}
                   className="border border-gray-200 rounded-lg overflow-hidden"
                 >
-                  <div 
+                  <div
                     className={`flex items-center justify-between p-4 cursor-pointer ${
                       isExpanded ? 'bg-[#EEF4FF]' : 'bg-white hover:bg-gray-50'
                     }`}
@@ -55,74 +473,270 @@ const ContentReview: React.FC = () => {
                       <h3 className="font-medium">{topic.topic_name}</h3>
                     </div>
                     <div className="flex items-center space-x-4">
+                      {unsupportedCount(topicQuestions) > 0 && (
+                        <span
+                          className="flex items-center text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-700"
+                          title="Questions whose cited text isn't in the chapter"
+                        >
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          {unsupportedCount(topicQuestions)} to check
+                        </span>
+                      )}
                       <span className="text-sm text-gray-500">
-                        {topicQuestions.length} questions
+                        {isFiltered ? `${visibleQuestions.length} of ${topicQuestions.length}` : topicQuestions.length} questions
                       </span>
-                      {isExpanded ? 
-                        <ChevronUp className="w-5 h-5 text-gray-400" /> : 
+                      <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                        <button
+                          className="p-1 text-gray-400 hover:text-[#3A7AFE] disabled:opacity-30 disabled:hover:text-gray-400"
+                          onClick={() => handleMoveTopic(index, -1)}
+                          disabled={index === 0 || saving}
+                          title="Move topic up"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          className="p-1 text-gray-400 hover:text-[#3A7AFE] disabled:opacity-30 disabled:hover:text-gray-400"
+                          onClick={() => handleMoveTopic(index, 1)}
+                          disabled={index === topics.length - 1 || saving}
+                          title="Move topic down"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                      </div>
+                      {isExpanded ?
+                        <ChevronUp className="w-5 h-5 text-gray-400" /> :
                         <ChevronDown className="w-5 h-5 text-gray-400" />
                       }
                     </div>
                   </div>
-                  
+
                   {isExpanded && (
                     <div className="p-4 bg-white border-t border-gray-200">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <div>
-                          <div className="mb-4">
-                            <div className="flex items-center space-x-2 text-[#3A7AFE] mb-2">
-                              <Book className="w-4 h-4" />
-                              <h4 className="font-medium">Topic Description</h4>
+                        {isEditingTopic ? (
+                          <div className="space-y-3">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">Topic Name</label>
+                              <input
+                                type="text"
+                                value={topicDraft.topic_name}
+                                onChange={(e) => setTopicDraft({ ...topicDraft, topic_name: e.target.value })}
+                                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">Topic Description</label>
+                              <textarea
+                                value={topicDraft.topic_coverage}
+                                onChange={(e) => setTopicDraft({ ...topicDraft, topic_coverage: e.target.value })}
+                                rows={3}
+                                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">Narrative</label>
+                              <textarea
+                                value={topicDraft.topic_narrative}
+                                onChange={(e) => setTopicDraft({ ...topicDraft, topic_narrative: e.target.value })}
+                                rows={3}
+                                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+                              />
+                            </div>
+                            <div className="flex justify-end space-x-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={handleCancelTopicEdit}
+                                disabled={saving}
+                                icon={<X className="w-4 h-4" />}
+                              >
+                                Cancel
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => handleSaveTopic(topic.id)}
+                                isLoading={saving}
+                                icon={<Save className="w-4 h-4" />}
+                              >
+                                Save
+                              </Button>
                             </div>
-                            <p className="text-sm text-gray-600">{topic.topic_coverage}</p>
                           </div>
-                          
+                        ) : (
                           <div>
-                            <div className="flex items-center space-x-2 text-[#3A7AFE] mb-2">
-                              <MessageSquare className="w-4 h-4" />
-                              <h4 className="font-medium">Narrative</h4>
+                            <div className="mb-4">
+                              <div className="flex items-center justify-between mb-2">
+                                <div className="flex items-center space-x-2 text-[#3A7AFE]">
+                                  <Book className="w-4 h-4" />
+                                  <h4 className="font-medium">Topic Description</h4>
+                                </div>
+                                <button
+                                  className="p-1 text-gray-400 hover:text-[#3A7AFE]"
+                                  onClick={() => handleEditTopic(topic)}
+                                  title="Edit topic"
+                                >
+                                  <Edit2 className="w-4 h-4" />
+                                </button>
+                              </div>
+                              <p className="text-sm text-gray-600">{topic.topic_coverage}</p>
+                              {topic.page_start != null && (
+                                <p className="text-xs text-gray-400 mt-1">
+                                  From {formatPageRange(pageLabels, topic.page_start, topic.page_end)}
+                                </p>
+                              )}
                             </div>
-                            <div className="bg-[#EEF4FF] p-3 rounded-md">
-                              <p className="text-sm text-gray-600 italic">"{topic.topic_narrative}"</p>
+
+                            <div>
+                              <div className="flex items-center justify-between mb-2">
+                                <div className="flex items-center space-x-2 text-[#3A7AFE]">
+                                  <MessageSquare className="w-4 h-4" />
+                                  <h4 className="font-medium">Narrative</h4>
+                                </div>
+                                <button
+                                  className="flex items-center text-xs text-gray-500 hover:text-[#3A7AFE] disabled:opacity-50"
+                                  onClick={handleRegenerateNarratives}
+                                  disabled={saving}
+                                  title="Rewrite the story across all topics"
+                                >
+                                  <RefreshCw className={`w-3 h-3 mr-1 ${regenerating === 'narratives' ? 'animate-spin' : ''}`} />
+                                  Regenerate story
+                                </button>
+                              </div>
+                              <div className="bg-[#EEF4FF] p-3 rounded-md">
+                                <p className="text-sm text-gray-600 italic">"{topic.topic_narrative}"</p>
+                              </div>
                             </div>
                           </div>
-                        </div>
-                        
+                        )}
+
                         <div>
-                          <div className="flex items-center space-x-2 text-[#3A7AFE] mb-3">
-                            <CheckCircle className="w-4 h-4" />
-                            <h4 className="font-medium">Questions</h4>
+                          <div className="flex items-center justify-between mb-3">
+                            <div className="flex items-center space-x-2 text-[#3A7AFE]">
+                              <CheckCircle className="w-4 h-4" />
+                              <h4 className="font-medium">Questions</h4>
+                            </div>
+                            <button
+                              className="flex items-center text-xs text-gray-500 hover:text-[#3A7AFE] disabled:opacity-50"
+                              onClick={() => handleRegenerateTopicQuestions(topic)}
+                              disabled={saving}
+                              title="Replace every question you haven't approved"
+                            >
+                              <RefreshCw className={`w-3 h-3 mr-1 ${regenerating === `topic:${topic.id}` ? 'animate-spin' : ''}`} />
+                              Regenerate unapproved
+                            </button>
                           </div>
-                          
+
                           <div className="space-y-4">
-                            {topicQuestions.map((question, qIndex) => (
-                              <div 
-                                key={question.id} 
-                                className="bg-gray-50 p-3 rounded-md"
-                              >
-                                <p className="font-medium text-sm mb-2">
-                                  {qIndex + 1}. {question.question_stem}
-                                </p>
-                                <div className="space-y-1 ml-4">
-                                  {[
-                                    { id: 'A', text: question.option_a },
-                                    { id: 'B', text: question.option_b },
-                                    { id: 'C', text: question.option_c },
-                                    { id: 'D', text: question.option_d }
-                                  ].map((option) => (
-                                    <div 
-                                      key={option.id} 
-                                      className={`text-sm p-1 rounded ${
-                                        question.correct_option === option.id ? 'text-green-700 bg-green-50' : ''
-                                      }`}
-                                    >
-                                      {option.id}. {option.text}
-                                      {question.correct_option === option.id && ' ✓'}
+                            {visibleQuestions.map((question) => (
+                              editingQuestionId === question.id ? (
+                                <QuestionEditor
+                                  key={question.id}
+                                  initialValue={question}
+                                  saving={saving}
+                                  onSave={(draft) => handleSaveQuestion(topic.id, question.id, draft)}
+                                  onCancel={() => setEditingQuestionId(null)}
+                                />
+                              ) : (
+                                <div
+                                  key={question.id}
+                                  className={`p-3 rounded-md ${question.approved ? 'bg-green-50 border border-green-200' : 'bg-gray-50'}`}
+                                >
+                                  <div className="flex items-start justify-between mb-2">
+                                    <p className="font-medium text-sm">
+                                      {topicQuestions.indexOf(question) + 1}. {question.question_stem}
+                                    </p>
+                                    <div className="flex items-center flex-shrink-0 ml-2">
+                                      <button
+                                        className={`p-1 ${question.approved ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}`}
+                                        onClick={() => handleToggleApproved(topic.id, question)}
+                                        disabled={saving}
+                                        title={question.approved ? 'Approved: kept when regenerating' : 'Approve question'}
+                                      >
+                                        <ThumbsUp className="w-4 h-4" />
+                                      </button>
+                                      <button
+                                        className="p-1 text-gray-400 hover:text-[#3A7AFE]"
+                                        onClick={() => handleRegenerateQuestion(topic, question)}
+                                        disabled={saving}
+                                        title="Regenerate question"
+                                      >
+                                        <RefreshCw className={`w-4 h-4 ${regenerating === `question:${question.id}` ? 'animate-spin' : ''}`} />
+                                      </button>
+                                      <button
+                                        className="p-1 text-gray-400 hover:text-[#3A7AFE]"
+                                        onClick={() => setEditingQuestionId(question.id)}
+                                        disabled={saving}
+                                        title="Edit question"
+                                      >
+                                        <Edit2 className="w-4 h-4" />
+                                      </button>
+                                      <button
+                                        className="p-1 text-gray-400 hover:text-red-500"
+                                        onClick={() => handleDeleteQuestion(topic.id, question)}
+                                        disabled={saving}
+                                        title="Delete question"
+                                      >
+                                        <Trash2 className="w-4 h-4" />
+                                      </button>
+                                    </div>
+                                  </div>
+                                  {renderTags(question)}
+                                  {question.question_type !== 'multiple_choice' ? (
+                                    <div className="ml-4 text-sm space-y-1">
+                                      <span className="inline-block text-xs px-2 py-0.5 rounded-full bg-[#EEF4FF] text-[#3A7AFE]">
+                                        {QUESTION_TYPE_LABELS[question.question_type]}
+                                      </span>
+                                      {question.question_type === 'multi_select' && (
+                                        <p className="text-gray-600">Options: {(question.content?.options ?? []).join(', ')}</p>
+                                      )}
+                                      <p className="text-green-700">
+                                        ✓ {describeCorrectAnswer(question, question.correct_option, question.answer ?? null)}
+                                      </p>
                                     </div>
-                                  ))}
+                                  ) : (
+                                  <div className="space-y-1 ml-4">
+                                    {[
+                                      { id: 'A', text: question.option_a },
+                                      { id: 'B', text: question.option_b },
+                                      { id: 'C', text: question.option_c },
+                                      { id: 'D', text: question.option_d }
+                                    ].map((option) => (
+                                      <div
+                                        key={option.id}
+                                        className={`text-sm p-1 rounded ${
+                                          question.correct_option === option.id ? 'text-green-700 bg-green-50' : ''
+                                        }`}
+                                      >
+                                        {option.id}. {option.text}
+                                        {question.correct_option === option.id && ' ✓'}
+                                      </div>
+                                    ))}
+                                  </div>
+                                  )}
+                                  {renderExplanation(question)}
+                                  {renderSource(question)}
                                 </div>
-                              </div>
+                              )
                             ))}
+
+                            {editingQuestionId === NEW_QUESTION ? (
+                              <QuestionEditor
+                                saving={saving}
+                                onSave={(draft) => handleSaveQuestion(topic.id, NEW_QUESTION, draft)}
+                                onCancel={() => setEditingQuestionId(null)}
+                              />
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                fullWidth
+                                onClick={() => setEditingQuestionId(NEW_QUESTION)}
+                                disabled={saving}
+                                icon={<Plus className="w-4 h-4" />}
+                              >
+                                Add Question
+                              </Button>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -137,13 +751,33 @@ const ContentReview: React.FC = () => {
           <Button variant="outline" onClick={() => setView('processing')}>
             Back to Processing
           </Button>
-          <Button onClick={handleLaunch}>
-            Launch Game Session
-          </Button>
+          <div className="flex items-center gap-3">
+            {currentChapter && (
+              <ExportMenu
+                title={currentChapter.title}
+                grade={currentChapter.grade}
+                topics={topics}
+                questions={questions}
+              />
+            )}
+            <Button onClick={handleLaunch} disabled={saving}>
+              Launch Game Session
+            </Button>
+          </div>
         </CardFooter>
       </Card>
+
+      {viewingSource && currentChapter && (
+        <ChapterTextViewer
+          content={currentChapter.content}
+          match={viewingSource.match}
+          pageLabels={pageLabels}
+          question={viewingSource.question.question_stem}
+          onClose={() => setViewingSource(null)}
+        />
+      )}
     </div>
   );
 };
 
-export default ContentReview;
\ No newline at end of file
+export default ContentReview;
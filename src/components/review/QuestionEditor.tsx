@@ -0,0 +1,635 @@
+/**
+ * Question Editor component for Ether Excel
+ * Form for choosing a question's type, rewriting its text, setting the correct answer,
+ * explaining the answer to students and tagging its difficulty and cognitive level
+ */
+import React, { useId, useState } from 'react';
+import { ArrowUp, ArrowDown, Plus, Save, Trash2, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { CognitiveLevel, Difficulty, QuestionFields, QuestionType } from '../../types';
+import {
+  buildMatchingQuestion,
+  buildOrderingQuestion,
+  getDistractors,
+  getMatchingPairs,
+  getOrderedItems,
+  MAX_LIST_LENGTH,
+  MIN_LIST_LENGTH,
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES
+} from '../../lib/question-types';
+import { COGNITIVE_LEVEL_LABELS, COGNITIVE_LEVELS, DIFFICULTIES, DIFFICULTY_LABELS } from '../../lib/question-mix';
+
+export type QuestionDraft = QuestionFields;
+
+export const emptyQuestionDraft: QuestionDraft = {
+  question_type: 'multiple_choice',
+  question_stem: '',
+  option_a: '',
+  option_b: '',
+  option_c: '',
+  option_d: '',
+  correct_option: 'A',
+  content: null,
+  answer: null,
+  explanation: null,
+  distractor_explanations: null,
+  difficulty: null,
+  cognitive_level: null
+};
+
+const OPTION_FIELDS = [
+  { id: 'A', field: 'option_a' },
+  { id: 'B', field: 'option_b' },
+  { id: 'C', field: 'option_c' },
+  { id: 'D', field: 'option_d' }
+] as const;
+
+const INPUT_CLASS = 'px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]';
+
+// Every type's fields are kept while editing so switching type doesn't lose what was typed
+interface EditorForm {
+  question_type: QuestionType;
+  question_stem: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  correct_option: string;
+  trueFalse: boolean;
+  choices: string[];
+  correctChoices: number[];
+  number: string;
+  tolerance: string;
+  unit: string;
+  accepted: string;
+  // Ordering items in the correct order
+  items: string[];
+  pairs: { left: string; right: string }[];
+  explanation: string;
+  // Kept for every wrong answer typed, even ones no longer wrong; only current ones are saved
+  distractorExplanations: Record<string, string>;
+  // '' when untagged
+  difficulty: Difficulty | '';
+  cognitiveLevel: CognitiveLevel | '';
+}
+
+function blankList(values: string[] | undefined) {
+  return values && values.length > 0 ? values : Array.from({ length: MIN_LIST_LENGTH }, () => '');
+}
+
+function toForm(draft: QuestionDraft): EditorForm {
+  const pairs = getMatchingPairs(draft.content, draft.answer);
+
+  return {
+    question_type: draft.question_type,
+    question_stem: draft.question_stem,
+    option_a: draft.option_a,
+    option_b: draft.option_b,
+    option_c: draft.option_c,
+    option_d: draft.option_d,
+    correct_option: draft.correct_option || 'A',
+    trueFalse: draft.answer?.value ?? true,
+    choices: blankList(draft.content?.options),
+    correctChoices: draft.answer?.correct ?? [],
+    number: draft.answer?.number !== undefined ? String(draft.answer.number) : '',
+    tolerance: draft.answer?.tolerance ? String(draft.answer.tolerance) : '',
+    unit: draft.content?.unit ?? '',
+    accepted: (draft.answer?.accepted ?? []).join('\n'),
+    items: blankList(getOrderedItems(draft.content, draft.answer)),
+    pairs: pairs.length > 0 ? pairs : Array.from({ length: MIN_LIST_LENGTH }, () => ({ left: '', right: '' })),
+    explanation: draft.explanation ?? '',
+    distractorExplanations: draft.distractor_explanations ?? {},
+    difficulty: draft.difficulty ?? '',
+    cognitiveLevel: draft.cognitive_level ?? ''
+  };
+}
+
+/**
+ * Check a list of options, items or pairs the way generated questions are checked
+ */
+function validateList(values: string[], name: string): string | null {
+  if (values.length < MIN_LIST_LENGTH || values.length > MAX_LIST_LENGTH) {
+    return `Add between ${MIN_LIST_LENGTH} and ${MAX_LIST_LENGTH} ${name}.`;
+  }
+  if (values.some(value => !value)) return `All ${name} need some text.`;
+  if (new Set(values.map(value => value.toLowerCase())).size < values.length) {
+    return `All ${name} must be different.`;
+  }
+  return null;
+}
+
+/**
+ * Turn the form's question and answer into the fields to save, or explain what needs fixing
+ */
+function toAnswerDraft(form: EditorForm): { draft?: QuestionDraft; error?: string } {
+  const question_stem = form.question_stem.trim();
+  if (!question_stem) return { error: 'The question needs some text.' };
+
+  const base: QuestionDraft = {
+    ...emptyQuestionDraft,
+    question_type: form.question_type,
+    question_stem,
+    correct_option: ''
+  };
+
+  switch (form.question_type) {
+    case 'multiple_choice': {
+      const options = OPTION_FIELDS.map(({ field }) => form[field].trim());
+      if (options.some(option => !option)) return { error: 'All four options need some text.' };
+      if (new Set(options.map(option => option.toLowerCase())).size < options.length) {
+        return { error: 'All four options must be different.' };
+      }
+      if (!OPTION_FIELDS.some(({ id }) => id === form.correct_option)) return { error: 'Choose the correct option.' };
+      return {
+        draft: {
+          ...base,
+          option_a: options[0],
+          option_b: options[1],
+          option_c: options[2],
+          option_d: options[3],
+          correct_option: form.correct_option
+        }
+      };
+    }
+
+    case 'true_false':
+      return { draft: { ...base, answer: { value: form.trueFalse } } };
+
+    case 'multi_select': {
+      const options = form.choices.map(choice => choice.trim());
+      const error = validateList(options, 'options');
+      if (error) return { error };
+      const correct = form.correctChoices.filter(index => index < options.length).sort((a, b) => a - b);
+      if (correct.length === 0) return { error: 'Tick at least one correct option.' };
+      return { draft: { ...base, content: { options }, answer: { correct } } };
+    }
+
+    case 'numeric': {
+      const number = Number(form.number);
+      const tolerance = form.tolerance.trim() ? Number(form.tolerance) : 0;
+      if (!form.number.trim() || !Number.isFinite(number)) return { error: 'Enter the correct answer as a number.' };
+      if (!Number.isFinite(tolerance) || tolerance < 0) return { error: 'The tolerance must be zero or a positive number.' };
+      return {
+        draft: {
+          ...base,
+          content: { unit: form.unit.trim() || null },
+          answer: tolerance > 0 ? { number, tolerance } : { number }
+        }
+      };
+    }
+
+    case 'short_text': {
+      const accepted = form.accepted.split('\n').map(line => line.trim()).filter(Boolean);
+      if (accepted.length === 0) return { error: 'Add at least one accepted answer.' };
+      return { draft: { ...base, answer: { accepted } } };
+    }
+
+    case 'ordering': {
+      const items = form.items.map(item => item.trim());
+      const error = validateList(items, 'items');
+      if (error) return { error };
+      return { draft: { ...base, ...buildOrderingQuestion(items) } };
+    }
+
+    case 'matching': {
+      const pairs = form.pairs.map(pair => ({ left: pair.left.trim(), right: pair.right.trim() }));
+      const error = validateList(pairs.map(pair => pair.left), 'left-hand items')
+        || validateList(pairs.map(pair => pair.right), 'right-hand items');
+      if (error) return { error };
+      return { draft: { ...base, ...buildMatchingQuestion(pairs) } };
+    }
+  }
+}
+
+// The wrong answers of the question as currently typed, for explaining
+function getFormDistractors(form: EditorForm) {
+  return getDistractors({
+    question_type: form.question_type,
+    option_a: form.option_a,
+    option_b: form.option_b,
+    option_c: form.option_c,
+    option_d: form.option_d,
+    correct_option: form.correct_option,
+    content: { options: form.choices.map((choice, i) => choice.trim() || `Option ${i + 1}`) },
+    answer: { value: form.trueFalse, correct: form.correctChoices }
+  });
+}
+
+/**
+ * Turn the form into the fields to save, or explain what needs fixing
+ */
+function toDraft(form: EditorForm): { draft?: QuestionDraft; error?: string } {
+  const result = toAnswerDraft(form);
+  if (!result.draft) return result;
+
+  const distractorExplanations = Object.fromEntries(
+    getDistractors(result.draft)
+      .map(({ key }) => [key, form.distractorExplanations[key]?.trim() ?? ''])
+      .filter(([, explanation]) => explanation)
+  );
+
+  return {
+    draft: {
+      ...result.draft,
+      explanation: form.explanation.trim() || null,
+      distractor_explanations: Object.keys(distractorExplanations).length > 0 ? distractorExplanations : null,
+      difficulty: form.difficulty || null,
+      cognitive_level: form.cognitiveLevel || null
+    }
+  };
+}
+
+// Move an entry one place up or down in a list
+function moveEntry<T>(list: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction;
+  if (target < 0 || target >= list.length) return list;
+  const updated = [...list];
+  [updated[index], updated[target]] = [updated[target], updated[index]];
+  return updated;
+}
+
+interface QuestionEditorProps {
+  initialValue?: QuestionDraft;
+  saving?: boolean;
+  onSave: (draft: QuestionDraft) => void;
+  onCancel: () => void;
+}
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({
+  initialValue = emptyQuestionDraft,
+  saving = false,
+  onSave,
+  onCancel
+}) => {
+  const [form, setForm] = useState<EditorForm>(() => toForm(initialValue));
+  const [error, setError] = useState<string | null>(null);
+  const radioName = useId();
+
+  const update = (changes: Partial<EditorForm>) => setForm({ ...form, ...changes });
+
+  const handleSave = () => {
+    const result = toDraft(form);
+    if (!result.draft) {
+      setError(result.error || 'Check the question and try again.');
+      return;
+    }
+
+    setError(null);
+    onSave(result.draft);
+  };
+
+  const removeChoice = (index: number) => {
+    // Multi-select explanations are keyed by option index, so later ones move up too
+    const distractorExplanations = { ...form.distractorExplanations };
+    form.choices.forEach((_, i) => {
+      if (i >= index) distractorExplanations[String(i)] = form.distractorExplanations[String(i + 1)] ?? '';
+    });
+
+    update({
+      choices: form.choices.filter((_, i) => i !== index),
+      correctChoices: form.correctChoices.filter(i => i !== index).map(i => (i > index ? i - 1 : i)),
+      distractorExplanations
+    });
+  };
+
+  const toggleCorrectChoice = (index: number) => {
+    update({
+      correctChoices: form.correctChoices.includes(index)
+        ? form.correctChoices.filter(i => i !== index)
+        : [...form.correctChoices, index]
+    });
+  };
+
+  const renderAnswerFields = () => {
+    switch (form.question_type) {
+      case 'multiple_choice':
+        return (
+          <>
+            <div className="space-y-2">
+              {OPTION_FIELDS.map(({ id, field }) => (
+                <label key={id} className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    name={radioName}
+                    checked={form.correct_option === id}
+                    onChange={() => update({ correct_option: id })}
+                    className="text-[#3A7AFE] focus:ring-[#3A7AFE]"
+                    title="Mark as the correct answer"
+                  />
+                  <span className="text-sm font-medium w-4">{id}.</span>
+                  <input
+                    type="text"
+                    value={form[field]}
+                    onChange={(e) => update({ [field]: e.target.value })}
+                    placeholder={`Option ${id}`}
+                    className={`flex-1 px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE] ${
+                      form.correct_option === id ? 'border-green-400 bg-green-50' : 'border-gray-300'
+                    }`}
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">Select the radio button next to the correct answer.</p>
+          </>
+        );
+
+      case 'true_false':
+        return (
+          <div className="flex space-x-4">
+            {[true, false].map(value => (
+              <label key={String(value)} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="radio"
+                  name={radioName}
+                  checked={form.trueFalse === value}
+                  onChange={() => update({ trueFalse: value })}
+                  className="text-[#3A7AFE] focus:ring-[#3A7AFE]"
+                />
+                <span>{value ? 'True' : 'False'}</span>
+              </label>
+            ))}
+          </div>
+        );
+
+      case 'multi_select':
+        return (
+          <>
+            <div className="space-y-2">
+              {form.choices.map((choice, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={form.correctChoices.includes(index)}
+                    onChange={() => toggleCorrectChoice(index)}
+                    className="rounded text-[#3A7AFE] focus:ring-[#3A7AFE]"
+                    title="Mark as a correct answer"
+                  />
+                  <input
+                    type="text"
+                    value={choice}
+                    onChange={(e) => update({ choices: form.choices.map((c, i) => (i === index ? e.target.value : c)) })}
+                    placeholder={`Option ${index + 1}`}
+                    className={`flex-1 ${INPUT_CLASS}`}
+                  />
+                  <button
+                    className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-50"
+                    onClick={() => removeChoice(index)}
+                    disabled={form.choices.length <= MIN_LIST_LENGTH}
+                    title="Remove option"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {form.choices.length < MAX_LIST_LENGTH && (
+              <button
+                className="text-xs text-[#3A7AFE] flex items-center"
+                onClick={() => update({ choices: [...form.choices, ''] })}
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add option
+              </button>
+            )}
+            <p className="text-xs text-gray-500">Tick every correct answer.</p>
+          </>
+        );
+
+      case 'numeric':
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-gray-600">
+              Correct answer
+              <input
+                type="number"
+                value={form.number}
+                onChange={(e) => update({ number: e.target.value })}
+                className={`w-full mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Tolerance (±)
+              <input
+                type="number"
+                min={0}
+                value={form.tolerance}
+                onChange={(e) => update({ tolerance: e.target.value })}
+                placeholder="0"
+                className={`w-full mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Unit
+              <input
+                type="text"
+                value={form.unit}
+                onChange={(e) => update({ unit: e.target.value })}
+                placeholder="e.g. cm"
+                className={`w-full mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+          </div>
+        );
+
+      case 'short_text':
+        return (
+          <>
+            <textarea
+              value={form.accepted}
+              onChange={(e) => update({ accepted: e.target.value })}
+              placeholder="Accepted answers"
+              rows={3}
+              className={`w-full ${INPUT_CLASS}`}
+            />
+            <p className="text-xs text-gray-500">One accepted answer per line. Case and extra spaces are ignored.</p>
+          </>
+        );
+
+      case 'ordering':
+        return (
+          <>
+            <div className="space-y-2">
+              {form.items.map((item, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <span className="text-sm font-medium w-4">{index + 1}.</span>
+                  <input
+                    type="text"
+                    value={item}
+                    onChange={(e) => update({ items: form.items.map((it, i) => (i === index ? e.target.value : it)) })}
+                    placeholder={`Item ${index + 1}`}
+                    className={`flex-1 ${INPUT_CLASS}`}
+                  />
+                  <button
+                    className="p-1 text-gray-400 hover:text-[#3A7AFE] disabled:opacity-50"
+                    onClick={() => update({ items: moveEntry(form.items, index, -1) })}
+                    disabled={index === 0}
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    className="p-1 text-gray-400 hover:text-[#3A7AFE] disabled:opacity-50"
+                    onClick={() => update({ items: moveEntry(form.items, index, 1) })}
+                    disabled={index === form.items.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-50"
+                    onClick={() => update({ items: form.items.filter((_, i) => i !== index) })}
+                    disabled={form.items.length <= MIN_LIST_LENGTH}
+                    title="Remove item"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {form.items.length < MAX_LIST_LENGTH && (
+              <button
+                className="text-xs text-[#3A7AFE] flex items-center"
+                onClick={() => update({ items: [...form.items, ''] })}
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add item
+              </button>
+            )}
+            <p className="text-xs text-gray-500">List the items in the correct order; students see them shuffled.</p>
+          </>
+        );
+
+      case 'matching':
+        return (
+          <>
+            <div className="space-y-2">
+              {form.pairs.map((pair, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={pair.left}
+                    onChange={(e) => update({ pairs: form.pairs.map((p, i) => (i === index ? { ...p, left: e.target.value } : p)) })}
+                    placeholder={`Item ${index + 1}`}
+                    className={`flex-1 ${INPUT_CLASS}`}
+                  />
+                  <span className="text-sm text-gray-400">=</span>
+                  <input
+                    type="text"
+                    value={pair.right}
+                    onChange={(e) => update({ pairs: form.pairs.map((p, i) => (i === index ? { ...p, right: e.target.value } : p)) })}
+                    placeholder={`Match ${index + 1}`}
+                    className={`flex-1 ${INPUT_CLASS}`}
+                  />
+                  <button
+                    className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-50"
+                    onClick={() => update({ pairs: form.pairs.filter((_, i) => i !== index) })}
+                    disabled={form.pairs.length <= MIN_LIST_LENGTH}
+                    title="Remove pair"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {form.pairs.length < MAX_LIST_LENGTH && (
+              <button
+                className="text-xs text-[#3A7AFE] flex items-center"
+                onClick={() => update({ pairs: [...form.pairs, { left: '', right: '' }] })}
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add pair
+              </button>
+            )}
+            <p className="text-xs text-gray-500">Students see the right-hand column shuffled.</p>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-white border border-[#3A7AFE] p-3 rounded-md space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={form.question_type}
+          onChange={(e) => update({ question_type: e.target.value as QuestionType })}
+          className={INPUT_CLASS}
+        >
+          {QUESTION_TYPES.map(type => (
+            <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <select
+          value={form.difficulty}
+          onChange={(e) => update({ difficulty: e.target.value as Difficulty | '' })}
+          className={INPUT_CLASS}
+          title="Difficulty"
+        >
+          <option value="">No difficulty</option>
+          {DIFFICULTIES.map(difficulty => (
+            <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+          ))}
+        </select>
+        <select
+          value={form.cognitiveLevel}
+          onChange={(e) => update({ cognitiveLevel: e.target.value as CognitiveLevel | '' })}
+          className={INPUT_CLASS}
+          title="Cognitive level"
+        >
+          <option value="">No cognitive level</option>
+          {COGNITIVE_LEVELS.map(level => (
+            <option key={level} value={level}>{COGNITIVE_LEVEL_LABELS[level]}</option>
+          ))}
+        </select>
+      </div>
+
+      <textarea
+        value={form.question_stem}
+        onChange={(e) => update({ question_stem: e.target.value })}
+        placeholder={form.question_type === 'true_false' ? 'Statement' : 'Question text'}
+        rows={2}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+      />
+
+      {renderAnswerFields()}
+
+      <div className="space-y-2 pt-3 border-t border-gray-100">
+        <label className="block text-xs text-gray-600">
+          Explanation
+          <textarea
+            value={form.explanation}
+            onChange={(e) => update({ explanation: e.target.value })}
+            placeholder="Why the correct answer is right"
+            rows={2}
+            className={`w-full mt-1 ${INPUT_CLASS}`}
+          />
+        </label>
+        {getFormDistractors(form).map(({ key, label }) => (
+          <label key={key} className="flex items-center space-x-2 text-xs text-gray-600">
+            <span className="w-32 truncate" title={label}>Why "{label}" is wrong</span>
+            <input
+              type="text"
+              value={form.distractorExplanations[key] ?? ''}
+              onChange={(e) => update({ distractorExplanations: { ...form.distractorExplanations, [key]: e.target.value } })}
+              className={`flex-1 ${INPUT_CLASS}`}
+            />
+          </label>
+        ))}
+        <p className="text-xs text-gray-500">Students see these after they answer.</p>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={saving} icon={<X className="w-4 h-4" />}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} isLoading={saving} icon={<Save className="w-4 h-4" />}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,85 @@
+/**
+ * Chapter File Viewer component for Ether Excel
+ * Shows the original file a saved chapter was made from. PDFs open in the browser's own viewer;
+ * other file types can be downloaded.
+ */
+import React, { useEffect, useState } from 'react';
+import { Download, ExternalLink, FileText, X } from 'lucide-react';
+import { getChapterFileName, getChapterFileUrl } from '../../services/storage';
+
+interface ChapterFileViewerProps {
+  filePath: string;
+  onClose: () => void;
+}
+
+const ChapterFileViewer: React.FC<ChapterFileViewerProps> = ({ filePath, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileName = getChapterFileName(filePath);
+  const isPdf = fileName.toLowerCase().endsWith('.pdf');
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setError(null);
+
+    getChapterFileUrl(filePath)
+      .then(signedUrl => !cancelled && setUrl(signedUrl))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to open the chapter file'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath]);
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden mb-4">
+      <div className="flex items-center justify-between bg-gray-50 px-3 py-2 border-b border-gray-200">
+        <h4 className="text-sm font-medium flex items-center min-w-0">
+          <FileText className="w-4 h-4 mr-2 text-[#3A7AFE] flex-shrink-0" />
+          <span className="truncate">{fileName}</span>
+        </h4>
+        <div className="flex items-center gap-1">
+          {url && (
+            <a
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100"
+              title="Open in a new tab"
+            >
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          )}
+          <button onClick={onClose} className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 text-sm text-red-600">{error}</div>
+      ) : !url ? (
+        <div className="h-32 flex items-center justify-center">
+          <div className="inline-block w-6 h-6 border-2 border-t-blue-500 border-gray-200 rounded-full animate-spin"></div>
+        </div>
+      ) : isPdf ? (
+        <iframe src={url} title={fileName} className="w-full h-[600px] bg-gray-100" />
+      ) : (
+        <div className="p-4 text-center">
+          <p className="text-sm text-gray-600 mb-3">This type of file can't be shown here, but you can download it.</p>
+          <a
+            href={url}
+            download={fileName}
+            className="inline-flex items-center h-9 px-3 text-sm font-medium rounded-lg border border-[#D1D5DB] text-[#1F2937] hover:bg-[#F9FAFB]"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterFileViewer;
@@ -3,14 +3,18 @@
  * Allows teachers to select from existing chapters or create a new one
  */
 import React, { useState, useEffect } from 'react';
-import { BookOpen, Upload, ChevronDown, Book, Filter, Bookmark, ArrowRight } from 'lucide-react';
+import { BookOpen, Upload, ChevronDown, Book, Filter, Bookmark, ArrowRight, AlertTriangle, RefreshCw, FileText, RotateCcw } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '../ui/Card';
 import Button from '../ui/Button';
+import ExportMenu from '../export/ExportMenu';
+import ChapterFileViewer from './ChapterFileViewer';
 import { useAppContext } from '../../context/AppContext';
-import { getAllChapters, getUniqueGrades, getChaptersByGrade, getTopicsByChapterId, getQuestionsByTopicId } from '../../services/database';
+import { getAllChapters, getUniqueGrades, getChaptersByGrade, getTopicsByChapterId, getQuestionsByTopicId, getIncompleteGenerationJobs } from '../../services/database';
+import { GenerationJob } from '../../types';
+import { describeCorrectAnswer } from '../../lib/question-types';
 
 const ChapterSelection: React.FC = () => {
-  const { setView, setCurrentChapter, setTopics, setQuestions } = useAppContext();
+  const { setView, setCurrentChapter, setTopics, setQuestions, setProcessingState, setUploadState } = useAppContext();
   
   const [chapters, setChapters] = useState<any[]>([]);
   const [grades, setGrades] = useState<string[]>([]);
@@ -20,6 +24,9 @@ const ChapterSelection: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [loadingPreview, setLoadingPreview] = useState(false);
   const [hasChapters, setHasChapters] = useState(true);
+  // Unfinished generation jobs, keyed by chapter ID
+  const [incompleteJobs, setIncompleteJobs] = useState<Record<string, GenerationJob>>({});
+  const [viewingFile, setViewingFile] = useState(false);
   
   // Load all available grades and chapters
   useEffect(() => {
@@ -36,6 +43,10 @@ const ChapterSelection: React.FC = () => {
         setChapters(chaptersData);
         setHasChapters(chaptersData.length > 0);
         
+        // Flag chapters whose content generation never finished
+        const jobs = await getIncompleteGenerationJobs();
+        setIncompleteJobs(Object.fromEntries(jobs.map(job => [job.chapter_id, job])));
+        
         setLoading(false);
       } catch (error) {
         console.error('Error loading data:', error);
@@ -81,6 +92,7 @@ const ChapterSelection: React.FC = () => {
   // Handle chapter selection
   const handleChapterSelect = async (chapter: any) => {
     setSelectedChapter(chapter);
+    setViewingFile(false);
     
     try {
       setLoadingPreview(true);
@@ -130,6 +142,38 @@ const ChapterSelection: React.FC = () => {
     }
   };
   
+  // Resume content generation for a chapter whose job didn't finish
+  const handleResumeProcessing = () => {
+    if (!chapterPreview) return;
+
+    setCurrentChapter({
+      id: chapterPreview.chapter.id,
+      title: chapterPreview.chapter.title,
+      content: chapterPreview.chapter.content,
+      grade: chapterPreview.chapter.grade,
+      uploadedAt: new Date(chapterPreview.chapter.created_at),
+      status: 'processing'
+    });
+    setProcessingState({ status: 'idle', progress: 0 });
+    setView('processing');
+  };
+  
+  // Read the chapter's stored file again and regenerate its content, without re-uploading
+  const handleReprocess = () => {
+    if (!chapterPreview?.chapter.pdf_url) return;
+
+    setUploadState({
+      status: 'initial',
+      reprocess: {
+        chapterId: chapterPreview.chapter.id,
+        title: chapterPreview.chapter.title,
+        grade: chapterPreview.chapter.grade,
+        filePath: chapterPreview.chapter.pdf_url
+      }
+    });
+    setView('upload');
+  };
+  
   // Handle creating a new chapter
   const handleNewChapter = () => {
     setView('upload');
@@ -210,9 +254,16 @@ const ChapterSelection: React.FC = () => {
                                   Grade: {chapter.grade} • {new Date(chapter.created_at).toLocaleDateString()}
                                 </p>
                               </div>
-                              {selectedChapter?.id === chapter.id && (
-                                <div className="w-2 h-2 bg-[#3A7AFE] rounded-full"></div>
-                              )}
+                              <div className="flex items-center space-x-2">
+                                {incompleteJobs[chapter.id] && (
+                                  <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-700">
+                                    Incomplete
+                                  </span>
+                                )}
+                                {selectedChapter?.id === chapter.id && (
+                                  <div className="w-2 h-2 bg-[#3A7AFE] rounded-full"></div>
+                                )}
+                              </div>
                             </div>
                           </div>
                         ))}
@@ -249,26 +300,87 @@ const ChapterSelection: React.FC = () => {
                       <div className="bg-[#EEF4FF] px-4 py-3 border-b border-gray-200">
                         <div className="flex items-center justify-between">
                           <h3 className="font-medium">Chapter Preview</h3>
-                          <Button
-                            onClick={handleUseSelectedChapter}
-                            size="sm"
-                            icon={<ArrowRight className="w-4 h-4 ml-2" />}
-                            iconPosition="right"
-                          >
-                            Use This Chapter
-                          </Button>
+                          <div className="flex items-center gap-2">
+                            <ExportMenu
+                              title={chapterPreview.chapter.title}
+                              grade={chapterPreview.chapter.grade}
+                              topics={chapterPreview.topics}
+                              questions={chapterPreview.questions}
+                              size="sm"
+                            />
+                            <Button
+                              onClick={handleUseSelectedChapter}
+                              size="sm"
+                              icon={<ArrowRight className="w-4 h-4 ml-2" />}
+                              iconPosition="right"
+                            >
+                              Use This Chapter
+                            </Button>
+                          </div>
                         </div>
                       </div>
                       
                       <div className="p-4">
-                        <div className="bg-white p-4 rounded-lg border border-gray-200 mb-4">
-                          <h3 className="text-lg font-medium mb-1">{chapterPreview.chapter.title}</h3>
-                          <p className="text-sm text-gray-500">
-                            Grade: {chapterPreview.chapter.grade} • 
-                            {chapterPreview.topics.length} topics • 
-                            {Object.values(chapterPreview.questions).reduce((acc: any, val: any) => acc + val.length, 0)} questions
-                          </p>
+                        {incompleteJobs[chapterPreview.chapter.id] && (
+                          <div className="flex items-center justify-between bg-amber-50 border border-amber-200 p-3 rounded-lg mb-4">
+                            <div className="flex items-start space-x-2">
+                              <AlertTriangle className="w-5 h-5 text-amber-500 flex-shrink-0" />
+                              <div>
+                                <p className="text-sm font-medium text-amber-800">Content generation didn't finish</p>
+                                <p className="text-xs text-amber-700">
+                                  {incompleteJobs[chapterPreview.chapter.id].error
+                                    || 'Processing was interrupted. Completed steps are saved.'}
+                                </p>
+                              </div>
+                            </div>
+                            <Button
+                              onClick={handleResumeProcessing}
+                              size="sm"
+                              variant="outline"
+                              icon={<RefreshCw className="w-4 h-4 mr-2" />}
+                            >
+                              Resume
+                            </Button>
+                          </div>
+                        )}
+                        
+                        <div className="bg-white p-4 rounded-lg border border-gray-200 mb-4 flex flex-wrap items-start justify-between gap-3">
+                          <div>
+                            <h3 className="text-lg font-medium mb-1">{chapterPreview.chapter.title}</h3>
+                            <p className="text-sm text-gray-500">
+                              Grade: {chapterPreview.chapter.grade} • 
+                              {chapterPreview.topics.length} topics • 
+                              {Object.values(chapterPreview.questions).reduce((acc: any, val: any) => acc + val.length, 0)} questions
+                            </p>
+                          </div>
+                          {chapterPreview.chapter.pdf_url && (
+                            <div className="flex items-center gap-2">
+                              <Button
+                                onClick={() => setViewingFile(!viewingFile)}
+                                size="sm"
+                                variant="outline"
+                                icon={<FileText className="w-4 h-4 mr-2" />}
+                              >
+                                {viewingFile ? 'Hide Original' : 'View Original'}
+                              </Button>
+                              <Button
+                                onClick={handleReprocess}
+                                size="sm"
+                                variant="outline"
+                                icon={<RotateCcw className="w-4 h-4 mr-2" />}
+                              >
+                                Re-process
+                              </Button>
+                            </div>
+                          )}
                         </div>
+
+                        {viewingFile && chapterPreview.chapter.pdf_url && (
+                          <ChapterFileViewer
+                            filePath={chapterPreview.chapter.pdf_url}
+                            onClose={() => setViewingFile(false)}
+                          />
+                        )}
                         
                         <h4 className="text-sm font-medium flex items-center mb-3">
                           <Bookmark className="w-4 h-4 mr-2 text-[#3A7AFE]" />
@@ -293,6 +405,13 @@ const ChapterSelection: React.FC = () => {
                                   {(chapterPreview.questions[topic.id] || []).slice(0, 2).map((question: any) => (
                                     <div key={question.id} className="bg-gray-50 p-2 rounded-md text-xs">
                                       <p className="font-medium">{question.question_stem}</p>
+                                      {question.question_type && question.question_type !== 'multiple_choice' ? (
+                                        <div className="mt-1 pl-2 text-gray-600">
+                                          <span className="text-green-600">✓ </span>
+                                          {describeCorrectAnswer(question, question.correct_option, question.answer ?? null)}
+                                        </div>
+                                      ) : (
+                                      <>
                                       <div className="mt-1 pl-2 text-gray-600">
                                         {question.correct_option === 'A' && <span className="text-green-600">✓ </span>}
                                         A: {question.option_a}
@@ -302,6 +421,8 @@ const ChapterSelection: React.FC = () => {
                                         B: {question.option_b}
                                       </div>
                                       {/* Only showing A and B for brevity */}
+                                      </>
+                                      )}
                                     </div>
                                   ))}
                                   {chapterPreview.questions[topic.id]?.length > 2 && (
@@ -0,0 +1,256 @@
+/**
+ * Live Controls component for Ether Excel
+ * Lets the teacher step a teacher-paced game through each narrative and question,
+ * broadcasting every screen change to the students' devices
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowRight, Lock, Eye, Award, Square, Radio } from 'lucide-react';
+import Button from '../ui/Button';
+import { buildLiveSequence, createLiveBroadcaster, LiveBroadcaster, toPlayerQuestion } from '../../lib/live-game';
+import { describeCorrectAnswer } from '../../lib/question-types';
+import { updateGameSessionLiveState, updateGameSessionStatus } from '../../services/database';
+import { GameSession, LivePhase, LiveState, PlayerStats, Question, Topic } from '../../types';
+
+// How many players are shown on the students' leaderboard screen
+const LEADERBOARD_SIZE = 10;
+
+const PHASE_LABELS: Record<LivePhase, string> = {
+  lobby: 'Waiting to start',
+  narrative: 'Showing topic story',
+  question: 'Accepting answers',
+  closed: 'Answers closed',
+  revealed: 'Answer revealed',
+  leaderboard: 'Showing leaderboard',
+  ended: 'Game ended'
+};
+
+interface LiveControlsProps {
+  gameSession: GameSession;
+  topics: Topic[];
+  questions: Record<string, Question[]>;
+  playerStats: PlayerStats[];
+  onTopicChange: (topicIndex: number) => void;
+}
+
+const LiveControls: React.FC<LiveControlsProps> = ({
+  gameSession,
+  topics,
+  questions,
+  playerStats,
+  onTopicChange
+}) => {
+  const sequence = useMemo(() => buildLiveSequence(topics, questions), [topics, questions]);
+  const totalQuestions = sequence.filter(step => step.questionIndex >= 0).length;
+
+  const [liveState, setLiveState] = useState<LiveState | null>(gameSession.live_state || null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const broadcasterRef = useRef<LiveBroadcaster | null>(null);
+
+  // Open the broadcast channel for this session
+  useEffect(() => {
+    broadcasterRef.current = createLiveBroadcaster(gameSession.id);
+    return () => {
+      broadcasterRef.current?.close();
+      broadcasterRef.current = null;
+    };
+  }, [gameSession.id]);
+
+  // Keep the lobby's "Current Topic" panel on the topic being shown
+  useEffect(() => {
+    if (liveState && liveState.topicIndex >= 0) {
+      onTopicChange(liveState.topicIndex);
+    }
+  }, [liveState?.topicIndex]);
+
+  const phase: LivePhase = liveState?.phase || 'lobby';
+  const position = liveState
+    ? sequence.findIndex(step => step.topicIndex === liveState.topicIndex && step.questionIndex === liveState.questionIndex)
+    : -1;
+  const currentQuestion = liveState && liveState.questionIndex >= 0 && topics[liveState.topicIndex]
+    ? (questions[topics[liveState.topicIndex].id] || [])[liveState.questionIndex] || null
+    : null;
+
+  // Build the state for a step in the sequence
+  const buildState = (stepIndex: number, nextPhase: LivePhase): LiveState => {
+    const step = sequence[stepIndex];
+    const topic = step ? topics[step.topicIndex] : null;
+    const question = step && topic && step.questionIndex >= 0
+      ? (questions[topic.id] || [])[step.questionIndex] || null
+      : null;
+
+    return {
+      phase: nextPhase,
+      topicIndex: step ? step.topicIndex : -1,
+      questionIndex: step ? step.questionIndex : -1,
+      questionNumber: sequence.slice(0, stepIndex + 1).filter(s => s.questionIndex >= 0).length,
+      totalQuestions,
+      topic: topic ? { id: topic.id, topic_name: topic.topic_name, topic_narrative: topic.topic_narrative } : null,
+      question: question ? toPlayerQuestion(question) : null,
+      correctOption: null,
+      correctAnswer: null,
+      explanation: null,
+      distractorExplanations: null,
+      leaderboard: null,
+      sentAt: new Date().toISOString()
+    };
+  };
+
+  // Store a new screen, then tell students to fetch it. Students only show the stored copy, and
+  // the server only accepts answers to the question it has on record
+  const publish = async (state: LiveState) => {
+    if (!broadcasterRef.current) return;
+
+    try {
+      setSending(true);
+      setError(null);
+      await updateGameSessionLiveState(gameSession.id, state);
+      await broadcasterRef.current.notify();
+      setLiveState(state);
+    } catch (err) {
+      console.error('Error publishing live state:', err);
+      setError(err instanceof Error ? err.message : 'Could not update the students\' screens.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Advance to the next narrative or question
+  const handleShowNext = () => {
+    const next = position + 1;
+    if (next >= sequence.length) return;
+    publish(buildState(next, sequence[next].questionIndex < 0 ? 'narrative' : 'question'));
+  };
+
+  const handleCloseAnswers = () => {
+    if (!liveState) return;
+    publish({ ...liveState, phase: 'closed', sentAt: new Date().toISOString() });
+  };
+
+  const handleRevealAnswer = () => {
+    if (!liveState || !currentQuestion) return;
+    publish({
+      ...liveState,
+      phase: 'revealed',
+      correctOption: currentQuestion.correct_option || null,
+      correctAnswer: currentQuestion.answer ?? null,
+      explanation: currentQuestion.explanation ?? null,
+      distractorExplanations: currentQuestion.distractor_explanations ?? null,
+      sentAt: new Date().toISOString()
+    });
+  };
+
+  const handleShowLeaderboard = () => {
+    const base = liveState || buildState(-1, 'leaderboard');
+    publish({
+      ...base,
+      phase: 'leaderboard',
+      leaderboard: playerStats.slice(0, LEADERBOARD_SIZE).map(player => ({
+        studentId: player.studentId,
+        studentName: player.studentName,
+        correctAnswers: player.correctAnswers,
+        score: player.score
+      })),
+      sentAt: new Date().toISOString()
+    });
+  };
+
+  const handleEndGame = async () => {
+    const base = liveState || buildState(-1, 'ended');
+    await publish({ ...base, phase: 'ended', sentAt: new Date().toISOString() });
+
+    try {
+      await updateGameSessionStatus(gameSession.id, 'completed');
+    } catch (err) {
+      console.error('Error completing game session:', err);
+    }
+  };
+
+  const hasNext = position + 1 < sequence.length;
+  const nextIsNarrative = hasNext && sequence[position + 1].questionIndex < 0;
+  const ended = phase === 'ended';
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-[#3A7AFE]">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="text-lg font-medium flex items-center">
+          <Radio className="w-5 h-5 mr-2 text-[#3A7AFE]" />
+          Live Controls
+        </h3>
+        <div className="flex items-center space-x-2 text-sm">
+          <span className="px-2 py-1 rounded-full bg-[#EEF4FF] text-[#3A7AFE] font-medium">
+            {PHASE_LABELS[phase]}
+          </span>
+          {liveState && liveState.questionNumber > 0 && (
+            <span className="text-gray-500">
+              Question {liveState.questionNumber} of {totalQuestions}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {currentQuestion && (
+        <div className="bg-gray-50 rounded-lg p-3 mb-4 text-sm">
+          <p className="font-medium text-gray-800">{currentQuestion.question_stem}</p>
+          <p className="text-gray-500 mt-1">
+            Correct answer: {describeCorrectAnswer(currentQuestion, currentQuestion.correct_option, currentQuestion.answer ?? null)}
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          onClick={handleShowNext}
+          disabled={sending || ended || !hasNext || phase === 'question'}
+          icon={<ArrowRight className="w-4 h-4" />}
+        >
+          {nextIsNarrative ? 'Show next topic' : 'Show next question'}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleCloseAnswers}
+          disabled={sending || phase !== 'question'}
+          icon={<Lock className="w-4 h-4" />}
+        >
+          Close answers
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleRevealAnswer}
+          disabled={sending || !currentQuestion || (phase !== 'question' && phase !== 'closed')}
+          icon={<Eye className="w-4 h-4" />}
+        >
+          Reveal answer
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleShowLeaderboard}
+          disabled={sending || ended || playerStats.length === 0}
+          icon={<Award className="w-4 h-4" />}
+        >
+          Show leaderboard
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={handleEndGame}
+          disabled={sending || ended}
+          icon={<Square className="w-4 h-4" />}
+        >
+          End game
+        </Button>
+      </div>
+
+      {phase === 'question' && (
+        <p className="text-xs text-gray-500 mt-3">Close or reveal the answer before moving on.</p>
+      )}
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default LiveControls;
@@ -1,24 +1,49 @@
 /**
  * Lobby View component for Ether Excel
- * Displays leaderboard of students and allows the teacher to monitor game progress
+ * Displays leaderboard of students and allows the teacher to monitor game progress, including
+ * each student's estimated mastery of each topic and, in team games, the team standings
  */
-import React, { useEffect, useState } from 'react';
-import { Users, ArrowLeft, RefreshCw, Award, CheckSquare, AlignJustify } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Users, ArrowLeft, RefreshCw, Award, CheckSquare, AlignJustify, Download } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '../ui/Card';
 import Button from '../ui/Button';
+import LiveControls from './LiveControls';
+import TopicMasteryTable from './TopicMasteryTable';
+import TeamLeaderboard from './TeamLeaderboard';
 import { useAppContext } from '../../context/AppContext';
-import { getAllStudents, getOrCreateDefaultGameSession, getStudentResponses } from '../../services/database';
-import { Student, Topic, Question, PlayerStats } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { getStudentsBySession, getOrCreateDefaultGameSession, getStudentScoringResponses, saveTeamStandings } from '../../services/database';
+import { getScoringConfig, scoreResponses } from '../../lib/scoring';
+import { buildResultsCsv, downloadTextFile } from '../../lib/results-report';
+import { getSessionQuestions, getSessionTopics } from '../../lib/question-mix';
+import { estimateTopicMastery } from '../../lib/adaptive';
+import { rankTeams } from '../../lib/teams';
+import { Student, Topic, Question, PlayerStats, TeamStanding } from '../../types';
 import { supabase } from '../../lib/supabase';
 
 const LobbyView: React.FC = () => {
-  const { currentChapter, gameSession, setGameSession, setView, topics, questions, gameState } = useAppContext();
-  const [students, setStudents] = useState<Student[]>([]);
+  const { currentChapter, gameSession, setGameSession, setView, topics: chapterTopics, questions: chapterQuestions, gameState } = useAppContext();
+  const { authState } = useAuth();
+  // Latest roster, read through a ref so the polling interval never sees a stale list
+  const studentsRef = useRef<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [currentTopicIndex, setCurrentTopicIndex] = useState(0);
   const [leaderboardLoading, setLeaderboardLoading] = useState(false);
   const [playerStats, setPlayerStats] = useState<PlayerStats[]>([]);
+  const [teamStandings, setTeamStandings] = useState<TeamStanding[]>([]);
+  // Standings last shared with students, so they're only saved when they change
+  const savedStandingsRef = useRef<string | null>(null);
+
+  // Only the questions chosen for this game, and the topics they're in
+  const questions = useMemo(
+    () => getSessionQuestions(chapterQuestions, gameSession?.question_ids),
+    [chapterQuestions, gameSession?.question_ids]
+  );
+  const topics = useMemo(
+    () => getSessionTopics(chapterTopics, questions, gameSession?.question_ids),
+    [chapterTopics, questions, gameSession?.question_ids]
+  );
   
   // Calculate total questions across all topics - placed before useEffect to maintain hooks order
   const getTotalQuestions = () => {
@@ -28,23 +53,25 @@ const LobbyView: React.FC = () => {
     }, 0);
   };
   
-  // Fetch students on load and set up polling
+  // Ensure we have a game session
   useEffect(() => {
-    fetchStudents();
-    
-    // Set up polling every 5 seconds
-    const interval = setInterval(() => {
-      fetchStudents();
-      fetchLeaderboardData();
-    }, 5000);
-    
-    // Ensure we have a game session
     if (!gameSession) {
       initializeGameSession();
     }
+  }, []);
+  
+  // Fetch the session roster on load and set up polling
+  useEffect(() => {
+    if (!gameSession) return;
     
-    // Initial leaderboard data fetch
-    fetchLeaderboardData();
+    const refresh = async () => {
+      await fetchStudents();
+      fetchLeaderboardRef.current();
+    };
+    
+    // Initial fetch, then poll every 5 seconds
+    refresh();
+    const interval = setInterval(refresh, 5000);
     
     // Set up real-time subscription for responses table
     const subscription = supabase
@@ -55,7 +82,7 @@ const LobbyView: React.FC = () => {
         table: 'responses' 
       }, () => {
         // When a new response comes in, update the leaderboard
-        fetchLeaderboardData();
+        fetchLeaderboardRef.current();
       })
       .subscribe();
     
@@ -63,14 +90,15 @@ const LobbyView: React.FC = () => {
       clearInterval(interval);
       supabase.removeChannel(subscription);
     };
-  }, []);
+  }, [gameSession?.id]);
   
   // Initialize a game session if needed
   const initializeGameSession = async () => {
     try {
       const session = await getOrCreateDefaultGameSession(
         currentChapter?.id, 
-        'Anonymous Teacher'
+        authState.user?.display_name,
+        authState.user?.id
       );
       setGameSession(session);
     } catch (error) {
@@ -78,11 +106,13 @@ const LobbyView: React.FC = () => {
     }
   };
   
-  // Fetch all students in the system
+  // Fetch the students who joined this session
   const fetchStudents = async () => {
+    if (!gameSession) return;
+    
     try {
-      const studentsData = await getAllStudents();
-      setStudents(studentsData);
+      const studentsData = await getStudentsBySession(gameSession.id);
+      studentsRef.current = studentsData;
       setLoading(false);
       setRefreshing(false);
     } catch (error) {
@@ -100,21 +130,16 @@ const LobbyView: React.FC = () => {
       // For each student, get their responses
       const stats: PlayerStats[] = [];
       
-      for (const student of students) {
+      for (const student of studentsRef.current) {
         try {
           // Get student responses from the database
-          const responses = await getStudentResponses(student.id);
-          
-          // Calculate stats based on real responses
-          const correctAnswers = responses.filter(response => response.is_correct).length;
-          const totalAnswered = responses.length;
+          const responses = await getStudentScoringResponses(student.id);
           
-          // Calculate score - base points plus time bonus
-          // Simple scoring: 10 points per correct answer
-          const score = correctAnswers * 10;
+          // Score with speed and streak bonuses, using server-recorded answer times
+          const summary = scoreResponses(responses, getScoringConfig(gameSession));
           
           // Determine current question index
-          let currentQuestion = totalAnswered;
+          let currentQuestion = summary.totalAnswered;
           const totalQuestions = getTotalQuestions();
           if (currentQuestion > totalQuestions) {
             currentQuestion = totalQuestions;
@@ -124,9 +149,14 @@ const LobbyView: React.FC = () => {
             studentId: student.id,
             studentName: student.name,
             currentQuestion,
-            correctAnswers,
-            totalAnswered,
-            score
+            correctAnswers: summary.correctAnswers,
+            totalAnswered: summary.totalAnswered,
+            score: summary.score,
+            currentStreak: summary.currentStreak,
+            bestStreak: summary.bestStreak,
+            averageResponseMs: summary.averageResponseMs,
+            topicMastery: estimateTopicMastery(questions, responses),
+            teamId: student.team_id ?? null
           });
         } catch (err) {
           console.error(`Error fetching responses for student ${student.id}:`, err);
@@ -137,6 +167,20 @@ const LobbyView: React.FC = () => {
       stats.sort((a, b) => b.score - a.score);
       
       setPlayerStats(stats);
+      
+      // Team games: rank the teams, and share the standings with students when they change
+      if (gameSession?.teams?.length) {
+        const standings = rankTeams(gameSession.teams, stats);
+        setTeamStandings(standings);
+        const standingsJson = JSON.stringify(standings);
+        if (standingsJson !== savedStandingsRef.current) {
+          savedStandingsRef.current = standingsJson;
+          saveTeamStandings(gameSession.id, standings).catch(err => {
+            console.error('Error sharing team standings:', err);
+            savedStandingsRef.current = null;
+          });
+        }
+      }
       setLeaderboardLoading(false);
     } catch (error) {
       console.error('Error fetching leaderboard data:', error);
@@ -144,10 +188,21 @@ const LobbyView: React.FC = () => {
     }
   };
   
+  // Latest leaderboard fetch, read through a ref so polling always scores with the current
+  // session's scoring settings, teams and questions
+  const fetchLeaderboardRef = useRef(fetchLeaderboardData);
+  fetchLeaderboardRef.current = fetchLeaderboardData;
+  
+  // Download the leaderboard as a CSV report
+  const handleDownloadResults = () => {
+    const csv = buildResultsCsv(playerStats, getTotalQuestions());
+    downloadTextFile(`results-${gameSession?.game_code || 'game'}.csv`, csv, 'text/csv');
+  };
+  
   // Handle manual refresh
-  const handleRefresh = () => {
+  const handleRefresh = async () => {
     setRefreshing(true);
-    fetchStudents();
+    await fetchStudents();
     fetchLeaderboardData();
   };
   
@@ -166,6 +221,7 @@ const LobbyView: React.FC = () => {
               <CardTitle>Game Leaderboard</CardTitle>
               <CardDescription>
                 Monitoring student progress in real-time
+                {gameSession && <> • Game code <span className="font-mono font-semibold">{gameSession.game_code}</span></>}
               </CardDescription>
             </div>
             <Button 
@@ -180,6 +236,16 @@ const LobbyView: React.FC = () => {
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
+            {gameSession?.pacing === 'teacher_paced' && (
+              <LiveControls
+                gameSession={gameSession}
+                topics={topics}
+                questions={questions}
+                playerStats={playerStats}
+                onTopicChange={setCurrentTopicIndex}
+              />
+            )}
+            
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               {/* Current topic and progress */}
               <div className="lg:col-span-1">
@@ -255,19 +321,34 @@ const LobbyView: React.FC = () => {
               {/* Leaderboard */}
               <div className="lg:col-span-2">
                 <div className="bg-white p-4 rounded-xl border border-gray-200">
+                  {gameSession?.teams && teamStandings.length > 0 && (
+                    <TeamLeaderboard teams={gameSession.teams} standings={teamStandings} />
+                  )}
+                  
                   <div className="flex justify-between mb-4">
                     <h3 className="text-lg font-medium flex items-center">
                       <Award className="w-5 h-5 mr-2 text-[#3A7AFE]" /> 
                       Live Leaderboard
                     </h3>
-                    <Button 
-                      onClick={handleRefresh}
-                      icon={<RefreshCw className="w-4 h-4 mr-1" />}
-                      size="sm"
-                      isLoading={refreshing || leaderboardLoading}
-                    >
-                      Refresh
-                    </Button>
+                    <div className="flex space-x-2">
+                      <Button 
+                        variant="outline"
+                        onClick={handleDownloadResults}
+                        icon={<Download className="w-4 h-4 mr-1" />}
+                        size="sm"
+                        disabled={playerStats.length === 0}
+                      >
+                        Download CSV
+                      </Button>
+                      <Button 
+                        onClick={handleRefresh}
+                        icon={<RefreshCw className="w-4 h-4 mr-1" />}
+                        size="sm"
+                        isLoading={refreshing || leaderboardLoading}
+                      >
+                        Refresh
+                      </Button>
+                    </div>
                   </div>
                   
                   <div className="rounded-lg overflow-hidden border border-gray-200">
@@ -293,6 +374,12 @@ const LobbyView: React.FC = () => {
                               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                 Correct
                               </th>
+                              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Streak
+                              </th>
+                              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Avg Time
+                              </th>
                               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                 Score
                               </th>
@@ -321,7 +408,16 @@ const LobbyView: React.FC = () => {
                                   )}
                                 </td>
                                 <td className="px-4 py-3 whitespace-nowrap">
-                                  <div className="text-sm font-medium text-gray-900">{player.studentName}</div>
+                                  <div className="flex items-center text-sm font-medium text-gray-900">
+                                    {player.teamId && gameSession?.teams && (
+                                      <span
+                                        className="w-2.5 h-2.5 rounded-full mr-2"
+                                        style={{ backgroundColor: gameSession.teams.find(team => team.id === player.teamId)?.color }}
+                                        title={gameSession.teams.find(team => team.id === player.teamId)?.name}
+                                      />
+                                    )}
+                                    {player.studentName}
+                                  </div>
                                 </td>
                                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                                   {player.currentQuestion} / {getTotalQuestions()}
@@ -329,6 +425,16 @@ const LobbyView: React.FC = () => {
                                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                                   {player.correctAnswers}
                                 </td>
+                                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                                  {player.currentStreak > 1 ? (
+                                    <span className="text-orange-600 font-medium">{player.currentStreak} in a row</span>
+                                  ) : (
+                                    <span>Best {player.bestStreak}</span>
+                                  )}
+                                </td>
+                                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                                  {player.averageResponseMs === null ? '–' : `${(player.averageResponseMs / 1000).toFixed(1)}s`}
+                                </td>
                                 <td className="px-4 py-3 whitespace-nowrap">
                                   <span className="px-2 py-1 inline-flex text-sm leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
                                     {player.score} pts
@@ -349,6 +455,8 @@ const LobbyView: React.FC = () => {
                   <div className="mt-4 text-center text-sm text-gray-500">
                     <p>Live updates will appear automatically as students answer questions</p>
                   </div>
+                  
+                  <TopicMasteryTable topics={topics} playerStats={playerStats} />
                 </div>
               </div>
             </div>
@@ -0,0 +1,51 @@
+/**
+ * Team Leaderboard component for Ether Excel
+ * Ranks the teams in a team game by their members' points per member
+ */
+import React from 'react';
+import { Flag } from 'lucide-react';
+import { Team, TeamStanding } from '../../types';
+
+interface TeamLeaderboardProps {
+  teams: Team[];
+  standings: TeamStanding[];
+}
+
+const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({ teams, standings }) => (
+  <div className="mb-6">
+    <h3 className="text-lg font-semibold text-[#1F2937] mb-3 flex items-center">
+      <Flag className="w-5 h-5 mr-2 text-[#3A7AFE]" />
+      Team Standings
+    </h3>
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {standings.map(standing => {
+        const team = teams.find(t => t.id === standing.teamId);
+        if (!team) return null;
+
+        return (
+          <div
+            key={team.id}
+            className="flex items-center justify-between p-3 rounded-lg border border-gray-200 bg-white border-l-4"
+            style={{ borderLeftColor: team.color }}
+          >
+            <div className="flex items-center space-x-3">
+              <span className="text-lg font-bold text-gray-400 w-6">{standing.rank}</span>
+              <div>
+                <p className="font-medium" style={{ color: team.color }}>{team.name}</p>
+                <p className="text-xs text-gray-500">
+                  {standing.members} {standing.members === 1 ? 'player' : 'players'} • {standing.correctAnswers} correct
+                </p>
+              </div>
+            </div>
+            <div className="text-right">
+              <p className="font-semibold text-[#1F2937]">{standing.averageScore} pts</p>
+              <p className="text-xs text-gray-500">per player ({standing.score} total)</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default TeamLeaderboard;
@@ -0,0 +1,83 @@
+/**
+ * Topic Mastery Table component for Ether Excel
+ * Shows each student's estimated mastery of each topic, so the teacher can see who needs help where
+ */
+import React from 'react';
+import { Target } from 'lucide-react';
+import { PlayerStats, Topic, TopicMastery } from '../../types';
+import { isTopicMastered } from '../../lib/adaptive';
+
+interface TopicMasteryTableProps {
+  topics: Topic[];
+  playerStats: PlayerStats[];
+}
+
+function getMasteryStyle(estimate: TopicMastery): string {
+  if (isTopicMastered(estimate)) return 'bg-green-100 text-green-700';
+  if (estimate.mastery >= 0.5) return 'bg-amber-100 text-amber-700';
+  return 'bg-red-100 text-red-700';
+}
+
+const TopicMasteryTable: React.FC<TopicMasteryTableProps> = ({ topics, playerStats }) => {
+  if (!playerStats.some(player => Object.keys(player.topicMastery).length > 0)) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold text-[#1F2937] mb-1 flex items-center">
+        <Target className="w-5 h-5 mr-2 text-[#3A7AFE]" />
+        Topic Mastery
+      </h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Estimated chance of answering a medium question on each topic correctly, weighing harder questions more
+      </p>
+      <div className="rounded-lg overflow-x-auto border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Name
+              </th>
+              {topics.map((topic, index) => (
+                <th
+                  key={topic.id}
+                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  title={topic.topic_name}
+                >
+                  Topic {index + 1}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {playerStats.map(player => (
+              <tr key={player.studentId}>
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {player.studentName}
+                </td>
+                {topics.map(topic => {
+                  const estimate = player.topicMastery[topic.id];
+                  return (
+                    <td key={topic.id} className="px-4 py-3 whitespace-nowrap text-sm">
+                      {estimate ? (
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium ${getMasteryStyle(estimate)}`}
+                          title={`${estimate.correct} of ${estimate.answered} correct`}
+                        >
+                          {Math.round(estimate.mastery * 100)}%
+                        </span>
+                      ) : (
+                        <span className="text-gray-300">–</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TopicMasteryTable;
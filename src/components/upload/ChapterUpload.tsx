@@ -1,74 +1,122 @@
 /**
  * Chapter Upload component for Ether Excel
+ * Takes a chapter to generate content from, or switches to importing an existing question bank.
+ * When only part of a file is wanted, just the chosen pages or sections are kept as the chapter.
  */
-import React, { useRef, useState } from 'react';
-import { FilePlus, Upload, FileText, X } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { FilePlus, Upload, FileText, X, Library, ScanLine, RotateCcw } from 'lucide-react';
 import Button from '../ui/Button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/Card';
+import ProgressBar from '../ui/ProgressBar';
 import { useAppContext } from '../../context/AppContext';
-import { extractTextFromPDF } from '../../lib/pdf-parser';
+import QuestionImport from './QuestionImport';
+import ContentSelection from './ContentSelection';
+import QuestionMixSettings from './QuestionMixSettings';
+import { CHAPTER_FILE_TYPES, extractChapterText, PdfProgress } from '../../lib/documents';
+import { LOW_OCR_CONFIDENCE } from '../../lib/ocr';
+import { QUESTION_TYPE_LABELS, QUESTION_TYPES } from '../../lib/question-types';
+import { DEFAULT_COGNITIVE_LEVEL_MIX, DEFAULT_DIFFICULTY_MIX, getMixTotal } from '../../lib/question-mix';
+import { CognitiveLevel, Difficulty, OcrPage, QuestionType, ReprocessTarget } from '../../types';
+import { downloadChapterFile } from '../../services/storage';
+
+// Which pages were read with OCR, and which of those the teacher should check
+const OcrSummary: React.FC<{ pages: OcrPage[] }> = ({ pages }) => {
+  const lowConfidence = pages.filter(page => page.confidence < LOW_OCR_CONFIDENCE);
+
+  return (
+    <div className={`border p-3 rounded-lg text-sm ${lowConfidence.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-[#EEF4FF] border-blue-100 text-gray-700'}`}>
+      <div className="flex items-start space-x-2">
+        <ScanLine className="w-5 h-5 flex-shrink-0" />
+        <div>
+          <p>
+            {pages.length === 1 ? `Page ${pages[0].page} was a scan` : `${pages.length} pages were scans`} and
+            {pages.length === 1 ? ' was' : ' were'} read with text recognition.
+          </p>
+          {lowConfidence.length > 0 && (
+            <>
+              <p className="font-medium mt-1">
+                Some pages were hard to read, so their text may contain mistakes. Check questions from
+                these pages carefully when reviewing, or upload a clearer scan:
+              </p>
+              <ul className="mt-1 space-y-0.5">
+                {lowConfidence.map(page => (
+                  <li key={page.page}>Page {page.page}: {page.confidence}% confidence</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
 
 const ChapterUpload: React.FC = () => {
-  const { uploadState, setUploadState, setView, setCurrentChapter } = useAppContext();
+  const { uploadState, setUploadState, setView, setCurrentChapter, setProcessingState } = useAppContext();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [title, setTitle] = useState('');
-  const [grade, setGrade] = useState('');
-  const [pdfProcessing, setPdfProcessing] = useState(false);
-
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const [title, setTitle] = useState(uploadState.reprocess?.title || '');
+  const [grade, setGrade] = useState(uploadState.reprocess?.grade || '');
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(['multiple_choice']);
+  const [difficultyMix, setDifficultyMix] = useState<Record<Difficulty, number>>(DEFAULT_DIFFICULTY_MIX);
+  const [cognitiveLevelMix, setCognitiveLevelMix] = useState<Record<CognitiveLevel, number>>(DEFAULT_COGNITIVE_LEVEL_MIX);
+  const [importing, setImporting] = useState(false);
+  const [pdfProgress, setPdfProgress] = useState<PdfProgress | null>(null);
+  // Chosen pages or sections of the file, or null to use all of it
+  const [selectedContent, setSelectedContent] = useState<string | null>(null);
 
+  const readFile = async (file: File, reprocess?: ReprocessTarget) => {
     setUploadState({
-      ...uploadState,
       status: 'uploading',
       file,
+      reprocess,
     });
+    setSelectedContent(null);
 
-    if (file.type === 'application/pdf') {
-      try {
-        setPdfProcessing(true);
-        // Extract text from PDF
-        const pdfText = await extractTextFromPDF(file);
-        setPdfProcessing(false);
-        
-        setUploadState({
-          status: 'preview_ready',
-          file,
-          content: pdfText,
-        });
-      } catch (error) {
-        console.error('Error processing PDF:', error);
-        setPdfProcessing(false);
-        setUploadState({
-          ...uploadState,
-          status: 'initial',
-          error: 'Failed to read PDF file. Please try again or paste content directly.',
-        });
-      }
-    } else {
-      // Handle text file
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        if (event.target?.result) {
-          setUploadState({
-            status: 'preview_ready',
-            file,
-            content: event.target.result as string,
-          });
-        }
-      };
-      reader.onerror = () => {
-        setUploadState({
-          ...uploadState,
-          status: 'initial',
-          error: 'Failed to read file.',
-        });
-      };
-      reader.readAsText(file);
+    try {
+      const { text, ocrPages } = await extractChapterText(file, setPdfProgress);
+      setUploadState({
+        status: 'preview_ready',
+        file,
+        content: text,
+        ocrPages,
+        reprocess,
+      });
+    } catch (error) {
+      console.error('Error reading chapter file:', error);
+      setUploadState({
+        status: 'initial',
+        error: error instanceof Error
+          ? error.message
+          : 'Failed to read the file. Please try again or paste content directly.',
+      });
+    } finally {
+      setPdfProgress(null);
     }
   };
 
+  // Re-processing a saved chapter starts from its stored file instead of an upload
+  useEffect(() => {
+    const reprocess = uploadState.reprocess;
+    if (!reprocess || uploadState.status !== 'initial') return;
+
+    setUploadState({ status: 'uploading', reprocess });
+    downloadChapterFile(reprocess.filePath)
+      .then(file => readFile(file, reprocess))
+      .catch(() => setUploadState({
+        status: 'initial',
+        error: `The stored file for "${reprocess.title}" couldn't be opened. Please upload it again.`,
+      }));
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so choosing the same file again after an error still triggers a change
+    e.target.value = '';
+    if (!file) return;
+
+    await readFile(file);
+  };
+
   const handlePasteContent = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setUploadState({
       status: 'preview_ready',
@@ -92,16 +140,54 @@ const ChapterUpload: React.FC = () => {
       return;
     }
 
+    if (selectedContent !== null && !selectedContent.trim()) {
+      alert('Please choose at least one page or section to use');
+      return;
+    }
+
+    if (questionTypes.length === 0) {
+      alert('Please choose at least one question type');
+      return;
+    }
+
+    if (getMixTotal(difficultyMix) !== 100 || getMixTotal(cognitiveLevelMix) !== 100) {
+      alert('Please make each question mix add up to 100%');
+      return;
+    }
+
+    const content = selectedContent ?? uploadState.content ?? '';
+    const generationSettings = { questionTypes, difficultyMix, cognitiveLevelMix };
+
+    if (uploadState.reprocess) {
+      // The chapter is already saved; processing replaces its text, topics and questions
+      console.log('Chapter prepared for re-processing:', title);
+      setCurrentChapter({
+        id: uploadState.reprocess.chapterId,
+        title,
+        content,
+        grade,
+        uploadedAt: new Date(),
+        status: 'processing',
+        generationSettings,
+        reprocess: true
+      });
+      setProcessingState({ status: 'idle', progress: 0 });
+      setUploadState({ ...uploadState, status: 'confirmed' });
+      setView('processing');
+      return;
+    }
+
     // Create a chapter object but don't save to database yet
     // This prevents duplicate database entries
     const newChapter = {
       id: Date.now().toString(), // This is a temporary client-side ID, real DB ID will be assigned later
       title,
-      content: uploadState.content || '',
+      content,
       grade,
       uploadedAt: new Date(),
       status: 'uploaded' as const,
-      file: uploadState.file
+      file: uploadState.file,
+      generationSettings
     };
 
     console.log('Chapter prepared for processing:', newChapter.title);
@@ -113,21 +199,49 @@ const ChapterUpload: React.FC = () => {
 
   const handleReset = () => {
     setUploadState({ status: 'initial' });
+    setSelectedContent(null);
     setTitle('');
     setGrade('');
+    setQuestionTypes(['multiple_choice']);
+    setDifficultyMix(DEFAULT_DIFFICULTY_MIX);
+    setCognitiveLevelMix(DEFAULT_COGNITIVE_LEVEL_MIX);
+  };
+
+  const previewContent = selectedContent ?? uploadState.content;
+
+  const toggleQuestionType = (type: QuestionType) => {
+    setQuestionTypes(questionTypes.includes(type)
+      ? questionTypes.filter(t => t !== type)
+      : [...questionTypes, type]);
   };
 
   return (
     <div className="max-w-4xl mx-auto">
       <Card>
-        <CardHeader>
-          <CardTitle>Upload Chapter Content</CardTitle>
-          <CardDescription>
-            Upload a textbook chapter as PDF or paste the content directly
-          </CardDescription>
+        <CardHeader className="flex flex-wrap justify-between items-start gap-3">
+          <div>
+            <CardTitle>{importing ? 'Import Question Bank' : 'Upload Chapter Content'}</CardTitle>
+            <CardDescription>
+              {importing
+                ? 'Bring in questions you already have from another quiz tool'
+                : 'Upload a textbook chapter as a PDF, Word, EPUB, HTML or Markdown file, or paste the content directly'}
+            </CardDescription>
+          </div>
+          {!importing && uploadState.status === 'initial' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setImporting(true)}
+              icon={<Library className="w-4 h-4" />}
+            >
+              Import Question Bank
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
-          {uploadState.status === 'initial' && (
+          {importing && <QuestionImport onCancel={() => setImporting(false)} />}
+
+          {!importing && uploadState.status === 'initial' && (
             <div className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* File upload */}
@@ -139,12 +253,12 @@ const ChapterUpload: React.FC = () => {
                     type="file"
                     ref={fileInputRef}
                     onChange={handleFileChange}
-                    accept=".pdf,.txt"
+                    accept={CHAPTER_FILE_TYPES}
                     className="hidden"
                   />
                   <FilePlus className="w-12 h-12 mx-auto text-gray-400" />
                   <h3 className="mt-2 text-sm font-medium text-gray-900">Upload a file</h3>
-                  <p className="mt-1 text-xs text-gray-500">PDF or TXT up to 10MB</p>
+                  <p className="mt-1 text-xs text-gray-500">PDF, Word (.docx), EPUB, HTML, Markdown or TXT up to 10MB</p>
                   <Button
                     variant="outline"
                     size="sm"
@@ -166,17 +280,44 @@ const ChapterUpload: React.FC = () => {
                   ></textarea>
                 </div>
               </div>
+
+              {uploadState.error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 text-sm p-3 rounded-md">
+                  {uploadState.error}
+                </div>
+              )}
             </div>
           )}
 
-          {uploadState.status === 'uploading' && pdfProcessing && (
+          {!importing && uploadState.status === 'uploading' && (
             <div className="flex flex-col items-center justify-center py-10">
               <div className="w-16 h-16 border-4 border-gray-200 border-t-[#3A7AFE] rounded-full animate-spin mb-4"></div>
-              <p className="text-gray-600">Processing PDF file...</p>
+              <p className="text-gray-600">
+                {!uploadState.file && uploadState.reprocess
+                  ? `Downloading the stored file for "${uploadState.reprocess.title}"...`
+                  : !pdfProgress
+                  ? `Reading ${uploadState.file?.name || 'file'}...`
+                  : pdfProgress.ocr
+                    ? `Recognizing text on scanned page ${pdfProgress.page} of ${pdfProgress.pageCount}...`
+                    : `Reading page ${pdfProgress.page} of ${pdfProgress.pageCount}...`}
+              </p>
+              {pdfProgress && (
+                <div className="w-full max-w-sm mt-4">
+                  <ProgressBar
+                    value={((pdfProgress.page - 1 + (pdfProgress.ocr ? pdfProgress.ocrProgress : 0)) / pdfProgress.pageCount) * 100}
+                    animate={false}
+                  />
+                  {pdfProgress.ocr && (
+                    <p className="text-xs text-gray-500 mt-2 text-center">
+                      This page is a scanned image, so it is read with text recognition. This can take a little while.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
-          {uploadState.status === 'preview_ready' && (
+          {!importing && uploadState.status === 'preview_ready' && (
             <div className="space-y-6">
               <div className="flex justify-between items-center">
                 <h3 className="text-lg font-medium">Chapter Preview</h3>
@@ -190,6 +331,16 @@ const ChapterUpload: React.FC = () => {
                 </Button>
               </div>
 
+              {uploadState.reprocess && (
+                <div className="flex items-start space-x-2 bg-amber-50 border border-amber-200 text-amber-800 text-sm p-3 rounded-lg">
+                  <RotateCcw className="w-5 h-5 flex-shrink-0" />
+                  <p>
+                    Re-processing "{uploadState.reprocess.title}" from its stored file. The chapter's topics and
+                    questions will be replaced with newly generated ones.
+                  </p>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <div className="mb-4">
@@ -227,18 +378,54 @@ const ChapterUpload: React.FC = () => {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Question Types</label>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {QUESTION_TYPES.map(type => (
+                      <label key={type} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={questionTypes.includes(type)}
+                          onChange={() => toggleQuestionType(type)}
+                          className="rounded text-[#3A7AFE] focus:ring-[#3A7AFE]"
+                        />
+                        <span>{QUESTION_TYPE_LABELS[type]}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <QuestionMixSettings
+                  difficultyMix={difficultyMix}
+                  cognitiveLevelMix={cognitiveLevelMix}
+                  onDifficultyMixChange={setDifficultyMix}
+                  onCognitiveLevelMixChange={setCognitiveLevelMix}
+                />
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Content Preview</label>
                   <div className="border border-gray-300 rounded-md p-3 h-32 overflow-y-auto bg-gray-50">
                     <p className="text-sm text-gray-600 whitespace-pre-wrap">
-                      {uploadState.content
-                        ? uploadState.content.substring(0, 500) + (uploadState.content.length > 500 ? '...' : '')
+                      {previewContent
+                        ? previewContent.substring(0, 500) + (previewContent.length > 500 ? '...' : '')
                         : 'No content preview available'}
                     </p>
                   </div>
                 </div>
               </div>
 
+              {uploadState.content && (
+                <ContentSelection
+                  content={uploadState.content}
+                  file={uploadState.file}
+                  onChange={setSelectedContent}
+                />
+              )}
+
+              {uploadState.ocrPages && uploadState.ocrPages.length > 0 && (
+                <OcrSummary pages={uploadState.ocrPages} />
+              )}
+
               <div className="flex justify-end gap-3 mt-6">
                 <Button variant="outline" onClick={handleReset}>
                   Cancel
@@ -0,0 +1,266 @@
+/**
+ * Content Selection component for Ether Excel
+ * Lets the teacher narrow an uploaded file down to the pages or sections they want to teach,
+ * picking pages from thumbnails or by typing a range, or sections from the detected outline
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { BookOpen, Check, Files, ListTree } from 'lucide-react';
+import Button from '../ui/Button';
+import { formatPageRange, getPageLabels } from '../../lib/chunker';
+import {
+  describePages,
+  getChapterOutline,
+  getChapterPages,
+  parsePageRanges,
+  selectPages,
+  selectSections
+} from '../../lib/chapter-selection';
+import { PAGE_LABEL_PATTERN, renderPdfThumbnails } from '../../lib/pdf-parser';
+
+type SelectionMode = 'all' | 'pages' | 'sections';
+
+// Width in pixels page thumbnails are rendered at
+const THUMBNAIL_WIDTH = 120;
+
+interface ContentSelectionProps {
+  content: string;
+  // The uploaded PDF, used to draw page thumbnails
+  file?: File;
+  // Called with the chosen text, or null when the whole chapter is used
+  onChange: (selectedContent: string | null) => void;
+}
+
+function countWords(text: string): number {
+  return text
+    .split('\n')
+    .filter(line => !PAGE_LABEL_PATTERN.test(line.trim()))
+    .join(' ')
+    .split(/\s+/)
+    .filter(Boolean).length;
+}
+
+const ContentSelection: React.FC<ContentSelectionProps> = ({ content, file, onChange }) => {
+  const pageLabels = useMemo(() => getPageLabels(content), [content]);
+  const pageCount = pageLabels.length;
+  const outline = useMemo(() => getChapterOutline(content), [content]);
+
+  const [mode, setMode] = useState<SelectionMode>('all');
+  const [selectedPages, setSelectedPages] = useState<number[]>([]);
+  const [selectedSections, setSelectedSections] = useState<number[]>([]);
+  const [lastClickedPage, setLastClickedPage] = useState<number | null>(null);
+  const [rangeInput, setRangeInput] = useState('');
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [thumbnailsRequested, setThumbnailsRequested] = useState(false);
+  const [thumbnailError, setThumbnailError] = useState<string | null>(null);
+
+  const selectedContent = useMemo(() => {
+    if (mode === 'pages') return selectPages(content, selectedPages);
+    if (mode === 'sections') return selectSections(content, outline, selectedSections);
+    return null;
+  }, [mode, content, outline, selectedPages, selectedSections]);
+
+  useEffect(() => {
+    onChange(selectedContent);
+  }, [selectedContent]);
+
+  // Thumbnails are only drawn once the teacher opens the page picker, since big books take a while
+  useEffect(() => {
+    if (mode === 'pages') setThumbnailsRequested(true);
+  }, [mode]);
+
+  useEffect(() => {
+    if (!thumbnailsRequested || !file || pageCount === 0) return;
+
+    const controller = new AbortController();
+    renderPdfThumbnails(
+      file,
+      THUMBNAIL_WIDTH,
+      (page, imageUrl) => setThumbnails(current => ({ ...current, [page]: imageUrl })),
+      controller.signal
+    ).catch(error => setThumbnailError(error instanceof Error ? error.message : 'Failed to show page previews'));
+
+    return () => controller.abort();
+  }, [thumbnailsRequested, file, pageCount]);
+
+  // Nothing to choose from in pasted text without pages or headings
+  if (pageCount === 0 && outline.length === 0) return null;
+
+  const togglePage = (page: number, extendRange: boolean) => {
+    if (extendRange && lastClickedPage !== null) {
+      const range = Array.from(
+        { length: Math.abs(page - lastClickedPage) + 1 },
+        (_, i) => Math.min(page, lastClickedPage) + i
+      );
+      setSelectedPages([...new Set([...selectedPages, ...range])]);
+    } else {
+      setSelectedPages(selectedPages.includes(page)
+        ? selectedPages.filter(p => p !== page)
+        : [...selectedPages, page]);
+    }
+    setLastClickedPage(page);
+  };
+
+  const applyRange = () => {
+    try {
+      setSelectedPages(parsePageRanges(rangeInput, pageLabels, pageCount));
+      setRangeError(null);
+    } catch (error) {
+      setRangeError(error instanceof Error ? error.message : 'Enter the pages to use, such as 30-48.');
+    }
+  };
+
+  // A section is covered when it, or a section it belongs to, is ticked
+  const coveringSection = (index: number) => {
+    const section = outline[index];
+    return outline.find(other =>
+      other.index !== index &&
+      selectedSections.includes(other.index) &&
+      other.level < section.level &&
+      other.start <= section.start &&
+      section.end <= other.end
+    );
+  };
+
+  const toggleSection = (index: number) => {
+    setSelectedSections(selectedSections.includes(index)
+      ? selectedSections.filter(i => i !== index)
+      : [...selectedSections, index]);
+  };
+
+  const modes: { mode: SelectionMode; label: string; icon: React.ReactNode; available: boolean }[] = [
+    { mode: 'all', label: 'Whole file', icon: <BookOpen className="w-4 h-4" />, available: true },
+    { mode: 'pages', label: 'Pages', icon: <Files className="w-4 h-4" />, available: pageCount > 0 },
+    { mode: 'sections', label: 'Sections', icon: <ListTree className="w-4 h-4" />, available: outline.length > 0 }
+  ];
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <label className="block text-sm font-medium text-gray-700">Content to Use</label>
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+          {modes.filter(option => option.available).map(option => (
+            <button
+              key={option.mode}
+              type="button"
+              onClick={() => setMode(option.mode)}
+              className={`flex items-center space-x-1 px-3 py-1.5 text-sm ${
+                mode === option.mode ? 'bg-[#EEF4FF] text-[#3A7AFE] font-medium' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {option.icon}
+              <span>{option.label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'all' && (
+        <p className="text-sm text-gray-600">
+          The whole file will be used
+          {pageCount > 0 ? ` (${pageCount} ${pageCount === 1 ? 'page' : 'pages'}, ${formatPageRange(pageLabels, 1, pageCount)})` : ''}.
+          If you only want part of a textbook, choose pages or sections instead.
+        </p>
+      )}
+
+      {mode === 'pages' && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={rangeInput}
+              onChange={(e) => setRangeInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyRange()}
+              className="w-48 p-2 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g. 30-48, 52"
+            />
+            <Button variant="outline" size="sm" onClick={applyRange}>Select Pages</Button>
+            <Button variant="ghost" size="sm" onClick={() => setSelectedPages(Array.from({ length: pageCount }, (_, i) => i + 1))}>
+              All
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setSelectedPages([])}>Clear</Button>
+          </div>
+          {rangeError && <p className="text-sm text-red-600">{rangeError}</p>}
+          <p className="text-xs text-gray-500">
+            Use the page numbers printed in the book. Click pages to add or remove them; shift-click to select a run of pages.
+          </p>
+
+          <div className="grid grid-cols-3 sm:grid-cols-5 md:grid-cols-6 gap-3 max-h-96 overflow-y-auto p-1">
+            {getChapterPages(content).map((pageText, i) => {
+              const page = i + 1;
+              const selected = selectedPages.includes(page);
+              return (
+                <button
+                  key={page}
+                  type="button"
+                  onClick={(e) => togglePage(page, e.shiftKey)}
+                  className={`relative rounded-md border-2 p-1 text-center transition-colors ${
+                    selected ? 'border-[#3A7AFE] bg-[#EEF4FF]' : 'border-gray-200 bg-white hover:border-gray-300'
+                  }`}
+                >
+                  {thumbnails[page] ? (
+                    <img src={thumbnails[page]} alt={`Page ${pageLabels[i]}`} className="w-full rounded-sm" />
+                  ) : (
+                    <div className="aspect-[3/4] rounded-sm bg-gray-50 p-1 overflow-hidden text-left text-[6px] leading-tight text-gray-400">
+                      {pageText.substring(0, 300)}
+                    </div>
+                  )}
+                  <span className="block text-xs text-gray-600 mt-1">{formatPageRange(pageLabels, page)}</span>
+                  {selected && (
+                    <span className="absolute top-1 right-1 w-5 h-5 rounded-full bg-[#3A7AFE] text-white flex items-center justify-center">
+                      <Check className="w-3 h-3" />
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          {thumbnailError && <p className="text-xs text-gray-500">{thumbnailError}. Pages are shown as text instead.</p>}
+        </div>
+      )}
+
+      {mode === 'sections' && (
+        <div className="border border-gray-300 rounded-md max-h-96 overflow-y-auto divide-y divide-gray-100">
+          {outline.map(section => {
+            const covered = coveringSection(section.index);
+            return (
+              <label
+                key={section.index}
+                className="flex items-center justify-between gap-3 px-3 py-2 text-sm hover:bg-gray-50"
+                style={{ paddingLeft: `${0.75 + (section.level - 1) * 1.25}rem` }}
+              >
+                <span className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={!!covered || selectedSections.includes(section.index)}
+                    disabled={!!covered}
+                    onChange={() => toggleSection(section.index)}
+                    className="rounded text-[#3A7AFE] focus:ring-[#3A7AFE]"
+                  />
+                  <span className={section.level === 1 ? 'font-medium text-gray-900' : 'text-gray-700'}>{section.title}</span>
+                </span>
+                {section.pageStart !== null && (
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {formatPageRange(pageLabels, section.pageStart, section.pageEnd)}
+                  </span>
+                )}
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedContent !== null && (
+        <p className={`text-sm mt-3 ${selectedContent.trim() ? 'text-gray-600' : 'text-amber-700'}`}>
+          {!selectedContent.trim()
+            ? `Choose at least one ${mode === 'pages' ? 'page' : 'section'} to use.`
+            : mode === 'pages'
+              ? `Using ${describePages(pageLabels, selectedPages)} (${selectedPages.length} of ${pageCount} pages, about ${countWords(selectedContent).toLocaleString()} words).`
+              : `Using ${selectedSections.length} ${selectedSections.length === 1 ? 'section' : 'sections'} (about ${countWords(selectedContent).toLocaleString()} words).`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ContentSelection;
@@ -0,0 +1,283 @@
+/**
+ * Question Import component for Ether Excel
+ * Imports an existing question bank (CSV, Moodle XML, GIFT or QTI 2.1) as a chapter, showing a
+ * row-by-row report of what will be imported, skipped or needs fixing first
+ */
+import React, { useRef, useState } from 'react';
+import { FileUp, CheckCircle, AlertTriangle, XCircle, MinusCircle } from 'lucide-react';
+import Button from '../ui/Button';
+import { useAppContext } from '../../context/AppContext';
+import { saveChapter, saveImportedQuestionBank } from '../../services/database';
+import {
+  importQuestionBank,
+  IMPORT_FILE_TYPES,
+  IMPORT_FORMAT_LABELS,
+  ImportResult,
+  ImportRowStatus
+} from '../../lib/importers';
+import { QUESTION_TYPE_LABELS } from '../../lib/question-types';
+import { QuestionFields } from '../../types';
+
+const STATUS_DISPLAY: Record<ImportRowStatus, { label: string; icon: React.ReactNode; className: string }> = {
+  ok: { label: 'Ready', icon: <CheckCircle className="w-4 h-4" />, className: 'text-green-600' },
+  warning: { label: 'Ready', icon: <AlertTriangle className="w-4 h-4" />, className: 'text-amber-600' },
+  skipped: { label: 'Skipped', icon: <MinusCircle className="w-4 h-4" />, className: 'text-gray-500' },
+  error: { label: 'Error', icon: <XCircle className="w-4 h-4" />, className: 'text-red-600' }
+};
+
+// Imported questions grouped by topic, in the order topics first appear in the file
+function groupByTopic(result: ImportResult) {
+  const topics: { name: string; questions: QuestionFields[] }[] = [];
+  result.rows.forEach(row => {
+    if (!row.question) return;
+    let topic = topics.find(t => t.name === row.topic);
+    if (!topic) {
+      topic = { name: row.topic, questions: [] };
+      topics.push(topic);
+    }
+    topic.questions.push(row.question);
+  });
+  return topics;
+}
+
+// Chapter text for an imported bank, so later steps that read the chapter have something to work with
+function bankToText(title: string, topics: { name: string; questions: QuestionFields[] }[]) {
+  return [
+    title,
+    ...topics.map(topic => [topic.name, ...topic.questions.map(question => `- ${question.question_stem}`)].join('\n'))
+  ].join('\n\n');
+}
+
+interface QuestionImportProps {
+  onCancel: () => void;
+}
+
+const QuestionImport: React.FC<QuestionImportProps> = ({ onCancel }) => {
+  const { setView, setCurrentChapter, setTopics, setQuestions } = useAppContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [title, setTitle] = useState('');
+  const [grade, setGrade] = useState('');
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+  const [parsing, setParsing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+    setParsing(true);
+
+    try {
+      const imported = await importQuestionBank(file);
+      setResult(imported);
+      if (!title) setTitle(file.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      console.error('Error reading question bank:', err);
+      setError(err instanceof Error ? err.message : 'The file could not be read.');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result) return;
+    if (!title.trim()) {
+      setError('Please enter a title for the imported questions.');
+      return;
+    }
+    if (!grade) {
+      setError('Please select a grade level.');
+      return;
+    }
+
+    const topics = groupByTopic(result);
+    const content = bankToText(title.trim(), topics);
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const chapter = await saveChapter(title.trim(), content, grade, null);
+      const saved = await saveImportedQuestionBank(chapter.id, topics);
+
+      setCurrentChapter({
+        id: chapter.id,
+        title: chapter.title,
+        content,
+        grade,
+        uploadedAt: new Date(chapter.created_at),
+        status: 'ready'
+      });
+      setTopics(saved.topics);
+      setQuestions(saved.questions);
+      setView('review');
+    } catch (err) {
+      console.error('Error importing question bank:', err);
+      setError(err instanceof Error ? err.message : 'The questions could not be imported.');
+      setSaving(false);
+    }
+  };
+
+  const rows = result?.rows ?? [];
+  const counts = rows.reduce<Record<ImportRowStatus, number>>(
+    (totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }),
+    { ok: 0, warning: 0, skipped: 0, error: 0 }
+  );
+  const importable = counts.ok + counts.warning;
+  const visibleRows = showProblemsOnly ? rows.filter(row => row.status !== 'ok') : rows;
+
+  return (
+    <div className="space-y-6">
+      <div
+        onClick={() => fileInputRef.current?.click()}
+        className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center cursor-pointer hover:bg-gray-50 transition-colors"
+      >
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept={IMPORT_FILE_TYPES}
+          className="hidden"
+        />
+        <FileUp className="w-12 h-12 mx-auto text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">
+          {fileName || 'Choose a question bank file'}
+        </h3>
+        <p className="mt-1 text-xs text-gray-500">
+          CSV, Moodle XML, GIFT (.gift or .txt) or IMS QTI 2.1 (.xml or a .zip package)
+        </p>
+      </div>
+
+      {parsing && (
+        <div className="flex items-center justify-center py-6">
+          <div className="w-8 h-8 border-4 border-gray-200 border-t-[#3A7AFE] rounded-full animate-spin mr-3"></div>
+          <p className="text-gray-600">Reading questions...</p>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="importTitle" className="block text-sm font-medium text-gray-700 mb-1">
+                Title
+              </label>
+              <input
+                type="text"
+                id="importTitle"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Enter a title"
+              />
+            </div>
+            <div>
+              <label htmlFor="importGrade" className="block text-sm font-medium text-gray-700 mb-1">
+                Grade Level
+              </label>
+              <select
+                id="importGrade"
+                value={grade}
+                onChange={(e) => setGrade(e.target.value)}
+                className="w-full p-2 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select grade</option>
+                <option value="K">Kindergarten</option>
+                {[...Array(12)].map((_, i) => (
+                  <option key={i + 1} value={`${i + 1}`}>
+                    Grade {i + 1}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+              <h3 className="text-sm font-medium text-gray-700">
+                {IMPORT_FORMAT_LABELS[result.format]} import: {importable} of {rows.length} questions ready
+                {counts.warning > 0 && `, ${counts.warning} with warnings`}
+                {counts.skipped > 0 && `, ${counts.skipped} skipped`}
+                {counts.error > 0 && `, ${counts.error} with errors`}
+              </h3>
+              <label className="flex items-center space-x-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showProblemsOnly}
+                  onChange={(e) => setShowProblemsOnly(e.target.checked)}
+                  className="rounded text-[#3A7AFE] focus:ring-[#3A7AFE]"
+                />
+                <span>Only show problems</span>
+              </label>
+            </div>
+
+            <div className="border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">{result.format === 'csv' || result.format === 'gift' ? 'Line' : '#'}</th>
+                    <th className="px-3 py-2 font-medium">Question</th>
+                    <th className="px-3 py-2 font-medium">Topic</th>
+                    <th className="px-3 py-2 font-medium">Type</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {visibleRows.map((row, index) => {
+                    const status = STATUS_DISPLAY[row.status];
+                    return (
+                      <tr key={`${row.row}-${index}`} className={row.status === 'error' ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2 text-gray-500 align-top">{row.row}</td>
+                        <td className="px-3 py-2 align-top">{row.label}</td>
+                        <td className="px-3 py-2 text-gray-600 align-top">{row.topic}</td>
+                        <td className="px-3 py-2 text-gray-600 align-top">
+                          {row.question ? QUESTION_TYPE_LABELS[row.question.question_type] : '—'}
+                        </td>
+                        <td className={`px-3 py-2 align-top ${status.className}`}>
+                          <span className="flex items-center font-medium">
+                            {status.icon}
+                            <span className="ml-1">{status.label}</span>
+                          </span>
+                          {row.message && <span className="block text-xs mt-1">{row.message}</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {visibleRows.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                        {rows.length === 0 ? 'No questions were found in this file.' : 'No problems found.'}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm p-3 rounded-md">{error}</div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleImport} isLoading={saving} disabled={!result || importable === 0 || parsing}>
+          Import {importable > 0 ? `${importable} Question${importable === 1 ? '' : 's'}` : 'Questions'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionImport;
@@ -0,0 +1,68 @@
+/**
+ * Question Mix Settings component for Ether Excel
+ * Percentage inputs for the mix of difficulties and cognitive levels to generate questions at
+ */
+import React from 'react';
+import { CognitiveLevel, Difficulty } from '../../types';
+import { COGNITIVE_LEVEL_LABELS, DIFFICULTY_LABELS, getMixTotal } from '../../lib/question-mix';
+
+interface MixInputsProps<T extends string> {
+  label: string;
+  labels: Record<T, string>;
+  mix: Record<T, number>;
+  onChange: (mix: Record<T, number>) => void;
+}
+
+function MixInputs<T extends string>({ label, labels, mix, onChange }: MixInputsProps<T>) {
+  const total = getMixTotal(mix);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-sm text-gray-600">{label}</span>
+        <span className={`text-xs ${total === 100 ? 'text-gray-400' : 'text-red-600'}`}>{total}% of 100%</span>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        {(Object.keys(labels) as T[]).map(key => (
+          <label key={key} className="flex items-center space-x-1 text-sm text-gray-700">
+            <span>{labels[key]}</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={mix[key]}
+              onChange={(e) => onChange({ ...mix, [key]: Math.max(0, Math.min(100, Number(e.target.value) || 0)) })}
+              className="w-16 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#3A7AFE]"
+            />
+            <span className="text-gray-400">%</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface QuestionMixSettingsProps {
+  difficultyMix: Record<Difficulty, number>;
+  cognitiveLevelMix: Record<CognitiveLevel, number>;
+  onDifficultyMixChange: (mix: Record<Difficulty, number>) => void;
+  onCognitiveLevelMixChange: (mix: Record<CognitiveLevel, number>) => void;
+}
+
+const QuestionMixSettings: React.FC<QuestionMixSettingsProps> = ({
+  difficultyMix,
+  cognitiveLevelMix,
+  onDifficultyMixChange,
+  onCognitiveLevelMixChange
+}) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 mb-1">Question Mix</label>
+    <div className="space-y-3">
+      <MixInputs label="Difficulty" labels={DIFFICULTY_LABELS} mix={difficultyMix} onChange={onDifficultyMixChange} />
+      <MixInputs label="Cognitive level" labels={COGNITIVE_LEVEL_LABELS} mix={cognitiveLevelMix} onChange={onCognitiveLevelMixChange} />
+    </div>
+  </div>
+);
+
+export default QuestionMixSettings;
@@ -12,7 +12,7 @@ interface AppContextType {
   uploadState: UploadState;
   setUploadState: (state: UploadState) => void;
   processingState: ProcessingState;
-  setProcessingState: (state: ProcessingState) => void;
+  setProcessingState: React.Dispatch<React.SetStateAction<ProcessingState>>;
   currentChapter: Chapter | null;
   setCurrentChapter: (chapter: Chapter | null) => void;
   topics: Topic[];
@@ -20,9 +20,9 @@ interface AppContextType {
   questions: Record<string, Question[]>;
   setQuestions: (questions: Record<string, Question[]>) => void;
   gameState: GameState;
-  setGameState: (state: GameState) => void;
+  setGameState: React.Dispatch<React.SetStateAction<GameState>>;
   gameSession: GameSession | null;
-  setGameSession: (session: GameSession | null) => void;
+  setGameSession: React.Dispatch<React.SetStateAction<GameSession | null>>;
   resetState: () => void;
 }
 
@@ -75,12 +75,10 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
           // Update our game session state
           setGameSession(payload.new as GameSession);
           
-          // If status changed to in_progress, update game state
-          if (payload.new.status === 'in_progress' && gameState.status === 'waiting') {
-            setGameState({
-              ...gameState,
-              status: 'countdown'
-            });
+          // If status changed to in_progress, start the countdown for anyone still waiting;
+          // other updates to a game in progress (e.g. the teacher's live screen) leave it alone
+          if (payload.new.status === 'in_progress' && gameSession.status !== 'in_progress') {
+            setGameState(prev => prev.status === 'waiting' ? { ...prev, status: 'countdown' } : prev);
           }
         }
       })
@@ -89,7 +87,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     return () => {
       supabase.removeChannel(subscription);
     };
-  }, [gameSession, gameState.status]);
+  }, [gameSession]);
 
   const resetState = () => {
     setView('select');
@@ -1,18 +1,20 @@
 /**
  * Auth Context Provider for Ether Excel
- * Manages authentication state and user roles
+ * Manages authentication state and user roles. Players who joined with a game code are kept in
+ * localStorage, so a reload puts them back in their game rather than at the join screen.
  */
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { AuthState, UserProfile } from '../types';
+import { AuthState, Student, UserProfile } from '../types';
 import { supabase } from '../lib/supabase';
-import { addStudentToSession } from '../services/database';
+import { addStudentToSession, getGameSessionByCode, getStudentById } from '../services/database';
 
 interface AuthContextType {
   authState: AuthState;
+  student: Student | null;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, role: 'teacher' | 'player') => Promise<void>;
   signOut: () => Promise<void>;
-  joinAsPlayer: (name: string) => Promise<void>;
+  joinAsPlayer: (name: string, gameCode: string) => Promise<void>;
   isTeacher: () => boolean;
   isPlayer: () => boolean;
 }
@@ -25,8 +27,18 @@ const defaultAuthState: AuthState = {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// The pseudo-user a player joined with a game code signs in as
+function toPlayerUser(student: Student): UserProfile {
+  return {
+    id: student.id,
+    role: 'player',
+    display_name: student.name
+  };
+}
+
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [authState, setAuthState] = useState<AuthState>(defaultAuthState);
+  const [student, setStudent] = useState<Student | null>(null);
 
   // Load auth state on mount
   useEffect(() => {
@@ -42,12 +54,40 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       return;
     }
     
+    // Put a player who joined before a reload back in their game, unless they've been removed from it
+    const restoreStudent = async () => {
+      const stored = localStorage.getItem('student');
+      if (!stored) return false;
+      
+      let restored: Student | null = JSON.parse(stored);
+      try {
+        // The token is only ever stored on this device
+        const current = await getStudentById(restored!.id);
+        restored = current && { ...current, player_token: restored!.player_token };
+      } catch (error) {
+        // Keep the stored player; the game screen retries its own connection
+        console.error('Error checking stored player:', error);
+      }
+      
+      if (!restored) {
+        localStorage.removeItem('student');
+        return false;
+      }
+      
+      console.log(`Restoring player ${restored.name}`);
+      localStorage.setItem('student', JSON.stringify(restored));
+      setStudent(restored);
+      setAuthState({ user: toPlayerUser(restored), isLoading: false, error: null });
+      return true;
+    };
+    
     const loadUser = async () => {
       try {
         // Get current session
         const { data: { session } } = await supabase.auth.getSession();
         
         if (!session) {
+          if (await restoreStudent()) return;
           setAuthState({ user: null, isLoading: false, error: null });
           return;
         }
@@ -166,6 +206,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       
       if (error) throw error;
       
+      setStudent(null);
+      localStorage.removeItem('student');
       setAuthState({ user: null, isLoading: false, error: null });
     } catch (error) {
       console.error('Sign out error:', error);
@@ -177,24 +219,26 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const joinAsPlayer = async (name: string) => {
+  const joinAsPlayer = async (name: string, gameCode: string) => {
     try {
       setAuthState({ ...authState, isLoading: true, error: null });
       
-      // Add the student to the database with the updated function
-      // Note: We're no longer using a session ID as that table has been removed
-      const student = await addStudentToSession(name);
+      // Find the session the teacher shared the code for
+      const session = await getGameSessionByCode(gameCode);
+      if (!session) {
+        throw new Error(`No open game found for code ${gameCode.trim().toUpperCase()}`);
+      }
+      
+      // Add the student to that session's roster; team games put them on the smallest team
+      const newStudent = await addStudentToSession(name, session.id);
       
       // Store the student info in local storage
-      localStorage.setItem('student', JSON.stringify(student));
+      localStorage.setItem('student', JSON.stringify(newStudent));
+      setStudent(newStudent as Student);
       
       // Update auth state with a pseudo-user with player role
       setAuthState({ 
-        user: {
-          id: student.id,
-          role: 'player',
-          display_name: name
-        },
+        user: toPlayerUser(newStudent as Student),
         isLoading: false, 
         error: null 
       });
@@ -221,6 +265,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     <AuthContext.Provider
       value={{
         authState,
+        student,
         signIn,
         signUp,
         signOut,
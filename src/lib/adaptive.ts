@@ -0,0 +1,124 @@
+/**
+ * Adaptive sequencing
+ * Estimates a student's ability on each topic from their answers with an Elo-style rating, and
+ * picks the next question they have a good (but not certain) chance of getting right. A student
+ * who gets questions wrong is given easier ones to rebuild on, and one who gets them right moves
+ * on to harder ones and leaves the topic early once it's mastered. The player's question order
+ * and the teacher's mastery view both estimate through here so they always agree.
+ */
+import { Difficulty, Question, TopicMastery } from '../types';
+
+// Rating of each difficulty on the same scale as ability; untagged questions count as medium
+export const DIFFICULTY_RATINGS: Record<Difficulty, number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1
+};
+
+// How far one answer moves the ability estimate
+const RATING_STEP = 0.6;
+
+// Chance of a correct answer each next question aims for: hard enough to stretch, easy enough to succeed
+const TARGET_SUCCESS = 0.7;
+
+// A topic is mastered once a medium question would be answered correctly this often...
+export const MASTERY_THRESHOLD = 0.8;
+// ...after at least this many answers on it
+export const MIN_MASTERY_ANSWERS = 3;
+
+// The parts of a graded answer the estimate needs
+export interface RatedAnswer {
+  difficulty?: Difficulty | null;
+  correct: boolean;
+}
+
+export function getDifficultyRating(difficulty: Difficulty | null | undefined): number {
+  return difficulty ? DIFFICULTY_RATINGS[difficulty] : 0;
+}
+
+/**
+ * Chance a student of the given ability answers a question of the given rating correctly
+ */
+export function predictCorrect(ability: number, rating: number): number {
+  return 1 / (1 + Math.exp(rating - ability));
+}
+
+/**
+ * Move an ability estimate towards the result of one answer
+ */
+export function updateEstimate(estimate: TopicMastery, answer: RatedAnswer): TopicMastery {
+  const rating = getDifficultyRating(answer.difficulty);
+  const ability = estimate.ability + RATING_STEP * ((answer.correct ? 1 : 0) - predictCorrect(estimate.ability, rating));
+
+  return {
+    ability,
+    mastery: predictCorrect(ability, DIFFICULTY_RATINGS.medium),
+    answered: estimate.answered + 1,
+    correct: estimate.correct + (answer.correct ? 1 : 0)
+  };
+}
+
+/**
+ * Estimate before any answers on a topic, starting from the student's ability on earlier topics
+ */
+export function startEstimate(ability = 0): TopicMastery {
+  return { ability, mastery: predictCorrect(ability, DIFFICULTY_RATINGS.medium), answered: 0, correct: 0 };
+}
+
+/**
+ * Mean ability across the topics a student has answered on, to start the next topic from
+ */
+export function getOverallAbility(estimates: TopicMastery[]): number {
+  const answered = estimates.filter(estimate => estimate.answered > 0);
+  if (answered.length === 0) return 0;
+  return answered.reduce((total, estimate) => total + estimate.ability, 0) / answered.length;
+}
+
+export function isTopicMastered(estimate: TopicMastery): boolean {
+  return estimate.answered >= MIN_MASTERY_ANSWERS && estimate.mastery >= MASTERY_THRESHOLD;
+}
+
+/**
+ * The question to ask next: the one whose chance of success is nearest the target, earliest first
+ * on a tie; null when none are left
+ */
+export function chooseNextQuestion<T extends { difficulty?: Difficulty | null }>(candidates: T[], ability: number): T | null {
+  let best: T | null = null;
+  let bestGap = Infinity;
+
+  candidates.forEach(candidate => {
+    const gap = Math.abs(predictCorrect(ability, getDifficultyRating(candidate.difficulty)) - TARGET_SUCCESS);
+    if (gap < bestGap) {
+      best = candidate;
+      bestGap = gap;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * A student's estimated mastery of each topic, replaying their answers in the order they gave them
+ */
+export function estimateTopicMastery(
+  questions: Record<string, Pick<Question, 'id' | 'difficulty'>[]>,
+  responses: { question_id: string; is_correct: boolean | null; submitted_at: string }[]
+): Record<string, TopicMastery> {
+  const questionTopics = new Map<string, { topicId: string; difficulty?: Difficulty | null }>();
+  Object.entries(questions).forEach(([topicId, topicQuestions]) => {
+    topicQuestions.forEach(question => questionTopics.set(question.id, { topicId, difficulty: question.difficulty }));
+  });
+
+  const estimates: Record<string, TopicMastery> = {};
+  [...responses]
+    .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at))
+    .forEach(response => {
+      const question = questionTopics.get(response.question_id);
+      if (!question) return;
+
+      const current = estimates[question.topicId] ?? startEstimate(getOverallAbility(Object.values(estimates)));
+      estimates[question.topicId] = updateEstimate(current, { difficulty: question.difficulty, correct: !!response.is_correct });
+    });
+
+  return estimates;
+}
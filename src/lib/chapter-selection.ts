@@ -0,0 +1,176 @@
+/**
+ * Chapter selection utilities
+ * Teachers often upload a whole textbook when they only want part of it. These work out the pages
+ * and section outline of extracted chapter text and cut out just the chosen pages or sections.
+ * Page label lines are kept, so page references still use the numbers printed in the book.
+ */
+import { PAGE_BREAK, PAGE_LABEL_PATTERN, pageLabelLine } from './pdf-parser';
+import { formatPageRange, getPageLabels } from './chunker';
+
+export interface OutlineSection {
+  index: number;
+  title: string;
+  level: number;
+  // Character offsets of the section in the chapter text, subsections included
+  start: number;
+  end: number;
+  // 1-based pages the section covers, or null when the text has no pages
+  pageStart: number | null;
+  pageEnd: number | null;
+}
+
+const HEADING_LINE = /^(#{1,6})\s+(.+)$/;
+
+function isLabelLine(line: string): boolean {
+  return PAGE_LABEL_PATTERN.test(line.trim());
+}
+
+/**
+ * Text of each page of the chapter; text without page breaks is a single page
+ */
+export function getChapterPages(content: string): string[] {
+  return content.split(PAGE_BREAK);
+}
+
+/**
+ * Move the end of a range back past trailing whitespace, page breaks and page label lines, so a
+ * section that stops at the top of a page doesn't count that page as its own
+ */
+function trimRangeEnd(content: string, start: number, end: number): number {
+  let text = content.slice(start, end);
+  for (;;) {
+    const trimmed = text.replace(/\s+$/, '');
+    const lines = trimmed.split('\n');
+    const withoutLabel = lines.length > 0 && isLabelLine(lines[lines.length - 1])
+      ? lines.slice(0, -1).join('\n')
+      : trimmed;
+    if (withoutLabel === text) return start + text.length;
+    text = withoutLabel;
+  }
+}
+
+/**
+ * Sections of the chapter from its "#" headings, in document order. Each section runs until the
+ * next heading at the same or a higher level. Text before the first heading, if there is any,
+ * comes first as its own section.
+ */
+export function getChapterOutline(content: string): OutlineSection[] {
+  const headings: { title: string; level: number; start: number }[] = [];
+  let offset = 0;
+  content.split('\n').forEach(line => {
+    const match = line.trim().match(HEADING_LINE);
+    if (match) headings.push({ title: match[2].trim(), level: match[1].length, start: offset });
+    offset += line.length + 1;
+  });
+  if (headings.length === 0) return [];
+
+  const hasPages = content.includes(PAGE_BREAK);
+  const pageAt = (position: number) => content.slice(0, position).split(PAGE_BREAK).length;
+
+  const opening = content.slice(0, headings[0].start).split('\n').filter(line => line.trim() && !isLabelLine(line));
+  if (opening.length > 0) headings.unshift({ title: 'Opening text (before the first heading)', level: 1, start: 0 });
+
+  return headings.map((heading, index) => {
+    const next = headings.slice(index + 1).find(other => other.level <= heading.level);
+    const end = trimRangeEnd(content, heading.start, next ? next.start : content.length);
+    return {
+      index,
+      title: heading.title,
+      level: heading.level,
+      start: heading.start,
+      end,
+      pageStart: hasPages ? pageAt(heading.start) : null,
+      pageEnd: hasPages ? pageAt(Math.max(heading.start, end - 1)) : null
+    };
+  });
+}
+
+/**
+ * Chapter text made of only the given pages (1-based), in page order
+ */
+export function selectPages(content: string, pages: number[]): string {
+  const pageTexts = getChapterPages(content);
+  return [...new Set(pages)]
+    .filter(page => page >= 1 && page <= pageTexts.length)
+    .sort((a, b) => a - b)
+    .map(page => {
+      const text = pageTexts[page - 1].trim();
+      // Keep the page's number even when it had no label line, since its position changes
+      return isLabelLine(text.split('\n')[0]) ? text : `${pageLabelLine(String(page))}\n\n${text}`;
+    })
+    .join(`\n${PAGE_BREAK}`);
+}
+
+/**
+ * Chapter text made of only the given sections (by outline index). Sections that follow on from
+ * each other are kept as one piece; on paged text, a piece that starts partway down a page gets
+ * that page's label line.
+ */
+export function selectSections(content: string, outline: OutlineSection[], indexes: number[]): string {
+  const ranges = outline
+    .filter(section => indexes.includes(section.index))
+    .map(section => ({ start: section.start, end: section.end }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: { start: number; end: number }[] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    // Neighbouring sections only have whitespace and page labels between them
+    const touching = last && (range.start <= last.end || trimRangeEnd(content, last.end, range.start) === last.end);
+    if (last && touching) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  });
+
+  const hasPages = content.includes(PAGE_BREAK);
+  const labels = getPageLabels(content);
+  return merged
+    .map(({ start, end }) => {
+      const text = content.slice(start, end).replace(/^\s+/, '');
+      if (!hasPages || isLabelLine(text.split('\n')[0])) return text;
+      const page = content.slice(0, start).split(PAGE_BREAK).length;
+      return `${pageLabelLine(labels[page - 1] ?? String(page))}\n\n${text}`;
+    })
+    .join(hasPages ? `\n${PAGE_BREAK}` : '\n\n');
+}
+
+/**
+ * Pages (1-based positions) for a range typed by the teacher, such as "30-48, 52". Numbers are
+ * the page numbers printed in the book where the text has them.
+ */
+export function parsePageRanges(input: string, labels: string[], pageCount: number): number[] {
+  const resolve = (token: string): number => {
+    const labelIndex = labels.findIndex(label => label.toLowerCase() === token.toLowerCase());
+    if (labelIndex >= 0) return labelIndex + 1;
+    if (labels.length === 0 && /^\d+$/.test(token) && Number(token) >= 1 && Number(token) <= pageCount) {
+      return Number(token);
+    }
+    throw new Error(`There is no page ${token} in this file.`);
+  };
+
+  const pages = new Set<number>();
+  input.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [from, to, ...rest] = part.split(/\s*[-–—]\s*/);
+    if (rest.length > 0 || !from || to === '') throw new Error(`"${part}" isn't a page or page range.`);
+
+    const first = resolve(from);
+    const last = to !== undefined ? resolve(to) : first;
+    for (let page = Math.min(first, last); page <= Math.max(first, last); page++) pages.add(page);
+  });
+
+  if (pages.size === 0) throw new Error('Enter the pages to use, such as 30-48.');
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Short description of chosen pages using printed page numbers, such as "pp. 30–48, p. 52"
+ */
+export function describePages(labels: string[], pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const runs: [number, number][] = [];
+  sorted.forEach(page => {
+    const run = runs[runs.length - 1];
+    if (run && page === run[1] + 1) run[1] = page;
+    else runs.push([page, page]);
+  });
+  return runs.map(([start, end]) => formatPageRange(labels, start, end)).join(', ');
+}
@@ -0,0 +1,211 @@
+/**
+ * Chapter chunking utilities
+ * Splits long chapter text into token-budgeted chunks that follow page and heading boundaries,
+ * so each chunk can be sent to the model on its own during topic extraction
+ */
+import { PAGE_BREAK, PAGE_LABEL_PATTERN } from './pdf-parser';
+
+export interface ContentChunk {
+  index: number;
+  text: string;
+  // 1-based page numbers, or null when the text has no page breaks (e.g. pasted content)
+  pageStart: number | null;
+  pageEnd: number | null;
+  heading: string | null;
+}
+
+interface Segment {
+  text: string;
+  page: number | null;
+  heading: string | null;
+  startsSection: boolean;
+}
+
+// Roughly 4 characters per token for English prose
+const CHARS_PER_TOKEN = 4;
+
+// Default budget per chunk, leaving room for the prompt and the model's answer
+export const DEFAULT_CHUNK_TOKENS = 3000;
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Guess whether a line is a section heading
+ * Matches markdown headings, numbered headings ("2.1 Forces") and short title-like lines
+ */
+function isHeadingLine(line: string): boolean {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 80) return false;
+  if (/^#{1,6}\s+\S/.test(trimmed)) return true;
+  if (/^(chapter|section|unit|lesson|part)\s+[\dIVXLC]+\b/i.test(trimmed)) return true;
+  if (/^\d+(\.\d+)*\.?\s+[A-Z]/.test(trimmed) && !/[.!?]$/.test(trimmed)) return true;
+
+  // Short lines in ALL CAPS or Title Case without closing punctuation
+  const words = trimmed.split(/\s+/);
+  if (words.length > 8 || /[.,;:!?]$/.test(trimmed)) return false;
+  if (trimmed === trimmed.toUpperCase() && /[A-Z]/.test(trimmed)) return true;
+  const capitalized = words.filter(word => /^[A-Z]/.test(word)).length;
+  return words.length >= 2 && capitalized / words.length >= 0.6;
+}
+
+/**
+ * Split an oversized piece of text into parts that fit the budget, preferring
+ * paragraph and then sentence boundaries
+ */
+function splitToBudget(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const pieces = text.includes('\n\n')
+    ? text.split(/\n{2,}/)
+    : text.split(/(?<=[.!?])\s+/);
+
+  const parts: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (piece.length > maxChars) {
+      if (current) parts.push(current);
+      current = '';
+      // No natural boundary left, fall back to a hard cut
+      for (let i = 0; i < piece.length; i += maxChars) {
+        parts.push(piece.substring(i, i + maxChars));
+      }
+      continue;
+    }
+    if (current && current.length + piece.length + 1 > maxChars) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Break chapter text into page- and heading-aligned segments
+ */
+function segmentContent(content: string): Segment[] {
+  const hasPages = content.includes(PAGE_BREAK);
+  const pages = hasPages ? content.split(PAGE_BREAK) : [content];
+  const segments: Segment[] = [];
+  let heading: string | null = null;
+
+  pages.forEach((pageText, pageIndex) => {
+    const page = hasPages ? pageIndex + 1 : null;
+    let lines: string[] = [];
+
+    const flush = (startsSection: boolean) => {
+      const text = lines.join('\n').trim();
+      if (text) {
+        segments.push({ text, page, heading, startsSection });
+      }
+      lines = [];
+    };
+
+    let sectionStarted = false;
+    for (const line of pageText.split('\n')) {
+      if (isHeadingLine(line)) {
+        flush(sectionStarted);
+        heading = line.trim().replace(/^#+\s*/, '');
+        sectionStarted = true;
+      }
+      lines.push(line);
+    }
+    flush(sectionStarted);
+  });
+
+  return segments;
+}
+
+/**
+ * Split chapter content into chunks of at most `maxTokens` (estimated), keeping pages and
+ * sections together where possible and recording which pages each chunk covers
+ */
+export function chunkChapterContent(content: string, maxTokens = DEFAULT_CHUNK_TOKENS): ContentChunk[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const chunks: ContentChunk[] = [];
+  let current: Segment[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const pages = current.map(segment => segment.page).filter((page): page is number => page !== null);
+    chunks.push({
+      index: chunks.length,
+      text: current.map(segment => segment.text).join('\n\n'),
+      pageStart: pages.length > 0 ? Math.min(...pages) : null,
+      pageEnd: pages.length > 0 ? Math.max(...pages) : null,
+      heading: current[0].heading
+    });
+    current = [];
+    currentLength = 0;
+  };
+
+  for (const segment of segmentContent(content)) {
+    splitToBudget(segment.text, maxChars).forEach((part, partIndex) => {
+      const piece = { ...segment, text: part, startsSection: segment.startsSection && partIndex === 0 };
+
+      // Start a new chunk when this piece doesn't fit, or when a new section begins
+      // and the current chunk is already reasonably full
+      const wouldOverflow = currentLength + part.length > maxChars;
+      const goodBreak = piece.startsSection && currentLength > maxChars / 2;
+      if (current.length > 0 && (wouldOverflow || goodBreak)) {
+        flush();
+      }
+
+      current.push(piece);
+      currentLength += part.length + 2;
+    });
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Printed page number of each page of chapter text (index 0 is page 1), read from the label
+ * line that starts each page of an extracted PDF. Pages without one use their position.
+ */
+export function getPageLabels(content: string): string[] {
+  const pages = content.split(PAGE_BREAK);
+  const labelOf = (page: string) => page.trim().split('\n')[0].match(PAGE_LABEL_PATTERN)?.[1];
+  if (pages.length === 1 && !labelOf(content)) return [];
+  return pages.map((page, index) => labelOf(page) ?? String(index + 1));
+}
+
+/**
+ * Page reference for a range of page positions, such as "p. 42" or "pp. 42–45"
+ */
+export function formatPageRange(labels: string[], start: number, end?: number | null): string {
+  const first = labels[start - 1] ?? String(start);
+  const last = end != null && end !== start ? labels[end - 1] ?? String(end) : null;
+  return last ? `pp. ${first}–${last}` : `p. ${first}`;
+}
+
+// Budget for chapter text sent as grounding with a regeneration request
+export const DEFAULT_EXCERPT_TOKENS = 6000;
+
+/**
+ * Chapter text to ground a regeneration request in: the chunks a topic was extracted from
+ * when known, otherwise the start of the chapter, cut to `maxTokens`
+ */
+export function getChapterExcerpt(
+  content: string,
+  chunkIndexes?: number[] | null,
+  maxTokens = DEFAULT_EXCERPT_TOKENS
+): string {
+  const chunks = chunkChapterContent(content);
+  const selected = chunkIndexes && chunkIndexes.length > 0
+    ? chunks.filter(chunk => chunkIndexes.includes(chunk.index))
+    : chunks;
+
+  return (selected.length > 0 ? selected : chunks)
+    .map(chunk => chunk.text)
+    .join('\n\n')
+    .substring(0, maxTokens * CHARS_PER_TOKEN);
+}
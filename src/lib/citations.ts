@@ -0,0 +1,112 @@
+/**
+ * Question source citations
+ * Generated questions quote the chapter text they're based on. These find each quote in the
+ * saved chapter text, so the teacher can see it in context and questions whose quote isn't in
+ * the chapter (a sign the model made it up) can be flagged for review.
+ */
+import { PAGE_BREAK } from './pdf-parser';
+
+interface IndexedWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Chapter text split into words, built once per chapter and reused for every question
+export interface CitationIndex {
+  words: IndexedWord[];
+  // Offset at which each page after the first starts
+  pageStarts: number[];
+}
+
+export interface CitationMatch {
+  // Character offsets of the quoted text in the chapter text
+  start: number;
+  end: number;
+  // 1-based page position, or null when the text has no pages
+  page: number | null;
+}
+
+export type CitationStatus = 'found' | 'not_found' | 'none';
+
+// Words are compared without case, punctuation or formatting, so a quote that differs only in
+// quote marks, line breaks or markdown still matches
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Quotes often skip text with an ellipsis; each part must appear, in order and close together
+const ELLIPSIS_PATTERN = /\.\.\.|…|\[\.\.\.\]/;
+const MAX_ELLIPSIS_GAP_WORDS = 80;
+
+function toWords(text: string): string[] {
+  return (text.match(WORD_PATTERN) || []).map(word => word.toLowerCase());
+}
+
+/**
+ * Index chapter text for finding citations
+ */
+export function indexCitationText(content: string): CitationIndex {
+  const words: IndexedWord[] = [];
+  for (const match of content.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0;
+    words.push({ word: match[0].toLowerCase(), start, end: start + match[0].length });
+  }
+
+  const pageStarts: number[] = [];
+  let offset = content.indexOf(PAGE_BREAK);
+  while (offset >= 0) {
+    pageStarts.push(offset + 1);
+    offset = content.indexOf(PAGE_BREAK, offset + 1);
+  }
+
+  return { words, pageStarts };
+}
+
+// Index of the first word at or after `from` where `sequence` appears, or -1
+function findSequence(words: IndexedWord[], sequence: string[], from: number, until = words.length): number {
+  for (let i = from; i <= Math.min(until, words.length - sequence.length); i++) {
+    if (sequence.every((word, j) => words[i + j].word === word)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Where a quoted excerpt is in the chapter text, or null if it isn't there
+ */
+export function findCitation(index: CitationIndex, excerpt: string): CitationMatch | null {
+  const parts = excerpt.split(ELLIPSIS_PATTERN).map(toWords).filter(part => part.length > 0);
+  if (parts.length === 0) return null;
+
+  // Try each place the first part appears until the rest follow it
+  for (let first = findSequence(index.words, parts[0], 0); first >= 0; first = findSequence(index.words, parts[0], first + 1)) {
+    let last = first + parts[0].length - 1;
+    const complete = parts.slice(1).every(part => {
+      const next = findSequence(index.words, part, last + 1, last + 1 + MAX_ELLIPSIS_GAP_WORDS);
+      if (next < 0) return false;
+      last = next + part.length - 1;
+      return true;
+    });
+
+    if (complete) {
+      const start = index.words[first].start;
+      return {
+        start,
+        end: index.words[last].end,
+        page: index.pageStarts.length > 0 ? index.pageStarts.filter(pageStart => pageStart <= start).length + 1 : null
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a question's citation against the chapter text. Questions without one (written by hand
+ * or imported) have nothing to check.
+ */
+export function checkCitation(
+  index: CitationIndex,
+  excerpt: string | null | undefined
+): { status: CitationStatus; match: CitationMatch | null } {
+  if (!excerpt?.trim()) return { status: 'none', match: null };
+  const match = findCitation(index, excerpt);
+  return { status: match ? 'found' : 'not_found', match };
+}
@@ -0,0 +1,61 @@
+/**
+ * Shared pieces of the chapter document parsers
+ * Every parser writes the same light Markdown-style text: "#" headings, "-" and "1." list items
+ * indented two spaces per level, and "|" separated table rows. The chunker already treats "#"
+ * lines as section boundaries, and the model reads the structure without extra explanation.
+ */
+
+export type DocumentFormat = 'pdf' | 'docx' | 'epub' | 'html' | 'markdown' | 'text';
+
+export const DOCUMENT_FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word',
+  epub: 'EPUB',
+  html: 'HTML',
+  markdown: 'Markdown',
+  text: 'text'
+};
+
+// Collapse runs of whitespace inside a line of text
+export function cleanInline(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function headingLine(level: number, text: string): string {
+  return `${'#'.repeat(Math.min(Math.max(level, 1), 6))} ${text}`;
+}
+
+/**
+ * A list item; `number` is the item's position in an ordered list, or null for a bullet
+ */
+export function listItemLine(depth: number, number: number | null, text: string): string {
+  return `${'  '.repeat(depth)}${number === null ? '-' : `${number}.`} ${text}`;
+}
+
+/**
+ * Table rows as "| a | b |" lines, with a rule under the first row
+ */
+export function tableLines(rows: string[][]): string {
+  const cleaned = rows
+    .map(row => row.map(cell => cleanInline(cell).replace(/\|/g, '/')))
+    .filter(row => row.some(Boolean));
+  if (cleaned.length === 0) return '';
+
+  const width = Math.max(...cleaned.map(row => row.length));
+  const lines = cleaned.map(row => {
+    const cells = [...row, ...Array(width - row.length).fill('')];
+    return `| ${cells.join(' | ')} |`;
+  });
+  if (lines.length > 1) lines.splice(1, 0, `|${' --- |'.repeat(width)}`);
+  return lines.join('\n');
+}
+
+/**
+ * Join blocks (paragraphs, headings, whole lists and tables) with blank lines between them
+ */
+export function joinBlocks(blocks: string[]): string {
+  return blocks
+    .map(block => block.replace(/[ \t]+$/gm, '').replace(/^\n+|\n+$/g, ''))
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -0,0 +1,188 @@
+/**
+ * Word (.docx) chapter parser
+ * Reads word/document.xml from the package. Heading levels come from paragraph styles (looked up
+ * in styles.xml so renamed or translated heading styles still count), list numbering from
+ * numbering.xml, and tables become "|" rows. Images, comments and tracked deletions are left out.
+ */
+import { childElement, childElements, parseXml } from '../xml';
+import { readZipTextEntries } from '../zip';
+import { cleanInline, headingLine, joinBlocks, listItemLine, tableLines } from './common';
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// w:val and friends, which Word always writes in its own namespace
+function wordAttribute(element: Element | null, name: string): string | null {
+  return element ? element.getAttributeNS(WORD_NAMESPACE, name) : null;
+}
+
+// Heading level from a w:outlineLvl setting; level 9 is Word's "body text"
+function outlineHeadingLevel(properties: Element | null): number | undefined {
+  const outline = wordAttribute(properties && childElement(properties, 'outlineLvl'), 'val');
+  return outline && Number(outline) < 9 ? Number(outline) + 1 : undefined;
+}
+
+/**
+ * Heading level for each paragraph style ID that is a heading
+ */
+function readHeadingStyles(stylesXml: string | undefined): Record<string, number> {
+  const levels: Record<string, number> = {};
+  if (!stylesXml) return levels;
+
+  childElements(parseXml(stylesXml, 'Word styles').documentElement, 'style').forEach(style => {
+    const id = wordAttribute(style, 'styleId');
+    const name = (wordAttribute(childElement(style, 'name'), 'val') || '').toLowerCase();
+    const outline = outlineHeadingLevel(childElement(style, 'pPr'));
+    if (!id) return;
+
+    const heading = name.match(/^heading (\d)$/);
+    if (name === 'title') levels[id] = 1;
+    else if (heading) levels[id] = Number(heading[1]);
+    else if (outline) levels[id] = outline;
+  });
+
+  return levels;
+}
+
+/**
+ * Whether each numbering definition and level is a bullet list, keyed "numId:level"
+ */
+function readBulletLevels(numberingXml: string | undefined): Record<string, boolean> {
+  const bullets: Record<string, boolean> = {};
+  if (!numberingXml) return bullets;
+
+  const root = parseXml(numberingXml, 'Word numbering').documentElement;
+  const abstractLevels: Record<string, Record<string, boolean>> = {};
+  childElements(root, 'abstractNum').forEach(abstract => {
+    const levels: Record<string, boolean> = {};
+    childElements(abstract, 'lvl').forEach(level => {
+      levels[wordAttribute(level, 'ilvl') || '0'] = wordAttribute(childElement(level, 'numFmt'), 'val') === 'bullet';
+    });
+    abstractLevels[wordAttribute(abstract, 'abstractNumId') || ''] = levels;
+  });
+
+  childElements(root, 'num').forEach(num => {
+    const levels = abstractLevels[wordAttribute(childElement(num, 'abstractNumId'), 'val') || ''] || {};
+    Object.entries(levels).forEach(([level, bullet]) => {
+      bullets[`${wordAttribute(num, 'numId')}:${level}`] = bullet;
+    });
+  });
+
+  return bullets;
+}
+
+/**
+ * Visible text of a paragraph, in document order
+ */
+function paragraphText(paragraph: Element): string {
+  let text = '';
+  const walk = (node: Element) => {
+    Array.from(node.children).forEach(child => {
+      switch (child.localName) {
+        case 't':
+          text += child.textContent || '';
+          break;
+        case 'tab':
+          text += ' ';
+          break;
+        case 'br':
+        case 'cr':
+          text += '\n';
+          break;
+        // Tracked deletions, field codes and drawings hold no readable text
+        case 'del':
+        case 'instrText':
+        case 'drawing':
+        case 'pict':
+          break;
+        default:
+          walk(child);
+      }
+    });
+  };
+  walk(paragraph);
+  return text.split('\n').map(cleanInline).filter(Boolean).join('\n');
+}
+
+/**
+ * Convert a Word document to structured text
+ */
+export async function parseDocx(buffer: ArrayBuffer): Promise<string> {
+  const files = await readZipTextEntries(buffer, path =>
+    ['word/document.xml', 'word/styles.xml', 'word/numbering.xml'].includes(path)
+  );
+  if (!files['word/document.xml']) throw new Error('The Word document has no body text.');
+
+  const headingStyles = readHeadingStyles(files['word/styles.xml']);
+  const bulletLevels = readBulletLevels(files['word/numbering.xml']);
+  const body = childElement(parseXml(files['word/document.xml'], 'Word document').documentElement, 'body');
+  if (!body) throw new Error('The Word document has no body text.');
+
+  const blocks: string[] = [];
+  // Lines of the list being built, and how many items each list and level has had so far
+  let list: string[] = [];
+  const counters: Record<string, number> = {};
+
+  const endList = () => {
+    if (list.length > 0) blocks.push(list.join('\n'));
+    list = [];
+  };
+
+  const addParagraph = (paragraph: Element) => {
+    const properties = childElement(paragraph, 'pPr');
+    const text = paragraphText(paragraph);
+    if (!text) return;
+
+    const style = wordAttribute(properties && childElement(properties, 'pStyle'), 'val') || '';
+    const level = outlineHeadingLevel(properties)
+      ?? headingStyles[style]
+      ?? (/^heading\d$/i.test(style) ? Number(style.slice(-1)) : undefined);
+    if (level !== undefined) {
+      endList();
+      blocks.push(headingLine(level, text.replace(/\n/g, ' ')));
+      return;
+    }
+
+    const numbering = properties && childElement(properties, 'numPr');
+    const numId = wordAttribute(numbering && childElement(numbering, 'numId'), 'val');
+    // numId 0 switches numbering off for the paragraph
+    if (numbering && numId && numId !== '0') {
+      const depth = Number(wordAttribute(childElement(numbering, 'ilvl'), 'val') || 0);
+      const key = `${numId}:${depth}`;
+      // A shallower item restarts the numbering of the levels below it
+      Object.keys(counters)
+        .filter(counter => counter.startsWith(`${numId}:`) && Number(counter.split(':')[1]) > depth)
+        .forEach(counter => delete counters[counter]);
+      counters[key] = (counters[key] || 0) + 1;
+      // Without numbering definitions there is no telling, so bullets are the safer guess
+      const bullet = bulletLevels[key] ?? true;
+      list.push(listItemLine(depth, bullet ? null : counters[key], text.replace(/\n/g, ' ')));
+      return;
+    }
+
+    endList();
+    blocks.push(text);
+  };
+
+  const addTable = (table: Element) => {
+    endList();
+    const rows = childElements(table, 'tr').map(row =>
+      childElements(row, 'tc').map(cell =>
+        Array.from(cell.getElementsByTagNameNS(WORD_NAMESPACE, 'p')).map(paragraphText).filter(Boolean).join(' ')
+      )
+    );
+    blocks.push(tableLines(rows));
+  };
+
+  const walk = (parent: Element) => {
+    Array.from(parent.children).forEach(child => {
+      if (child.localName === 'p') addParagraph(child);
+      else if (child.localName === 'tbl') addTable(child);
+      // Content controls and custom XML wrap ordinary paragraphs
+      else if (child.localName === 'sdt' || child.localName === 'sdtContent' || child.localName === 'customXml') walk(child);
+    });
+  };
+  walk(body);
+  endList();
+
+  return joinBlocks(blocks);
+}
@@ -0,0 +1,53 @@
+/**
+ * EPUB chapter parser
+ * Follows META-INF/container.xml to the package document, then reads the spine's XHTML files in
+ * reading order through the HTML parser. Items marked non-linear (pop-ups, answer pages) are skipped.
+ */
+import { childElement, childElements, descendants, parseXml } from '../xml';
+import { readZipTextEntries, resolveZipPath } from '../zip';
+import { htmlElementToText } from './html';
+import { joinBlocks } from './common';
+
+// XHTML is parsed strictly first; badly formed files fall back to the forgiving HTML parser
+function parseXhtml(text: string): Element {
+  const strict = new DOMParser().parseFromString(text, 'application/xhtml+xml');
+  if (strict.getElementsByTagName('parsererror').length === 0) {
+    const body = descendants(strict, 'body')[0];
+    if (body) return body;
+  }
+  return new DOMParser().parseFromString(text, 'text/html').body;
+}
+
+/**
+ * Convert an EPUB book to structured text
+ */
+export async function parseEpub(buffer: ArrayBuffer): Promise<string> {
+  const files = await readZipTextEntries(buffer, path => /\.(xml|opf|x?html?)$/i.test(path));
+
+  const container = files['META-INF/container.xml'];
+  if (!container) throw new Error('The EPUB file has no META-INF/container.xml.');
+  const rootfile = descendants(parseXml(container, 'EPUB container'), 'rootfile')[0];
+  const packagePath = rootfile?.getAttribute('full-path');
+  if (!packagePath || !files[packagePath]) throw new Error('The EPUB package document is missing.');
+
+  const pkg = parseXml(files[packagePath], 'EPUB package').documentElement;
+  const manifest = childElement(pkg, 'manifest');
+  const spine = childElement(pkg, 'spine');
+  if (!manifest || !spine) throw new Error('The EPUB package has no manifest or spine.');
+
+  const hrefs: Record<string, string> = {};
+  childElements(manifest, 'item').forEach(item => {
+    hrefs[item.getAttribute('id') || ''] = item.getAttribute('href') || '';
+  });
+
+  const chapters = childElements(spine, 'itemref')
+    .filter(itemref => itemref.getAttribute('linear') !== 'no')
+    .map(itemref => {
+      const href = hrefs[itemref.getAttribute('idref') || ''];
+      if (!href) return '';
+      const path = resolveZipPath(packagePath, decodeURIComponent(href.split('#')[0]));
+      return files[path] ? htmlElementToText(parseXhtml(files[path])) : '';
+    });
+
+  return joinBlocks(chapters);
+}
@@ -0,0 +1,127 @@
+/**
+ * HTML chapter parser
+ * Walks the page body, turning headings, paragraphs, lists and tables into structured text.
+ * Scripts, styles, forms and navigation are dropped. EPUB chapters are XHTML and go through here too.
+ */
+import { cleanInline, headingLine, joinBlocks, listItemLine, tableLines } from './common';
+
+// Elements whose content is never chapter text
+const SKIPPED_ELEMENTS = new Set([
+  'script', 'style', 'noscript', 'template', 'head', 'nav', 'iframe', 'svg', 'math', 'button', 'select', 'textarea'
+]);
+
+// Elements that start a new block rather than continuing the current line of text
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre',
+  'section', 'summary', 'table', 'ul'
+]);
+
+function tagOf(node: Node): string | null {
+  return node.nodeType === Node.ELEMENT_NODE ? (node as Element).localName.toLowerCase() : null;
+}
+
+/**
+ * Text of an element as one line, keeping <br> breaks and leaving out nested lists
+ */
+function inlineText(node: Node): string {
+  const tag = tagOf(node);
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+  if (!tag || SKIPPED_ELEMENTS.has(tag) || tag === 'ul' || tag === 'ol') return '';
+  if (tag === 'br') return '\n';
+  return Array.from(node.childNodes).map(inlineText).join('');
+}
+
+function lineText(node: Node): string {
+  return inlineText(node).split('\n').map(cleanInline).filter(Boolean).join('\n');
+}
+
+function listBlock(list: Element, depth: number): string[] {
+  const ordered = tagOf(list) === 'ol';
+  let number = Number(list.getAttribute('start') || 1);
+  const lines: string[] = [];
+
+  Array.from(list.children).forEach(child => {
+    if (tagOf(child) !== 'li') return;
+    const text = lineText(child).replace(/\n/g, ' ');
+    if (text) lines.push(listItemLine(depth, ordered ? number++ : null, text));
+    // Nested lists sit inside the item, possibly wrapped in other elements
+    Array.from(child.querySelectorAll('ul, ol'))
+      .filter(nested => nested.parentElement?.closest('li') === child)
+      .forEach(nested => lines.push(...listBlock(nested, depth + 1)));
+  });
+
+  return lines;
+}
+
+function tableBlock(table: Element): string {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter(row => row.closest('table') === table)
+    .map(row => Array.from(row.children)
+      .filter(cell => tagOf(cell) === 'td' || tagOf(cell) === 'th')
+      .map(cell => lineText(cell).replace(/\n/g, ' ')));
+  const caption = table.querySelector('caption');
+  return [caption ? lineText(caption) : '', tableLines(rows)].filter(Boolean).join('\n');
+}
+
+/**
+ * Blocks of text for an element, collecting inline content into paragraphs between block children
+ */
+function collectBlocks(element: Element, blocks: string[]) {
+  let paragraph = '';
+
+  const flush = () => {
+    const text = paragraph.split('\n').map(cleanInline).filter(Boolean).join('\n');
+    if (text) blocks.push(text);
+    paragraph = '';
+  };
+
+  Array.from(element.childNodes).forEach(child => {
+    const tag = tagOf(child);
+    if (!tag || !BLOCK_ELEMENTS.has(tag)) {
+      paragraph += inlineText(child);
+      return;
+    }
+
+    flush();
+    const block = child as Element;
+    if (/^h[1-6]$/.test(tag)) {
+      const text = lineText(block).replace(/\n/g, ' ');
+      if (text) blocks.push(headingLine(Number(tag[1]), text));
+    } else if (tag === 'ul' || tag === 'ol') {
+      blocks.push(listBlock(block, 0).join('\n'));
+    } else if (tag === 'table') {
+      blocks.push(tableBlock(block));
+    } else if (tag === 'pre') {
+      blocks.push(block.textContent || '');
+    } else if (tag === 'li') {
+      // A list item outside a list, which browsers render as a bullet anyway
+      blocks.push(listItemLine(0, null, lineText(block).replace(/\n/g, ' ')));
+    } else if (tag !== 'hr') {
+      collectBlocks(block, blocks);
+    }
+  });
+
+  flush();
+}
+
+/**
+ * Structured text of an HTML element, usually a document's body
+ */
+export function htmlElementToText(root: Element): string {
+  const blocks: string[] = [];
+  collectBlocks(root, blocks);
+  return joinBlocks(blocks);
+}
+
+/**
+ * Structured text of an HTML page
+ */
+export function parseHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const text = htmlElementToText(doc.body);
+  const title = cleanInline(doc.title);
+
+  // Use the page title as the heading when the body doesn't start with one
+  return title && !text.startsWith('#') ? joinBlocks([headingLine(1, title), text]) : text;
+}
@@ -0,0 +1,136 @@
+/**
+ * Chapter document parsing
+ * Works out what kind of file was uploaded from its first bytes (and, for text files, its
+ * extension), then turns it into the structured text the rest of the app works with. Formats we
+ * can't read are rejected up front with a message saying what to upload instead.
+ */
+import { extractTextFromPDF, PdfProgress } from '../pdf-parser';
+import { OcrPage } from '../../types';
+import { listZipEntries } from '../zip';
+import { DocumentFormat } from './common';
+import { parseDocx } from './docx';
+import { parseEpub } from './epub';
+import { parseHtml } from './html';
+import { parseMarkdown } from './markdown';
+
+export type { DocumentFormat } from './common';
+export { DOCUMENT_FORMAT_LABELS } from './common';
+export type { PdfProgress } from '../pdf-parser';
+
+// File types offered in the file picker
+export const CHAPTER_FILE_TYPES = '.pdf,.docx,.epub,.html,.htm,.xhtml,.md,.markdown,.txt';
+
+const TEXT_EXTENSIONS: Record<string, DocumentFormat> = {
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text'
+};
+
+// Files teachers often try that we can't read, and what to do instead
+const UNSUPPORTED_EXTENSIONS: Record<string, string> = {
+  doc: 'Older Word documents (.doc) can\'t be read. Open the file in Word and save it as .docx.',
+  rtf: 'Rich Text (.rtf) files can\'t be read. Save the file as .docx or PDF.',
+  odt: 'OpenDocument (.odt) files can\'t be read. Save the file as .docx or PDF.',
+  pages: 'Pages documents can\'t be read. Export the file as Word or PDF.',
+  ppt: 'Presentations can\'t be read. Export the slides as PDF.',
+  pptx: 'Presentations can\'t be read. Export the slides as PDF.',
+  mobi: 'Kindle books can\'t be read. Use an EPUB or PDF copy of the chapter.',
+  azw: 'Kindle books can\'t be read. Use an EPUB or PDF copy of the chapter.',
+  azw3: 'Kindle books can\'t be read. Use an EPUB or PDF copy of the chapter.'
+};
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Work out a chapter file's format, or throw an error explaining why it can't be used
+ */
+export function detectDocumentFormat(fileName: string, buffer: ArrayBuffer): DocumentFormat {
+  const extension = fileName.toLowerCase().includes('.') ? fileName.toLowerCase().split('.').pop() || '' : '';
+  const bytes = new Uint8Array(buffer.slice(0, 1024));
+
+  if (buffer.byteLength === 0) throw new Error('The file is empty.');
+  if (UNSUPPORTED_EXTENSIONS[extension]) throw new Error(UNSUPPORTED_EXTENSIONS[extension]);
+
+  // %PDF
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return 'pdf';
+
+  // PK: a ZIP package, which Word documents and EPUBs both are
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    const entries = listZipEntries(buffer);
+    if (entries.includes('word/document.xml')) return 'docx';
+    if (entries.includes('META-INF/container.xml')) return 'epub';
+    if (entries.includes('ppt/presentation.xml')) throw new Error(UNSUPPORTED_EXTENSIONS.pptx);
+    if (entries.includes('content.xml')) throw new Error(UNSUPPORTED_EXTENSIONS.odt);
+    throw new Error('This ZIP file isn\'t a Word document or EPUB book.');
+  }
+
+  // The compound file format used by Word 97-2003 and old PowerPoint files
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0])) throw new Error(UNSUPPORTED_EXTENSIONS.doc);
+  if (startsWith(bytes, [0x7b, 0x5c, 0x72, 0x74, 0x66])) throw new Error(UNSUPPORTED_EXTENSIONS.rtf);
+
+  if (extension === 'pdf' || extension === 'docx' || extension === 'epub') {
+    throw new Error(`This file is named .${extension} but isn't a valid ${extension.toUpperCase()} file. It may be damaged.`);
+  }
+
+  // Text files have no NUL bytes; images, audio and other binary files almost always do
+  if (bytes.includes(0)) throw new Error('This file type isn\'t supported. Upload a PDF, Word, EPUB, HTML, Markdown or text file.');
+
+  if (TEXT_EXTENSIONS[extension]) return TEXT_EXTENSIONS[extension];
+  if (/^\s*<(!doctype html|html)/i.test(new TextDecoder().decode(bytes))) return 'html';
+
+  throw new Error(
+    `${extension ? `.${extension} files aren't` : 'This file type isn\'t'} supported. ` +
+    'Upload a PDF, Word, EPUB, HTML, Markdown or text file.'
+  );
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  // PDF pages that were scans and had to be read with OCR
+  ocrPages: OcrPage[];
+}
+
+/**
+ * Read an uploaded chapter file as structured text; `onPdfProgress` follows PDFs page by page
+ */
+export async function extractChapterText(
+  file: File,
+  onPdfProgress?: (progress: PdfProgress) => void
+): Promise<ExtractedDocument> {
+  const buffer = await file.arrayBuffer();
+  const format = detectDocumentFormat(file.name, buffer);
+  console.log(`Reading ${file.name} as ${format}`);
+
+  let text: string;
+  let ocrPages: OcrPage[] = [];
+  switch (format) {
+    case 'pdf':
+      ({ text, ocrPages } = await extractTextFromPDF(file, onPdfProgress));
+      break;
+    case 'docx':
+      text = await parseDocx(buffer);
+      break;
+    case 'epub':
+      text = await parseEpub(buffer);
+      break;
+    case 'html':
+      text = parseHtml(new TextDecoder().decode(buffer));
+      break;
+    case 'markdown':
+      text = parseMarkdown(new TextDecoder().decode(buffer));
+      break;
+    case 'text':
+      text = new TextDecoder().decode(buffer);
+      break;
+  }
+
+  if (!text.trim()) throw new Error('No text could be found in this file.');
+  return { format, text, ocrPages };
+}
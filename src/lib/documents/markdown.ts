@@ -0,0 +1,89 @@
+/**
+ * Markdown chapter parser
+ * Markdown is already close to the structured text we send to the model, so this keeps headings,
+ * lists and tables and strips the rest of the markup: links, images, emphasis, code fences,
+ * front matter and inline HTML.
+ */
+import { cleanInline, headingLine } from './common';
+
+/**
+ * Inline markup removed from one line of text
+ */
+function stripInline(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<(https?:[^>\s]+)>/g, '$1')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)([^*]+?)(?<=\S)\*(?!\w)/g, '$1$2')
+    .replace(/(^|[^\w])_(?=\S)([^_]+?)(?<=\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|])/g, '$1');
+}
+
+/**
+ * Structured text of a Markdown document
+ */
+export function parseMarkdown(markdown: string): string {
+  const text = markdown
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    // YAML front matter
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  const output: string[] = [];
+  let fence: string | null = null;
+
+  text.split('\n').forEach(line => {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      fence = fence === fenceMatch[1] ? null : fence ?? fenceMatch[1];
+      return;
+    }
+    // Code is kept as written
+    if (fence) {
+      output.push(line);
+      return;
+    }
+
+    // Link reference definitions and table alignment rows carry no text
+    if (/^\s{0,3}\[[^\]]+\]:\s*\S/.test(line)) return;
+    if (/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line) && line.includes('|')) return;
+
+    // Setext headings: a line of text underlined with === or ---
+    const previous = output[output.length - 1];
+    if (previous && /^\s*(=+|-+)\s*$/.test(line) && !/^\s*([-*+]|\d+[.)]|#|\|)/.test(previous)) {
+      output[output.length - 1] = headingLine(line.trim().startsWith('=') ? 1 : 2, previous.trim());
+      return;
+    }
+    // Horizontal rules
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      output.push('');
+      return;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      output.push(headingLine(heading[1].length, cleanInline(stripInline(heading[2]))));
+      return;
+    }
+
+    const listItem = line.match(/^(\s*)([-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/);
+    if (listItem) {
+      const marker = /\d/.test(listItem[2]) ? `${parseInt(listItem[2], 10)}.` : '-';
+      // Two spaces per level, whatever the file used
+      const depth = Math.floor(listItem[1].replace(/\t/g, '    ').length / 2);
+      output.push(`${'  '.repeat(depth)}${marker} ${stripInline(listItem[3]).trim()}`);
+      return;
+    }
+
+    output.push(stripInline(line.replace(/^\s*>\s?/, '')).trimEnd());
+  });
+
+  return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,49 @@
+/**
+ * Shared pieces of the question set exporters
+ */
+import { Question } from '../../types';
+
+export type ExportFormat = 'qti' | 'gift' | 'csv' | 'worksheet_pdf' | 'answer_key_pdf';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  qti: 'IMS QTI 2.1 package (.zip)',
+  gift: 'GIFT for Moodle (.gift)',
+  csv: 'Spreadsheet (.csv)',
+  worksheet_pdf: 'Printable worksheet (PDF)',
+  answer_key_pdf: 'Answer key (PDF)'
+};
+
+export interface ExportTopic {
+  name: string;
+  questions: Question[];
+}
+
+// A chapter's topics and questions, in the order they are played
+export interface QuestionSet {
+  title: string;
+  grade: string;
+  topics: ExportTopic[];
+}
+
+export interface ExportFile {
+  filename: string;
+  blob: Blob;
+  // Questions the format can't hold, which were left out
+  omitted: number;
+}
+
+/**
+ * File name stem from a chapter title
+ */
+export function fileStem(title: string): string {
+  return title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'questions';
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
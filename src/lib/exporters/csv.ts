@@ -0,0 +1,66 @@
+/**
+ * CSV question set exporter
+ * Writes the same columns the CSV importer reads, so exported sets can be edited in a
+ * spreadsheet and imported again
+ */
+import { escapeCsvField } from '../results-report';
+import { getMatchingPairs, getOrderedItems } from '../question-types';
+import { Question } from '../../types';
+import { ExportFile, fileStem, QuestionSet } from './common';
+
+const COLUMNS = [
+  'topic', 'type', 'question', 'option_a', 'option_b', 'option_c', 'option_d', 'options', 'answer', 'tolerance', 'unit'
+] as const;
+
+type CsvRow = Partial<Record<typeof COLUMNS[number], string | number>>;
+
+function toRow(topic: string, question: Question): CsvRow {
+  const content = question.content ?? {};
+  const answer = question.answer ?? {};
+  const row: CsvRow = { topic, type: question.question_type, question: question.question_stem };
+
+  switch (question.question_type) {
+    case 'multiple_choice':
+      return {
+        ...row,
+        option_a: question.option_a,
+        option_b: question.option_b,
+        option_c: question.option_c,
+        option_d: question.option_d,
+        answer: question.correct_option
+      };
+    case 'true_false':
+      return { ...row, answer: String(answer.value) };
+    case 'multi_select':
+      return {
+        ...row,
+        options: (content.options ?? []).join(' | '),
+        answer: (answer.correct ?? []).map(index => String.fromCharCode(65 + index)).join(' | ')
+      };
+    case 'numeric':
+      return { ...row, answer: answer.number, tolerance: answer.tolerance, unit: content.unit ?? undefined };
+    case 'short_text':
+      return { ...row, answer: (answer.accepted ?? []).join(' | ') };
+    case 'ordering':
+      return { ...row, options: getOrderedItems(content, answer).join(' | ') };
+    case 'matching':
+      return { ...row, options: getMatchingPairs(content, answer).map(pair => `${pair.left} = ${pair.right}`).join(' | ') };
+  }
+}
+
+/**
+ * Question set as CSV, one question per row
+ */
+export function exportCsv(set: QuestionSet): ExportFile {
+  const rows = set.topics.flatMap(topic => topic.questions.map(question => toRow(topic.name, question)));
+  const lines = [
+    COLUMNS.join(','),
+    ...rows.map(row => COLUMNS.map(column => escapeCsvField(row[column] ?? null)).join(','))
+  ];
+
+  return {
+    filename: `${fileStem(set.title)}.csv`,
+    blob: new Blob([lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }),
+    omitted: 0
+  };
+}
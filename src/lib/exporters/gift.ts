@@ -0,0 +1,81 @@
+/**
+ * GIFT question set exporter
+ * Each topic becomes a category. GIFT has no ordering questions, so those are left out.
+ */
+import { getMatchingPairs } from '../question-types';
+import { Question } from '../../types';
+import { ExportFile, fileStem, QuestionSet } from './common';
+
+// Characters with a meaning in GIFT are escaped with a backslash
+function escapeGift(text: string): string {
+  return text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\r?\n/g, '\\n');
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(5)));
+}
+
+/**
+ * The {...} answer block for a question, or null for a type GIFT can't express
+ */
+function answerBlock(question: Question): string | null {
+  const content = question.content ?? {};
+  const answer = question.answer ?? {};
+
+  switch (question.question_type) {
+    case 'multiple_choice': {
+      const options = { A: question.option_a, B: question.option_b, C: question.option_c, D: question.option_d };
+      return Object.entries(options)
+        .map(([id, text]) => `\t${id === question.correct_option ? '=' : '~'}${escapeGift(text)}`)
+        .join('\n');
+    }
+    case 'true_false':
+      return answer.value ? 'TRUE' : 'FALSE';
+    case 'multi_select': {
+      const correct = answer.correct ?? [];
+      const weight = formatNumber(100 / Math.max(1, correct.length));
+      return (content.options ?? [])
+        .map((option, index) => `\t~%${correct.includes(index) ? weight : '-100'}%${escapeGift(option)}`)
+        .join('\n');
+    }
+    case 'numeric':
+      return `#${formatNumber(answer.number ?? 0)}${answer.tolerance ? `:${formatNumber(answer.tolerance)}` : ''}`;
+    case 'short_text':
+      return (answer.accepted ?? []).map(accepted => `\t=${escapeGift(accepted)}`).join('\n');
+    case 'matching':
+      return getMatchingPairs(content, answer)
+        .map(pair => `\t=${escapeGift(pair.left)} -> ${escapeGift(pair.right)}`)
+        .join('\n');
+    case 'ordering':
+      return null;
+  }
+}
+
+/**
+ * Question set as a GIFT file for Moodle and other LMSs
+ */
+export function exportGift(set: QuestionSet): ExportFile {
+  const blocks: string[] = [`// ${set.title} (grade ${set.grade})`];
+  let number = 0;
+  let omitted = 0;
+
+  set.topics.forEach(topic => {
+    blocks.push(`$CATEGORY: $course$/top/${topic.name.replace(/\//g, '-')}`);
+    topic.questions.forEach(question => {
+      const answers = answerBlock(question);
+      if (answers === null) {
+        omitted++;
+        return;
+      }
+      number++;
+      const multiline = answers.includes('\n');
+      blocks.push(`::Q${number}:: ${escapeGift(question.question_stem)} {${multiline ? `\n${answers}\n` : answers.trim()}}`);
+    });
+  });
+
+  return {
+    filename: `${fileStem(set.title)}.gift`,
+    blob: new Blob([blocks.join('\n\n') + '\n'], { type: 'text/plain;charset=utf-8' }),
+    omitted
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Question set export
+ * Builds downloadable files of a chapter's topics and questions for LMSs and for printing
+ */
+import { Question, Topic } from '../../types';
+import { ExportFile, ExportFormat, QuestionSet } from './common';
+import { exportCsv } from './csv';
+import { exportGift } from './gift';
+import { exportQtiPackage } from './qti';
+import { exportWorksheetPdf } from './worksheet';
+
+export type { ExportFile, ExportFormat, QuestionSet } from './common';
+export { EXPORT_FORMAT_LABELS } from './common';
+
+/**
+ * Question set from topics (in play order) and their questions
+ */
+export function toQuestionSet(
+  title: string,
+  grade: string,
+  topics: Topic[],
+  questions: Record<string, Question[]>
+): QuestionSet {
+  return {
+    title,
+    grade,
+    topics: topics.map(topic => ({
+      name: topic.topic_name,
+      questions: questions[topic.id] || []
+    }))
+  };
+}
+
+export function exportQuestionSet(set: QuestionSet, format: ExportFormat): ExportFile {
+  console.log(`Exporting "${set.title}" as ${format}`);
+
+  switch (format) {
+    case 'qti':
+      return exportQtiPackage(set);
+    case 'gift':
+      return exportGift(set);
+    case 'csv':
+      return exportCsv(set);
+    case 'worksheet_pdf':
+      return exportWorksheetPdf(set, false);
+    case 'answer_key_pdf':
+      return exportWorksheetPdf(set, true);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * IMS QTI 2.1 question set exporter
+ * Builds a content package: one assessmentItem per question, an assessmentTest with a section
+ * per topic, and the imsmanifest.xml that LMSs read to find them
+ */
+import { createZip } from '../zip';
+import { Question } from '../../types';
+import { escapeXml, ExportFile, fileStem, QuestionSet } from './common';
+
+const QTI_NAMESPACE = 'xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" ' +
+  'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+  'xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"';
+
+const TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+const SCORE_DECLARATION = '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>';
+
+function template(name: 'match_correct' | 'map_response') {
+  return `<responseProcessing template="${TEMPLATES}/${name}"/>`;
+}
+
+function values(list: string[]) {
+  return list.map(value => `<value>${escapeXml(value)}</value>`).join('');
+}
+
+function simpleChoices(options: string[], prefix = 'C') {
+  return options.map((option, index) => `<simpleChoice identifier="${prefix}${index}">${escapeXml(option)}</simpleChoice>`).join('\n      ');
+}
+
+function choiceItem(stem: string, options: string[], correct: number[], single: boolean) {
+  return {
+    declaration: `<responseDeclaration identifier="RESPONSE" cardinality="${single ? 'single' : 'multiple'}" baseType="identifier">` +
+      `<correctResponse>${values(correct.map(index => `C${index}`))}</correctResponse></responseDeclaration>`,
+    body: `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${single ? 1 : 0}">
+      <prompt>${escapeXml(stem)}</prompt>
+      ${simpleChoices(options)}
+    </choiceInteraction>`,
+    processing: template('match_correct')
+  };
+}
+
+/**
+ * Declaration, body and response processing for a question
+ */
+function itemParts(question: Question) {
+  const content = question.content ?? {};
+  const answer = question.answer ?? {};
+  const stem = question.question_stem;
+
+  switch (question.question_type) {
+    case 'multiple_choice': {
+      const options = [question.option_a, question.option_b, question.option_c, question.option_d];
+      return choiceItem(stem, options, [['A', 'B', 'C', 'D'].indexOf(question.correct_option)], true);
+    }
+    case 'true_false':
+      return choiceItem(stem, ['True', 'False'], [answer.value ? 0 : 1], true);
+    case 'multi_select':
+      return choiceItem(stem, content.options ?? [], answer.correct ?? [], false);
+    case 'numeric': {
+      const tolerance = answer.tolerance ?? 0;
+      return {
+        declaration: '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">' +
+          `<correctResponse>${values([String(answer.number ?? 0)])}</correctResponse></responseDeclaration>`,
+        body: `<p>${escapeXml(stem)}</p>
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="10"/>${content.unit ? ` ${escapeXml(content.unit)}` : ''}</p>`,
+        processing: tolerance > 0
+          ? `<responseProcessing><responseCondition><responseIf>
+      <equal toleranceMode="absolute" tolerance="${tolerance} ${tolerance}"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal>
+      <setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>
+    </responseIf></responseCondition></responseProcessing>`
+          : template('match_correct')
+      };
+    }
+    case 'short_text': {
+      const accepted = answer.accepted ?? [];
+      return {
+        declaration: '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">' +
+          `<correctResponse>${values(accepted.slice(0, 1))}</correctResponse>` +
+          '<mapping defaultValue="0">' +
+          accepted.map(value => `<mapEntry mapKey="${escapeXml(value)}" mappedValue="1" caseSensitive="false"/>`).join('') +
+          '</mapping></responseDeclaration>',
+        body: `<p>${escapeXml(stem)}</p>
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="20"/></p>`,
+        processing: template('map_response')
+      };
+    }
+    case 'ordering':
+      return {
+        declaration: '<responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier">' +
+          `<correctResponse>${values((answer.order ?? []).map(index => `C${index}`))}</correctResponse></responseDeclaration>`,
+        body: `<orderInteraction responseIdentifier="RESPONSE" shuffle="false">
+      <prompt>${escapeXml(stem)}</prompt>
+      ${simpleChoices(content.items ?? [])}
+    </orderInteraction>`,
+        processing: template('match_correct')
+      };
+    case 'matching': {
+      const left = content.left ?? [];
+      const right = content.right ?? [];
+      const associable = (options: string[], prefix: string) => options
+        .map((option, index) => `<simpleAssociableChoice identifier="${prefix}${index}" matchMax="1">${escapeXml(option)}</simpleAssociableChoice>`)
+        .join('');
+      return {
+        declaration: '<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">' +
+          `<correctResponse>${values((answer.pairs ?? []).map((partner, index) => `L${index} R${partner}`))}</correctResponse>` +
+          '</responseDeclaration>',
+        body: `<matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${left.length}">
+      <prompt>${escapeXml(stem)}</prompt>
+      <simpleMatchSet>${associable(left, 'L')}</simpleMatchSet>
+      <simpleMatchSet>${associable(right, 'R')}</simpleMatchSet>
+    </matchInteraction>`,
+        processing: template('match_correct')
+      };
+    }
+  }
+}
+
+function assessmentItem(question: Question, identifier: string, title: string) {
+  const parts = itemParts(question);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem ${QTI_NAMESPACE} identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+  ${parts.declaration}
+  ${SCORE_DECLARATION}
+  <itemBody>
+    ${parts.body}
+  </itemBody>
+  ${parts.processing}
+</assessmentItem>
+`;
+}
+
+/**
+ * Question set as a QTI 2.1 content package
+ */
+export function exportQtiPackage(set: QuestionSet): ExportFile {
+  const files: Record<string, string> = {};
+  const sections: string[] = [];
+  const resources: string[] = [];
+  let number = 0;
+
+  set.topics.forEach((topic, topicIndex) => {
+    const refs: string[] = [];
+    topic.questions.forEach(question => {
+      number++;
+      const identifier = `item-${number}`;
+      const href = `items/${identifier}.xml`;
+      files[href] = assessmentItem(question, identifier, `Question ${number}`);
+      refs.push(`<assessmentItemRef identifier="${identifier}" href="${href}"/>`);
+      resources.push(`<resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${href}"><file href="${href}"/></resource>`);
+    });
+    sections.push(`<assessmentSection identifier="section-${topicIndex + 1}" title="${escapeXml(topic.name)}" visible="true">
+      ${refs.join('\n      ')}
+    </assessmentSection>`);
+  });
+
+  files['assessment.xml'] = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest ${QTI_NAMESPACE} identifier="test" title="${escapeXml(set.title)}">
+  <testPart identifier="part-1" navigationMode="linear" submissionMode="individual">
+    ${sections.join('\n    ')}
+  </testPart>
+</assessmentTest>
+`;
+
+  files['imsmanifest.xml'] = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest-${fileStem(set.title)}">
+  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="test" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+      ${Array.from({ length: number }, (_, i) => `<dependency identifierref="item-${i + 1}"/>`).join('\n      ')}
+    </resource>
+    ${resources.join('\n    ')}
+  </resources>
+</manifest>
+`;
+
+  return { filename: `${fileStem(set.title)}-qti.zip`, blob: createZip(files), omitted: 0 };
+}
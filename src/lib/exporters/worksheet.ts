@@ -0,0 +1,106 @@
+/**
+ * Printable worksheet and answer key exporter
+ * Lays out every question with space to answer on paper, and a matching key for marking
+ */
+import { createTextPdf, PdfParagraph } from '../pdf-writer';
+import { describeCorrectAnswer } from '../question-types';
+import { Question } from '../../types';
+import { ExportFile, fileStem, QuestionSet } from './common';
+
+const BLANK = '____________________';
+
+function letter(index: number) {
+  return String.fromCharCode(65 + index);
+}
+
+// Answer space under a question on the worksheet
+function answerSpace(question: Question): PdfParagraph[] {
+  const content = question.content ?? {};
+  const line = (text: string): PdfParagraph => ({ text, indent: 18, spaceBefore: 2 });
+
+  switch (question.question_type) {
+    case 'multiple_choice':
+      return [question.option_a, question.option_b, question.option_c, question.option_d]
+        .map((option, index) => line(`( )  ${letter(index)}. ${option}`));
+    case 'true_false':
+      return [line('( )  True        ( )  False')];
+    case 'multi_select':
+      return [
+        line('Tick every correct answer.'),
+        ...(content.options ?? []).map(option => line(`[ ]  ${option}`))
+      ];
+    case 'numeric':
+      return [line(`Answer: ${BLANK}${content.unit ? ` ${content.unit}` : ''}`)];
+    case 'short_text':
+      return [line(`Answer: ${BLANK}${BLANK}`)];
+    case 'ordering':
+      return [
+        line('Number these in the right order.'),
+        ...(content.items ?? []).map(item => line(`____  ${item}`))
+      ];
+    case 'matching':
+      return [
+        line('Write the letter of the matching answer next to each item.'),
+        ...(content.left ?? []).map((item, index) => line(`${index + 1}. ${item}  ____`)),
+        ...(content.right ?? []).map((option, index) => ({ ...line(`${letter(index)}. ${option}`), indent: 36 }))
+      ];
+  }
+}
+
+// The answer as it reads against the printed worksheet
+function keyAnswer(question: Question): string {
+  const content = question.content ?? {};
+  const answer = question.answer ?? {};
+
+  switch (question.question_type) {
+    case 'ordering':
+      // Position of each printed item in the correct order
+      return (content.items ?? [])
+        .map((item, index) => `${(answer.order ?? []).indexOf(index) + 1} - ${item}`)
+        .join('; ');
+    case 'matching':
+      return (answer.pairs ?? []).map((partner, index) => `${index + 1}-${letter(partner)}`).join(', ');
+    default:
+      return describeCorrectAnswer(question, question.correct_option, question.answer ?? null);
+  }
+}
+
+function heading(set: QuestionSet, subtitle: string): PdfParagraph[] {
+  return [
+    { text: set.title, size: 18, bold: true },
+    { text: `${subtitle} - Grade ${set.grade}`, size: 11, spaceBefore: 2 }
+  ];
+}
+
+/**
+ * Worksheet PDF for students, or the answer key for marking it
+ */
+export function exportWorksheetPdf(set: QuestionSet, answerKey: boolean): ExportFile {
+  const paragraphs: PdfParagraph[] = heading(set, answerKey ? 'Answer key' : 'Worksheet');
+  if (!answerKey) {
+    paragraphs.push({ text: `Name: ${BLANK}        Date: ____________`, spaceBefore: 14 });
+  }
+
+  let number = 0;
+  set.topics.forEach(topic => {
+    paragraphs.push({ text: topic.name, size: 14, bold: true, spaceBefore: 18, keepWithNext: 40 });
+
+    topic.questions.forEach(question => {
+      number++;
+      if (answerKey) {
+        paragraphs.push({ text: `${number}. ${question.question_stem}`, spaceBefore: 8, keepWithNext: 14 });
+        paragraphs.push({ text: keyAnswer(question), bold: true, indent: 18, spaceBefore: 2 });
+      } else {
+        paragraphs.push({ text: `${number}. ${question.question_stem}`, bold: true, spaceBefore: 12, keepWithNext: 30 });
+        paragraphs.push(...answerSpace(question));
+      }
+    });
+  });
+
+  const title = `${set.title} - ${answerKey ? 'Answer key' : 'Worksheet'}`;
+  return {
+    filename: `${fileStem(set.title)}-${answerKey ? 'answer-key' : 'worksheet'}.pdf`,
+    blob: createTextPdf(title, paragraphs),
+    omitted: 0
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Shared pieces of the question bank importers
+ * Each importer turns a file into report rows: one per question (or per line it couldn't read),
+ * holding either validated question fields or the reason the row won't be imported.
+ */
+import { QuestionFields, QuestionType } from '../../types';
+import { MULTIPLE_CHOICE_OPTIONS, validateQuestionFields } from '../question-types';
+
+export type ImportFormat = 'csv' | 'moodle_xml' | 'gift' | 'qti';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  moodle_xml: 'Moodle XML',
+  gift: 'GIFT',
+  qti: 'IMS QTI 2.1'
+};
+
+// Topic for questions whose file doesn't put them in a category or section
+export const DEFAULT_IMPORT_TOPIC = 'Imported questions';
+
+// ok: imported as is; warning: imported with something dropped; skipped: a question type we
+// don't support; error: a supported question that is broken
+export type ImportRowStatus = 'ok' | 'warning' | 'skipped' | 'error';
+
+export interface ImportRow {
+  // Line number for CSV and GIFT, position in the file for XML formats
+  row: number;
+  // Name or start of the question so the teacher can find it in their file
+  label: string;
+  topic: string;
+  status: ImportRowStatus;
+  message: string | null;
+  question: QuestionFields | null;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  rows: ImportRow[];
+}
+
+// Where a row came from, before we know what happened to it
+export type RowSource = Pick<ImportRow, 'row' | 'label' | 'topic'>;
+
+/**
+ * Topic from the last part of a category path such as "$course$/top/Photosynthesis"
+ */
+export function topicFromCategoryPath(path: string): string {
+  const parts = path.split('/').map(part => part.trim()).filter(part => part && !part.startsWith('$') && part !== 'top');
+  return parts[parts.length - 1] || DEFAULT_IMPORT_TOPIC;
+}
+
+/**
+ * A row for a question that parsed; it still fails if the fields break the question rules
+ */
+export function questionRow(source: RowSource, question: QuestionFields, warning: string | null = null): ImportRow {
+  const error = validateQuestionFields(question);
+  if (error) return { ...source, status: 'error', message: error, question: null };
+
+  return { ...source, status: warning ? 'warning' : 'ok', message: warning, question };
+}
+
+export function skippedRow(source: RowSource, message: string): ImportRow {
+  return { ...source, status: 'skipped', message, question: null };
+}
+
+export function errorRow(source: RowSource, message: string): ImportRow {
+  return { ...source, status: 'error', message, question: null };
+}
+
+/**
+ * Short label for a row from its question text
+ */
+export function labelFor(text: string, maxLength = 60): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+}
+
+/**
+ * Fields for a question type other than multiple choice
+ */
+export function typedQuestion(
+  type: Exclude<QuestionType, 'multiple_choice'>,
+  stem: string,
+  content: QuestionFields['content'],
+  answer: QuestionFields['answer']
+): QuestionFields {
+  return {
+    question_type: type,
+    question_stem: stem,
+    option_a: '',
+    option_b: '',
+    option_c: '',
+    option_d: '',
+    correct_option: '',
+    content,
+    answer
+  };
+}
+
+/**
+ * Fields for a choice question: multiple choice when exactly one of four options is correct,
+ * multi-select otherwise. Returns an error message for choices we can't represent.
+ */
+export function choiceQuestion(stem: string, options: string[], correct: number[], singleAnswer: boolean): QuestionFields | string {
+  if (correct.length === 0) return 'No option is marked correct.';
+
+  if (singleAnswer) {
+    if (correct.length > 1) return 'More than one option is marked correct in a single-answer question.';
+    if (options.length !== MULTIPLE_CHOICE_OPTIONS.length) {
+      return `Multiple choice questions need exactly four options (found ${options.length}).`;
+    }
+    return {
+      question_type: 'multiple_choice',
+      question_stem: stem,
+      option_a: options[0],
+      option_b: options[1],
+      option_c: options[2],
+      option_d: options[3],
+      correct_option: MULTIPLE_CHOICE_OPTIONS[correct[0]],
+      content: null,
+      answer: null
+    };
+  }
+
+  return typedQuestion('multi_select', stem, { options }, { correct: [...correct].sort((a, b) => a - b) });
+}
+
+/**
+ * Plain text from an HTML fragment, as used in Moodle and QTI question text
+ */
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,196 @@
+/**
+ * CSV question bank importer
+ * One question per row under a header row. Columns are matched by name, case-insensitively:
+ *   topic, type, question, option_a-option_d, options, answer, tolerance, unit
+ * `type` defaults to multiple_choice. Lists (options, accepted answers, correct choices) are
+ * separated with "|"; ordering questions list their options in the correct order and matching
+ * questions write each option as "left = right".
+ */
+import { QuestionType } from '../../types';
+import { buildMatchingQuestion, buildOrderingQuestion, MULTIPLE_CHOICE_OPTIONS, QUESTION_TYPES } from '../question-types';
+import {
+  choiceQuestion,
+  DEFAULT_IMPORT_TOPIC,
+  errorRow,
+  ImportRow,
+  labelFor,
+  questionRow,
+  RowSource,
+  skippedRow,
+  typedQuestion
+} from './common';
+
+interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Split CSV text into records, following RFC 4180 quoting; records remember the line they start on
+ */
+function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim())) records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || fields.length > 0) endRecord();
+  return records;
+}
+
+// Header names we accept for each column
+const COLUMN_ALIASES: Record<string, string[]> = {
+  topic: ['topic', 'category', 'section'],
+  type: ['type', 'question_type'],
+  question: ['question', 'question_stem', 'stem', 'text'],
+  option_a: ['option_a', 'a'],
+  option_b: ['option_b', 'b'],
+  option_c: ['option_c', 'c'],
+  option_d: ['option_d', 'd'],
+  options: ['options', 'choices', 'items'],
+  answer: ['answer', 'correct', 'correct_option', 'correct_answer'],
+  tolerance: ['tolerance'],
+  unit: ['unit', 'units']
+};
+
+function splitList(value: string): string[] {
+  return value.split('|').map(entry => entry.trim()).filter(Boolean);
+}
+
+// Correct choices given as letters (A, C) or 1-based numbers (1, 3)
+function parseChoiceIndexes(value: string, count: number): number[] | null {
+  const indexes = splitList(value.replace(/,/g, '|')).map(entry => {
+    const letter = entry.toUpperCase();
+    if (/^[A-Z]$/.test(letter)) return letter.charCodeAt(0) - 65;
+    const number = Number(entry);
+    return Number.isInteger(number) ? number - 1 : -1;
+  });
+  return indexes.every(index => index >= 0 && index < count) ? [...new Set(indexes)] : null;
+}
+
+/**
+ * Import a CSV question bank
+ */
+export function importCsv(text: string): ImportRow[] {
+  const records = parseCsv(text);
+  if (records.length === 0) throw new Error('The CSV file is empty.');
+
+  const header = records[0].fields.map(name => name.trim().toLowerCase().replace(/\s+/g, '_'));
+  const columns: Record<string, number> = {};
+  Object.entries(COLUMN_ALIASES).forEach(([column, aliases]) => {
+    const index = header.findIndex(name => aliases.includes(name));
+    if (index >= 0) columns[column] = index;
+  });
+
+  if (columns.question === undefined) {
+    throw new Error('The CSV file needs a header row with a "question" column.');
+  }
+
+  return records.slice(1).map(record => {
+    const get = (column: string) => (columns[column] === undefined ? '' : (record.fields[columns[column]] ?? '').trim());
+    const stem = get('question');
+    const source: RowSource = {
+      row: record.line,
+      label: labelFor(stem) || `Line ${record.line}`,
+      topic: get('topic') || DEFAULT_IMPORT_TOPIC
+    };
+
+    const typeName = (get('type') || 'multiple_choice').toLowerCase().replace(/[\s-]+/g, '_');
+    if (!QUESTION_TYPES.includes(typeName as QuestionType)) {
+      return skippedRow(source, `Unsupported question type "${get('type')}".`);
+    }
+    const type = typeName as QuestionType;
+    const answer = get('answer');
+    const options = splitList(get('options'));
+
+    switch (type) {
+      case 'multiple_choice': {
+        const choices = get('option_a') ? ['option_a', 'option_b', 'option_c', 'option_d'].map(get) : options;
+        const correct = MULTIPLE_CHOICE_OPTIONS.indexOf(answer.toUpperCase() as typeof MULTIPLE_CHOICE_OPTIONS[number]);
+        if (correct < 0) return errorRow(source, 'The answer must be A, B, C or D.');
+        const question = choiceQuestion(stem, choices, [correct], true);
+        return typeof question === 'string' ? errorRow(source, question) : questionRow(source, question);
+      }
+
+      case 'true_false': {
+        const value = answer.toLowerCase();
+        if (!['true', 'false', 't', 'f'].includes(value)) return errorRow(source, 'The answer must be true or false.');
+        return questionRow(source, typedQuestion('true_false', stem, null, { value: value.startsWith('t') }));
+      }
+
+      case 'multi_select': {
+        const correct = parseChoiceIndexes(answer, options.length);
+        if (!correct) return errorRow(source, 'The answer must list the correct options by letter or number.');
+        const question = choiceQuestion(stem, options, correct, false);
+        return typeof question === 'string' ? errorRow(source, question) : questionRow(source, question);
+      }
+
+      case 'numeric': {
+        const number = Number(answer);
+        const tolerance = get('tolerance') ? Number(get('tolerance')) : undefined;
+        if (!answer || !Number.isFinite(number)) return errorRow(source, 'The answer must be a number.');
+        return questionRow(source, typedQuestion(
+          'numeric',
+          stem,
+          { unit: get('unit') || null },
+          tolerance ? { number, tolerance } : { number }
+        ));
+      }
+
+      case 'short_text':
+        return questionRow(source, typedQuestion('short_text', stem, null, { accepted: splitList(answer) }));
+
+      case 'ordering':
+        return questionRow(source, { ...typedQuestion('ordering', stem, null, null), ...buildOrderingQuestion(options) });
+
+      case 'matching': {
+        const pairs = options.map(option => {
+          const [left, ...right] = option.split('=');
+          return { left: left.trim(), right: right.join('=').trim() };
+        });
+        if (pairs.some(pair => !pair.left || !pair.right)) {
+          return errorRow(source, 'Matching options must be written as "item = match".');
+        }
+        return questionRow(source, { ...typedQuestion('matching', stem, null, null), ...buildMatchingQuestion(pairs) });
+      }
+    }
+  });
+}
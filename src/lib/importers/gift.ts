@@ -0,0 +1,216 @@
+/**
+ * GIFT question bank importer
+ * Questions are separated by blank lines; `$CATEGORY:` lines set the topic for the questions
+ * that follow. Supports multiple choice ({=right ~wrong}), multi-select ({~%50%a ~%50%b ~%-100%c}),
+ * true/false ({T}), short answer ({=a =b}), numeric ({#4:0.5} or {#3..5}) and matching
+ * ({=a -> 1 =b -> 2}). Essays and descriptions aren't supported.
+ */
+import { buildMatchingQuestion } from '../question-types';
+import {
+  choiceQuestion,
+  DEFAULT_IMPORT_TOPIC,
+  errorRow,
+  ImportRow,
+  labelFor,
+  questionRow,
+  RowSource,
+  skippedRow,
+  topicFromCategoryPath,
+  typedQuestion
+} from './common';
+
+interface GiftBlock {
+  line: number;
+  text: string;
+}
+
+// Split the file into question blocks, dropping comment lines
+function splitBlocks(text: string): GiftBlock[] {
+  const blocks: GiftBlock[] = [];
+  let current: string[] = [];
+  let start = 0;
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    if (/^\s*\/\//.test(line)) return;
+    if (!line.trim()) {
+      if (current.length > 0) blocks.push({ line: start, text: current.join('\n') });
+      current = [];
+      return;
+    }
+    if (current.length === 0) start = index + 1;
+    current.push(line);
+  });
+  if (current.length > 0) blocks.push({ line: start, text: current.join('\n') });
+
+  return blocks;
+}
+
+// Index of the first unescaped occurrence of a character, or -1
+function findUnescaped(text: string, char: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === char) return i;
+  }
+  return -1;
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\([~=#{}:\\n])/g, (_, char: string) => (char === 'n' ? '\n' : char)).trim();
+}
+
+// Drop the [html]/[markdown] format marker and any HTML tags from question text
+function cleanText(text: string): string {
+  return unescape(text.replace(/^\s*\[(html|moodle|plain|markdown)\]/i, '').replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ');
+}
+
+interface GiftAnswer {
+  marker: '=' | '~';
+  weight: number | null;
+  text: string;
+}
+
+// Split an answer block into =/~ answers, dropping per-answer feedback
+function splitAnswers(block: string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  let i = 0;
+
+  while (i < block.length) {
+    const char = block[i];
+    if (char !== '=' && char !== '~') {
+      i++;
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < block.length && !((block[end] === '=' || block[end] === '~') && block[end - 1] !== '\\')) end++;
+
+    let text = block.slice(i + 1, end);
+    const feedback = findUnescaped(text, '#');
+    if (feedback >= 0) text = text.slice(0, feedback);
+
+    const weight = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    answers.push({
+      marker: char,
+      weight: weight ? Number(weight[1]) : null,
+      text: unescape(weight ? text.slice(weight[0].length) : text)
+    });
+    i = end;
+  }
+
+  return answers;
+}
+
+/**
+ * Turn one question block into a report row
+ */
+function parseQuestion(block: GiftBlock, topic: string): ImportRow {
+  let text = block.text.trim();
+
+  let title = '';
+  const titleMatch = text.match(/^::(.*?)::/s);
+  if (titleMatch) {
+    title = unescape(titleMatch[1]);
+    text = text.slice(titleMatch[0].length);
+  }
+
+  const open = findUnescaped(text, '{');
+  const close = open >= 0 ? findUnescaped(text, '}', open) : -1;
+  const source: RowSource = { row: block.line, label: title || labelFor(cleanText(text.slice(0, open >= 0 ? open : undefined))), topic };
+
+  if (open < 0) return skippedRow(source, 'Descriptions without an answer are not supported.');
+  if (close < 0) return errorRow(source, 'The answer block has no closing "}".');
+
+  // Text after the answers is kept; a blank marks where the answers sat in the sentence
+  const before = cleanText(text.slice(0, open));
+  const after = cleanText(text.slice(close + 1));
+  const stem = after ? `${before} _____ ${after}` : before;
+  const answerBlock = text.slice(open + 1, close).trim();
+
+  if (!answerBlock) return skippedRow(source, 'Essay questions are not supported.');
+
+  const trueFalse = answerBlock.match(/^(T|TRUE|F|FALSE)\b/i);
+  if (trueFalse) {
+    return questionRow(source, typedQuestion('true_false', stem, null, { value: trueFalse[1].toUpperCase().startsWith('T') }));
+  }
+
+  if (answerBlock.startsWith('#')) {
+    // Either a single answer, or several "=" answers of which the first is taken
+    const answers = answerBlock.slice(1).split('=')
+      .map(answer => answer.replace(/^%-?\d+%/, '').split('#')[0].trim())
+      .filter(Boolean);
+    const first = answers[0] ?? '';
+    const range = first.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+    let value: number;
+    let margin: number;
+    if (range) {
+      value = (Number(range[1]) + Number(range[2])) / 2;
+      margin = Math.abs(Number(range[2]) - Number(range[1])) / 2;
+    } else {
+      const [number, tolerance] = first.split(':');
+      value = number.trim() ? Number(number) : NaN;
+      margin = tolerance ? Number(tolerance) : 0;
+    }
+    if (!Number.isFinite(value) || !Number.isFinite(margin)) return errorRow(source, 'The numeric answer is not a number.');
+    return questionRow(
+      source,
+      typedQuestion('numeric', stem, { unit: null }, margin > 0 ? { number: value, tolerance: margin } : { number: value }),
+      answers.length > 1 ? 'Only the first numeric answer was kept.' : null
+    );
+  }
+
+  const answers = splitAnswers(answerBlock);
+  if (answers.length === 0) return errorRow(source, 'The answer block has no answers.');
+
+  if (answers.some(answer => answer.text.includes('->'))) {
+    const pairs = answers.map(answer => {
+      const [left, ...right] = answer.text.split('->');
+      return { left: left.trim(), right: right.join('->').trim() };
+    });
+    const matched = pairs.filter(pair => pair.left);
+    return questionRow(
+      source,
+      { ...typedQuestion('matching', stem, null, null), ...buildMatchingQuestion(matched) },
+      matched.length < pairs.length ? 'Extra wrong answers were dropped.' : null
+    );
+  }
+
+  if (answers.every(answer => answer.marker === '=')) {
+    return questionRow(source, typedQuestion('short_text', stem, null, { accepted: answers.map(answer => answer.text) }));
+  }
+
+  const options = answers.map(answer => answer.text);
+  const weighted = answers.some(answer => answer.weight !== null);
+  if (weighted) {
+    const correct = answers.map((answer, index) => ((answer.weight ?? 0) > 0 ? index : -1)).filter(index => index >= 0);
+    const fields = choiceQuestion(stem, options, correct, false);
+    return typeof fields === 'string' ? errorRow(source, fields) : questionRow(source, fields);
+  }
+
+  const correct = answers.map((answer, index) => (answer.marker === '=' ? index : -1)).filter(index => index >= 0);
+  const fields = choiceQuestion(stem, options, correct, true);
+  return typeof fields === 'string' ? errorRow(source, fields) : questionRow(source, fields);
+}
+
+/**
+ * Import a GIFT question bank
+ */
+export function importGift(text: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  let topic = DEFAULT_IMPORT_TOPIC;
+
+  splitBlocks(text).forEach(block => {
+    const category = block.text.match(/^\$CATEGORY:\s*(.+)$/m);
+    if (category) {
+      topic = topicFromCategoryPath(category[1]);
+      // A category line may share its block with the first question
+      const rest = block.text.replace(category[0], '').trim();
+      if (!rest) return;
+      rows.push(parseQuestion({ line: block.line + 1, text: rest }, topic));
+      return;
+    }
+    rows.push(parseQuestion(block, topic));
+  });
+
+  if (rows.length === 0) throw new Error('The GIFT file has no questions.');
+  return rows;
+}
@@ -0,0 +1,64 @@
+/**
+ * Question bank import
+ * Detects a file's format and runs the matching importer. Formats are told apart by extension,
+ * and XML files by their root element.
+ */
+import { ImportFormat, ImportResult } from './common';
+import { importCsv } from './csv';
+import { importGift } from './gift';
+import { importMoodleXml } from './moodle-xml';
+import { importQti } from './qti';
+import { readZipTextEntries } from '../zip';
+
+export type { ImportFormat, ImportResult, ImportRow, ImportRowStatus } from './common';
+export { DEFAULT_IMPORT_TOPIC, IMPORT_FORMAT_LABELS } from './common';
+
+// File types offered in the file picker
+export const IMPORT_FILE_TYPES = '.csv,.xml,.gift,.txt,.zip';
+
+/**
+ * Work out a file's format from its name and, for XML, its root element
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+
+  if (extension === 'csv') return 'csv';
+  if (extension === 'gift' || extension === 'txt') return 'gift';
+  if (extension === 'zip') return 'qti';
+  if (extension === 'xml') {
+    // Skip the XML declaration, comments and doctype to find the root element
+    const root = text.match(/<(?![?!])(?:[\w-]+:)?([\w-]+)/)?.[1];
+    if (root === 'quiz') return 'moodle_xml';
+    if (root === 'assessmentItem' || root === 'assessmentTest' || root === 'questestinterop') return 'qti';
+  }
+
+  return null;
+}
+
+/**
+ * Parse a question bank file into report rows
+ */
+export async function importQuestionBank(file: File): Promise<ImportResult> {
+  console.log(`Importing question bank from ${file.name}`);
+
+  if (file.name.toLowerCase().endsWith('.zip')) {
+    const files = await readZipTextEntries(await file.arrayBuffer(), path => path.toLowerCase().endsWith('.xml'));
+    return { format: 'qti', rows: importQti(files) };
+  }
+
+  const text = await file.text();
+  const format = detectImportFormat(file.name, text);
+
+  switch (format) {
+    case 'csv':
+      return { format, rows: importCsv(text) };
+    case 'gift':
+      return { format, rows: importGift(text) };
+    case 'moodle_xml':
+      return { format, rows: importMoodleXml(text) };
+    case 'qti':
+      return { format, rows: importQti({ [file.name]: text }) };
+    default:
+      throw new Error('Unrecognised file. Import a CSV, Moodle XML, GIFT or QTI 2.1 file.');
+  }
+}
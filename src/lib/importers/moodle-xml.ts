@@ -0,0 +1,147 @@
+/**
+ * Moodle XML question bank importer
+ * Reads multichoice, truefalse, shortanswer, numerical, matching and ordering questions;
+ * category entries set the topic for the questions that follow them.
+ */
+import { buildMatchingQuestion, buildOrderingQuestion } from '../question-types';
+import {
+  choiceQuestion,
+  DEFAULT_IMPORT_TOPIC,
+  errorRow,
+  htmlToText,
+  ImportRow,
+  labelFor,
+  questionRow,
+  RowSource,
+  skippedRow,
+  topicFromCategoryPath,
+  typedQuestion
+} from './common';
+import { childElement, childElements, parseXml } from '../xml';
+
+// Text of an element's <text> child, with any HTML formatting removed
+function textOf(element: Element | null): string {
+  const text = element ? childElement(element, 'text')?.textContent ?? '' : '';
+  return htmlToText(text);
+}
+
+interface MoodleAnswer {
+  text: string;
+  fraction: number;
+  element: Element;
+}
+
+function answersOf(question: Element): MoodleAnswer[] {
+  return childElements(question, 'answer').map(element => ({
+    text: textOf(element),
+    fraction: Number(element.getAttribute('fraction') ?? 0),
+    element
+  }));
+}
+
+/**
+ * Import a Moodle XML question bank
+ */
+export function importMoodleXml(text: string): ImportRow[] {
+  const doc = parseXml(text, 'Moodle XML');
+  const quiz = doc.documentElement;
+  if (quiz.localName !== 'quiz') throw new Error('The Moodle XML file has no <quiz> element.');
+
+  const rows: ImportRow[] = [];
+  let topic = DEFAULT_IMPORT_TOPIC;
+  let position = 0;
+
+  childElements(quiz, 'question').forEach(question => {
+    const type = question.getAttribute('type') || '';
+    if (type === 'category') {
+      topic = topicFromCategoryPath(textOf(childElement(question, 'category')));
+      return;
+    }
+
+    position++;
+    const stem = textOf(childElement(question, 'questiontext'));
+    const source: RowSource = {
+      row: position,
+      label: textOf(childElement(question, 'name')) || labelFor(stem) || `Question ${position}`,
+      topic
+    };
+    const answers = answersOf(question);
+    const correctAnswers = answers.filter(answer => answer.fraction >= 100);
+
+    switch (type) {
+      case 'multichoice': {
+        const single = (childElement(question, 'single')?.textContent ?? 'true').trim() !== 'false';
+        const correct = answers
+          .map((answer, index) => (single ? answer.fraction >= 100 : answer.fraction > 0) ? index : -1)
+          .filter(index => index >= 0);
+        const fields = choiceQuestion(stem, answers.map(answer => answer.text), correct, single);
+        rows.push(typeof fields === 'string' ? errorRow(source, fields) : questionRow(source, fields));
+        break;
+      }
+
+      case 'truefalse': {
+        const correct = correctAnswers[0]?.text.toLowerCase();
+        rows.push(correct === 'true' || correct === 'false'
+          ? questionRow(source, typedQuestion('true_false', stem, null, { value: correct === 'true' }))
+          : errorRow(source, 'Neither true nor false is marked correct.'));
+        break;
+      }
+
+      case 'shortanswer': {
+        const partial = answers.length > correctAnswers.length;
+        rows.push(questionRow(
+          source,
+          typedQuestion('short_text', stem, null, { accepted: correctAnswers.map(answer => answer.text) }),
+          partial ? 'Answers worth partial credit were dropped.' : null
+        ));
+        break;
+      }
+
+      case 'numerical': {
+        const correct = correctAnswers[0];
+        const number = correct ? Number(correct.text) : NaN;
+        if (!Number.isFinite(number)) {
+          rows.push(errorRow(source, 'No numeric answer is marked correct.'));
+          break;
+        }
+        const tolerance = Number(childElement(correct.element, 'tolerance')?.textContent ?? 0) || 0;
+        const units = childElement(question, 'units');
+        const firstUnit = units ? childElement(units, 'unit') : null;
+        const unit = (firstUnit && childElement(firstUnit, 'unit_name')?.textContent?.trim()) || null;
+        rows.push(questionRow(
+          source,
+          typedQuestion('numeric', stem, { unit }, tolerance > 0 ? { number, tolerance } : { number }),
+          correctAnswers.length > 1 ? 'Only the first correct answer was kept.' : null
+        ));
+        break;
+      }
+
+      case 'matching': {
+        const subquestions = childElements(question, 'subquestion').map(subquestion => ({
+          left: textOf(subquestion),
+          right: textOf(childElement(subquestion, 'answer'))
+        }));
+        // Subquestions without text are extra wrong answers, which matching questions here don't have
+        const pairs = subquestions.filter(pair => pair.left);
+        rows.push(questionRow(
+          source,
+          { ...typedQuestion('matching', stem, null, null), ...buildMatchingQuestion(pairs) },
+          pairs.length < subquestions.length ? 'Extra wrong answers were dropped.' : null
+        ));
+        break;
+      }
+
+      case 'ordering': {
+        // The ordering plugin lists answers in the correct order
+        const items = answers.map(answer => answer.text);
+        rows.push(questionRow(source, { ...typedQuestion('ordering', stem, null, null), ...buildOrderingQuestion(items) }));
+        break;
+      }
+
+      default:
+        rows.push(skippedRow(source, `Unsupported question type "${type || 'unknown'}".`));
+    }
+  });
+
+  return rows;
+}
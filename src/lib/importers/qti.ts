@@ -0,0 +1,214 @@
+/**
+ * IMS QTI 2.1 importer
+ * Reads single assessmentItem files and content packages (a ZIP with imsmanifest.xml). Choice,
+ * order, match and text entry interactions are supported, one interaction per item; the titles
+ * of an assessmentTest's sections become topics.
+ */
+import { buildMatchingQuestion, buildOrderingQuestion } from '../question-types';
+import {
+  choiceQuestion,
+  DEFAULT_IMPORT_TOPIC,
+  errorRow,
+  ImportRow,
+  labelFor,
+  questionRow,
+  RowSource,
+  skippedRow,
+  typedQuestion
+} from './common';
+import { childElement, childElements, descendants, parseXml } from '../xml';
+import { resolveZipPath } from '../zip';
+
+const SUPPORTED_INTERACTIONS = ['choiceInteraction', 'orderInteraction', 'matchInteraction', 'textEntryInteraction'];
+
+interface ResponseDeclaration {
+  baseType: string;
+  correct: string[];
+  // mapEntry keys that score above zero
+  mappedKeys: string[];
+}
+
+function readDeclarations(item: Element): Record<string, ResponseDeclaration> {
+  const declarations: Record<string, ResponseDeclaration> = {};
+
+  childElements(item, 'responseDeclaration').forEach(declaration => {
+    const correctResponse = childElement(declaration, 'correctResponse');
+    const mapping = childElement(declaration, 'mapping');
+    declarations[declaration.getAttribute('identifier') || ''] = {
+      baseType: declaration.getAttribute('baseType') || '',
+      correct: correctResponse
+        ? childElements(correctResponse, 'value').map(value => (value.textContent || '').trim())
+        : [],
+      mappedKeys: mapping
+        ? childElements(mapping, 'mapEntry')
+          .filter(entry => Number(entry.getAttribute('mappedValue') ?? 0) > 0)
+          .map(entry => (entry.getAttribute('mapKey') || '').trim())
+        : []
+    };
+  });
+
+  return declarations;
+}
+
+function textOf(element: Element): string {
+  return (element.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+// Choices of an interaction in document order
+function choicesOf(parent: Element, name: string) {
+  return childElements(parent, name).map(choice => ({
+    id: choice.getAttribute('identifier') || '',
+    text: textOf(choice)
+  }));
+}
+
+/**
+ * Question text: the item body without its interaction and feedback, plus the interaction's prompt
+ */
+function stemOf(body: Element, interaction: Element): string {
+  const prompt = childElement(interaction, 'prompt');
+  const copy = body.cloneNode(true) as Element;
+
+  descendants(copy, 'feedbackInline').concat(descendants(copy, 'feedbackBlock')).forEach(element => element.remove());
+  SUPPORTED_INTERACTIONS.forEach(name => {
+    descendants(copy, name).forEach(element => {
+      // Text entry sits inside a sentence, so leave a blank where it was
+      if (name === 'textEntryInteraction') element.replaceWith(copy.ownerDocument.createTextNode(' _____ '));
+      else element.remove();
+    });
+  });
+
+  return [textOf(copy), prompt ? textOf(prompt) : ''].filter(Boolean).join(' ');
+}
+
+/**
+ * Turn one assessmentItem into a report row
+ */
+function parseItem(item: Element, source: RowSource): ImportRow {
+  const body = childElement(item, 'itemBody');
+  if (!body) return errorRow(source, 'The item has no itemBody.');
+
+  const interactions = Array.from(body.getElementsByTagNameNS('*', '*'))
+    .filter(element => element.localName.endsWith('Interaction'));
+  if (interactions.length === 0) return skippedRow(source, 'The item has no interaction to answer.');
+  if (interactions.length > 1) return skippedRow(source, 'Items with more than one interaction are not supported.');
+
+  const interaction = interactions[0];
+  if (!SUPPORTED_INTERACTIONS.includes(interaction.localName)) {
+    return skippedRow(source, `Unsupported interaction "${interaction.localName}".`);
+  }
+
+  const declaration = readDeclarations(item)[interaction.getAttribute('responseIdentifier') || ''];
+  if (!declaration) return errorRow(source, 'The interaction has no response declaration.');
+  if (declaration.correct.length === 0 && interaction.localName !== 'textEntryInteraction') {
+    return errorRow(source, 'The item has no correct response.');
+  }
+
+  const stem = stemOf(body, interaction);
+  const row = { ...source, label: source.label || labelFor(stem) || `Item ${source.row}` };
+
+  switch (interaction.localName) {
+    case 'choiceInteraction': {
+      const choices = choicesOf(interaction, 'simpleChoice');
+      const maxChoices = Number(interaction.getAttribute('maxChoices') ?? 1);
+      const correct = declaration.correct.map(id => choices.findIndex(choice => choice.id === id));
+      if (correct.some(index => index < 0)) return errorRow(row, 'The correct response names a choice that does not exist.');
+
+      const texts = choices.map(choice => choice.text.toLowerCase());
+      if (maxChoices === 1 && texts.length === 2 && texts.includes('true') && texts.includes('false')) {
+        return questionRow(row, typedQuestion('true_false', stem, null, { value: texts[correct[0]] === 'true' }));
+      }
+
+      const fields = choiceQuestion(stem, choices.map(choice => choice.text), correct, maxChoices === 1);
+      return typeof fields === 'string' ? errorRow(row, fields) : questionRow(row, fields);
+    }
+
+    case 'orderInteraction': {
+      const choices = choicesOf(interaction, 'simpleChoice');
+      const items = declaration.correct.map(id => choices.find(choice => choice.id === id)?.text ?? '');
+      return questionRow(
+        row,
+        { ...typedQuestion('ordering', stem, null, null), ...buildOrderingQuestion(items) },
+        items.length < choices.length ? 'Choices missing from the correct order were dropped.' : null
+      );
+    }
+
+    case 'matchInteraction': {
+      const [leftSet, rightSet] = childElements(interaction, 'simpleMatchSet');
+      if (!leftSet || !rightSet) return errorRow(row, 'The match interaction needs two sets of choices.');
+      const left = choicesOf(leftSet, 'simpleAssociableChoice');
+      const right = choicesOf(rightSet, 'simpleAssociableChoice');
+      const partners = Object.fromEntries(declaration.correct.map(pair => pair.split(/\s+/) as [string, string]));
+      const pairs = left.map(choice => ({
+        left: choice.text,
+        right: right.find(option => option.id === partners[choice.id])?.text ?? ''
+      }));
+      return questionRow(
+        row,
+        { ...typedQuestion('matching', stem, null, null), ...buildMatchingQuestion(pairs) },
+        right.length > left.length ? 'Extra wrong answers were dropped.' : null
+      );
+    }
+
+    case 'textEntryInteraction': {
+      if (declaration.baseType === 'integer' || declaration.baseType === 'float') {
+        const number = Number(declaration.correct[0]);
+        if (!declaration.correct[0] || !Number.isFinite(number)) return errorRow(row, 'The numeric answer is not a number.');
+        // Absolute tolerance from an <equal> check in the response processing, if there is one
+        const equal = descendants(item, 'equal').find(element => element.getAttribute('toleranceMode') === 'absolute');
+        const tolerance = Number((equal?.getAttribute('tolerance') || '0').split(/\s+/)[0]) || 0;
+        return questionRow(row, typedQuestion('numeric', stem, { unit: null }, tolerance > 0 ? { number, tolerance } : { number }));
+      }
+
+      const accepted = [...new Set([...declaration.correct, ...declaration.mappedKeys].filter(Boolean))];
+      return questionRow(row, typedQuestion('short_text', stem, null, { accepted }));
+    }
+
+    default:
+      return skippedRow(row, `Unsupported interaction "${interaction.localName}".`);
+  }
+}
+
+/**
+ * Import a single QTI item, or every item in a content package's files (path to XML text)
+ */
+export function importQti(files: Record<string, string>): ImportRow[] {
+  const items: { path: string; item: Element }[] = [];
+  const topicsByPath: Record<string, string> = {};
+
+  Object.entries(files).forEach(([path, text]) => {
+    if (path.endsWith('imsmanifest.xml')) return;
+    const root = parseXml(text, `QTI (${path})`).documentElement;
+
+    if (root.localName === 'questestinterop') {
+      throw new Error('This looks like a QTI 1.2 file; only QTI 2.1 is supported.');
+    }
+    if (root.localName === 'assessmentItem') items.push({ path, item: root });
+    if (root.localName === 'assessmentTest') {
+      descendants(root, 'assessmentSection').forEach(section => {
+        childElements(section, 'assessmentItemRef').forEach(ref => {
+          topicsByPath[resolveZipPath(path, ref.getAttribute('href') || '')] = section.getAttribute('title') || DEFAULT_IMPORT_TOPIC;
+        });
+      });
+    }
+  });
+
+  if (items.length === 0) {
+    throw new Error('No QTI 2.1 assessment items were found. Upload an item file or the whole package as a ZIP.');
+  }
+
+  // Follow the test's order where there is one, then file names
+  const order = Object.keys(topicsByPath);
+  items.sort((a, b) => {
+    const rankA = order.indexOf(a.path);
+    const rankB = order.indexOf(b.path);
+    if (rankA !== rankB) return (rankA < 0 ? Infinity : rankA) - (rankB < 0 ? Infinity : rankB);
+    return a.path.localeCompare(b.path);
+  });
+
+  return items.map(({ path, item }, index) => parseItem(item, {
+    row: index + 1,
+    label: item.getAttribute('title') || path.split('/').pop() || '',
+    topic: topicsByPath[path] || DEFAULT_IMPORT_TOPIC
+  }));
+}
@@ -0,0 +1,94 @@
+/**
+ * Live game channel for teacher-paced games
+ * The teacher's LobbyView stores each screen on the session and then announces the change over
+ * Supabase Realtime. Anyone can send on a broadcast channel, so the announcement carries nothing:
+ * every student's WaitingRoom re-reads the stored screen from the server and renders that.
+ */
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { PlayerQuestion, Question, Topic } from '../types';
+
+const LIVE_STATE_EVENT = 'live_state_changed';
+
+function liveChannelName(sessionId: string) {
+  return `live:${sessionId}`;
+}
+
+/**
+ * Build the sequence of screens a teacher-paced game steps through: each topic's narrative
+ * followed by its questions
+ */
+export function buildLiveSequence(topics: Topic[], questions: Record<string, Question[]>) {
+  return topics.flatMap((topic, topicIndex) => [
+    { topicIndex, questionIndex: -1 },
+    ...(questions[topic.id] || []).map((_, questionIndex) => ({ topicIndex, questionIndex }))
+  ]);
+}
+
+/**
+ * Strip the answer key from a question before it is sent to students
+ */
+export function toPlayerQuestion(question: Question): PlayerQuestion {
+  return {
+    id: question.id,
+    topic_id: question.topic_id,
+    question_type: question.question_type,
+    question_stem: question.question_stem,
+    option_a: question.option_a,
+    option_b: question.option_b,
+    option_c: question.option_c,
+    option_d: question.option_d,
+    content: question.content ?? null
+  };
+}
+
+export interface LiveBroadcaster {
+  notify: () => Promise<void>;
+  close: () => void;
+}
+
+/**
+ * Open the teacher's side of a session's live channel
+ */
+export function createLiveBroadcaster(sessionId: string): LiveBroadcaster {
+  const channel: RealtimeChannel = supabase.channel(liveChannelName(sessionId), {
+    config: { broadcast: { ack: true } }
+  });
+  const ready = new Promise<void>((resolve) => {
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') resolve();
+    });
+  });
+
+  return {
+    notify: async () => {
+      await ready;
+      const result = await channel.send({ type: 'broadcast', event: LIVE_STATE_EVENT, payload: {} });
+      if (result !== 'ok') {
+        console.error('Live state broadcast was not acknowledged:', result);
+        throw new Error('Could not reach students. Check your connection and try again.');
+      }
+    },
+    close: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+}
+
+/**
+ * Listen for the teacher announcing a screen change, to re-read it from the session; returns an
+ * unsubscribe function
+ */
+export function subscribeToLiveGame(sessionId: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(liveChannelName(sessionId))
+    .on('broadcast', { event: LIVE_STATE_EVENT }, () => {
+      console.log('Live state change announced');
+      onChange();
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * In-browser OCR for scanned pages using a WASM build of Tesseract
+ * The worker, core and English model are served from our own /ocr/ path (see vite.config.ts), so
+ * recognition works without any third-party CDN and page images never leave the browser.
+ */
+import { createWorker, OEM, Worker } from 'tesseract.js';
+
+const OCR_ASSETS_PATH = `${import.meta.env.BASE_URL}ocr`;
+
+// Pages recognized below this confidence (0-100) are flagged for the teacher to check
+export const LOW_OCR_CONFIDENCE = 70;
+
+export interface OcrResult {
+  text: string;
+  // Tesseract's mean word confidence, 0-100
+  confidence: number;
+}
+
+export interface OcrEngine {
+  recognize: (image: HTMLCanvasElement) => Promise<OcrResult>;
+  terminate: () => Promise<void>;
+}
+
+/**
+ * Start an OCR engine; `onProgress` receives the recognition progress (0-1) of the current image
+ */
+export async function createOcrEngine(onProgress?: (progress: number) => void): Promise<OcrEngine> {
+  console.log('Starting OCR engine');
+
+  let worker: Worker;
+  try {
+    worker = await createWorker('eng', OEM.LSTM_ONLY, {
+      workerPath: `${OCR_ASSETS_PATH}/worker.min.js`,
+      corePath: `${OCR_ASSETS_PATH}/core`,
+      langPath: `${OCR_ASSETS_PATH}/lang`,
+      workerBlobURL: false,
+      logger: message => {
+        if (message.status === 'recognizing text') onProgress?.(message.progress);
+      }
+    });
+  } catch (error) {
+    console.error('Error starting OCR engine:', error);
+    throw new Error('Failed to start text recognition');
+  }
+
+  return {
+    recognize: async (image) => {
+      const { data } = await worker.recognize(image);
+      return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+    },
+    terminate: async () => {
+      await worker.terminate();
+    }
+  };
+}
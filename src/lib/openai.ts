@@ -1,23 +1,20 @@
 /**
- * OpenAI client configuration and API helpers
- * Handles the AI interaction for topic extraction, narrative generation, and question creation
+ * AI content generation client
+ * Typed wrapper around the `generate-content` Supabase Edge Function, which holds the
+ * OpenAI key, checks the teacher's session and enforces per-teacher quotas
  */
-import OpenAI from 'openai';
-
-// Verify the API key is available
-const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-if (!apiKey) {
-  console.error('OpenAI API key is not set. Please add VITE_OPENAI_API_KEY to your .env file.');
-}
-
-const openai = new OpenAI({
-  apiKey: apiKey,
-  dangerouslyAllowBrowser: true // Note: In production, API calls should be made server-side
-});
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { chunkChapterContent } from './chunker';
+import { CognitiveLevel, Difficulty, QuestionAnswer, QuestionContent, QuestionMix, QuestionType } from '../types';
 
 export interface ExtractedTopic {
   title: string;
   description: string;
+  // Chunks of the chapter the topic was drawn from, and the pages they cover
+  sourceChunks?: number[];
+  pageStart?: number | null;
+  pageEnd?: number | null;
 }
 
 export interface TopicNarrative {
@@ -25,302 +22,267 @@ export interface TopicNarrative {
   narrative: string;
 }
 
+// The chapter text a question is based on, quoted from the excerpt it was generated from
+export interface QuestionSource {
+  excerpt: string;
+  // Page number printed in the book
+  page: string | null;
+}
+
+// Why the answer is right and why each wrong answer is wrong, keyed like `Question.distractor_explanations`
+export interface QuestionExplanation {
+  correct: string;
+  distractors: Record<string, string>;
+}
+
 export interface GeneratedQuestion {
   topicId: string;
+  // Missing on questions generated before other types existed
+  type?: QuestionType;
   stem: string;
-  optionA: string;
-  optionB: string;
-  optionC: string;
-  optionD: string;
-  correctOption: string;
+  // Multiple choice only
+  optionA?: string;
+  optionB?: string;
+  optionC?: string;
+  optionD?: string;
+  correctOption?: string;
+  // Every other type
+  content?: QuestionContent | null;
+  answer?: QuestionAnswer | null;
+  // Only when the questions were grounded in chapter text
+  source?: QuestionSource | null;
+  explanation?: QuestionExplanation | null;
+  difficulty?: Difficulty;
+  cognitiveLevel?: CognitiveLevel;
+}
+
+interface MergedTopic extends ExtractedTopic {
+  sourceIndexes: number[];
 }
 
+// Bounds on the number of topics kept after merging a chunked chapter
+const MIN_TOPICS = 3;
+const MAX_TOPICS = 8;
+
+// The most candidate topics the edge function accepts in one merge
+const MAX_MERGE_CANDIDATES = 100;
+
+// Optional guidance when (re)generating questions for a topic
+export interface QuestionOptions {
+  // Chapter text the questions must be based on
+  context?: string;
+  // Exact number of questions wanted, instead of 3-5
+  count?: number;
+  // Existing question stems that must not be repeated
+  avoidStems?: string[];
+  // Question types to mix across the questions (multiple choice only if omitted)
+  types?: QuestionType[];
+  // Target mix of difficulties and cognitive levels
+  difficultyMix?: QuestionMix<Difficulty>;
+  cognitiveLevelMix?: QuestionMix<CognitiveLevel>;
+}
+
+type GenerateContentRequest =
+  | { action: 'extract_topics'; chapterContent: string; grade: string; part?: { index: number; total: number; heading: string | null } }
+  | { action: 'merge_topics'; topics: ExtractedTopic[]; grade: string; minTopics: number; maxTopics: number }
+  | { action: 'generate_narratives'; topics: ExtractedTopic[]; context?: string }
+  | { action: 'generate_questions'; topic: ExtractedTopic; grade: string } & QuestionOptions;
+
 /**
- * Extract instructional topics from chapter content
+ * Call the generate-content edge function and surface its error message on failure
  */
-export async function extractTopics(chapterContent: string, grade: string): Promise<ExtractedTopic[]> {
-  try {
-    console.log(`Extracting topics for Grade ${grade} content (${chapterContent.length} chars)`);
-    
-    const prompt = `You are given the full text of a chapter for Grade ${grade}. 
-    Extract 3-5 instructional topics from this chapter that represent distinct conceptual areas a teacher might cover. 
-    For each topic, include a short 1-2 line summary of what is covered in that topic.
-    
-    Format your response as a JSON object with a "topics" array, where each object in the array has 'title' and 'description' fields.
-    
-    Example response format:
-    {
-      "topics": [
-        {
-          "title": "Topic Title",
-          "description": "Short description of what this topic covers"
-        }
-      ]
-    }
-    
-    Chapter content:
-    ${chapterContent.substring(0, 8000)}`;
-
-    console.log('Sending request to OpenAI...');
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-2024-08-06',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' }
-    });
+async function invokeGenerateContent<T>(request: GenerateContentRequest): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('generate-content', {
+    body: request
+  });
 
-    const content = response.choices[0]?.message?.content || '';
-    console.log('OpenAI response received:', content.substring(0, 150) + '...');
-    
-    try {
-      const parsedResponse = JSON.parse(content);
-      
-      if (!parsedResponse.topics || !Array.isArray(parsedResponse.topics)) {
-        console.error('Invalid response format from OpenAI:', parsedResponse);
-        console.error('Response content:', content);
-        // Create placeholder topics if the format is incorrect
-        return [
-          {
-            title: "Topic 1",
-            description: "Unable to extract topics from the chapter content."
-          },
-          {
-            title: "Topic 2",
-            description: "Unable to extract topics from the chapter content."
-          }
-        ];
-      }
-      
-      console.log(`Extracted ${parsedResponse.topics.length} topics`);
-      return parsedResponse.topics;
-    } catch (parseError) {
-      console.error('Error parsing OpenAI response:', parseError);
-      console.error('Response content:', content);
-      // Return placeholder topics on parsing error
-      return [
-        {
-          title: "Topic 1",
-          description: "Error parsing topics from the chapter content."
-        },
-        {
-          title: "Topic 2",
-          description: "Error parsing topics from the chapter content."
+  if (error) {
+    let message = 'Error communicating with AI service.';
+
+    // The function responds with { error } for auth, quota and validation failures
+    if (error instanceof FunctionsHttpError) {
+      try {
+        const body = await error.context.json();
+        if (body?.error) {
+          message = body.error;
         }
-      ];
-    }
-  } catch (error) {
-    console.error('Error extracting topics:', error);
-    // Return placeholder topics on API error
-    return [
-      {
-        title: "Topic 1",
-        description: "Error communicating with AI service."
-      },
-      {
-        title: "Topic 2",
-        description: "Error communicating with AI service."
+      } catch {
+        // Keep the generic message if the body isn't JSON
       }
-    ];
+    }
+
+    console.error(`AI generation request "${request.action}" failed:`, error);
+    throw new Error(message);
   }
+
+  return data as T;
 }
 
 /**
- * Generate narrative snippets for each topic
+ * Extract instructional topics from chapter content
+ *
+ * Long chapters are split into page- and heading-aligned chunks. Topics are extracted from
+ * each chunk separately and then merged into one deduplicated list, so nothing past the
+ * first few pages is lost. `onProgress` is called after each chunk.
  */
-export async function generateNarratives(topics: ExtractedTopic[]): Promise<TopicNarrative[]> {
-  try {
-    console.log(`Generating narratives for ${topics.length} topics`);
-    const topicTitles = topics.map(t => t.title).join(', ');
-    
-    const prompt = `Using the following list of topics: ${topicTitles}, 
-    generate a connected storyline that links all the topics together as a single classroom adventure. 
-    Provide one short narrative snippet (2-3 lines) for each topic, forming parts of a continuous story.
-    
-    Format your response as a JSON object with a "narratives" array, where each object in the array has 'topicId' (the index of the topic, 0-based) and 'narrative' fields.
-    
-    Example response format:
-    {
-      "narratives": [
-        {
-          "topicId": "0",
-          "narrative": "Short narrative connecting to the topic"
-        }
-      ]
-    }
-    
-    Topics:
-    ${topics.map((t, i) => `${i}: ${t.title} - ${t.description}`).join('\n')}`;
-
-    console.log('Sending narrative request to OpenAI...');
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-2024-08-06',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' }
+export async function extractTopics(
+  chapterContent: string,
+  grade: string,
+  onProgress?: (completed: number, total: number) => void
+): Promise<ExtractedTopic[]> {
+  console.log(`Extracting topics for Grade ${grade} content (${chapterContent.length} chars)`);
+
+  const chunks = chunkChapterContent(chapterContent);
+  if (chunks.length === 0) {
+    throw new Error('The chapter has no text to extract topics from.');
+  }
+
+  // Short chapters fit in a single request
+  if (chunks.length === 1) {
+    const { topics } = await invokeGenerateContent<{ topics: ExtractedTopic[] }>({
+      action: 'extract_topics',
+      chapterContent: chunks[0].text,
+      grade
     });
+    onProgress?.(1, 1);
 
-    const content = response.choices[0]?.message?.content || '';
-    console.log('Narratives response received:', content.substring(0, 150) + '...');
-    
-    try {
-      const parsedResponse = JSON.parse(content);
-      
-      if (!parsedResponse.narratives || !Array.isArray(parsedResponse.narratives)) {
-        console.error('Invalid narratives format from OpenAI:', parsedResponse);
-        // Create placeholder narratives if the format is incorrect
-        return topics.map((_, index) => ({
-          topicId: index.toString(),
-          narrative: "Join us on an adventure as we explore this fascinating topic!"
-        }));
-      }
-      
-      console.log(`Generated ${parsedResponse.narratives.length} narratives`);
-      return parsedResponse.narratives;
-    } catch (parseError) {
-      console.error('Error parsing narratives response:', parseError);
-      console.error('Response content:', content);
-      // Return placeholder narratives on parsing error
-      return topics.map((_, index) => ({
-        topicId: index.toString(),
-        narrative: "Join us on an adventure as we explore this fascinating topic!"
-      }));
-    }
-  } catch (error) {
-    console.error('Error generating narratives:', error);
-    // Return placeholder narratives on API error
-    return topics.map((_, index) => ({
-      topicId: index.toString(),
-      narrative: "Join us on an adventure as we explore this fascinating topic!"
+    console.log(`Extracted ${topics.length} topics`);
+    return topics.map(topic => ({
+      ...topic,
+      sourceChunks: [0],
+      pageStart: chunks[0].pageStart,
+      pageEnd: chunks[0].pageEnd
     }));
   }
+
+  console.log(`Chapter split into ${chunks.length} chunks`);
+
+  // Map: extract candidate topics from each chunk, remembering where each came from
+  const candidates: ExtractedTopic[] = [];
+  const candidateChunks: number[] = [];
+  for (const chunk of chunks) {
+    const { topics } = await invokeGenerateContent<{ topics: ExtractedTopic[] }>({
+      action: 'extract_topics',
+      chapterContent: chunk.text,
+      grade,
+      part: { index: chunk.index, total: chunks.length, heading: chunk.heading }
+    });
+
+    topics.forEach(topic => {
+      candidates.push({ title: topic.title, description: topic.description });
+      candidateChunks.push(chunk.index);
+    });
+    onProgress?.(chunk.index + 1, chunks.length);
+  }
+
+  if (candidates.length === 0) {
+    throw new Error('No topics could be identified in this chapter.');
+  }
+
+  // Reduce: merge overlapping candidates into the final topic list
+  const merged = await mergeTopics(candidates, grade);
+
+  const topics = merged.map(({ sourceIndexes, ...topic }) => {
+    const sourceChunks = [...new Set(sourceIndexes.map(i => candidateChunks[i]))]
+      .filter(i => i !== undefined)
+      .sort((a, b) => a - b);
+    const pages = sourceChunks
+      .flatMap(i => [chunks[i].pageStart, chunks[i].pageEnd])
+      .filter((page): page is number => page !== null);
+
+    return {
+      ...topic,
+      sourceChunks,
+      pageStart: pages.length > 0 ? Math.min(...pages) : null,
+      pageEnd: pages.length > 0 ? Math.max(...pages) : null
+    };
+  });
+
+  console.log(`Merged ${candidates.length} candidate topics into ${topics.length} topics`);
+  return topics;
 }
 
 /**
- * Generate questions for a specific topic
+ * Merge candidate topics into one deduplicated list, `sourceIndexes` pointing into `candidates`
+ *
+ * More candidates than one request takes are merged in batches first, and the batches' topics
+ * merged again, until everything fits in a single final merge.
  */
-export async function generateQuestions(topic: ExtractedTopic, grade: string): Promise<GeneratedQuestion[]> {
-  try {
-    console.log(`Generating questions for topic: ${topic.title}`);
-    
-    const prompt = `Create 3-5 multiple choice questions based on the topic: '${topic.title}'. 
-    Each question should be clear and targeted at a Grade ${grade} student. 
-    
-    Topic description: ${topic.description}
-    
-    For each question provide:
-    - Question stem
-    - Four options (A, B, C, D)
-    - The correct option letter
-    
-    Format your response as a JSON object with a "questions" array, where each object in the array has 'stem', 'optionA', 'optionB', 'optionC', 'optionD', and 'correctOption' fields.
-    
-    Example response format:
-    {
-      "questions": [
-        {
-          "stem": "Question text here?",
-          "optionA": "First option",
-          "optionB": "Second option",
-          "optionC": "Third option",
-          "optionD": "Fourth option",
-          "correctOption": "A"
-        }
-      ]
-    }
-    
-    The correctOption field should contain only the letter: A, B, C or D.`;
-
-    console.log('Sending questions request to OpenAI for topic:', topic.title);
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-2024-08-06',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' }
+async function mergeTopics(candidates: ExtractedTopic[], grade: string): Promise<MergedTopic[]> {
+  if (candidates.length <= MAX_MERGE_CANDIDATES) {
+    const { topics } = await invokeGenerateContent<{ topics: MergedTopic[] }>({
+      action: 'merge_topics',
+      topics: candidates.map(({ title, description }) => ({ title, description })),
+      grade,
+      minTopics: MIN_TOPICS,
+      maxTopics: MAX_TOPICS
     });
+    return topics;
+  }
 
-    const content = response.choices[0]?.message?.content || '';
-    console.log('Questions response received for topic:', topic.title);
-    
-    try {
-      const parsedResponse = JSON.parse(content);
-      
-      // Check if questions array exists before mapping
-      if (!parsedResponse.questions || !Array.isArray(parsedResponse.questions)) {
-        console.warn(`No valid questions array returned for topic: ${topic.title}`);
-        console.warn('Response content:', content);
-        // Create placeholder questions if the format is incorrect
-        return [
-          {
-            topicId: topic.title,
-            stem: `What is the main concept covered in ${topic.title}?`,
-            optionA: "First concept",
-            optionB: "Second concept",
-            optionC: "Third concept",
-            optionD: "Fourth concept",
-            correctOption: "A"
-          },
-          {
-            topicId: topic.title,
-            stem: `Which example best illustrates ${topic.title}?`,
-            optionA: "Example A",
-            optionB: "Example B",
-            optionC: "Example C",
-            optionD: "Example D",
-            correctOption: "B"
-          }
-        ];
-      }
-      
-      console.log(`Generated ${parsedResponse.questions.length} questions for topic: ${topic.title}`);
-      
-      return parsedResponse.questions.map((q: any) => ({
-        ...q,
-        topicId: topic.title
-      }));
-    } catch (parseError) {
-      console.error(`Error parsing questions for topic: ${topic.title}`, parseError);
-      console.error('Response content:', content);
-      // Return placeholder questions on parsing error
-      return [
-        {
-          topicId: topic.title,
-          stem: `What is the main concept covered in ${topic.title}?`,
-          optionA: "First concept",
-          optionB: "Second concept",
-          optionC: "Third concept",
-          optionD: "Fourth concept",
-          correctOption: "A"
-        },
-        {
-          topicId: topic.title,
-          stem: `Which example best illustrates ${topic.title}?`,
-          optionA: "Example A",
-          optionB: "Example B",
-          optionC: "Example C",
-          optionD: "Example D",
-          correctOption: "B"
-        }
-      ];
-    }
-  } catch (error) {
-    console.error('Error generating questions:', error);
-    // Return placeholder questions on API error
-    return [
-      {
-        topicId: topic.title,
-        stem: `What is the main concept covered in ${topic.title}?`,
-        optionA: "First concept",
-        optionB: "Second concept",
-        optionC: "Third concept",
-        optionD: "Fourth concept",
-        correctOption: "A"
-      },
-      {
-        topicId: topic.title,
-        stem: `Which example best illustrates ${topic.title}?`,
-        optionA: "Example A",
-        optionB: "Example B",
-        optionC: "Example C",
-        optionD: "Example D",
-        correctOption: "B"
-      }
-    ];
+  const batchTopics: ExtractedTopic[] = [];
+  const batchSources: number[][] = [];
+  for (let start = 0; start < candidates.length; start += MAX_MERGE_CANDIDATES) {
+    const batch = candidates.slice(start, start + MAX_MERGE_CANDIDATES);
+    // A small last batch may hold a single topic, so only the final merge enforces the minimum
+    const { topics } = await invokeGenerateContent<{ topics: MergedTopic[] }>({
+      action: 'merge_topics',
+      topics: batch.map(({ title, description }) => ({ title, description })),
+      grade,
+      minTopics: 1,
+      maxTopics: MAX_TOPICS
+    });
+
+    topics.forEach(({ sourceIndexes, ...topic }) => {
+      batchTopics.push(topic);
+      batchSources.push(sourceIndexes.filter(i => i >= 0 && i < batch.length).map(i => start + i));
+    });
   }
-}
\ No newline at end of file
+
+  console.log(`Merged ${candidates.length} candidate topics into ${batchTopics.length} in batches`);
+
+  const merged = await mergeTopics(batchTopics, grade);
+  return merged.map(topic => ({
+    ...topic,
+    sourceIndexes: [...new Set(topic.sourceIndexes.flatMap(i => batchSources[i] ?? []))].sort((a, b) => a - b)
+  }));
+}
+
+/**
+ * Generate narrative snippets for each topic, optionally grounded in chapter text
+ */
+export async function generateNarratives(topics: ExtractedTopic[], context?: string): Promise<TopicNarrative[]> {
+  console.log(`Generating narratives for ${topics.length} topics`);
+
+  const { narratives } = await invokeGenerateContent<{ narratives: TopicNarrative[] }>({
+    action: 'generate_narratives',
+    topics: topics.map(({ title, description }) => ({ title, description })),
+    context
+  });
+
+  console.log(`Generated ${narratives.length} narratives`);
+  return narratives;
+}
+
+/**
+ * Generate questions for a specific topic
+ * `options` ground the questions in chapter text, fix how many are made, or list existing
+ * questions to avoid when regenerating
+ */
+export async function generateQuestions(
+  topic: ExtractedTopic,
+  grade: string,
+  options: QuestionOptions = {}
+): Promise<GeneratedQuestion[]> {
+  console.log(`Generating questions for topic: ${topic.title}`);
+
+  const { questions } = await invokeGenerateContent<{ questions: GeneratedQuestion[] }>({
+    action: 'generate_questions',
+    topic: { title: topic.title, description: topic.description },
+    grade,
+    ...options
+  });
+
+  console.log(`Generated ${questions.length} questions for topic: ${topic.title}`);
+  return questions;
+}
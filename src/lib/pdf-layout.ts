@@ -0,0 +1,309 @@
+/**
+ * PDF layout analysis
+ * Turns the positioned text items PDF.js gives us into a structured document: lines in reading
+ * order (left column before right on two-column pages), headings ranked by font size against the
+ * body text, paragraphs split on vertical gaps, and running headers, footers and printed page
+ * numbers taken out of the text and used to label the pages instead.
+ */
+
+// A run of text on the page; PDF coordinates, so y grows upwards from the bottom of the page
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+export type PdfBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string };
+
+export interface PdfPage {
+  // 1-based position in the file
+  number: number;
+  // Page number as printed in the book, e.g. "42" or "xii"
+  label: string;
+  blocks: PdfBlock[];
+  // Set when the page was a scan read with OCR, 0-100
+  ocrConfidence: number | null;
+}
+
+export interface PdfDocument {
+  pages: PdfPage[];
+}
+
+type Column = 'full' | 'left' | 'right';
+
+interface PdfLine {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  column: Column;
+}
+
+// What the parser collected for one page before document-wide analysis
+export type RawPdfPage =
+  | { number: number; width: number; height: number; items: PdfTextItem[] }
+  | { number: number; ocrText: string; confidence: number };
+
+// Share of the page height at the top and bottom where running headers and footers sit
+const MARGIN_BAND = 0.08;
+
+// Text at least this much larger than the body text is a heading
+const HEADING_SIZE_RATIO = 1.15;
+
+// Headings are short; longer lines in a large font are pull quotes or intro text
+const MAX_HEADING_WORDS = 15;
+
+const PAGE_NUMBER_LINE = /^(?:page\s+)?[-–—]?\s*(\d{1,4}|[ivxlcdm]{1,7})\s*[-–—]?$/i;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+}
+
+/**
+ * X position of the gutter between two columns, or null for a single-column page.
+ * The gutter is the vertical strip in the middle of the text area crossed by the fewest
+ * items, and it only counts if plenty of text sits on each side of it.
+ */
+function findGutter(items: PdfTextItem[]): number | null {
+  if (items.length < 10) return null;
+
+  const left = Math.min(...items.map(item => item.x));
+  const right = Math.max(...items.map(item => item.x + item.width));
+  const span = right - left;
+
+  let best: { x: number; crossing: number } | null = null;
+  for (let x = left + span * 0.35; x <= left + span * 0.65; x += 2) {
+    const crossing = items.filter(item => item.x < x && item.x + item.width > x).length;
+    if (!best || crossing < best.crossing) best = { x, crossing };
+  }
+  if (!best) return null;
+
+  const gutter = best.x;
+  const leftCount = items.filter(item => item.x + item.width <= gutter).length;
+  const rightCount = items.filter(item => item.x >= gutter).length;
+  const enoughOnEachSide = leftCount >= items.length * 0.2 && rightCount >= items.length * 0.2;
+  return enoughOnEachSide && best.crossing <= items.length * 0.1 ? gutter : null;
+}
+
+/**
+ * Group items that share a baseline into lines, each read left to right
+ */
+function buildLines(items: PdfTextItem[], column: Column): PdfLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: PdfTextItem[][] = [];
+
+  sorted.forEach(item => {
+    const group = groups[groups.length - 1];
+    if (group && Math.abs(group[0].y - item.y) < Math.max(group[0].size, item.size) * 0.4) group.push(item);
+    else groups.push([item]);
+  });
+
+  return groups.map(group => {
+    group.sort((a, b) => a.x - b.x);
+    let text = '';
+    let end = -Infinity;
+    group.forEach(item => {
+      // Items are often split mid-word; only add a space where there is a visible gap
+      const gap = item.x - end;
+      if (text && !/\s$/.test(text) && !/^\s/.test(item.text) && gap > item.size * 0.15) text += ' ';
+      text += item.text;
+      end = item.x + item.width;
+    });
+
+    const sizes = group.map(item => item.size);
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x: Math.min(...group.map(item => item.x)),
+      y: group[0].y,
+      size: Math.max(...sizes),
+      column
+    };
+  }).filter(line => line.text);
+}
+
+/**
+ * Lines of a page in reading order. On two-column pages, text that spans the gutter (titles,
+ * full-width figures' captions) divides the page into bands, and each band is read left column
+ * first, then right.
+ */
+function orderLines(items: PdfTextItem[]): PdfLine[] {
+  const gutter = findGutter(items);
+  if (gutter === null) return buildLines(items, 'full');
+
+  const full = buildLines(items.filter(item => item.x < gutter && item.x + item.width > gutter), 'full');
+  const left = buildLines(items.filter(item => item.x + item.width <= gutter), 'left');
+  const right = buildLines(items.filter(item => item.x >= gutter), 'right');
+
+  // Band of a column line: how many full-width lines sit above it
+  const band = (line: PdfLine) => full.filter(fullLine => fullLine.y > line.y).length;
+  const ordered: PdfLine[] = [];
+  for (let i = 0; i <= full.length; i++) {
+    ordered.push(...left.filter(line => band(line) === i), ...right.filter(line => band(line) === i));
+    if (i < full.length) ordered.push(full[i]);
+  }
+  return ordered;
+}
+
+// Round font sizes so tiny rendering differences don't count as different styles
+function sizeKey(size: number): number {
+  return Math.round(size * 2) / 2;
+}
+
+/**
+ * The most common font size by amount of text, which is the body text
+ */
+function bodySize(lines: PdfLine[]): number {
+  const totals = new Map<number, number>();
+  lines.forEach(line => totals.set(sizeKey(line.size), (totals.get(sizeKey(line.size)) || 0) + line.text.length));
+  let best = 0;
+  let bestTotal = -1;
+  for (const [size, total] of totals) {
+    if (total > bestTotal) {
+      best = size;
+      bestTotal = total;
+    }
+  }
+  return best;
+}
+
+/**
+ * Heading level for each font size clearly larger than the body text: the largest is level 1,
+ * the next level 2, and anything smaller level 3
+ */
+function headingLevels(lines: PdfLine[], body: number): Map<number, number> {
+  const sizes = [...new Set(
+    lines
+      .filter(line => line.size >= body * HEADING_SIZE_RATIO && line.text.split(' ').length <= MAX_HEADING_WORDS)
+      .map(line => sizeKey(line.size))
+  )].sort((a, b) => b - a);
+
+  return new Map(sizes.map((size, index) => [size, Math.min(index + 1, 3)]));
+}
+
+/**
+ * Join a page's lines into headings and paragraphs
+ */
+function buildBlocks(lines: PdfLine[], levels: Map<number, number>): PdfBlock[] {
+  const blocks: PdfBlock[] = [];
+  // Typical distance between lines of the same paragraph on this page
+  const spacing = median(
+    lines.slice(1)
+      .map((line, i) => (line.column === lines[i].column ? lines[i].y - line.y : 0))
+      .filter(gap => gap > 0)
+  );
+  let previous: PdfLine | null = null;
+
+  lines.forEach(line => {
+    const level = line.text.split(' ').length <= MAX_HEADING_WORDS ? levels.get(sizeKey(line.size)) : undefined;
+    const last = blocks[blocks.length - 1];
+
+    let continues = false;
+    if (previous && last) {
+      const sameStyle = last.type === 'heading' ? last.level === level : level === undefined;
+      const gap = previous.y - line.y;
+      const closeBelow = previous.column === line.column && gap > 0 && gap <= Math.max(spacing * 1.3, line.size * 1.6);
+      // A paragraph carrying on from the foot of the left column to the top of the right
+      const carriesOver = previous.column === 'left' && line.column === 'right' &&
+        !/[.!?:]["”’)]?$/.test(previous.text) && /^[a-z]/.test(line.text);
+      continues = sameStyle && (closeBelow || carriesOver);
+    }
+
+    if (continues && last) {
+      // Rejoin words hyphenated across a line break
+      last.text = /[a-z]-$/.test(last.text) && /^[a-z]/.test(line.text)
+        ? last.text.slice(0, -1) + line.text
+        : `${last.text} ${line.text}`;
+    } else {
+      blocks.push(level !== undefined ? { type: 'heading', level, text: line.text } : { type: 'paragraph', text: line.text });
+    }
+    previous = line;
+  });
+
+  return blocks;
+}
+
+// Margin text with the digits taken out, so "Chapter 3 · 41" and "Chapter 3 · 42" match
+function marginKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+}
+
+/**
+ * Printed page labels from page numbers found in headers and footers. Numbers are only trusted
+ * when most of them agree on the same offset from the file's page positions, which also fills
+ * in pages where the number is missing (chapter openers, full-page figures).
+ */
+function printedLabels(pageCount: number, found: Map<number, number>): string[] | null {
+  const offsets = new Map<number, number>();
+  found.forEach((printed, page) => offsets.set(printed - page, (offsets.get(printed - page) || 0) + 1));
+
+  let offset = 0;
+  let votes = 0;
+  for (const [candidate, count] of offsets) {
+    if (count > votes) {
+      offset = candidate;
+      votes = count;
+    }
+  }
+
+  if (votes === 0 || votes < found.size / 2) return null;
+  return Array.from({ length: pageCount }, (_, i) => String(i + 1 + offset));
+}
+
+/**
+ * Build the structured document from every page's text items or OCR text.
+ * `fileLabels` are the page labels stored in the PDF itself, which win when present.
+ */
+export function buildPdfDocument(rawPages: RawPdfPage[], fileLabels: string[] | null): PdfDocument {
+  const laidOut = rawPages.map(raw => {
+    if ('ocrText' in raw) return { raw, lines: [] as PdfLine[], top: 0, bottom: 0 };
+    return {
+      raw,
+      lines: orderLines(raw.items.filter(item => item.text.trim())),
+      top: raw.height * (1 - MARGIN_BAND),
+      bottom: raw.height * MARGIN_BAND
+    };
+  });
+
+  // Running headers and footers repeat in the margins of many pages
+  const marginCounts = new Map<string, number>();
+  laidOut.forEach(({ lines, top, bottom }) => {
+    new Set(lines.filter(line => line.y >= top || line.y <= bottom).map(line => marginKey(line.text)))
+      .forEach(key => marginCounts.set(key, (marginCounts.get(key) || 0) + 1));
+  });
+  const textPages = laidOut.filter(page => page.lines.length > 0).length;
+  const isRunningText = (key: string) => textPages >= 3 && (marginCounts.get(key) || 0) >= Math.max(3, textPages * 0.4);
+
+  const printedNumbers = new Map<number, number>();
+  const contentLines = laidOut.map(({ raw, lines, top, bottom }) => lines.filter(line => {
+    if (line.y < top && line.y > bottom) return true;
+    const pageNumber = line.text.match(PAGE_NUMBER_LINE);
+    if (pageNumber) {
+      if (/^\d+$/.test(pageNumber[1])) printedNumbers.set(raw.number, Number(pageNumber[1]));
+      return false;
+    }
+    return !isRunningText(marginKey(line.text));
+  }));
+
+  const allLines = contentLines.flat();
+  const levels = headingLevels(allLines, bodySize(allLines));
+  const labels = fileLabels && fileLabels.length === rawPages.length
+    ? fileLabels
+    : printedLabels(rawPages.length, printedNumbers);
+
+  return {
+    pages: laidOut.map(({ raw }, index) => ({
+      number: raw.number,
+      label: labels?.[index] || String(raw.number),
+      blocks: 'ocrText' in raw
+        ? raw.ocrText.split(/\n\s*\n/).map(text => text.replace(/\s+/g, ' ').trim()).filter(Boolean)
+          .map(text => ({ type: 'paragraph' as const, text }))
+        : buildBlocks(contentLines[index], levels),
+      ocrConfidence: 'ocrText' in raw ? raw.confidence : null
+    }))
+  };
+}
@@ -1,36 +1,194 @@
 /**
  * PDF parsing utilities using Mozilla's PDF.js, which is browser-compatible
- * This file handles extracting text content from PDF files in the browser environment
+ * This file handles extracting text content from PDF files in the browser environment.
+ * Scanned pages have no text layer, so those are rendered to a canvas and read with OCR.
+ * Layout analysis (columns, headings, page numbers) lives in pdf-layout.ts.
  */
 import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { createOcrEngine, OcrEngine } from './ocr';
+import { buildPdfDocument, PdfDocument, PdfTextItem, RawPdfPage } from './pdf-layout';
+import { OcrPage } from '../types';
 
 // Set the worker source path for PDF.js
 pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
 
+// Separates pages in extracted text so later steps can tell where each page starts
+export const PAGE_BREAK = '\f';
+
+// First line of each page's text, giving the page number printed in the book
+export const PAGE_LABEL_PATTERN = /^\[Page ([^\]\n]+)\]$/;
+
+export function pageLabelLine(label: string): string {
+  return `[Page ${label}]`;
+}
+
+// A page with less text than this that shows an image is treated as a scan
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Width in pixels pages are rendered at for OCR, about 240 DPI for A4
+const OCR_RENDER_WIDTH = 2000;
+
+const IMAGE_OPERATORS = new Set([
+  pdfjsLib.OPS.paintImageXObject,
+  pdfjsLib.OPS.paintImageXObjectRepeat,
+  pdfjsLib.OPS.paintInlineImageXObject,
+  pdfjsLib.OPS.paintInlineImageXObjectGroup,
+  pdfjsLib.OPS.paintImageMaskXObject,
+  pdfjsLib.OPS.paintImageMaskXObjectGroup,
+  pdfjsLib.OPS.paintImageMaskXObjectRepeat
+]);
+
+export interface PdfProgress {
+  page: number;
+  pageCount: number;
+  // Whether the page is being read with OCR, and how far along recognition is (0-1)
+  ocr: boolean;
+  ocrProgress: number;
+}
+
+export interface PdfExtraction {
+  text: string;
+  document: PdfDocument;
+  // Pages whose text came from OCR, with how confident the recognition was
+  ocrPages: OcrPage[];
+}
+
+async function hasImages(page: PDFPageProxy): Promise<boolean> {
+  const operators = await page.getOperatorList();
+  return operators.fnArray.some(fn => IMAGE_OPERATORS.has(fn));
+}
+
+async function renderPage(page: PDFPageProxy, width: number): Promise<HTMLCanvasElement> {
+  const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas rendering is not available');
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+}
+
+// Positioned text runs of a page, with empty runs dropped
+async function readTextItems(page: PDFPageProxy): Promise<PdfTextItem[]> {
+  const textContent = await page.getTextContent();
+  return textContent.items
+    .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      size: Math.hypot(item.transform[2], item.transform[3])
+    }));
+}
+
+/**
+ * Text of a structured PDF document: each page starts with its printed page number, headings
+ * are marked with "#", and pages are separated by PAGE_BREAK
+ */
+export function pdfDocumentToText(pdfDocument: PdfDocument): string {
+  return pdfDocument.pages
+    .map(page => [
+      pageLabelLine(page.label),
+      ...page.blocks.map(block => (block.type === 'heading' ? `${'#'.repeat(block.level)} ${block.text}` : block.text))
+    ].join('\n\n'))
+    .join(`\n${PAGE_BREAK}`);
+}
+
 /**
  * Extract text content from a PDF file
+ * Pages are laid out into headings and paragraphs in reading order (see pdf-layout.ts). Pages
+ * that are only an image are read with OCR; the OCR engine is started on the first such page.
  */
-export async function extractTextFromPDF(pdfFile: File): Promise<string> {
+export async function extractTextFromPDF(
+  pdfFile: File,
+  onProgress?: (progress: PdfProgress) => void
+): Promise<PdfExtraction> {
+  let ocrEngine: OcrEngine | null = null;
+
   try {
     const arrayBuffer = await pdfFile.arrayBuffer();
-    
+
     // Load the PDF document using PDF.js
     const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
     const pdf = await loadingTask.promise;
-    
-    let fullText = '';
-    
+
+    const rawPages: RawPdfPage[] = [];
+    const ocrPages: OcrPage[] = [];
+    let currentPage = 1;
+
     // Extract text from all pages
     for (let i = 1; i <= pdf.numPages; i++) {
+      currentPage = i;
+      onProgress?.({ page: i, pageCount: pdf.numPages, ocr: false, ocrProgress: 0 });
+
       const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items.map((item: any) => item.str).join(' ');
-      fullText += pageText + '\n';
+      const viewport = page.getViewport({ scale: 1 });
+      const items = await readTextItems(page);
+      const textLength = items.reduce((total, item) => total + item.text.replace(/\s/g, '').length, 0);
+      let rawPage: RawPdfPage = { number: i, width: viewport.width, height: viewport.height, items };
+
+      if (textLength < MIN_TEXT_LAYER_CHARS && await hasImages(page)) {
+        console.log(`Page ${i} has no text layer, reading it with OCR`);
+        onProgress?.({ page: i, pageCount: pdf.numPages, ocr: true, ocrProgress: 0 });
+
+        ocrEngine = ocrEngine || await createOcrEngine(progress => {
+          onProgress?.({ page: currentPage, pageCount: pdf.numPages, ocr: true, ocrProgress: progress });
+        });
+        const canvas = await renderPage(page, OCR_RENDER_WIDTH);
+        const result = await ocrEngine.recognize(canvas);
+        // Let the browser free the bitmap straight away rather than holding every page
+        canvas.width = 0;
+
+        if (result.text.replace(/\s/g, '').length > textLength) {
+          rawPage = { number: i, ocrText: result.text, confidence: result.confidence };
+          ocrPages.push({ page: i, confidence: result.confidence });
+        }
+      }
+
+      page.cleanup();
+      rawPages.push(rawPage);
     }
-    
-    return fullText;
+
+    const structured = buildPdfDocument(rawPages, await pdf.getPageLabels());
+    return { text: pdfDocumentToText(structured), document: structured, ocrPages };
   } catch (error) {
     console.error('Error parsing PDF:', error);
     throw new Error('Failed to extract text from PDF');
+  } finally {
+    await ocrEngine?.terminate();
+  }
+}
+
+/**
+ * Render a small image of each page of a PDF, one page at a time, for choosing pages.
+ * `onThumbnail` receives each page's number and image as a data URL; stops early when `signal` aborts.
+ */
+export async function renderPdfThumbnails(
+  pdfFile: File,
+  width: number,
+  onThumbnail: (page: number, imageUrl: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  try {
+    const pdf = await pdfjsLib.getDocument({ data: await pdfFile.arrayBuffer() }).promise;
+
+    try {
+      for (let i = 1; i <= pdf.numPages && !signal?.aborted; i++) {
+        const page = await pdf.getPage(i);
+        const canvas = await renderPage(page, width);
+        page.cleanup();
+        if (!signal?.aborted) onThumbnail(i, canvas.toDataURL('image/jpeg', 0.7));
+      }
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    console.error('Error rendering PDF thumbnails:', error);
+    throw new Error('Failed to show page previews');
   }
-}
\ No newline at end of file
+}
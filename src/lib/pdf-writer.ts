@@ -0,0 +1,174 @@
+/**
+ * Text PDF writer
+ * Lays out paragraphs of plain text on A4 pages with the built-in Helvetica fonts, so printable
+ * worksheets can be made in the browser without a PDF library. Text is limited to the Windows
+ * Latin-1 character set; anything else is swapped for a close equivalent or "?".
+ */
+
+export interface PdfParagraph {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Left indent in points
+  indent?: number;
+  // Extra space above the paragraph in points
+  spaceBefore?: number;
+  // Move to a new page if the paragraph and this many points after it don't fit
+  keepWithNext?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const LINE_HEIGHT = 1.35;
+
+// Helvetica advance widths for characters 32-126, in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Characters outside Latin-1 that Windows-1252 still has
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '✓': 'x', '≤': '<=', '≥': '>=', '≠': '!=' };
+
+/**
+ * Text as single-byte Windows-1252 characters
+ */
+function toWinAnsi(text: string): string {
+  return Array.from(text).map(char => {
+    if (REPLACEMENTS[char]) return REPLACEMENTS[char];
+    const code = char.charCodeAt(0);
+    if (char === '\t') return '    ';
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return char;
+    if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    return '?';
+  }).join('');
+}
+
+function textWidth(text: string, size: number, bold: boolean): number {
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  // Helvetica-Bold runs a little wider; this keeps bold lines inside the margin
+  return (units * size * (bold ? 1.06 : 1)) / 1000;
+}
+
+/**
+ * Break text into lines that fit the width, splitting words that are too long on their own
+ */
+function wrapText(text: string, width: number, size: number, bold: boolean): string[] {
+  const lines: string[] = [];
+
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/ +/).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size, bold) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, bold) > width) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * Build a PDF of paragraphs, with the title and page numbers in each page's header and footer
+ */
+export function createTextPdf(title: string, paragraphs: PdfParagraph[]): Blob {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  paragraphs.forEach(paragraph => {
+    const size = paragraph.size ?? 11;
+    const bold = paragraph.bold ?? false;
+    const indent = paragraph.indent ?? 0;
+    const leading = size * LINE_HEIGHT;
+    const lines = wrapText(toWinAnsi(paragraph.text), PAGE_WIDTH - MARGIN * 2 - indent, size, bold);
+
+    const onFreshPage = y === PAGE_HEIGHT - MARGIN;
+    if (!onFreshPage) y -= paragraph.spaceBefore ?? 0;
+    const needed = Math.min(lines.length, 2) * leading + (paragraph.keepWithNext ?? 0);
+    if (!onFreshPage && y - needed < MARGIN) newPage();
+
+    lines.forEach(line => {
+      if (y - leading < MARGIN) newPage();
+      y -= leading;
+      pages[pages.length - 1].push(
+        `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN + indent} ${y.toFixed(2)} Td (${escapePdfString(line)}) Tj ET`
+      );
+    });
+  });
+
+  const header = escapePdfString(toWinAnsi(title));
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${header}) /Producer (Ether Excel) >>`
+  ];
+  const pageRefs: string[] = [];
+
+  pages.forEach((commands, index) => {
+    const decorations = [
+      `0.4 g BT /F1 8 Tf ${MARGIN} ${PAGE_HEIGHT - MARGIN / 2} Td (${header}) Tj ET`,
+      `BT /F1 8 Tf ${PAGE_WIDTH - MARGIN - 50} ${MARGIN / 2} Td (Page ${index + 1} of ${pages.length}) Tj ET 0 g`
+    ];
+    const stream = [...decorations, ...commands].join('\n');
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    const contentRef = objects.length;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`
+    );
+    pageRefs.push(`${objects.length} 0 R`);
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`;
+
+  // Every character is a single byte, so string lengths are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+  return new Blob([bytes], { type: 'application/pdf' });
+}
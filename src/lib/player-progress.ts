@@ -0,0 +1,87 @@
+/**
+ * Player progress
+ * Works out where a self-paced student was in their game from the answers the server has
+ * recorded, so a student who reloads or drops is put back on the right question with the time
+ * it had left instead of starting again.
+ */
+import { PlayerProgress, PlayerQuestionSummary, Topic, TopicMastery } from '../types';
+import { chooseNextQuestion, estimateTopicMastery, getOverallAbility, isTopicMastered, startEstimate } from './adaptive';
+
+export type ResumePoint =
+  | { finished: true }
+  | {
+      finished: false;
+      topicIndex: number;
+      questionIndex: number;
+      // Adaptive games: the questions asked in the topic so far, ending with the one to show
+      askedIds: string[];
+      estimates: Record<string, TopicMastery>;
+      // Whether the topic hasn't started yet, so its narrative comes first
+      showNarrative: boolean;
+      // Time left on the question if it was already on screen; null for a full timer
+      secondsLeft: number | null;
+    };
+
+/**
+ * Where to put a student back in a self-paced game
+ */
+export function findResumePoint(
+  topics: Topic[],
+  questions: Record<string, PlayerQuestionSummary[]>,
+  progress: PlayerProgress,
+  adaptive: boolean
+): ResumePoint {
+  const inGame = new Set(topics.flatMap(topic => (questions[topic.id] || []).map(question => question.id)));
+  const answered = progress.answered.filter(response => inGame.has(response.question_id));
+  const answeredIds = new Set(answered.map(response => response.question_id));
+  const open = progress.open_question && inGame.has(progress.open_question.question_id) && !answeredIds.has(progress.open_question.question_id)
+    ? progress.open_question
+    : null;
+  const estimates = adaptive
+    ? estimateTopicMastery(questions, answered)
+    : {};
+
+  const resumeAt = (topicIndex: number, askedIds: string[], questionId: string) => ({
+    finished: false as const,
+    topicIndex,
+    questionIndex: askedIds.length,
+    askedIds: adaptive ? [...askedIds, questionId] : [],
+    estimates,
+    showNarrative: askedIds.length === 0 && open?.question_id !== questionId,
+    secondsLeft: open?.question_id === questionId ? open.seconds_left : null
+  });
+
+  if (!adaptive) {
+    // The first question not yet answered, in the game's order
+    for (let topicIndex = 0; topicIndex < topics.length; topicIndex++) {
+      const topicQuestions = questions[topics[topicIndex].id] || [];
+      const questionIndex = topicQuestions.findIndex(question => !answeredIds.has(question.id));
+      if (questionIndex >= 0) {
+        return resumeAt(topicIndex, topicQuestions.slice(0, questionIndex).map(question => question.id), topicQuestions[questionIndex].id);
+      }
+    }
+    return { finished: true };
+  }
+
+  // Adaptive games carry on from the topic of the latest question, choosing as they would have
+  const latestId = open?.question_id ?? answered[answered.length - 1]?.question_id;
+  const latestTopic = topics.findIndex(topic => (questions[topic.id] || []).some(question => question.id === latestId));
+  for (let topicIndex = Math.max(0, latestTopic); topicIndex < topics.length; topicIndex++) {
+    const topic = topics[topicIndex];
+    const topicQuestions = questions[topic.id] || [];
+    const asked = answered
+      .map(response => response.question_id)
+      .filter(questionId => topicQuestions.some(question => question.id === questionId));
+
+    if (open && topicQuestions.some(question => question.id === open.question_id)) {
+      return resumeAt(topicIndex, asked, open.question_id);
+    }
+
+    const estimate = estimates[topic.id] ?? startEstimate(getOverallAbility(Object.values(estimates)));
+    const next = isTopicMastered(estimate)
+      ? null
+      : chooseNextQuestion(topicQuestions.filter(question => !asked.includes(question.id)), estimate.ability);
+    if (next) return resumeAt(topicIndex, asked, next.id);
+  }
+  return { finished: true };
+}
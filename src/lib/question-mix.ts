@@ -0,0 +1,121 @@
+/**
+ * Question difficulty and cognitive level
+ * Labels and default targets for tagging questions, and choosing a game's questions to match
+ * the mix of difficulties the teacher wants for a session
+ */
+import { CognitiveLevel, Difficulty, Question, QuestionMix, Topic } from '../types';
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard'
+};
+
+export const DIFFICULTIES = Object.keys(DIFFICULTY_LABELS) as Difficulty[];
+
+export const COGNITIVE_LEVEL_LABELS: Record<CognitiveLevel, string> = {
+  recall: 'Recall',
+  understand: 'Understand',
+  apply: 'Apply',
+  analyze: 'Analyze'
+};
+
+export const COGNITIVE_LEVELS = Object.keys(COGNITIVE_LEVEL_LABELS) as CognitiveLevel[];
+
+export const DEFAULT_DIFFICULTY_MIX: Record<Difficulty, number> = { easy: 30, medium: 50, hard: 20 };
+
+export const DEFAULT_COGNITIVE_LEVEL_MIX: Record<CognitiveLevel, number> = { recall: 30, understand: 30, apply: 25, analyze: 15 };
+
+// Tailwind classes for each difficulty's badge
+export const DIFFICULTY_STYLES: Record<Difficulty, string> = {
+  easy: 'bg-green-100 text-green-700',
+  medium: 'bg-amber-100 text-amber-700',
+  hard: 'bg-red-100 text-red-700'
+};
+
+/**
+ * Sum of a mix's percentages
+ */
+export function getMixTotal<T extends string>(mix: QuestionMix<T>): number {
+  return Object.values<number | undefined>(mix).reduce<number>((total, share) => total + (share ?? 0), 0);
+}
+
+/**
+ * A mix as text, e.g. "30% easy, 50% medium, 20% hard"
+ */
+export function describeMix<T extends string>(mix: QuestionMix<T>): string {
+  return (Object.entries(mix) as [T, number | undefined][])
+    .filter(([, share]) => share)
+    .map(([key, share]) => `${share}% ${key}`)
+    .join(', ');
+}
+
+// Questions without a difficulty, generated before tagging existed or written by hand
+export type DifficultyOrUntagged = Difficulty | 'untagged';
+
+export function getDifficulty(question: Pick<Question, 'difficulty'>): DifficultyOrUntagged {
+  return question.difficulty ?? 'untagged';
+}
+
+/**
+ * How many questions there are of each difficulty
+ */
+export function countByDifficulty(questions: Pick<Question, 'difficulty'>[]): Record<DifficultyOrUntagged, number> {
+  const counts: Record<DifficultyOrUntagged, number> = { easy: 0, medium: 0, hard: 0, untagged: 0 };
+  questions.forEach(question => counts[getDifficulty(question)]++);
+  return counts;
+}
+
+/**
+ * Choose a game's questions: the wanted number of each difficulty, taken from each topic in
+ * turn so every topic stays covered, returned in the chapter's order
+ */
+export function pickQuestionsByDifficulty(
+  topics: Topic[],
+  questions: Record<string, Question[]>,
+  counts: Partial<Record<DifficultyOrUntagged, number>>
+): string[] {
+  const picked = new Set<string>();
+
+  (Object.entries(counts) as [DifficultyOrUntagged, number][]).forEach(([difficulty, count]) => {
+    const byTopic = topics.map(topic => (questions[topic.id] || []).filter(question => getDifficulty(question) === difficulty));
+    let taken = 0;
+    for (let round = 0; taken < count && byTopic.some(list => list.length > round); round++) {
+      for (const list of byTopic) {
+        if (taken >= count) break;
+        if (list[round]) {
+          picked.add(list[round].id);
+          taken++;
+        }
+      }
+    }
+  });
+
+  return topics.flatMap(topic => (questions[topic.id] || []).filter(question => picked.has(question.id)).map(question => question.id));
+}
+
+/**
+ * A chapter's questions limited to the ones chosen for a game; every question when none were chosen
+ */
+export function getSessionQuestions<T extends { id: string }>(
+  questions: Record<string, T[]>,
+  questionIds: string[] | null | undefined
+): Record<string, T[]> {
+  if (!questionIds) return questions;
+  const chosen = new Set(questionIds);
+  return Object.fromEntries(
+    Object.entries(questions).map(([topicId, topicQuestions]) => [topicId, topicQuestions.filter(question => chosen.has(question.id))])
+  );
+}
+
+/**
+ * Topics with at least one of the game's chosen questions; every topic when none were chosen
+ */
+export function getSessionTopics<T extends { id: string }>(
+  topics: T[],
+  sessionQuestions: Record<string, unknown[]>,
+  questionIds: string[] | null | undefined
+): T[] {
+  if (!questionIds) return topics;
+  return topics.filter(topic => (sessionQuestions[topic.id] || []).length > 0);
+}
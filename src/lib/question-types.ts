@@ -0,0 +1,349 @@
+/**
+ * Question type helpers
+ * Labels, answer encoding and display grading for every question type. Students' answers are
+ * stored in `responses.selected_option` as text: a letter for multiple choice, 'true'/'false',
+ * a number, free text, or a JSON array of indexes for multi-select, ordering and matching.
+ * The server grades answers with the same rules (see the submit_answer database function).
+ */
+import { GeneratedQuestion } from './openai';
+import { PlayerQuestion, Question, QuestionAnswer, QuestionContent, QuestionFields, QuestionSourceFields, QuestionType } from '../types';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  true_false: 'True / false',
+  multi_select: 'Multi-select',
+  numeric: 'Numeric',
+  short_text: 'Short answer',
+  ordering: 'Ordering',
+  matching: 'Matching'
+};
+
+export const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export const MULTIPLE_CHOICE_OPTIONS = ['A', 'B', 'C', 'D'] as const;
+
+// Lists students choose from, order or match have the same limits as generated questions
+export const MIN_LIST_LENGTH = 3;
+export const MAX_LIST_LENGTH = 6;
+
+/**
+ * Convert a generated question into the fields stored on a `questions` row
+ */
+export function toQuestionFields(question: GeneratedQuestion): QuestionFields & QuestionSourceFields {
+  const type = question.type ?? 'multiple_choice';
+  return {
+    question_type: type,
+    question_stem: question.stem,
+    option_a: question.optionA ?? '',
+    option_b: question.optionB ?? '',
+    option_c: question.optionC ?? '',
+    option_d: question.optionD ?? '',
+    correct_option: question.correctOption ?? '',
+    content: type === 'multiple_choice' ? null : question.content ?? null,
+    answer: type === 'multiple_choice' ? null : question.answer ?? null,
+    source_excerpt: question.source?.excerpt ?? null,
+    source_page: question.source?.page ?? null,
+    explanation: question.explanation?.correct ?? null,
+    distractor_explanations: question.explanation?.distractors ?? null,
+    difficulty: question.difficulty ?? null,
+    cognitive_level: question.cognitiveLevel ?? null
+  };
+}
+
+/**
+ * The wrong answers of a question that can be explained, keyed the way
+ * `distractor_explanations` is, each with how to show it
+ */
+export function getDistractors(
+  question: Pick<QuestionFields, 'question_type' | 'option_a' | 'option_b' | 'option_c' | 'option_d' | 'correct_option' | 'content' | 'answer'>
+): { key: string; label: string }[] {
+  switch (question.question_type) {
+    case 'multiple_choice': {
+      const options = [question.option_a, question.option_b, question.option_c, question.option_d];
+      return MULTIPLE_CHOICE_OPTIONS
+        .map((id, i) => ({ key: id, label: `${id}. ${options[i]}` }))
+        .filter(({ key }) => key !== question.correct_option);
+    }
+    case 'true_false': {
+      const wrong = !(question.answer?.value ?? true);
+      return [{ key: String(wrong), label: wrong ? 'True' : 'False' }];
+    }
+    case 'multi_select':
+      return (question.content?.options ?? [])
+        .map((option, index) => ({ key: String(index), label: option }))
+        .filter((_, index) => !question.answer?.correct?.includes(index));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Explanations of the wrong answers in a student's response, e.g. each wrongly ticked option
+ */
+export function getResponseDistractorExplanations(
+  type: QuestionType,
+  response: string | null,
+  distractorExplanations: Record<string, string> | null | undefined
+): string[] {
+  if (!response || !distractorExplanations) return [];
+
+  let keys: string[] = [];
+  if (type === 'multiple_choice') keys = [response.toUpperCase()];
+  else if (type === 'true_false') keys = [response.toLowerCase()];
+  else if (type === 'multi_select') keys = (decodeIndexes(response) ?? []).map(String);
+
+  return keys.map(key => distractorExplanations[key]).filter((explanation): explanation is string => !!explanation);
+}
+
+// Whether a list holds each index from 0 to length - 1 exactly once
+function isPermutation(indexes: number[] | undefined, length: number) {
+  return !!indexes && indexes.length === length
+    && [...indexes].sort((a, b) => a - b).every((value, i) => value === i);
+}
+
+function checkList(values: string[] | undefined, name: string): string | null {
+  if (!values || values.length < MIN_LIST_LENGTH || values.length > MAX_LIST_LENGTH) {
+    return `Needs between ${MIN_LIST_LENGTH} and ${MAX_LIST_LENGTH} ${name}.`;
+  }
+  if (values.some(value => !value.trim())) return `All ${name} need some text.`;
+  if (new Set(values.map(value => value.trim().toLowerCase())).size < values.length) {
+    return `All ${name} must be different.`;
+  }
+  return null;
+}
+
+/**
+ * Check stored question fields follow the same rules as generated and edited questions,
+ * returning what's wrong or null if the question can be saved
+ */
+export function validateQuestionFields(fields: QuestionFields): string | null {
+  if (!fields.question_stem.trim()) return 'The question has no text.';
+
+  const content = fields.content ?? {};
+  const answer = fields.answer ?? {};
+
+  switch (fields.question_type) {
+    case 'multiple_choice': {
+      const options = [fields.option_a, fields.option_b, fields.option_c, fields.option_d].map(option => option.trim());
+      if (options.some(option => !option)) return 'Multiple choice questions need four options.';
+      if (new Set(options.map(option => option.toLowerCase())).size < options.length) {
+        return 'All four options must be different.';
+      }
+      return MULTIPLE_CHOICE_OPTIONS.some(id => id === fields.correct_option) ? null : 'The correct option must be A, B, C or D.';
+    }
+    case 'true_false':
+      return typeof answer.value === 'boolean' ? null : 'The answer must be true or false.';
+    case 'multi_select': {
+      const listError = checkList(content.options, 'options');
+      if (listError) return listError;
+      const correct = answer.correct ?? [];
+      if (correct.length === 0) return 'At least one option must be correct.';
+      return correct.every(index => Number.isInteger(index) && index >= 0 && index < content.options!.length)
+        ? null
+        : 'A correct answer points at an option that does not exist.';
+    }
+    case 'numeric':
+      if (typeof answer.number !== 'number' || !Number.isFinite(answer.number)) return 'The answer must be a number.';
+      return answer.tolerance === undefined || (Number.isFinite(answer.tolerance) && answer.tolerance >= 0)
+        ? null
+        : 'The tolerance must be zero or a positive number.';
+    case 'short_text':
+      return (answer.accepted ?? []).some(accepted => accepted.trim()) ? null : 'There are no accepted answers.';
+    case 'ordering':
+      return checkList(content.items, 'items')
+        ?? (isPermutation(answer.order, content.items!.length) ? null : 'The correct order does not cover every item.');
+    case 'matching':
+      return checkList(content.left, 'items to match')
+        ?? checkList(content.right, 'matches')
+        ?? (content.left!.length === content.right!.length && isPermutation(answer.pairs, content.left!.length)
+          ? null
+          : 'Every item needs exactly one match.');
+  }
+}
+
+/**
+ * Encode a list of indexes (multi-select, ordering, matching) as a stored answer
+ */
+export function encodeIndexes(indexes: number[]): string {
+  return JSON.stringify(indexes);
+}
+
+/**
+ * Decode a stored list of indexes, or null if the response isn't one
+ */
+export function decodeIndexes(response: string): number[] | null {
+  try {
+    const parsed = JSON.parse(response);
+    return Array.isArray(parsed) && parsed.every(Number.isInteger) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Shuffle order for a list so students don't see items in answer order; never returns the
+// original order for lists longer than one item
+function shuffledIndexes(length: number): number[] {
+  const indexes = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+  return length > 1 && indexes.every((index, i) => index === i) ? indexes.reverse() : indexes;
+}
+
+/**
+ * Content and answer key for an ordering question, from its items in the correct order
+ */
+export function buildOrderingQuestion(items: string[]): { content: QuestionContent; answer: QuestionAnswer } {
+  const shown = shuffledIndexes(items.length);
+  return {
+    content: { items: shown.map(index => items[index]) },
+    answer: { order: items.map((_, index) => shown.indexOf(index)) }
+  };
+}
+
+/**
+ * Content and answer key for a matching question, from its pairs
+ */
+export function buildMatchingQuestion(pairs: { left: string; right: string }[]): { content: QuestionContent; answer: QuestionAnswer } {
+  const shown = shuffledIndexes(pairs.length);
+  return {
+    content: { left: pairs.map(pair => pair.left), right: shown.map(index => pairs[index].right) },
+    answer: { pairs: pairs.map((_, index) => shown.indexOf(index)) }
+  };
+}
+
+/**
+ * An ordering question's items in the correct order
+ */
+export function getOrderedItems(content: QuestionContent | null | undefined, answer: QuestionAnswer | null | undefined): string[] {
+  const items = content?.items ?? [];
+  return answer?.order ? answer.order.map(index => items[index] ?? '') : items;
+}
+
+/**
+ * A matching question's pairs, each left item with its partner
+ */
+export function getMatchingPairs(
+  content: QuestionContent | null | undefined,
+  answer: QuestionAnswer | null | undefined
+): { left: string; right: string }[] {
+  return (content?.left ?? []).map((left, i) => ({
+    left,
+    right: content?.right?.[answer?.pairs?.[i] ?? i] ?? ''
+  }));
+}
+
+// Short answers match regardless of case, surrounding spaces and repeated spaces
+export function normalizeShortAnswer(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function sameList(a: number[], b: number[]) {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/**
+ * Whether a response is correct, once the answer key has been revealed
+ */
+export function isCorrectResponse(
+  type: QuestionType,
+  response: string | null,
+  correctOption: string | null,
+  answer: QuestionAnswer | null
+): boolean {
+  if (!response || response === 'timeout') return false;
+
+  switch (type) {
+    case 'multiple_choice':
+      return response === correctOption;
+    case 'true_false':
+      return answer?.value !== undefined && response === String(answer.value);
+    case 'numeric': {
+      const value = Number(response);
+      return answer?.number !== undefined && response.trim() !== '' && Number.isFinite(value)
+        && Math.abs(value - answer.number) <= (answer.tolerance ?? 0);
+    }
+    case 'short_text':
+      return (answer?.accepted ?? []).some(accepted => normalizeShortAnswer(accepted) === normalizeShortAnswer(response));
+    case 'multi_select': {
+      const indexes = decodeIndexes(response);
+      return !!indexes && !!answer?.correct && sameList([...indexes].sort((a, b) => a - b), answer.correct);
+    }
+    case 'ordering': {
+      const indexes = decodeIndexes(response);
+      return !!indexes && !!answer?.order && sameList(indexes, answer.order);
+    }
+    case 'matching': {
+      const indexes = decodeIndexes(response);
+      return !!indexes && !!answer?.pairs && sameList(indexes, answer.pairs);
+    }
+  }
+}
+
+/**
+ * The correct answer as a short line of text, e.g. for the teacher's live controls and exports
+ */
+export function describeCorrectAnswer(
+  question: Pick<Question | PlayerQuestion, 'question_type' | 'content' | 'option_a' | 'option_b' | 'option_c' | 'option_d'>,
+  correctOption: string | null,
+  answer: QuestionAnswer | null
+): string {
+  const content = question.content ?? {};
+
+  switch (question.question_type) {
+    case 'multiple_choice': {
+      const options: Record<string, string> = {
+        A: question.option_a,
+        B: question.option_b,
+        C: question.option_c,
+        D: question.option_d
+      };
+      return correctOption ? `${correctOption}. ${options[correctOption] ?? ''}`.trim() : '';
+    }
+    case 'true_false':
+      return answer?.value === undefined ? '' : answer.value ? 'True' : 'False';
+    case 'numeric': {
+      if (answer?.number === undefined) return '';
+      const unit = content.unit ? ` ${content.unit}` : '';
+      return `${answer.number}${unit}${answer.tolerance ? ` (±${answer.tolerance})` : ''}`;
+    }
+    case 'short_text':
+      return (answer?.accepted ?? []).join(' / ');
+    case 'multi_select':
+      return (answer?.correct ?? []).map(index => content.options?.[index]).filter(Boolean).join(', ');
+    case 'ordering':
+      return (answer?.order ?? []).map(index => content.items?.[index]).filter(Boolean).join(' → ');
+    case 'matching':
+      return (content.left ?? [])
+        .map((left, i) => `${left} = ${content.right?.[answer?.pairs?.[i] ?? -1] ?? '?'}`)
+        .join('; ');
+  }
+}
+
+/**
+ * A student's stored response in words, the same way the correct answer is described
+ */
+export function describeResponse(
+  question: Pick<PlayerQuestion, 'question_type' | 'content' | 'option_a' | 'option_b' | 'option_c' | 'option_d'>,
+  response: string
+): string {
+  if (response === 'timeout') return 'No answer (time ran out)';
+
+  switch (question.question_type) {
+    case 'multiple_choice':
+      return describeCorrectAnswer(question, response.toUpperCase(), null);
+    case 'true_false':
+      return describeCorrectAnswer(question, null, { value: response.toLowerCase() === 'true' });
+    case 'numeric':
+      return describeCorrectAnswer(question, null, { number: Number(response) });
+    case 'short_text':
+      return response;
+    case 'multi_select':
+      return describeCorrectAnswer(question, null, { correct: decodeIndexes(response) ?? [] });
+    case 'ordering':
+      return describeCorrectAnswer(question, null, { order: decodeIndexes(response) ?? [] });
+    case 'matching':
+      return describeCorrectAnswer(question, null, { pairs: decodeIndexes(response) ?? [] });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Game results reports
+ * Builds the downloadable results table from the same scored stats the leaderboard shows
+ */
+import { PlayerStats } from '../types';
+
+// Quote a CSV field when it contains a delimiter, quote or line break. Text that a spreadsheet
+// would run as a formula (a student named "=HYPERLINK(...)") is prefixed with ' to keep it text.
+export function escapeCsvField(value: string | number | null): string {
+  let text = value === null ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Results as CSV, one row per student in leaderboard order
+ */
+export function buildResultsCsv(stats: PlayerStats[], totalQuestions: number): string {
+  const header = ['Rank', 'Name', 'Score', 'Correct', 'Answered', 'Total Questions', 'Best Streak', 'Average Time (s)'];
+  const rows = stats.map((player, index) => [
+    index + 1,
+    player.studentName,
+    player.score,
+    player.correctAnswers,
+    player.totalAnswered,
+    totalQuestions,
+    player.bestStreak,
+    player.averageResponseMs === null ? null : (player.averageResponseMs / 1000).toFixed(1)
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+/**
+ * Save text content as a file in the browser
+ */
+export function downloadTextFile(filename: string, content: string, mimeType = 'text/plain') {
+  downloadBlob(filename, new Blob([content], { type: `${mimeType};charset=utf-8` }));
+}
+
+/**
+ * Save generated file data in the browser
+ */
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,135 @@
+/**
+ * Scoring engine
+ * Turns a student's graded responses into points: base points for each correct answer, a bonus
+ * that decays with response time, and a multiplier for answer streaks. The teacher's leaderboard,
+ * the player's results screen and downloaded reports all score through here so they always agree.
+ */
+import { GameSession, ScoringConfig } from '../types';
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  basePoints: 100,
+  // Off unless the teacher turns it on for a game
+  maxSpeedBonus: 0,
+  timeLimitSeconds: 60,
+  streakStep: 0.1,
+  maxStreakMultiplier: 1.5,
+  wrongAnswerPenalty: 0,
+  timeoutBreaksStreak: false
+};
+
+// The parts of a `responses` row scoring needs
+export interface ScorableResponse {
+  question_id: string;
+  selected_option: string;
+  // null while a teacher-paced game's results are still hidden from the student
+  is_correct: boolean | null;
+  submitted_at: string;
+  opened_at?: string | null;
+  response_ms?: number | null;
+}
+
+export interface ScoredResponse {
+  questionId: string;
+  points: number;
+  responseMs: number | null;
+  // Consecutive correct answers including this one
+  streak: number;
+  timedOut: boolean;
+}
+
+export interface ScoreSummary {
+  score: number;
+  correctAnswers: number;
+  totalAnswered: number;
+  timeouts: number;
+  currentStreak: number;
+  bestStreak: number;
+  averageResponseMs: number | null;
+  responses: ScoredResponse[];
+}
+
+/**
+ * Scoring config for a game session: the teacher's choices for the session over the defaults.
+ * The speed bonus runs out when the question's time does.
+ */
+export function getScoringConfig(session?: GameSession | null): ScoringConfig {
+  return {
+    ...DEFAULT_SCORING,
+    ...session?.scoring,
+    ...(session?.question_seconds ? { timeLimitSeconds: session.question_seconds } : {})
+  };
+}
+
+/**
+ * Time from the question opening to the server receiving the answer, if it's known
+ */
+export function getResponseMs(response: ScorableResponse): number | null {
+  if (typeof response.response_ms === 'number') return response.response_ms;
+  if (!response.opened_at) return null;
+
+  const elapsed = new Date(response.submitted_at).getTime() - new Date(response.opened_at).getTime();
+  return Number.isFinite(elapsed) && elapsed >= 0 ? elapsed : null;
+}
+
+/**
+ * Speed bonus for a correct answer; answers with no recorded timing get none
+ */
+function getSpeedBonus(responseMs: number | null, config: ScoringConfig) {
+  if (responseMs === null || config.timeLimitSeconds <= 0) return 0;
+
+  const remaining = 1 - responseMs / (config.timeLimitSeconds * 1000);
+  return Math.round(config.maxSpeedBonus * Math.min(1, Math.max(0, remaining)));
+}
+
+/**
+ * Score a student's responses in the order they were submitted
+ */
+export function scoreResponses(responses: ScorableResponse[], config: ScoringConfig = DEFAULT_SCORING): ScoreSummary {
+  const ordered = [...responses].sort(
+    (a, b) => new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime()
+  );
+
+  let score = 0;
+  let streak = 0;
+  let bestStreak = 0;
+  const scored: ScoredResponse[] = [];
+
+  ordered.forEach(response => {
+    const responseMs = getResponseMs(response);
+    const timedOut = response.selected_option === 'timeout';
+    let points = 0;
+
+    if (response.is_correct) {
+      streak += 1;
+      bestStreak = Math.max(bestStreak, streak);
+      const multiplier = Math.min(config.maxStreakMultiplier, 1 + (streak - 1) * config.streakStep);
+      points = Math.round((config.basePoints + getSpeedBonus(responseMs, config)) * multiplier);
+    } else if (timedOut) {
+      if (config.timeoutBreaksStreak) streak = 0;
+    } else {
+      streak = 0;
+      points = -config.wrongAnswerPenalty;
+    }
+
+    score += points;
+    scored.push({ questionId: response.question_id, points, responseMs, streak, timedOut });
+  });
+
+  const timings = scored
+    .filter(response => !response.timedOut && response.responseMs !== null)
+    .map(response => response.responseMs as number);
+
+  return {
+    // Penalties can't take a player below zero
+    score: Math.max(0, score),
+    correctAnswers: ordered.filter(response => response.is_correct).length,
+    totalAnswered: ordered.length,
+    timeouts: scored.filter(response => response.timedOut).length,
+    currentStreak: streak,
+    bestStreak,
+    averageResponseMs: timings.length > 0
+      ? Math.round(timings.reduce((total, ms) => total + ms, 0) / timings.length)
+      : null,
+    responses: scored
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Team games
+ * Creating a session's teams, splitting students between them evenly, and ranking teams from
+ * their members' scores. Teams are ranked by points per member so a smaller team isn't
+ * penalised for having fewer players.
+ */
+import { PlayerStats, Team, TeamStanding } from '../types';
+
+// Names and colors given to new teams, in order
+export const TEAM_PRESETS: Omit<Team, 'id'>[] = [
+  { name: 'Red Rockets', color: '#EF4444' },
+  { name: 'Blue Comets', color: '#3A7AFE' },
+  { name: 'Green Giants', color: '#10B981' },
+  { name: 'Gold Stars', color: '#F59E0B' },
+  { name: 'Purple Owls', color: '#8B5CF6' },
+  { name: 'Pink Flamingos', color: '#EC4899' }
+];
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = TEAM_PRESETS.length;
+
+// Which team each student is on, by student id; null when not on one yet
+export type TeamAssignments = Record<string, string | null>;
+
+/**
+ * A set of `count` teams, keeping the names of the teams that already exist
+ */
+export function createTeams(count: number, existing: Team[] = []): Team[] {
+  return TEAM_PRESETS.slice(0, count).map((preset, index) => existing[index] ?? { id: `team-${index + 1}`, ...preset });
+}
+
+/**
+ * The team with the fewest members, earliest first on a tie
+ */
+export function getSmallestTeam(teams: Team[], teamIds: (string | null | undefined)[]): Team {
+  const sizes = teams.map(team => teamIds.filter(teamId => teamId === team.id).length);
+  return teams[sizes.indexOf(Math.min(...sizes))];
+}
+
+/**
+ * Put every student who isn't on a team onto the smallest one, leaving everyone else where they are
+ */
+export function assignUnassigned(studentIds: string[], teams: Team[], current: TeamAssignments): TeamAssignments {
+  const teamIds = new Set(teams.map(team => team.id));
+  const assignments: TeamAssignments = {};
+  studentIds.forEach(studentId => {
+    const teamId = current[studentId];
+    assignments[studentId] = teamId && teamIds.has(teamId) ? teamId : null;
+  });
+
+  studentIds
+    .filter(studentId => !assignments[studentId])
+    .forEach(studentId => {
+      assignments[studentId] = getSmallestTeam(teams, Object.values(assignments)).id;
+    });
+  return assignments;
+}
+
+/**
+ * Even the teams out: students stay on their team unless it has more than its share, and
+ * everyone else is moved to the smallest teams
+ */
+export function balanceTeams(studentIds: string[], teams: Team[], current: TeamAssignments): TeamAssignments {
+  const share = Math.ceil(studentIds.length / teams.length);
+  const kept: TeamAssignments = {};
+  const sizes: Record<string, number> = {};
+
+  studentIds.forEach(studentId => {
+    const teamId = current[studentId];
+    if (teamId && teams.some(team => team.id === teamId) && (sizes[teamId] ?? 0) < share) {
+      kept[studentId] = teamId;
+      sizes[teamId] = (sizes[teamId] ?? 0) + 1;
+    }
+  });
+
+  return assignUnassigned(studentIds, teams, kept);
+}
+
+/**
+ * Rank teams by their members' points per member, then by total points
+ */
+export function rankTeams(teams: Team[], stats: Pick<PlayerStats, 'teamId' | 'score' | 'correctAnswers'>[]): TeamStanding[] {
+  const standings = teams.map(team => {
+    const members = stats.filter(player => player.teamId === team.id);
+    const score = members.reduce((total, player) => total + player.score, 0);
+    return {
+      teamId: team.id,
+      rank: 0,
+      members: members.length,
+      correctAnswers: members.reduce((total, player) => total + player.correctAnswers, 0),
+      score,
+      averageScore: members.length > 0 ? Math.round(score / members.length) : 0
+    };
+  });
+
+  standings.sort((a, b) => b.averageScore - a.averageScore || b.score - a.score);
+  standings.forEach((standing, index) => {
+    const previous = standings[index - 1];
+    // Teams level on points share a rank
+    standing.rank = previous && previous.averageScore === standing.averageScore && previous.score === standing.score
+      ? previous.rank
+      : index + 1;
+  });
+  return standings;
+}
+
+/**
+ * A rank as an ordinal, e.g. 1st, 2nd, 3rd, 11th
+ */
+export function formatRank(rank: number): string {
+  const lastTwo = rank % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[rank % 10] ?? 'th';
+  return `${rank}${suffix}`;
+}
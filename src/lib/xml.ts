@@ -0,0 +1,28 @@
+/**
+ * XML helpers shared by the question bank importers and the document parsers
+ * Lookups go by local name so they work the same with or without namespaces.
+ */
+
+/**
+ * Parse an XML document, failing with a readable error
+ */
+export function parseXml(text: string, description: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`The ${description} file is not valid XML.`);
+  }
+  return doc;
+}
+
+// Element children with a local name, ignoring namespaces
+export function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+export function childElement(parent: Element, name: string): Element | null {
+  return childElements(parent, name)[0] ?? null;
+}
+
+export function descendants(parent: Element | Document, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
@@ -0,0 +1,175 @@
+/**
+ * Minimal ZIP support for question packages and ZIP-based documents (DOCX, EPUB)
+ * Reads the central directory and inflates entries with the browser's DecompressionStream, and
+ * writes uncompressed archives. That is all these formats need (no encryption or ZIP64).
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+interface ZipEntry {
+  path: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+// Entries listed in the archive's central directory
+function readCentralDirectory(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus up to 64KB of archive comment
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The file is not a valid ZIP archive.');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('The ZIP archive is damaged.');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    entries.push({
+      path: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+
+  return entries;
+}
+
+/**
+ * Paths of the files in a ZIP archive
+ */
+export function listZipEntries(buffer: ArrayBuffer): string[] {
+  return readCentralDirectory(buffer).map(entry => entry.path).filter(path => !path.endsWith('/'));
+}
+
+/**
+ * Text of every entry in a ZIP archive whose name passes the filter, keyed by path
+ */
+export async function readZipTextEntries(
+  buffer: ArrayBuffer,
+  filter: (path: string) => boolean = () => true
+): Promise<Record<string, string>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const entries: Record<string, string> = {};
+
+  for (const { path, method, compressedSize, localOffset } of readCentralDirectory(buffer)) {
+    if (path.endsWith('/') || !filter(path)) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error('The ZIP archive is damaged.');
+    }
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries[path] = decoder.decode(data);
+    } else if (method === 8) {
+      entries[path] = decoder.decode(await inflate(data));
+    } else {
+      console.warn(`Skipping ZIP entry ${path} with unsupported compression method ${method}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Resolve a path relative to the archive entry that references it
+ */
+export function resolveZipPath(from: string, href: string): string {
+  const parts = from.split('/').slice(0, -1);
+  href.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+// CRC-32 lookup table for the standard (IEEE) polynomial
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a ZIP archive of text files (path to content), stored without compression
+ */
+export function createZip(files: Record<string, string>): Blob {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([path, content]) => {
+    const name = encoder.encode(path);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_FILE_HEADER, true);
+    local.setUint16(4, 20, true);
+    // Bit 11: names are UTF-8
+    local.setUint16(6, 0x0800, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)], { type: 'application/zip' });
+}
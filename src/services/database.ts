@@ -4,6 +4,9 @@
  */
 import { supabase } from '../lib/supabase';
 import { ExtractedTopic, GeneratedQuestion, TopicNarrative } from '../lib/openai';
+import { ScorableResponse } from '../lib/scoring';
+import { AnswerResult, AnswerReviewItem, GamePacing, GameSession, GenerationJob, GenerationSettings, LiveState, PlayerProgress, PlayerQuestion, PlayerQuestionSummary, Question, QuestionFields, QuestionSourceFields, ScoringConfig, Student, Team, TeamStanding, Topic } from '../types';
+import { toQuestionFields } from '../lib/question-types';
 
 /**
  * Save a chapter to the database
@@ -37,6 +40,28 @@ export async function saveChapter(title: string, content: string, grade: string,
   }
 }
 
+/**
+ * Update a saved chapter's text or the path of its original file
+ */
+export async function updateChapter(chapterId: string, updates: { content?: string; pdf_url?: string | null }) {
+  try {
+    console.log(`Updating chapter ${chapterId}`);
+
+    const { data, error } = await supabase
+      .from('chapters')
+      .update(updates)
+      .eq('id', chapterId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating chapter:', error);
+    throw new Error('Failed to update chapter');
+  }
+}
+
 /**
  * Save topics to the database
  */
@@ -51,7 +76,11 @@ export async function saveTopics(topics: ExtractedTopic[], narratives: TopicNarr
         chapter_id: chapterId,
         topic_name: topic.title,
         topic_coverage: topic.description,
-        topic_narrative: narrative
+        topic_narrative: narrative,
+        position: index,
+        source_chunks: topic.sourceChunks ?? null,
+        page_start: topic.pageStart ?? null,
+        page_end: topic.pageEnd ?? null
       };
     });
     
@@ -91,12 +120,7 @@ export async function saveQuestions(questions: GeneratedQuestion[], topicIdMap:
     
     const formattedQuestions = validQuestions.map(question => ({
       topic_id: topicIdMap[question.topicId],
-      question_stem: question.stem,
-      option_a: question.optionA,
-      option_b: question.optionB,
-      option_c: question.optionC,
-      option_d: question.optionD,
-      correct_option: question.correctOption
+      ...toQuestionFields(question)
     }));
     
     console.log('Formatted questions for database:', formattedQuestions.length);
@@ -153,17 +177,103 @@ export async function saveQuestions(questions: GeneratedQuestion[], topicIdMap:
 }
 
 /**
- * Get or create a default game session
+ * Save an imported question bank: one topic per bank category, in order, with its questions.
+ * Imported topics have no narrative until one is written or generated in review.
+ */
+export async function saveImportedQuestionBank(
+  chapterId: string,
+  topics: { name: string; questions: QuestionFields[] }[]
+): Promise<{ topics: Topic[]; questions: Record<string, Question[]> }> {
+  try {
+    console.log(`Saving ${topics.length} imported topics for chapter ${chapterId}`);
+
+    const { data: savedTopics, error: topicsError } = await supabase
+      .from('topic_details')
+      .insert(topics.map((topic, index) => ({
+        chapter_id: chapterId,
+        topic_name: topic.name,
+        topic_coverage: '',
+        topic_narrative: '',
+        position: index
+      })))
+      .select()
+      .order('position', { ascending: true });
+
+    if (topicsError) throw topicsError;
+
+    const rows = (savedTopics as Topic[]).flatMap((topic, index) =>
+      topics[index].questions.map(question => ({ ...question, topic_id: topic.id }))
+    );
+
+    // Insert in batches so large banks don't hit request size limits
+    const savedQuestions: Question[] = [];
+    for (let i = 0; i < rows.length; i += 50) {
+      const { data, error } = await supabase
+        .from('questions')
+        .insert(rows.slice(i, i + 50))
+        .select();
+
+      if (error) throw error;
+      savedQuestions.push(...(data as Question[]));
+    }
+
+    console.log(`Saved ${savedQuestions.length} imported questions`);
+
+    const questions: Record<string, Question[]> = {};
+    (savedTopics as Topic[]).forEach(topic => {
+      questions[topic.id] = savedQuestions.filter(question => question.topic_id === topic.id);
+    });
+
+    return { topics: savedTopics as Topic[], questions };
+  } catch (error) {
+    console.error('Error saving imported question bank:', error);
+    throw new Error('Failed to save imported questions');
+  }
+}
+
+/**
+ * Generate a 6-character game code that no joinable session is using
+ */
+async function generateUniqueGameCode() {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const gameCode = Math.random().toString(36).substring(2, 8).toUpperCase();
+    
+    const { data, error } = await supabase
+      .from('game_sessions')
+      .select('id')
+      .eq('game_code', gameCode)
+      .neq('status', 'completed')
+      .limit(1);
+    
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      return gameCode;
+    }
+    
+    console.log(`Game code ${gameCode} already in use, generating another`);
+  }
+  
+  throw new Error('Could not generate a unique game code');
+}
+
+/**
+ * Get or create the default game session for a teacher
  */
-export async function getOrCreateDefaultGameSession(chapterId?: string, teacherName?: string) {
+export async function getOrCreateDefaultGameSession(chapterId?: string, teacherName?: string, teacherId?: string) {
   try {
     console.log('Getting or creating default game session');
     
-    // Check if an active session exists
-    const { data: existingSessions, error: fetchError } = await supabase
+    // Check if this teacher already has a session that hasn't started
+    let query = supabase
       .from('game_sessions')
       .select('*')
-      .eq('status', 'not_started')
+      .eq('status', 'not_started');
+    
+    if (teacherId) {
+      query = query.eq('teacher_id', teacherId);
+    }
+    
+    const { data: existingSessions, error: fetchError } = await query
       .order('created_at', { ascending: false })
       .limit(1);
     
@@ -172,14 +282,27 @@ export async function getOrCreateDefaultGameSession(chapterId?: string, teacherN
       throw fetchError;
     }
     
-    // If a session exists, return it
+    // If a session exists, return it (pointing it at the current chapter if needed)
     if (existingSessions && existingSessions.length > 0) {
-      console.log('Found existing game session:', existingSessions[0]);
-      return existingSessions[0];
+      const existingSession = existingSessions[0];
+      console.log('Found existing game session:', existingSession);
+      
+      if (chapterId && existingSession.chapter_id !== chapterId) {
+        const { data: updatedSession, error: updateError } = await supabase
+          .from('game_sessions')
+          .update({ chapter_id: chapterId })
+          .eq('id', existingSession.id)
+          .select()
+          .single();
+        
+        if (updateError) throw updateError;
+        return updatedSession;
+      }
+      
+      return existingSession;
     }
     
-    // Generate a random 6-character game code
-    const gameCode = Math.random().toString(36).substring(2, 8).toUpperCase();
+    const gameCode = await generateUniqueGameCode();
     
     // Create a new session
     const { data, error } = await supabase
@@ -187,6 +310,7 @@ export async function getOrCreateDefaultGameSession(chapterId?: string, teacherN
       .insert({
         chapter_id: chapterId,
         teacher_name: teacherName || 'Anonymous Teacher',
+        teacher_id: teacherId || null,
         status: 'not_started',
         game_code: gameCode,
         started_at: new Date().toISOString(),
@@ -208,6 +332,41 @@ export async function getOrCreateDefaultGameSession(chapterId?: string, teacherN
   }
 }
 
+/**
+ * Find a joinable game session by its game code
+ * Returns null when no session that can still be joined uses the code
+ */
+export async function getGameSessionByCode(gameCode: string) {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_game_session_by_code', { p_game_code: gameCode })
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data as GameSession | null;
+  } catch (error) {
+    console.error('Error getting game session by code:', error);
+    throw new Error('Failed to look up game code');
+  }
+}
+
+/**
+ * Get the game session a student has joined
+ */
+export async function getPlayerSession(studentId: string, playerToken: string | undefined) {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_player_session', { p_student_id: studentId, p_player_token: playerToken })
+      .single();
+    
+    if (error) throw error;
+    return data as GameSession;
+  } catch (error) {
+    console.error('Error getting game session:', error);
+    throw new Error('Failed to get game session from database');
+  }
+}
+
 /**
  * Update game session status
  */
@@ -235,6 +394,153 @@ export async function updateGameSessionStatus(sessionId: string, status: 'not_st
   }
 }
 
+/**
+ * Choose whether a game session is self-paced or teacher-paced, and whether self-paced
+ * questions adapt to each student
+ */
+export async function updateGameSessionPacing(sessionId: string, pacing: GamePacing, adaptive = false) {
+  try {
+    console.log(`Setting game session ${sessionId} pacing to ${pacing}${adaptive ? ' (adaptive)' : ''}`);
+
+    const { data, error } = await supabase
+      .from('game_sessions')
+      .update({ pacing, adaptive: pacing === 'self_paced' && adaptive, live_state: null })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating game session pacing:', error);
+    throw new Error('Failed to update game session pacing');
+  }
+}
+
+/**
+ * Choose the questions a game plays, or null for every question in the chapter
+ */
+export async function updateGameSessionQuestions(sessionId: string, questionIds: string[] | null) {
+  try {
+    console.log(`Setting game session ${sessionId} to ${questionIds ? `${questionIds.length} chosen` : 'all'} questions`);
+
+    const { data, error } = await supabase
+      .from('game_sessions')
+      .update({ question_ids: questionIds })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating game session questions:', error);
+    throw new Error('Failed to update game session questions');
+  }
+}
+
+/**
+ * Save the teacher's scoring choices for a game; an empty object scores with the defaults
+ */
+export async function updateGameSessionScoring(sessionId: string, scoring: Partial<ScoringConfig>) {
+  try {
+    const { data, error } = await supabase
+      .from('game_sessions')
+      .update({ scoring })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating game session scoring:', error);
+    throw new Error('Failed to update game session scoring');
+  }
+}
+
+/**
+ * Set up a team game with the given teams, or null to play individually
+ */
+export async function updateGameSessionTeams(sessionId: string, teams: Team[] | null) {
+  try {
+    console.log(`Setting game session ${sessionId} to ${teams ? `${teams.length} teams` : 'individual play'}`);
+
+    const { data, error } = await supabase
+      .from('game_sessions')
+      .update({ teams })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Standings for the old teams no longer apply
+    const { error: standingsError } = await supabase
+      .from('team_standings')
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (standingsError) throw standingsError;
+    return data;
+  } catch (error) {
+    console.error('Error updating game session teams:', error);
+    throw new Error('Failed to update game session teams');
+  }
+}
+
+/**
+ * Save the latest team standings so students can see them
+ */
+export async function saveTeamStandings(sessionId: string, standings: TeamStanding[]) {
+  try {
+    const { error } = await supabase
+      .from('team_standings')
+      .upsert({ session_id: sessionId, standings, updated_at: new Date().toISOString() });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving team standings:', error);
+    throw new Error('Failed to save team standings');
+  }
+}
+
+/**
+ * Get the latest team standings in a student's game
+ */
+export async function getTeamStandings(studentId: string, playerToken: string | undefined): Promise<TeamStanding[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_team_standings', {
+      p_student_id: studentId,
+      p_player_token: playerToken
+    });
+
+    if (error) throw error;
+    return data as TeamStanding[];
+  } catch (error) {
+    console.error('Error getting team standings:', error);
+    throw new Error('Failed to get team standings');
+  }
+}
+
+/**
+ * Save the screen the teacher is showing in a teacher-paced game, so students who join
+ * or reload mid-game can catch up
+ */
+export async function updateGameSessionLiveState(sessionId: string, liveState: LiveState) {
+  try {
+    const { error } = await supabase
+      .from('game_sessions')
+      .update({ live_state: liveState })
+      .eq('id', sessionId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving live game state:', error);
+    throw new Error('Failed to save live game state');
+  }
+}
+
 /**
  * Get all chapters from the database
  */
@@ -327,7 +633,9 @@ export async function getTopicsByChapterId(chapterId: string) {
     const { data, error } = await supabase
       .from('topic_details')
       .select('*')
-      .eq('chapter_id', chapterId);
+      .eq('chapter_id', chapterId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
     
     if (error) throw error;
     return data;
@@ -345,7 +653,8 @@ export async function getQuestionsByTopicId(topicId: string) {
     const { data, error } = await supabase
       .from('questions')
       .select('*')
-      .eq('topic_id', topicId);
+      .eq('topic_id', topicId)
+      .order('created_at', { ascending: true });
     
     if (error) throw error;
     return data;
@@ -356,45 +665,343 @@ export async function getQuestionsByTopicId(topicId: string) {
 }
 
 /**
- * Get all students in the system
+ * Get a topic's questions as players see them before they're opened: no text or answer key
+ */
+export async function getPlayerQuestionsByTopicId(topicId: string): Promise<PlayerQuestionSummary[]> {
+  try {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('id, topic_id, question_type, difficulty')
+      .eq('topic_id', topicId)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error getting player questions:', error);
+    throw new Error('Failed to get questions from database');
+  }
+}
+
+/**
+ * Update a topic's name, coverage or narrative
  */
-export async function getAllStudents() {
+export async function updateTopic(
+  topicId: string,
+  updates: Partial<Pick<Topic, 'topic_name' | 'topic_coverage' | 'topic_narrative'>>
+): Promise<Topic> {
+  try {
+    console.log(`Updating topic ${topicId}`);
+
+    const { data, error } = await supabase
+      .from('topic_details')
+      .update(updates)
+      .eq('id', topicId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Topic;
+  } catch (error) {
+    console.error('Error updating topic:', error);
+    throw new Error('Failed to update topic');
+  }
+}
+
+/**
+ * Save the order of a chapter's topics
+ */
+export async function updateTopicOrder(topicIds: string[]) {
+  try {
+    console.log(`Saving order of ${topicIds.length} topics`);
+
+    const results = await Promise.all(topicIds.map((topicId, position) =>
+      supabase
+        .from('topic_details')
+        .update({ position })
+        .eq('id', topicId)
+    ));
+
+    const failed = results.find(result => result.error);
+    if (failed?.error) throw failed.error;
+  } catch (error) {
+    console.error('Error updating topic order:', error);
+    throw new Error('Failed to save topic order');
+  }
+}
+
+/**
+ * Add a hand-written question to a topic
+ */
+export async function createQuestion(
+  topicId: string,
+  question: QuestionFields
+): Promise<Question> {
+  try {
+    console.log(`Adding question to topic ${topicId}`);
+
+    const { data, error } = await supabase
+      .from('questions')
+      .insert({ ...question, topic_id: topicId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Question;
+  } catch (error) {
+    console.error('Error creating question:', error);
+    throw new Error('Failed to add question');
+  }
+}
+
+/**
+ * Update a question's stem, options or correct option
+ */
+export async function updateQuestion(
+  questionId: string,
+  updates: Partial<QuestionFields & QuestionSourceFields & Pick<Question, 'approved'>>
+): Promise<Question> {
+  try {
+    console.log(`Updating question ${questionId}`);
+
+    const { data, error } = await supabase
+      .from('questions')
+      .update(updates)
+      .eq('id', questionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Question;
+  } catch (error) {
+    console.error('Error updating question:', error);
+    throw new Error('Failed to update question');
+  }
+}
+
+/**
+ * Delete several questions at once
+ */
+export async function deleteQuestions(questionIds: string[]) {
+  if (questionIds.length === 0) return;
+
+  try {
+    console.log(`Deleting ${questionIds.length} questions`);
+
+    const { error } = await supabase
+      .from('questions')
+      .delete()
+      .in('id', questionIds);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting questions:', error);
+    throw new Error('Failed to delete questions');
+  }
+}
+
+/**
+ * Delete a question
+ */
+export async function deleteQuestion(questionId: string) {
+  try {
+    console.log(`Deleting question ${questionId}`);
+
+    const { error } = await supabase
+      .from('questions')
+      .delete()
+      .eq('id', questionId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting question:', error);
+    throw new Error('Failed to delete question');
+  }
+}
+
+/**
+ * Delete a chapter's topics and their questions
+ * Used before saving regenerated content so a retried save doesn't leave duplicates
+ */
+export async function deleteTopicsByChapterId(chapterId: string) {
+  try {
+    const { data: topics, error: topicsError } = await supabase
+      .from('topic_details')
+      .select('id')
+      .eq('chapter_id', chapterId);
+
+    if (topicsError) throw topicsError;
+    if (!topics || topics.length === 0) return;
+
+    const topicIds = topics.map(topic => topic.id);
+    const { error: questionsError } = await supabase
+      .from('questions')
+      .delete()
+      .in('topic_id', topicIds);
+
+    if (questionsError) throw questionsError;
+
+    const { error } = await supabase
+      .from('topic_details')
+      .delete()
+      .in('id', topicIds);
+
+    if (error) throw error;
+    console.log(`Deleted ${topicIds.length} existing topics for chapter ${chapterId}`);
+  } catch (error) {
+    console.error('Error deleting topics:', error);
+    throw new Error('Failed to delete existing topics');
+  }
+}
+
+/**
+ * Start a content generation job for a chapter
+ */
+export async function createGenerationJob(
+  chapterId: string,
+  teacherId?: string | null,
+  settings: GenerationSettings = {}
+): Promise<GenerationJob> {
+  try {
+    console.log(`Creating generation job for chapter ${chapterId}`);
+
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .insert({
+        chapter_id: chapterId,
+        teacher_id: teacherId ?? null,
+        status: 'running',
+        current_step: 'extract_topics',
+        steps: {},
+        settings
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as GenerationJob;
+  } catch (error) {
+    console.error('Error creating generation job:', error);
+    throw new Error('Failed to create generation job');
+  }
+}
+
+/**
+ * Update a generation job's status, current step or step results
+ */
+export async function updateGenerationJob(
+  jobId: string,
+  updates: Partial<Pick<GenerationJob, 'status' | 'current_step' | 'steps' | 'error' | 'settings'>>
+): Promise<GenerationJob> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as GenerationJob;
+  } catch (error) {
+    console.error('Error updating generation job:', error);
+    throw new Error('Failed to update generation job');
+  }
+}
+
+/**
+ * Get the unfinished generation job for a chapter, if any
+ */
+export async function getIncompleteGenerationJob(chapterId: string): Promise<GenerationJob | null> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('chapter_id', chapterId)
+      .neq('status', 'completed')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as GenerationJob | null;
+  } catch (error) {
+    console.error('Error getting generation job:', error);
+    throw new Error('Failed to get generation job');
+  }
+}
+
+/**
+ * Get every unfinished generation job, so incomplete chapters can be flagged
+ */
+export async function getIncompleteGenerationJobs(): Promise<GenerationJob[]> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .neq('status', 'completed');
+
+    if (error) throw error;
+    return (data || []) as GenerationJob[];
+  } catch (error) {
+    console.error('Error getting generation jobs:', error);
+    throw new Error('Failed to get generation jobs');
+  }
+}
+
+/**
+ * Get the students who joined a game session
+ */
+export async function getStudentsBySession(sessionId: string) {
   try {
     const { data, error } = await supabase
       .from('students')
       .select('*')
+      .eq('session_id', sessionId)
       .order('joined_at', { ascending: false });
     
     if (error) throw error;
     return data;
   } catch (error) {
-    console.error('Error getting all students:', error);
+    console.error('Error getting session students:', error);
     throw new Error('Failed to get students from database');
   }
 }
 
 /**
- * Add a student to the game
+ * Add a student to a game session
  */
-export async function addStudentToSession(name: string) {
+export async function addStudentToSession(name: string, sessionId: string) {
   try {
-    const studentObj = {
-      name,
-      joined_at: new Date().toISOString(),
-      status: 'waiting'
-    };
+    // The server creates the student, on a team in team games, with the token that proves
+    // later requests are theirs
+    const { data, error } = await supabase.rpc('join_game_session', {
+      p_session_id: sessionId,
+      p_name: name
+    });
     
+    if (error) throw error;
+    return data as Student;
+  } catch (error) {
+    console.error('Error adding student:', error);
+    throw new Error('Failed to add student to the game');
+  }
+}
+
+/**
+ * Get a student by id; null if they've left or been removed from the game
+ */
+export async function getStudentById(studentId: string): Promise<Student | null> {
+  try {
     const { data, error } = await supabase
       .from('students')
-      .insert(studentObj)
-      .select()
-      .single();
+      .select('*')
+      .eq('id', studentId)
+      .maybeSingle();
     
     if (error) throw error;
     return data;
   } catch (error) {
-    console.error('Error adding student:', error);
-    throw new Error('Failed to add student to the game');
+    console.error('Error getting student:', error);
+    throw new Error('Failed to get student from database');
   }
 }
 
@@ -418,6 +1025,27 @@ export async function updateStudentStatus(studentId: string, status: 'waiting' |
   }
 }
 
+/**
+ * Move students onto teams, by student id
+ */
+export async function updateStudentTeams(assignments: Record<string, string | null>) {
+  try {
+    console.log(`Assigning ${Object.keys(assignments).length} students to teams`);
+
+    await Promise.all(Object.entries(assignments).map(async ([studentId, teamId]) => {
+      const { error } = await supabase
+        .from('students')
+        .update({ team_id: teamId })
+        .eq('id', studentId);
+
+      if (error) throw error;
+    }));
+  } catch (error) {
+    console.error('Error updating student teams:', error);
+    throw new Error('Failed to assign students to teams');
+  }
+}
+
 /**
  * Remove a student from the game
  */
@@ -475,27 +1103,78 @@ export async function banStudentFromSession(sessionId: string, studentId: string
 }
 
 /**
- * Save a student's response to a question
+ * Tell the server a question is on the student's screen and get the question to show; answer
+ * times are measured from here
  */
-export async function saveStudentResponse(studentId: string, questionId: string, selectedOption: string, isCorrect: boolean) {
+export async function openQuestion(studentId: string, playerToken: string | undefined, questionId: string): Promise<PlayerQuestion> {
   try {
-    const { data, error } = await supabase
-      .from('responses')
-      .insert({
-        student_id: studentId,
-        question_id: questionId,
-        selected_option: selectedOption,
-        is_correct: isCorrect,
-        submitted_at: new Date().toISOString()
-      })
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc('open_question', {
+      p_student_id: studentId,
+      p_player_token: playerToken,
+      p_question_id: questionId
+    });
     
     if (error) throw error;
-    return data;
+    return (data as { question: PlayerQuestion }).question;
+  } catch (error) {
+    console.error('Error opening question:', error);
+    throw new Error('Failed to open question');
+  }
+}
+
+/**
+ * Submit a student's answer ('timeout' if time ran out) for the server to grade and record
+ */
+export async function submitAnswer(studentId: string, playerToken: string | undefined, questionId: string, selectedOption: string): Promise<AnswerResult> {
+  try {
+    const { data, error } = await supabase.rpc('submit_answer', {
+      p_student_id: studentId,
+      p_player_token: playerToken,
+      p_question_id: questionId,
+      p_selected_option: selectedOption
+    });
+    
+    if (error) throw error;
+    return data as AnswerResult;
+  } catch (error) {
+    console.error('Error submitting answer:', error);
+    throw new Error('Failed to submit answer');
+  }
+}
+
+/**
+ * Get a student's answers with the answer key and explanations, once the game may be reviewed
+ */
+export async function getAnswerReview(studentId: string, playerToken: string | undefined): Promise<AnswerReviewItem[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_answer_review', {
+      p_student_id: studentId,
+      p_player_token: playerToken
+    });
+    
+    if (error) throw error;
+    return data as AnswerReviewItem[];
+  } catch (error) {
+    console.error('Error getting answer review:', error);
+    throw new Error('Failed to get answer review');
+  }
+}
+
+/**
+ * Get how far a student has got through the game, to resume it after a reload
+ */
+export async function getPlayerProgress(studentId: string, playerToken: string | undefined): Promise<PlayerProgress> {
+  try {
+    const { data, error } = await supabase.rpc('get_player_progress', {
+      p_student_id: studentId,
+      p_player_token: playerToken
+    });
+    
+    if (error) throw error;
+    return data as PlayerProgress;
   } catch (error) {
-    console.error('Error saving response:', error);
-    throw new Error('Failed to save student response');
+    console.error('Error getting player progress:', error);
+    throw new Error('Failed to get player progress');
   }
 }
 
@@ -517,6 +1196,25 @@ export async function getStudentResponses(studentId: string) {
   }
 }
 
+/**
+ * Get the fields of a student's responses that scoring needs, without the questions. Players
+ * pass their token to read their own; the session's teacher can read any of their students'.
+ */
+export async function getStudentScoringResponses(studentId: string, playerToken?: string): Promise<ScorableResponse[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_scoring_responses', {
+      p_student_id: studentId,
+      p_player_token: playerToken ?? null
+    });
+    
+    if (error) throw error;
+    return data as ScorableResponse[];
+  } catch (error) {
+    console.error('Error getting student scoring responses:', error);
+    throw new Error('Failed to get student responses');
+  }
+}
+
 /**
  * Clear all content from the database (for testing purposes)
  */
@@ -538,6 +1236,10 @@ export async function clearAllContent() {
     const { error: qError } = await supabase.from('questions').delete();
     if (qError) console.error('Error deleting questions:', qError);
     
+    console.log('Deleting generation jobs...');
+    const { error: jobError } = await supabase.from('generation_jobs').delete();
+    if (jobError) console.error('Error deleting generation jobs:', jobError);
+    
     console.log('Deleting topic_details...');
     const { error: tdError } = await supabase.from('topic_details').delete();
     if (tdError) console.error('Error deleting topic_details:', tdError);
@@ -0,0 +1,76 @@
+/**
+ * Storage service for Supabase Storage operations
+ * Keeps the original file each chapter was made from, so it can be viewed later and the chapter
+ * re-processed without uploading it again
+ */
+import { supabase } from '../lib/supabase';
+
+const CHAPTER_FILES_BUCKET = 'chapter-files';
+
+// How long links for viewing a chapter's file stay valid, in seconds
+const FILE_URL_EXPIRY = 60 * 60;
+
+/**
+ * Name of a stored chapter file, from its path
+ */
+export function getChapterFileName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/**
+ * Upload a chapter's original file, replacing any earlier one, and return its storage path
+ * Files go in the teacher's own folder, the only one they're allowed to write to
+ */
+export async function uploadChapterFile(teacherId: string, chapterId: string, file: File): Promise<string> {
+  try {
+    // Storage keys can't contain some characters that are fine in file names
+    const safeName = file.name.replace(/[^\w.-]+/g, '_');
+    const path = `${teacherId}/${chapterId}/${safeName}`;
+    console.log(`Uploading chapter file to ${path}`);
+
+    const { error } = await supabase.storage
+      .from(CHAPTER_FILES_BUCKET)
+      .upload(path, file, { upsert: true, contentType: file.type || undefined });
+
+    if (error) throw error;
+    return path;
+  } catch (error) {
+    console.error('Error uploading chapter file:', error);
+    throw new Error('Failed to store the chapter file');
+  }
+}
+
+/**
+ * Temporary link for viewing or downloading a stored chapter file
+ */
+export async function getChapterFileUrl(path: string): Promise<string> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(CHAPTER_FILES_BUCKET)
+      .createSignedUrl(path, FILE_URL_EXPIRY);
+
+    if (error) throw error;
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Error getting chapter file link:', error);
+    throw new Error('Failed to open the chapter file');
+  }
+}
+
+/**
+ * Download a stored chapter file so it can be read again
+ */
+export async function downloadChapterFile(path: string): Promise<File> {
+  try {
+    console.log(`Downloading chapter file ${path}`);
+    const { data, error } = await supabase.storage
+      .from(CHAPTER_FILES_BUCKET)
+      .download(path);
+
+    if (error) throw error;
+    return new File([data], getChapterFileName(path), { type: data.type });
+  } catch (error) {
+    console.error('Error downloading chapter file:', error);
+    throw new Error('Failed to download the chapter file');
+  }
+}
@@ -11,6 +11,10 @@ export interface Chapter {
   uploadedAt: Date;
   status: 'uploaded' | 'processing' | 'ready' | 'error';
   file?: File;
+  // Chosen on upload, before the generation job exists
+  generationSettings?: GenerationSettings;
+  // Read again from the stored original file; the saved chapter's text and content are replaced
+  reprocess?: boolean;
 }
 
 export interface Topic {
@@ -19,27 +23,126 @@ export interface Topic {
   topic_name: string;
   topic_coverage: string;
   topic_narrative: string;
+  // Order of the topic within its chapter
+  position?: number;
+  // Where in the chapter the topic came from (null for pasted text without pages)
+  source_chunks?: number[] | null;
+  page_start?: number | null;
+  page_end?: number | null;
   created_at?: string;
 }
 
+export type QuestionType =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'multi_select'
+  | 'numeric'
+  | 'short_text'
+  | 'ordering'
+  | 'matching';
+
+// What students see for question types other than multiple choice
+export interface QuestionContent {
+  // multi_select
+  options?: string[];
+  // ordering: items in the order students first see them
+  items?: string[];
+  // matching: left items in order, right items shuffled
+  left?: string[];
+  right?: string[];
+  // numeric
+  unit?: string | null;
+}
+
+// Answer key for question types other than multiple choice; never sent to players
+export interface QuestionAnswer {
+  // true_false
+  value?: boolean;
+  // multi_select: indexes into `options`
+  correct?: number[];
+  // numeric: accepted if within `tolerance` of `number`
+  number?: number;
+  tolerance?: number;
+  // short_text: compared case- and whitespace-insensitively
+  accepted?: string[];
+  // ordering: indexes into `items` in the correct order
+  order?: number[];
+  // matching: for each left item, the index of its partner in `right`
+  pairs?: number[];
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// Bloom's taxonomy levels, lowest first
+export type CognitiveLevel = 'recall' | 'understand' | 'apply' | 'analyze';
+
+// Share of questions wanted at each difficulty or level, in percent; missing entries are 0
+export type QuestionMix<T extends string> = Partial<Record<T, number>>;
+
 export interface Question {
   id: string;
   topic_id: string;
+  question_type: QuestionType;
   question_stem: string;
+  // Multiple choice options and answer letter; empty strings for other types
   option_a: string;
   option_b: string;
   option_c: string;
   option_d: string;
   correct_option: string;
+  // Other types keep their options in `content` and their key in `answer`
+  content?: QuestionContent | null;
+  answer?: QuestionAnswer | null;
+  // Approved questions are kept when the topic's questions are regenerated
+  approved?: boolean;
+  // Chapter text a generated question is based on, and the printed page it's on
+  source_excerpt?: string | null;
+  source_page?: string | null;
+  // Why the answer is right, shown to students after they answer
+  explanation?: string | null;
+  // Why each wrong answer is wrong, keyed by the answer as students give it: the letter for
+  // multiple choice, the option index for multi-select, 'true' or 'false' for true / false
+  distractor_explanations?: Record<string, string> | null;
+  // Empty for questions generated before tagging, unless the teacher sets them
+  difficulty?: Difficulty | null;
+  cognitive_level?: CognitiveLevel | null;
   created_at?: string;
 }
 
+// The editable parts of a question
+export type QuestionFields = Pick<
+  Question,
+  'question_type' | 'question_stem' | 'option_a' | 'option_b' | 'option_c' | 'option_d' | 'correct_option' | 'content' | 'answer'
+  | 'explanation' | 'distractor_explanations' | 'difficulty' | 'cognitive_level'
+>;
+
+// Where in the chapter a generated question comes from
+export type QuestionSourceFields = Pick<Question, 'source_excerpt' | 'source_page'>;
+
+// A page of an uploaded PDF that was read with OCR
+export interface OcrPage {
+  page: number;
+  // Recognition confidence, 0-100
+  confidence: number;
+}
+
 // UI state types
 export interface UploadState {
   status: 'initial' | 'uploading' | 'preview_ready' | 'confirmed';
   file?: File;
   content?: string;
+  ocrPages?: OcrPage[];
   error?: string;
+  // Set when re-reading a saved chapter's stored file instead of uploading a new one
+  reprocess?: ReprocessTarget;
+}
+
+export interface ReprocessTarget {
+  chapterId: string;
+  title: string;
+  grade: string;
+  // Path of the chapter's original file in storage
+  filePath: string;
 }
 
 export interface ProcessingState {
@@ -49,6 +152,38 @@ export interface ProcessingState {
   error?: string;
 }
 
+// Content generation job types
+export type GenerationStep = 'extract_topics' | 'generate_narratives' | 'generate_questions' | 'save_content';
+
+export interface GenerationStepState {
+  status: 'running' | 'completed' | 'failed';
+  error?: string | null;
+  // What the step produced, kept so later steps can resume without redoing it
+  output?: unknown;
+  updated_at?: string;
+}
+
+// Teacher's choices for a generation run, kept with the job so a resumed run makes the same content
+export interface GenerationSettings {
+  questionTypes?: QuestionType[];
+  // Target mix of the generated questions
+  difficultyMix?: QuestionMix<Difficulty>;
+  cognitiveLevelMix?: QuestionMix<CognitiveLevel>;
+}
+
+export interface GenerationJob {
+  id: string;
+  chapter_id: string;
+  teacher_id?: string | null;
+  status: 'running' | 'failed' | 'completed';
+  current_step: GenerationStep;
+  steps: Partial<Record<GenerationStep, GenerationStepState>>;
+  settings?: GenerationSettings;
+  error?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export type AppView = 'select' | 'upload' | 'processing' | 'review' | 'launch' | 'lobby';
 
 // Auth and user types
@@ -71,6 +206,11 @@ export interface Student {
   session_id: string | null;
   joined_at: string;
   status?: 'waiting' | 'playing' | 'completed';
+  // Team games: the id of the student's team in the session's `teams`
+  team_id?: string | null;
+  // Secret the server gave the player when they joined, proving requests are theirs; only ever
+  // known to the player's own device
+  player_token?: string;
 }
 
 // Game session type
@@ -78,12 +218,110 @@ export interface GameSession {
   id: string;
   chapter_id: string | null;
   teacher_name: string;
+  teacher_id?: string | null;
   status: 'not_started' | 'in_progress' | 'completed';
   game_code: string;
   started_at: string;
   ended_at?: string | null;
   created_at?: string;
   banned_students?: string[];
+  // self_paced: each student moves through the questions alone
+  // teacher_paced: the teacher moves the whole class from LobbyView
+  pacing?: GamePacing;
+  // Last screen the teacher showed in a teacher-paced game, for students who join late
+  live_state?: LiveState | null;
+  // Time allowed per question in self-paced games
+  question_seconds?: number;
+  // Questions chosen for this game, e.g. to a difficulty mix; null plays every question
+  question_ids?: string[] | null;
+  // Self-paced games only: each student's next question is chosen from how they're doing
+  adaptive?: boolean;
+  // Team games: the teams students are split into; null plays individually
+  teams?: Team[] | null;
+  // The teacher's scoring choices for this game; anything left out uses the defaults
+  scoring?: Partial<ScoringConfig> | null;
+}
+
+export interface ScoringConfig {
+  // Points for any correct answer
+  basePoints: number;
+  // Extra points for an instant correct answer, decaying linearly to zero at the time limit
+  maxSpeedBonus: number;
+  timeLimitSeconds: number;
+  // Multiplier added for each consecutive correct answer after the first, up to the cap
+  streakStep: number;
+  maxStreakMultiplier: number;
+  // Points taken off for a wrong answer; timeouts are never penalised
+  wrongAnswerPenalty: number;
+  // Whether running out of time ends a streak (a wrong answer always does)
+  timeoutBreaksStreak: boolean;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  // Hex color, e.g. #EF4444
+  color: string;
+}
+
+export interface TeamStanding {
+  teamId: string;
+  rank: number;
+  members: number;
+  correctAnswers: number;
+  // Total of the members' scores, and the total per member, which teams are ranked by
+  score: number;
+  averageScore: number;
+}
+
+export type GamePacing = 'self_paced' | 'teacher_paced';
+
+// What every student's screen shows in a teacher-paced game
+export type LivePhase = 'lobby' | 'narrative' | 'question' | 'closed' | 'revealed' | 'leaderboard' | 'ended';
+
+// A question as students see it: the answer key stays on the server, which grades every answer
+export interface PlayerQuestion {
+  id: string;
+  topic_id: string;
+  question_type: QuestionType;
+  question_stem: string;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  content?: QuestionContent | null;
+  // Used to choose questions in adaptive games
+  difficulty?: Difficulty | null;
+}
+
+// What players can see of a question before it's opened for them: enough to plan their way
+// through the game, without the question itself
+export type PlayerQuestionSummary = Pick<PlayerQuestion, 'id' | 'topic_id' | 'question_type' | 'difficulty'>;
+
+export interface LiveLeaderboardEntry {
+  studentId: string;
+  studentName: string;
+  correctAnswers: number;
+  score: number;
+}
+
+export interface LiveState {
+  phase: LivePhase;
+  topicIndex: number;
+  questionIndex: number;
+  // 1-based position of the question in the whole game, and the total
+  questionNumber: number;
+  totalQuestions: number;
+  topic: Pick<Topic, 'id' | 'topic_name' | 'topic_narrative'> | null;
+  question: PlayerQuestion | null;
+  correctOption: string | null;
+  // Answer key for other question types, sent with the reveal
+  correctAnswer: QuestionAnswer | null;
+  // Sent with the reveal too
+  explanation: string | null;
+  distractorExplanations: Record<string, string> | null;
+  leaderboard: LiveLeaderboardEntry[] | null;
+  sentAt: string;
 }
 
 // Game state types
@@ -95,6 +333,34 @@ export interface GameState {
   sessionId: string | null;
 }
 
+// Result of submitting an answer; teacher-paced games leave the result hidden until the reveal
+export interface AnswerResult {
+  is_correct: boolean | null;
+  correct_option: string | null;
+  answer: QuestionAnswer | null;
+  explanation: string | null;
+  distractor_explanations: Record<string, string> | null;
+  response_ms: number;
+}
+
+// A student's place in a game, for putting them back after a reload
+export interface PlayerProgress {
+  // In the order they were given; `is_correct` is null in teacher-paced games
+  answered: { question_id: string; selected_option: string; is_correct: boolean | null; submitted_at: string }[];
+  // Self-paced games: the question on screen when they left, with the time it has left
+  open_question: { question_id: string; seconds_left: number } | null;
+}
+
+// One of a student's answers with its key and explanations, for reviewing after the game
+export interface AnswerReviewItem extends PlayerQuestion {
+  selected_option: string;
+  is_correct: boolean;
+  correct_option: string | null;
+  answer: QuestionAnswer | null;
+  explanation: string | null;
+  distractor_explanations: Record<string, string> | null;
+}
+
 // Player game response
 export interface PlayerResponse {
   studentId: string;
@@ -112,4 +378,22 @@ export interface PlayerStats {
   correctAnswers: number;
   totalAnswered: number;
   score: number;
+  currentStreak: number;
+  bestStreak: number;
+  // Mean time to answer, excluding timeouts; null before any timed answer
+  averageResponseMs: number | null;
+  // Estimated mastery of each topic answered on, keyed by topic id
+  topicMastery: Record<string, TopicMastery>;
+  // Team games: the student's team
+  teamId: string | null;
+}
+
+// A student's estimated ability on a topic, from their answers so far
+export interface TopicMastery {
+  // On the same scale as question difficulty: easy -1, medium 0, hard 1
+  ability: number;
+  // Chance of answering a medium question on the topic correctly, 0 to 1
+  mastery: number;
+  answered: number;
+  correct: number;
 }
\ No newline at end of file
@@ -0,0 +1,204 @@
+/**
+ * Content generator provider interface
+ * Every provider produces topics, narratives and questions in the same shape, so the
+ * edge function and the app don't care which model (if any) is behind them
+ */
+import { createChatCompletionGenerator } from './openai-generator.ts';
+import { createMockGenerator } from './mock-generator.ts';
+
+export interface ExtractedTopic {
+  title: string;
+  description: string;
+}
+
+// A merged topic remembers which candidate topics it was built from
+export interface MergedTopic extends ExtractedTopic {
+  sourceIndexes: number[];
+}
+
+// Which part of a chunked chapter is being sent for topic extraction
+export interface ChapterPart {
+  index: number;
+  total: number;
+  heading?: string | null;
+}
+
+export interface TopicNarrative {
+  topicId: string;
+  narrative: string;
+}
+
+export const QUESTION_TYPES = [
+  'multiple_choice',
+  'true_false',
+  'multi_select',
+  'numeric',
+  'short_text',
+  'ordering',
+  'matching'
+] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type Difficulty = typeof DIFFICULTIES[number];
+
+// Bloom's taxonomy levels, lowest first
+export const COGNITIVE_LEVELS = ['recall', 'understand', 'apply', 'analyze'] as const;
+
+export type CognitiveLevel = typeof COGNITIVE_LEVELS[number];
+
+// Share of questions wanted at each difficulty or level, in percent; missing entries are 0
+export type QuestionMix<T extends string> = Partial<Record<T, number>>;
+
+// What students see for question types other than multiple choice
+export interface QuestionContent {
+  // multi_select
+  options?: string[];
+  // ordering: items in the order students first see them
+  items?: string[];
+  // matching: left items in order, right items shuffled
+  left?: string[];
+  right?: string[];
+  // numeric
+  unit?: string | null;
+}
+
+// Answer key for question types other than multiple choice
+export interface QuestionAnswer {
+  // true_false
+  value?: boolean;
+  // multi_select: indexes into `options`
+  correct?: number[];
+  // numeric: accepted if within `tolerance` of `number`
+  number?: number;
+  tolerance?: number;
+  // short_text: compared case- and whitespace-insensitively
+  accepted?: string[];
+  // ordering: indexes into `items` in the correct order
+  order?: number[];
+  // matching: for each left item, the index of its partner in `right`
+  pairs?: number[];
+}
+
+// The chapter text a question is based on, copied from the excerpt it was generated from
+export interface QuestionSource {
+  excerpt: string;
+  // Page number printed in the book, from the excerpt's [Page N] markers
+  page: string | null;
+}
+
+// Why the answer is right and why each wrong choice is wrong, shown to students after they answer
+export interface QuestionExplanation {
+  correct: string;
+  // Keyed by the wrong answer as a student would give it: the letter for multiple choice, the
+  // option index for multi-select, 'true' or 'false' for true / false. Other types have none.
+  distractors: Record<string, string>;
+}
+
+export interface GeneratedQuestion {
+  topicId: string;
+  // Missing on questions generated before other types existed
+  type?: QuestionType;
+  stem: string;
+  // Multiple choice only
+  optionA?: string;
+  optionB?: string;
+  optionC?: string;
+  optionD?: string;
+  correctOption?: string;
+  // Every other type
+  content?: QuestionContent | null;
+  answer?: QuestionAnswer | null;
+  // Only when the questions were grounded in chapter text
+  source?: QuestionSource | null;
+  // Missing on questions generated before explanations existed
+  explanation?: QuestionExplanation | null;
+  // Missing on questions generated before tagging existed
+  difficulty?: Difficulty;
+  cognitiveLevel?: CognitiveLevel;
+}
+
+// Optional guidance when (re)generating questions for a topic
+export interface QuestionOptions {
+  // Chapter text the questions must be based on
+  context?: string;
+  // Exact number of questions wanted, instead of 3-5
+  count?: number;
+  // Existing question stems that must not be repeated
+  avoidStems?: string[];
+  // Question types to use, mixed across the questions (multiple choice only if omitted)
+  types?: QuestionType[];
+  // Target mix of difficulties and cognitive levels (the model's choice if omitted)
+  difficultyMix?: QuestionMix<Difficulty>;
+  cognitiveLevelMix?: QuestionMix<CognitiveLevel>;
+}
+
+export interface ContentGenerator {
+  name: string;
+  extractTopics(chapterContent: string, grade: string, part?: ChapterPart): Promise<ExtractedTopic[]>;
+  mergeTopics(candidates: ExtractedTopic[], grade: string, minTopics: number, maxTopics: number): Promise<MergedTopic[]>;
+  generateNarratives(topics: ExtractedTopic[], context?: string): Promise<TopicNarrative[]>;
+  generateQuestions(topic: ExtractedTopic, grade: string, options?: QuestionOptions): Promise<GeneratedQuestion[]>;
+}
+
+/**
+ * Merge candidate topics by exact (case-insensitive) title, keeping chapter order
+ * Used by the mock generator and as a fallback when a model's merge can't be used
+ */
+export function dedupeTopics(candidates: ExtractedTopic[], maxTopics: number): MergedTopic[] {
+  const merged: MergedTopic[] = [];
+
+  candidates.forEach((candidate, index) => {
+    const key = candidate.title.trim().toLowerCase();
+    const existing = merged.find(topic => topic.title.trim().toLowerCase() === key);
+    if (existing) {
+      existing.sourceIndexes.push(index);
+    } else {
+      merged.push({ title: candidate.title, description: candidate.description, sourceIndexes: [index] });
+    }
+  });
+
+  return merged.slice(0, maxTopics);
+}
+
+export type ContentGeneratorKind = 'openai' | 'local' | 'mock';
+
+/**
+ * Build the provider selected by the CONTENT_GENERATOR environment variable
+ *
+ * - openai: OpenAI API (OPENAI_API_KEY, OPENAI_MODEL)
+ * - local:  any OpenAI-compatible server such as Ollama or llama.cpp
+ *           (LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL, LOCAL_LLM_API_KEY, LOCAL_LLM_JSON_MODE)
+ * - mock:   deterministic fixtures, no network access at all
+ */
+export function getContentGenerator(kind = Deno.env.get('CONTENT_GENERATOR') ?? 'openai'): ContentGenerator {
+  switch (kind as ContentGeneratorKind) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        console.error('OpenAI API key is not set. Please run `supabase secrets set OPENAI_API_KEY=...`.');
+      }
+
+      return createChatCompletionGenerator({
+        name: 'OpenAI',
+        model: Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-2024-08-06',
+        apiKey
+      });
+    }
+    case 'local':
+      return createChatCompletionGenerator({
+        name: 'local model',
+        model: Deno.env.get('LOCAL_LLM_MODEL') ?? 'llama3.1',
+        baseURL: Deno.env.get('LOCAL_LLM_BASE_URL') ?? 'http://host.docker.internal:11434/v1',
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: Deno.env.get('LOCAL_LLM_API_KEY') ?? 'local',
+        jsonMode: Deno.env.get('LOCAL_LLM_JSON_MODE') !== 'false'
+      });
+    case 'mock':
+      return createMockGenerator();
+    default:
+      throw new Error(`Unknown CONTENT_GENERATOR "${kind}". Use openai, local or mock.`);
+  }
+}
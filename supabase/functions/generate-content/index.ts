@@ -0,0 +1,242 @@
+/**
+ * generate-content edge function
+ * Runs topic extraction, narrative generation and question creation on the server so
+ * provider keys never reach the browser. Only signed-in teachers may call it, and each
+ * teacher is limited to a number of requests per day.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { COGNITIVE_LEVELS, DIFFICULTIES, getContentGenerator, QUESTION_TYPES } from './content-generator.ts';
+import type { ChapterPart, CognitiveLevel, Difficulty, QuestionMix, QuestionOptions, QuestionType } from './content-generator.ts';
+import { InvalidGenerationError } from './schemas.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Requests allowed per teacher in a rolling 24 hour window
+const DAILY_REQUEST_LIMIT = parseInt(Deno.env.get('AI_DAILY_REQUEST_LIMIT') ?? '200', 10);
+
+// Reject chapter parts that would blow past the model context and our budget.
+// Long chapters are chunked by the app and sent one part at a time.
+const MAX_CONTENT_LENGTH = 50_000;
+
+// Upper bound on existing questions a regeneration may be told to avoid
+const MAX_AVOID_STEMS = 50;
+
+// Upper bound on candidate topics sent to a single merge
+const MAX_MERGE_CANDIDATES = 100;
+
+type GenerateContentRequest =
+  | { action: 'extract_topics'; chapterContent: string; grade: string; part?: ChapterPart }
+  | { action: 'merge_topics'; topics: { title: string; description: string }[]; grade: string; minTopics: number; maxTopics: number }
+  | { action: 'generate_narratives'; topics: { title: string; description: string }[]; context?: string }
+  | { action: 'generate_questions'; topic: { title: string; description: string }; grade: string; options: QuestionOptions };
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function isTopic(value: unknown): value is { title: string; description: string } {
+  const topic = value as { title?: unknown; description?: unknown } | null;
+  return !!topic && typeof topic.title === 'string' && typeof topic.description === 'string';
+}
+
+function isOptionalContext(value: unknown): value is string | undefined {
+  return value === undefined || (typeof value === 'string' && value.length <= MAX_CONTENT_LENGTH);
+}
+
+function isChapterPart(value: unknown): value is ChapterPart {
+  const part = value as { index?: unknown; total?: unknown; heading?: unknown } | null;
+  return !!part
+    && Number.isInteger(part.index) && Number.isInteger(part.total)
+    && (part.index as number) >= 0 && (part.index as number) < (part.total as number)
+    && (part.heading === undefined || part.heading === null || typeof part.heading === 'string');
+}
+
+function isOptionalQuestionTypes(value: unknown): value is QuestionType[] | undefined {
+  return value === undefined || (
+    Array.isArray(value)
+    && value.length > 0
+    && value.every(type => (QUESTION_TYPES as readonly unknown[]).includes(type))
+  );
+}
+
+// A mix is percentages for some of `keys`, adding up to more than nothing
+function isOptionalMix<T extends string>(value: unknown, keys: readonly T[]): value is QuestionMix<T> | undefined {
+  if (value === undefined) return true;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entries = Object.entries(value as Record<string, unknown>);
+  return entries.every(([key, share]) => (
+    (keys as readonly string[]).includes(key) && typeof share === 'number' && share >= 0 && share <= 100
+  )) && entries.some(([, share]) => (share as number) > 0);
+}
+
+/**
+ * Check the request body has the fields its action needs
+ */
+function parseRequest(body: unknown): GenerateContentRequest | null {
+  const request = body as Record<string, unknown> | null;
+  if (!request || typeof request.action !== 'string') return null;
+
+  switch (request.action) {
+    case 'extract_topics':
+      if (typeof request.chapterContent !== 'string' || typeof request.grade !== 'string') return null;
+      if (request.chapterContent.length > MAX_CONTENT_LENGTH) return null;
+      if (request.part !== undefined && !isChapterPart(request.part)) return null;
+      return {
+        action: 'extract_topics',
+        chapterContent: request.chapterContent,
+        grade: request.grade,
+        part: request.part as ChapterPart | undefined
+      };
+    case 'merge_topics': {
+      if (!Array.isArray(request.topics) || !request.topics.every(isTopic)) return null;
+      if (request.topics.length === 0 || request.topics.length > MAX_MERGE_CANDIDATES) return null;
+      if (typeof request.grade !== 'string') return null;
+      const minTopics = Number.isInteger(request.minTopics) ? request.minTopics as number : 3;
+      const maxTopics = Number.isInteger(request.maxTopics) ? request.maxTopics as number : 8;
+      if (minTopics < 1 || maxTopics < minTopics) return null;
+      return { action: 'merge_topics', topics: request.topics, grade: request.grade, minTopics, maxTopics };
+    }
+    case 'generate_narratives':
+      if (!Array.isArray(request.topics) || !request.topics.every(isTopic)) return null;
+      if (!isOptionalContext(request.context)) return null;
+      return { action: 'generate_narratives', topics: request.topics, context: request.context };
+    case 'generate_questions': {
+      if (!isTopic(request.topic) || typeof request.grade !== 'string') return null;
+      if (!isOptionalContext(request.context)) return null;
+      const { count, avoidStems, types, difficultyMix, cognitiveLevelMix } = request;
+      if (count !== undefined && !(Number.isInteger(count) && (count as number) >= 1 && (count as number) <= 5)) return null;
+      if (avoidStems !== undefined && !(
+        Array.isArray(avoidStems)
+        && avoidStems.length <= MAX_AVOID_STEMS
+        && avoidStems.every(stem => typeof stem === 'string')
+      )) return null;
+      if (!isOptionalQuestionTypes(types)) return null;
+      if (!isOptionalMix(difficultyMix, DIFFICULTIES) || !isOptionalMix(cognitiveLevelMix, COGNITIVE_LEVELS)) return null;
+      return {
+        action: 'generate_questions',
+        topic: request.topic,
+        grade: request.grade,
+        options: {
+          context: request.context,
+          count: count as number | undefined,
+          avoidStems: avoidStems as string[] | undefined,
+          types: types ? [...new Set(types as QuestionType[])] : undefined,
+          difficultyMix: difficultyMix as QuestionMix<Difficulty> | undefined,
+          cognitiveLevelMix: cognitiveLevelMix as QuestionMix<CognitiveLevel> | undefined
+        }
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  // Validate the caller's JWT
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return jsonResponse({ error: 'Missing authorization header' }, 401);
+  }
+
+  const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+  if (userError || !user) {
+    return jsonResponse({ error: 'Invalid or expired session. Please sign in again.' }, 401);
+  }
+
+  // Only teachers may generate content
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError || profile?.role !== 'teacher') {
+    return jsonResponse({ error: 'Only teachers can generate content' }, 403);
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const request = parseRequest(body);
+  if (!request) {
+    return jsonResponse({ error: 'Invalid generation request' }, 400);
+  }
+
+  // Enforce the per-teacher quota
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const { count, error: countError } = await supabaseAdmin
+    .from('ai_generation_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq('teacher_id', user.id)
+    .gte('created_at', since);
+
+  if (countError) {
+    console.error('Error checking generation quota:', countError);
+    return jsonResponse({ error: 'Could not check your generation quota' }, 500);
+  }
+
+  if ((count ?? 0) >= DAILY_REQUEST_LIMIT) {
+    return jsonResponse({
+      error: `Daily AI generation limit of ${DAILY_REQUEST_LIMIT} requests reached. Please try again tomorrow.`
+    }, 429);
+  }
+
+  const { error: usageError } = await supabaseAdmin
+    .from('ai_generation_requests')
+    .insert({ teacher_id: user.id, action: request.action });
+
+  if (usageError) {
+    console.error('Error recording generation request:', usageError);
+    return jsonResponse({ error: 'Could not record generation request' }, 500);
+  }
+
+  try {
+    const generator = getContentGenerator();
+    console.log(`Teacher ${user.id} requested ${request.action} from ${generator.name}`);
+
+    switch (request.action) {
+      case 'extract_topics':
+        return jsonResponse({ topics: await generator.extractTopics(request.chapterContent, request.grade, request.part) });
+      case 'merge_topics':
+        return jsonResponse({
+          topics: await generator.mergeTopics(request.topics, request.grade, request.minTopics, request.maxTopics)
+        });
+      case 'generate_narratives':
+        return jsonResponse({ narratives: await generator.generateNarratives(request.topics, request.context) });
+      case 'generate_questions':
+        return jsonResponse({ questions: await generator.generateQuestions(request.topic, request.grade, request.options) });
+    }
+  } catch (error) {
+    console.error(`Error handling ${request.action}:`, error);
+
+    // The model kept returning content that failed validation; nothing was generated
+    if (error instanceof InvalidGenerationError) {
+      return jsonResponse({ error: error.message, issues: error.issues }, 502);
+    }
+    return jsonResponse({ error: 'AI generation failed' }, 500);
+  }
+});
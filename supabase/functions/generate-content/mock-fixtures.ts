@@ -0,0 +1,170 @@
+/**
+ * Fixtures for the mock content generator
+ * A small, self-consistent chapter's worth of content so every screen has realistic data
+ */
+import type { GeneratedQuestion } from './content-generator.ts';
+
+export interface TopicFixture {
+  title: string;
+  description: string;
+  narrative: string;
+  questions: Omit<GeneratedQuestion, 'topicId'>[];
+}
+
+export const topicFixtures: TopicFixture[] = [
+  {
+    title: 'Evaporation',
+    description: 'How heat from the sun turns liquid water from oceans, lakes and rivers into water vapour.',
+    narrative: 'Our explorers wake on a sun-baked beach and notice the puddles from last night have vanished. Where did the water go?',
+    questions: [
+      {
+        stem: 'What provides most of the energy for evaporation on Earth?',
+        optionA: 'The moon',
+        optionB: 'The sun',
+        optionC: 'Volcanoes',
+        optionD: 'Wind turbines',
+        correctOption: 'B'
+      },
+      {
+        stem: 'During evaporation, liquid water changes into which state?',
+        optionA: 'Solid ice',
+        optionB: 'Plasma',
+        optionC: 'Water vapour (gas)',
+        optionD: 'Salt crystals',
+        correctOption: 'C'
+      },
+      {
+        stem: 'Which puddle will most likely evaporate fastest?',
+        optionA: 'A shaded puddle on a cold day',
+        optionB: 'A covered puddle at night',
+        optionC: 'A frozen puddle in winter',
+        optionD: 'A sunny puddle on a warm, windy day',
+        correctOption: 'D'
+      }
+    ]
+  },
+  {
+    title: 'Condensation and Clouds',
+    description: 'How rising water vapour cools and condenses into tiny droplets that form clouds.',
+    narrative: 'Following the invisible vapour upward, the team rides a warm breeze until the air turns cold and misty around them.',
+    questions: [
+      {
+        stem: 'Condensation happens when water vapour does what?',
+        optionA: 'Cools and turns into liquid droplets',
+        optionB: 'Heats up and disappears',
+        optionC: 'Turns directly into rock',
+        optionD: 'Sinks into the ground',
+        correctOption: 'A'
+      },
+      {
+        stem: 'Clouds are mostly made of:',
+        optionA: 'Smoke particles',
+        optionB: 'Cotton fibres',
+        optionC: 'Tiny water droplets or ice crystals',
+        optionD: 'Pure oxygen',
+        correctOption: 'C'
+      },
+      {
+        stem: 'Water forming on the outside of a cold glass is an example of:',
+        optionA: 'Evaporation',
+        optionB: 'Condensation',
+        optionC: 'Precipitation',
+        optionD: 'Melting',
+        correctOption: 'B'
+      }
+    ]
+  },
+  {
+    title: 'Precipitation',
+    description: 'The different forms of water that fall from clouds, and why droplets eventually become heavy enough to fall.',
+    narrative: 'The cloud grows dark and heavy, and suddenly the explorers are tumbling back toward the land inside a raindrop.',
+    questions: [
+      {
+        stem: 'Which of these is NOT a form of precipitation?',
+        optionA: 'Rain',
+        optionB: 'Snow',
+        optionC: 'Hail',
+        optionD: 'Fog',
+        correctOption: 'D'
+      },
+      {
+        stem: 'Why do water droplets in a cloud fall as rain?',
+        optionA: 'They grow too heavy for the air to hold up',
+        optionB: 'The cloud runs out of air',
+        optionC: 'The sun pushes them down',
+        optionD: 'They turn into vapour',
+        correctOption: 'A'
+      },
+      {
+        stem: 'Precipitation falls as snow when the air is:',
+        optionA: 'Very humid and hot',
+        optionB: 'Below freezing',
+        optionC: 'Completely dry',
+        optionD: 'Full of dust',
+        correctOption: 'B'
+      }
+    ]
+  },
+  {
+    title: 'Collection and Runoff',
+    description: 'Where precipitation goes after it lands: rivers, lakes, oceans and underground stores of groundwater.',
+    narrative: 'Splashing onto a hillside, the team races downhill with the runoff, joining streams that lead back to the sea.',
+    questions: [
+      {
+        stem: 'Water that flows over the ground into streams and rivers is called:',
+        optionA: 'Groundwater',
+        optionB: 'Runoff',
+        optionC: 'Condensation',
+        optionD: 'Transpiration',
+        correctOption: 'B'
+      },
+      {
+        stem: 'Where is most of Earth\'s water collected?',
+        optionA: 'Rivers',
+        optionB: 'Glaciers',
+        optionC: 'Oceans',
+        optionD: 'Clouds',
+        correctOption: 'C'
+      },
+      {
+        stem: 'Water that soaks into the soil and is stored underground is called:',
+        optionA: 'Groundwater',
+        optionB: 'Sea water',
+        optionC: 'Water vapour',
+        optionD: 'Hail',
+        correctOption: 'A'
+      }
+    ]
+  },
+  {
+    title: 'People and the Water Cycle',
+    description: 'How human activities such as farming, building and pollution change the way water moves and how clean it is.',
+    narrative: 'Back in town, the explorers see drains, dams and farms, and wonder how people change the journey every drop takes.',
+    questions: [
+      {
+        stem: 'Paving large areas with concrete usually causes:',
+        optionA: 'Less runoff',
+        optionB: 'More groundwater',
+        optionC: 'More runoff',
+        optionD: 'No change at all',
+        correctOption: 'C'
+      },
+      {
+        stem: 'Which action helps keep the water cycle clean?',
+        optionA: 'Pouring oil down drains',
+        optionB: 'Disposing of chemicals safely',
+        optionC: 'Dumping litter in rivers',
+        optionD: 'Overusing fertiliser',
+        correctOption: 'B'
+      },
+      {
+        stem: 'A dam on a river mainly changes:',
+        optionA: 'How and where water is stored and flows',
+        optionB: 'The amount of sunlight',
+        optionC: 'The temperature of the sun',
+        optionD: 'The colour of clouds',
+        correctOption: 'A'
+      }
+    ]
+  }
+];
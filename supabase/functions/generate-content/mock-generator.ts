@@ -0,0 +1,186 @@
+/**
+ * Deterministic mock content generator
+ * Returns fixture content without any network access. The same input always produces the
+ * same output, so the full processing pipeline can be exercised offline and repeatably.
+ */
+import { COGNITIVE_LEVELS, DIFFICULTIES, dedupeTopics } from './content-generator.ts';
+import type { ChapterPart, ContentGenerator, ExtractedTopic, GeneratedQuestion, MergedTopic, QuestionExplanation, QuestionMix, QuestionOptions, QuestionSource, QuestionType, TopicNarrative } from './content-generator.ts';
+import { topicFixtures } from './mock-fixtures.ts';
+
+// FNV-1a hash, used to pick fixtures deterministically from the input
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function findFixture(title: string) {
+  return topicFixtures.find(fixture => fixture.title.toLowerCase() === title.toLowerCase());
+}
+
+// Sentences of a chapter excerpt with the page each is on, for citing as question sources
+function excerptSentences(context: string): QuestionSource[] {
+  const sentences: QuestionSource[] = [];
+  let page: string | null = null;
+  context.split('\n').forEach(line => {
+    const marker = line.trim().match(/^\[Page ([^\]]+)\]$/);
+    if (marker) {
+      page = marker[1];
+      return;
+    }
+    (line.replace(/^[#\-\s]+/, '').match(/[^.!?]+[.!?]/g) ?? [])
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.split(' ').length >= 4)
+      .forEach(excerpt => sentences.push({ excerpt, page }));
+  });
+  return sentences;
+}
+
+// Tags for `count` questions: the requested mix spread in order, or every tag in turn from a
+// content-dependent start
+function mixTags<T extends string>(mix: QuestionMix<T> | undefined, tags: readonly T[], count: number, hash: number): T[] {
+  const weights = tags.map(tag => mix?.[tag] ?? 0);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return Array.from({ length: count }, (_, i) => tags[(hash + i) % tags.length]);
+
+  // Give each question the tag furthest behind its share so far
+  const given = tags.map(() => 0);
+  return Array.from({ length: count }, (_, i) => {
+    const behind = weights.map((weight, t) => (weight / total) * (i + 1) - given[t]);
+    const t = behind.indexOf(Math.max(...behind));
+    given[t]++;
+    return tags[t];
+  });
+}
+
+// A templated explanation, with one for each wrong answer the question's type has
+function templatedExplanation(question: GeneratedQuestion): QuestionExplanation {
+  let wrong: string[] = [];
+  if (question.type === 'multiple_choice') {
+    wrong = ['A', 'B', 'C', 'D'].filter(letter => letter !== question.correctOption);
+  } else if (question.type === 'true_false') {
+    wrong = [String(!question.answer?.value)];
+  } else if (question.type === 'multi_select') {
+    wrong = (question.content?.options ?? []).map((_, index) => String(index))
+      .filter(index => !question.answer?.correct?.includes(Number(index)));
+  }
+
+  return {
+    correct: `Mock explanation: this is what the chapter says about ${question.topicId}.`,
+    distractors: Object.fromEntries(wrong.map(key => [key, `Mock explanation: ${key} does not match the chapter.`]))
+  };
+}
+
+// A templated question of the given type with a stable answer key
+function templatedQuestion(type: QuestionType, topic: string, number: number, hash: number): GeneratedQuestion {
+  const letters = ['A', 'B', 'C', 'D'];
+  const base = { topicId: topic, type };
+
+  switch (type) {
+    case 'multiple_choice':
+      return {
+        ...base,
+        stem: `Mock question ${number} about ${topic}: which statement is correct?`,
+        optionA: `Statement A about ${topic}`,
+        optionB: `Statement B about ${topic}`,
+        optionC: `Statement C about ${topic}`,
+        optionD: `Statement D about ${topic}`,
+        correctOption: letters[(hash + number - 1) % letters.length]
+      };
+    case 'true_false':
+      return { ...base, stem: `Mock question ${number} about ${topic}: true or false?`, content: null, answer: { value: (hash + number) % 2 === 0 } };
+    case 'multi_select':
+      return {
+        ...base,
+        stem: `Mock question ${number} about ${topic}: select all that apply.`,
+        content: { options: ['First statement', 'Second statement', 'Third statement', 'Fourth statement'] },
+        answer: { correct: [0, 2] }
+      };
+    case 'numeric':
+      return { ...base, stem: `Mock question ${number} about ${topic}: how many?`, content: { unit: null }, answer: { number: number * 2, tolerance: 0 } };
+    case 'short_text':
+      return { ...base, stem: `Mock question ${number} about ${topic}: name it.`, content: null, answer: { accepted: [topic] } };
+    case 'ordering':
+      return {
+        ...base,
+        stem: `Mock question ${number} about ${topic}: put these in order.`,
+        content: { items: ['Third step', 'First step', 'Second step'] },
+        answer: { order: [1, 2, 0] }
+      };
+    case 'matching':
+      return {
+        ...base,
+        stem: `Mock question ${number} about ${topic}: match the pairs.`,
+        content: { left: ['One', 'Two', 'Three'], right: ['3', '1', '2'] },
+        answer: { pairs: [1, 2, 0] }
+      };
+  }
+}
+
+export function createMockGenerator(): ContentGenerator {
+  return {
+    name: 'mock generator',
+
+    async extractTopics(chapterContent: string, grade: string, part?: ChapterPart): Promise<ExtractedTopic[]> {
+      const hash = hashString(`${grade}:${chapterContent}`);
+
+      // Between 3 and 5 topics for a whole chapter, 1 or 2 for one part of a long chapter,
+      // starting at a content-dependent fixture
+      const count = part && part.total > 1 ? 1 + (hash % 2) : 3 + (hash % 3);
+      const start = hash % topicFixtures.length;
+
+      return Array.from({ length: count }, (_, i) => {
+        const fixture = topicFixtures[(start + i) % topicFixtures.length];
+        return { title: fixture.title, description: fixture.description };
+      });
+    },
+
+    async mergeTopics(candidates: ExtractedTopic[], _grade: string, _minTopics: number, maxTopics: number): Promise<MergedTopic[]> {
+      return dedupeTopics(candidates, maxTopics);
+    },
+
+    async generateNarratives(topics: ExtractedTopic[]): Promise<TopicNarrative[]> {
+      return topics.map((topic, index) => ({
+        topicId: index.toString(),
+        narrative: findFixture(topic.title)?.narrative
+          ?? `The adventure continues as our explorers discover ${topic.title}.`
+      }));
+    },
+
+    async generateQuestions(topic: ExtractedTopic, _grade: string, options: QuestionOptions = {}): Promise<GeneratedQuestion[]> {
+      const avoid = new Set((options.avoidStems ?? []).map(stem => stem.toLowerCase()));
+      const types = options.types ?? ['multiple_choice'];
+      const fixture = findFixture(topic.title);
+      // Fixture questions are all multiple choice
+      const fixtureQuestions = (types.includes('multiple_choice') ? fixture?.questions ?? [] : [])
+        .filter(question => !avoid.has(question.stem.toLowerCase()))
+        .map(question => ({ ...question, type: 'multiple_choice' as const, topicId: topic.title }));
+
+      // Top up with templated questions with a stable answer key, cycling through the requested
+      // types and numbered past anything the caller already has so regenerated questions never repeat
+      const count = options.count ?? (fixture ? fixture.questions.length : 3);
+      const hash = hashString(topic.title);
+      const templated: GeneratedQuestion[] = [];
+      for (let i = avoid.size; fixtureQuestions.length + templated.length < count; i++) {
+        const question = templatedQuestion(types[i % types.length], topic.title, i + 1, hash);
+        if (avoid.has(question.stem.toLowerCase())) continue;
+        templated.push(question);
+      }
+
+      // Cite a stable sentence of the excerpt, so grounded questions always have a source
+      const sentences = options.context ? excerptSentences(options.context) : [];
+      const difficulties = mixTags(options.difficultyMix, DIFFICULTIES, count, hash);
+      const levels = mixTags(options.cognitiveLevelMix, COGNITIVE_LEVELS, count, hash);
+      return [...fixtureQuestions, ...templated].slice(0, count).map((question, i) => ({
+        ...question,
+        difficulty: difficulties[i],
+        cognitiveLevel: levels[i],
+        explanation: templatedExplanation(question),
+        ...(sentences.length > 0 ? { source: sentences[(hash + i) % sentences.length] } : {})
+      }));
+    }
+  };
+}
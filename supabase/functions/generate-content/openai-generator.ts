@@ -0,0 +1,346 @@
+/**
+ * Chat completion content generator
+ * Works against OpenAI or any OpenAI-compatible endpoint (e.g. Ollama, llama.cpp server)
+ */
+import OpenAI from 'npm:openai@4';
+import { dedupeTopics } from './content-generator.ts';
+import type { ChapterPart, ContentGenerator, ExtractedTopic, GeneratedQuestion, MergedTopic, QuestionMix, QuestionOptions, QuestionType, TopicNarrative } from './content-generator.ts';
+import { InvalidGenerationError, mergedTopicsSchema, narrativesSchema, questionsSchema, topicsSchema } from './schemas.ts';
+import type { Validator } from './schemas.ts';
+
+type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+// First attempt plus repair attempts before giving up on a response
+const MAX_ATTEMPTS = 3;
+
+// How each question type is described to the model, with an example object
+const QUESTION_TYPE_FORMATS: Record<QuestionType, { description: string; example: string }> = {
+  multiple_choice: {
+    description: 'four different options A-D with exactly one correct; correctOption is only the letter',
+    example: '{ "type": "multiple_choice", "stem": "Question text here?", "optionA": "First option", "optionB": "Second option", "optionC": "Third option", "optionD": "Fourth option", "correctOption": "A" }'
+  },
+  true_false: {
+    description: 'a statement that is clearly true or false',
+    example: '{ "type": "true_false", "stem": "Statement to judge.", "answer": true }'
+  },
+  multi_select: {
+    description: '3-6 different options where one or more are correct; correctIndexes are 0-based',
+    example: '{ "type": "multi_select", "stem": "Which of these...? Select all that apply.", "options": ["First", "Second", "Third", "Fourth"], "correctIndexes": [0, 2] }'
+  },
+  numeric: {
+    description: 'a question whose answer is a number; tolerance is how far off an answer may be and still count',
+    example: '{ "type": "numeric", "stem": "How many...?", "answer": 12, "tolerance": 0, "unit": "cm" }'
+  },
+  short_text: {
+    description: 'a question answered with a word or short phrase; list every acceptable answer',
+    example: '{ "type": "short_text", "stem": "What is the name of...?", "acceptedAnswers": ["evaporation"] }'
+  },
+  ordering: {
+    description: '3-6 steps or items listed in the correct order',
+    example: '{ "type": "ordering", "stem": "Put these steps in order.", "items": ["First step", "Second step", "Third step"] }'
+  },
+  matching: {
+    description: '3-6 pairs to match; every left and every right entry must be different',
+    example: '{ "type": "matching", "stem": "Match each term to its meaning.", "pairs": [{ "left": "Term", "right": "Meaning" }, { "left": "Term 2", "right": "Meaning 2" }, { "left": "Term 3", "right": "Meaning 3" }] }'
+  }
+};
+
+// What each cognitive level asks of a student
+const COGNITIVE_LEVEL_DESCRIPTIONS = [
+  'recall: remember a fact, term or definition from the text',
+  'understand: explain, summarize or give the meaning of an idea in other words',
+  'apply: use an idea or rule in a new situation or example',
+  'analyze: compare ideas, find causes and effects, or break something into parts'
+];
+
+// A target mix for the prompt: exact numbers when the question count is known, else percentages
+function describeMix<T extends string>(mix: QuestionMix<T>, count?: number): string {
+  const entries = (Object.entries(mix) as [T, number][]).filter(([, share]) => share > 0);
+  const total = entries.reduce((sum, [, share]) => sum + share, 0);
+  if (!count) {
+    return entries.map(([key, share]) => `${Math.round((share / total) * 100)}% ${key}`).join(', ');
+  }
+
+  // Largest remainder, so the numbers add up to the count
+  const exact = entries.map(([key, share]) => ({ key, value: (share / total) * count }));
+  const counts = exact.map(({ key, value }) => ({ key, count: Math.floor(value), remainder: value - Math.floor(value) }));
+  let left = count - counts.reduce((sum, entry) => sum + entry.count, 0);
+  [...counts].sort((a, b) => b.remainder - a.remainder).forEach(entry => {
+    if (left > 0) {
+      entry.count++;
+      left--;
+    }
+  });
+  return counts.filter(entry => entry.count > 0).map(entry => `${entry.count} ${entry.key}`).join(', ');
+}
+
+interface ChatCompletionGeneratorOptions {
+  name: string;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  // Not every local server supports OpenAI's JSON mode
+  jsonMode?: boolean;
+}
+
+export function createChatCompletionGenerator({
+  name,
+  model,
+  apiKey,
+  baseURL,
+  jsonMode = true
+}: ChatCompletionGeneratorOptions): ContentGenerator {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  // Send a chat request and return the raw message content
+  async function complete(messages: ChatMessage[]): Promise<string> {
+    const response = await client.chat.completions.create({
+      model,
+      messages,
+      ...(jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+    });
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  /**
+   * Send a prompt and validate the JSON response against a schema. When the response is
+   * malformed the model is shown what was wrong and asked to correct it, up to MAX_ATTEMPTS
+   * times in total, after which an InvalidGenerationError is thrown.
+   */
+  async function completeWithSchema<T>(prompt: string, validate: Validator<T>, description: string): Promise<T> {
+    const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      console.log(`Sending request for ${description} to ${name} (attempt ${attempt} of ${MAX_ATTEMPTS})...`);
+      const content = await complete(messages);
+      console.log('Model response received:', content.substring(0, 150) + '...');
+
+      let parsed: unknown;
+      try {
+        // Some local models wrap JSON in markdown fences even when asked not to
+        parsed = JSON.parse(content.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+      } catch (parseError) {
+        issues = [`Response was not valid JSON (${parseError instanceof Error ? parseError.message : 'parse error'})`];
+      }
+
+      if (parsed !== undefined) {
+        const result = validate(parsed);
+        if (result.ok) {
+          return result.value;
+        }
+        issues = result.issues;
+      }
+
+      console.warn(`Invalid ${description} from ${name} on attempt ${attempt}:`, issues);
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your response did not match the required format:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\n`
+            + 'Reply with only the corrected JSON object, in the same format as requested.'
+        }
+      );
+    }
+
+    throw new InvalidGenerationError(
+      `The AI returned invalid ${description} after ${MAX_ATTEMPTS} attempts: ${issues.slice(0, 3).join('; ')}`,
+      issues
+    );
+  }
+
+  /**
+   * Extract instructional topics from chapter content, or from one part of a long chapter
+   */
+  async function extractTopics(chapterContent: string, grade: string, part?: ChapterPart): Promise<ExtractedTopic[]> {
+    try {
+      console.log(`Extracting topics for Grade ${grade} content (${chapterContent.length} chars)`);
+    
+      const isPartial = !!part && part.total > 1;
+      const source = isPartial
+        ? `part ${part.index + 1} of ${part.total} of a chapter for Grade ${grade}${part.heading ? ` (starting at the section "${part.heading}")` : ''}`
+        : `the full text of a chapter for Grade ${grade}`;
+      const topicCount = isPartial
+        ? '1-3 instructional topics that this part of the chapter teaches'
+        : '3-5 instructional topics from this chapter that represent distinct conceptual areas a teacher might cover';
+    
+      const prompt = `You are given ${source}. 
+      Extract ${topicCount}. 
+      For each topic, include a short 1-2 line summary of what is covered in that topic.
+    
+      Format your response as a JSON object with a "topics" array, where each object in the array has 'title' and 'description' fields.
+    
+      Example response format:
+      {
+        "topics": [
+          {
+            "title": "Topic Title",
+            "description": "Short description of what this topic covers"
+          }
+        ]
+      }
+    
+      Chapter content:
+      ${chapterContent}`;
+
+      const topics = await completeWithSchema(prompt, topicsSchema(1, isPartial ? 3 : 5), 'topics');
+      console.log(`Extracted ${topics.length} topics`);
+      return topics;
+    } catch (error) {
+      console.error('Error extracting topics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Merge topics extracted from separate parts of a chapter into one deduplicated list
+   */
+  async function mergeTopics(candidates: ExtractedTopic[], grade: string, minTopics: number, maxTopics: number): Promise<MergedTopic[]> {
+    try {
+      console.log(`Merging ${candidates.length} candidate topics into ${minTopics}-${maxTopics}`);
+
+      const prompt = `The following candidate instructional topics were extracted separately from consecutive parts of one Grade ${grade} chapter, so some of them repeat or overlap.
+      Merge them into a final list of ${minTopics}-${maxTopics} distinct topics. Combine duplicates and closely related candidates, and keep the order in which the chapter covers them.
+      For each final topic give a 'title', a short 1-2 line 'description', and 'sourceIndexes': the numbers of every candidate it was built from.
+
+      Format your response as a JSON object with a "topics" array.
+
+      Example response format:
+      {
+        "topics": [
+          {
+            "title": "Topic Title",
+            "description": "Short description of what this topic covers",
+            "sourceIndexes": [0, 3]
+          }
+        ]
+      }
+
+      Candidates:
+      ${candidates.map((t, i) => `${i}: ${t.title} - ${t.description}`).join('\n')}`;
+
+      return await completeWithSchema(prompt, mergedTopicsSchema(candidates.length, minTopics, maxTopics), 'merged topics');
+    } catch (error) {
+      if (!(error instanceof InvalidGenerationError)) {
+        console.error('Error merging topics:', error);
+        throw error;
+      }
+      // Every candidate is real extracted content, so a title-based merge is a safe fallback
+      console.warn('Falling back to title-based merge:', error.issues);
+      return dedupeTopics(candidates, maxTopics);
+    }
+  }
+
+  /**
+   * Generate narrative snippets for each topic
+   */
+  async function generateNarratives(topics: ExtractedTopic[], context?: string): Promise<TopicNarrative[]> {
+    try {
+      console.log(`Generating narratives for ${topics.length} topics`);
+      const topicTitles = topics.map(t => t.title).join(', ');
+    
+      const prompt = `Using the following list of topics: ${topicTitles}, 
+      generate a connected storyline that links all the topics together as a single classroom adventure. 
+      Provide one short narrative snippet (2-3 lines) for each topic, forming parts of a continuous story.
+    
+      Format your response as a JSON object with a "narratives" array, where each object in the array has 'topicId' (the index of the topic, 0-based) and 'narrative' fields.
+    
+      Example response format:
+      {
+        "narratives": [
+          {
+            "topicId": "0",
+            "narrative": "Short narrative connecting to the topic"
+          }
+        ]
+      }
+    
+      Topics:
+      ${topics.map((t, i) => `${i}: ${t.title} - ${t.description}`).join('\n')}${context ? `
+
+      Keep the story consistent with this excerpt from the chapter:
+      ---
+      ${context}
+      ---` : ''}`;
+
+      const narratives = await completeWithSchema(prompt, narrativesSchema(topics.length), 'narratives');
+      console.log(`Generated ${narratives.length} narratives`);
+      return narratives;
+    } catch (error) {
+      console.error('Error generating narratives:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate questions for a specific topic
+   */
+  async function generateQuestions(topic: ExtractedTopic, grade: string, options: QuestionOptions = {}): Promise<GeneratedQuestion[]> {
+    try {
+      console.log(`Generating questions for topic: ${topic.title}`);
+      const { context, count, avoidStems = [], types = ['multiple_choice'], difficultyMix, cognitiveLevelMix } = options;
+    
+      const prompt = `Create ${count ? `exactly ${count}` : '3-5'} question${count === 1 ? '' : 's'} based on the topic: '${topic.title}'. 
+      Each question should be clear and targeted at a Grade ${grade} student. 
+    
+      Topic description: ${topic.description}
+      ${context ? `
+      Base the questions only on facts stated in this excerpt from the chapter:
+      ---
+      ${context}
+      ---
+
+      Give every question a "source" object saying where in the excerpt its answer comes from:
+      "excerpt" is the sentence or two that support the answer, copied word for word from the excerpt above,
+      and "page" is the page number from the nearest [Page N] line above that text, or null if there is none.
+      ` : ''}${avoidStems.length > 0 ? `
+      Do not repeat or closely paraphrase any of these existing questions:
+      ${avoidStems.map(stem => `- ${stem}`).join('\n')}
+      ` : ''}
+      ${types.length > 1 ? `Use a mix of these question types, choosing whichever suits each fact best:` : 'Use this question type:'}
+      ${types.map(type => `- ${type}: ${QUESTION_TYPE_FORMATS[type].description}`).join('\n')}
+
+      Tag every question with a "difficulty" of easy, medium or hard for a Grade ${grade} student, and the
+      "cognitiveLevel" it tests:
+      ${COGNITIVE_LEVEL_DESCRIPTIONS.map(level => `- ${level}`).join('\n')}
+      ${difficultyMix ? `Aim for this mix of difficulties: ${describeMix(difficultyMix, count)}.` : 'Include a range of difficulties.'}
+      ${cognitiveLevelMix ? `Aim for this mix of cognitive levels: ${describeMix(cognitiveLevelMix, count)}.` : 'Go beyond recall where the text allows.'}
+
+      Students read an explanation after answering each question. Give every question an "explanation":
+      one or two sentences saying why the correct answer is right. Also give a "wrongAnswers" object with one
+      sentence for each wrong choice saying why it is wrong, keyed by the option letter for multiple_choice,
+      by the 0-based option index for multi_select, and by "true" or "false" for true_false; other types use {}.
+    
+      Format your response as a JSON object with a "questions" array. Every question has a 'type' and a 'stem'
+      plus the fields for its type, a "difficulty" and "cognitiveLevel", an "explanation" and "wrongAnswers" such as { "B": "Why B is wrong.", "C": "...", "D": "..." }${context ? ' and a "source" such as { "excerpt": "Copied sentence.", "page": "42" }' : ''}, exactly as in these examples:
+      ${types.map(type => QUESTION_TYPE_FORMATS[type].example).join('\n')}
+    
+      Example response format:
+      {
+        "questions": [
+          ${QUESTION_TYPE_FORMATS[types[0]].example}
+        ]
+      }`;
+
+      const questions = await completeWithSchema(
+        prompt,
+        questionsSchema(topic.title, count ?? 3, count ?? 5, avoidStems, types, !!context),
+        `questions for "${topic.title}"`
+      );
+      console.log(`Generated ${questions.length} questions for topic: ${topic.title}`);
+      return questions;
+    } catch (error) {
+      console.error('Error generating questions:', error);
+      throw error;
+    }
+  }
+
+  return {
+    name,
+    extractTopics,
+    mergeTopics,
+    generateNarratives,
+    generateQuestions
+  };
+}
@@ -0,0 +1,483 @@
+/**
+ * Runtime schemas for model responses
+ * Model output is untrusted: every response is checked here before it can reach the app,
+ * and the list of problems is fed back to the model when asking it to repair its answer
+ */
+import { COGNITIVE_LEVELS, DIFFICULTIES } from './content-generator.ts';
+import type { CognitiveLevel, Difficulty, ExtractedTopic, GeneratedQuestion, MergedTopic, QuestionExplanation, QuestionSource, QuestionType, TopicNarrative } from './content-generator.ts';
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: string[] };
+
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+/**
+ * Thrown when a model keeps returning content that fails validation
+ */
+export class InvalidGenerationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'InvalidGenerationError';
+    this.issues = issues;
+  }
+}
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D'] as const;
+
+// Longest supporting excerpt a question may cite
+const MAX_SOURCE_LENGTH = 500;
+
+// Longest explanation of an answer; students read it in the few seconds before the next question
+const MAX_EXPLANATION_LENGTH = 400;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// Pull the named array out of a `{ [key]: [...] }` response
+function getArray(value: unknown, key: string, issues: string[]): unknown[] | null {
+  const response = value as Record<string, unknown> | null;
+  if (!response || typeof response !== 'object' || !Array.isArray(response[key])) {
+    issues.push(`Response must be a JSON object with a "${key}" array`);
+    return null;
+  }
+  return response[key] as unknown[];
+}
+
+function checkCount(items: unknown[], label: string, min: number, max: number, issues: string[]) {
+  if (items.length < min || items.length > max) {
+    issues.push(`Expected ${min}-${max} ${label}, got ${items.length}`);
+  }
+}
+
+function checkTopicFields(item: unknown, label: string, issues: string[]): ExtractedTopic | null {
+  const topic = item as Record<string, unknown> | null;
+  if (!topic || typeof topic !== 'object') {
+    issues.push(`${label} must be an object`);
+    return null;
+  }
+
+  let valid = true;
+  if (!isNonEmptyString(topic.title)) {
+    issues.push(`${label} needs a non-empty "title"`);
+    valid = false;
+  }
+  if (!isNonEmptyString(topic.description)) {
+    issues.push(`${label} needs a non-empty "description"`);
+    valid = false;
+  }
+
+  return valid ? { title: (topic.title as string).trim(), description: (topic.description as string).trim() } : null;
+}
+
+function checkDistinctTitles(topics: ExtractedTopic[], issues: string[]) {
+  const seen = new Set<string>();
+  topics.forEach(topic => {
+    const key = topic.title.toLowerCase();
+    if (seen.has(key)) {
+      issues.push(`Topic title "${topic.title}" is used more than once`);
+    }
+    seen.add(key);
+  });
+}
+
+/**
+ * `{ topics: [{ title, description }] }` with between `min` and `max` distinct topics
+ */
+export function topicsSchema(min: number, max: number): Validator<ExtractedTopic[]> {
+  return (value) => {
+    const issues: string[] = [];
+    const items = getArray(value, 'topics', issues);
+    if (!items) return { ok: false, issues };
+
+    checkCount(items, 'topics', min, max, issues);
+    const topics = items
+      .map((item, i) => checkTopicFields(item, `Topic ${i + 1}`, issues))
+      .filter((topic): topic is ExtractedTopic => topic !== null);
+    checkDistinctTitles(topics, issues);
+
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, value: topics };
+  };
+}
+
+/**
+ * `{ topics: [{ title, description, sourceIndexes }] }` where every index points at a candidate
+ */
+export function mergedTopicsSchema(candidateCount: number, min: number, max: number): Validator<MergedTopic[]> {
+  return (value) => {
+    const issues: string[] = [];
+    const items = getArray(value, 'topics', issues);
+    if (!items) return { ok: false, issues };
+
+    // Can't produce more distinct topics than there were candidates
+    checkCount(items, 'topics', Math.min(min, candidateCount), max, issues);
+    const topics: MergedTopic[] = [];
+    items.forEach((item, i) => {
+      const label = `Topic ${i + 1}`;
+      const topic = checkTopicFields(item, label, issues);
+      const sourceIndexes = (item as Record<string, unknown> | null)?.sourceIndexes;
+
+      if (!Array.isArray(sourceIndexes) || sourceIndexes.length === 0) {
+        issues.push(`${label} needs a non-empty "sourceIndexes" array`);
+        return;
+      }
+      const invalid = sourceIndexes.filter(index => !Number.isInteger(index) || index < 0 || index >= candidateCount);
+      if (invalid.length > 0) {
+        issues.push(`${label} has sourceIndexes outside 0-${candidateCount - 1}: ${invalid.join(', ')}`);
+        return;
+      }
+      if (topic) {
+        topics.push({ ...topic, sourceIndexes: sourceIndexes as number[] });
+      }
+    });
+    checkDistinctTitles(topics, issues);
+
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, value: topics };
+  };
+}
+
+/**
+ * `{ narratives: [{ topicId, narrative }] }` with exactly one narrative per topic index
+ */
+export function narrativesSchema(topicCount: number): Validator<TopicNarrative[]> {
+  return (value) => {
+    const issues: string[] = [];
+    const items = getArray(value, 'narratives', issues);
+    if (!items) return { ok: false, issues };
+
+    const byTopic = new Map<number, string>();
+    items.forEach((item, i) => {
+      const narrative = item as Record<string, unknown> | null;
+      const label = `Narrative ${i + 1}`;
+      const topicId = Number(narrative?.topicId);
+
+      if (!Number.isInteger(topicId) || topicId < 0 || topicId >= topicCount) {
+        issues.push(`${label} has topicId "${narrative?.topicId}", expected 0-${topicCount - 1}`);
+        return;
+      }
+      if (!isNonEmptyString(narrative?.narrative)) {
+        issues.push(`${label} needs a non-empty "narrative"`);
+        return;
+      }
+      if (byTopic.has(topicId)) {
+        issues.push(`Topic ${topicId} has more than one narrative`);
+        return;
+      }
+      byTopic.set(topicId, (narrative!.narrative as string).trim());
+    });
+
+    for (let i = 0; i < topicCount; i++) {
+      if (!byTopic.has(i)) {
+        issues.push(`Missing narrative for topic ${i}`);
+      }
+    }
+
+    if (issues.length > 0) return { ok: false, issues };
+    return {
+      ok: true,
+      value: [...byTopic.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([topicId, narrative]) => ({ topicId: topicId.toString(), narrative }))
+    };
+  };
+}
+
+// Shuffle a copy of a list so students don't see items in answer order; never returns the
+// original order for lists longer than one item
+function shuffledIndexes(length: number): number[] {
+  const indexes = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+  return length > 1 && indexes.every((index, i) => index === i) ? indexes.reverse() : indexes;
+}
+
+// Check a list of 3-6 distinct, non-empty strings
+function checkStringList(value: unknown, field: string, label: string, issues: string[]): string[] | null {
+  if (!Array.isArray(value) || value.length < 3 || value.length > 6) {
+    issues.push(`${label} needs a "${field}" array of 3-6 entries`);
+    return null;
+  }
+  if (!value.every(isNonEmptyString)) {
+    issues.push(`${label} has an empty entry in "${field}"`);
+    return null;
+  }
+  const trimmed = (value as string[]).map(entry => entry.trim());
+  if (new Set(trimmed.map(entry => entry.toLowerCase())).size < trimmed.length) {
+    issues.push(`${label} has duplicate entries in "${field}"`);
+    return null;
+  }
+  return trimmed;
+}
+
+// The supporting excerpt and page of one question. Whether the excerpt really is in the chapter
+// is checked by the app against the saved chapter text, where it can flag it for the teacher.
+function checkSource(value: unknown, label: string, issues: string[]): QuestionSource | null {
+  const source = value as Record<string, unknown> | null;
+  if (!source || typeof source !== 'object' || !isNonEmptyString(source.excerpt)) {
+    issues.push(`${label} needs a "source" object with the "excerpt" it is based on`);
+    return null;
+  }
+  if (source.excerpt.trim().length > MAX_SOURCE_LENGTH) {
+    issues.push(`${label} has a source excerpt longer than ${MAX_SOURCE_LENGTH} characters; quote only the supporting sentence`);
+    return null;
+  }
+
+  const page = typeof source.page === 'number' || isNonEmptyString(source.page)
+    ? String(source.page).trim().replace(/^(?:pages?|pp?\.?)\s*/i, '')
+    : null;
+  return { excerpt: source.excerpt.trim(), page };
+}
+
+type QuestionFields = Omit<GeneratedQuestion, 'topicId' | 'stem' | 'source' | 'explanation' | 'difficulty' | 'cognitiveLevel'>;
+
+// How hard the question is and which cognitive level it tests
+function checkTags(question: Record<string, unknown>, label: string, issues: string[]): { difficulty: Difficulty; cognitiveLevel: CognitiveLevel } | null {
+  const difficulty = typeof question.difficulty === 'string' ? question.difficulty.trim().toLowerCase() : '';
+  const cognitiveLevel = typeof question.cognitiveLevel === 'string' ? question.cognitiveLevel.trim().toLowerCase() : '';
+  const before = issues.length;
+
+  if (!(DIFFICULTIES as readonly string[]).includes(difficulty)) {
+    issues.push(`${label} has difficulty "${question.difficulty}", expected one of: ${DIFFICULTIES.join(', ')}`);
+  }
+  if (!(COGNITIVE_LEVELS as readonly string[]).includes(cognitiveLevel)) {
+    issues.push(`${label} has cognitiveLevel "${question.cognitiveLevel}", expected one of: ${COGNITIVE_LEVELS.join(', ')}`);
+  }
+
+  return issues.length > before
+    ? null
+    : { difficulty: difficulty as Difficulty, cognitiveLevel: cognitiveLevel as CognitiveLevel };
+}
+
+// The wrong answers of a checked question that need explaining, as students would give them
+function getDistractorKeys(fields: QuestionFields): string[] {
+  switch (fields.type) {
+    case 'multiple_choice':
+      return OPTION_LETTERS.filter(letter => letter !== fields.correctOption);
+    case 'true_false':
+      return [String(!fields.answer?.value)];
+    case 'multi_select':
+      return (fields.content?.options ?? [])
+        .map((_, index) => index)
+        .filter(index => !fields.answer?.correct?.includes(index))
+        .map(String);
+    default:
+      return [];
+  }
+}
+
+// Why the answer is right and why each wrong choice isn't
+function checkExplanation(question: Record<string, unknown>, fields: QuestionFields, label: string, issues: string[]): QuestionExplanation | null {
+  if (!isNonEmptyString(question.explanation)) {
+    issues.push(`${label} needs a non-empty "explanation" of why the answer is correct`);
+    return null;
+  }
+  if (question.explanation.trim().length > MAX_EXPLANATION_LENGTH) {
+    issues.push(`${label} has an explanation longer than ${MAX_EXPLANATION_LENGTH} characters; keep it to one or two sentences`);
+    return null;
+  }
+
+  const wrongAnswers = (question.wrongAnswers ?? {}) as Record<string, unknown>;
+  if (typeof wrongAnswers !== 'object' || Array.isArray(wrongAnswers)) {
+    issues.push(`${label} needs "wrongAnswers" to be an object`);
+    return null;
+  }
+  const keys = getDistractorKeys(fields);
+  const missing = keys.filter(key => !isNonEmptyString(wrongAnswers[key]));
+  if (missing.length > 0) {
+    issues.push(`${label} needs a "wrongAnswers" object explaining why each of these is wrong: ${missing.join(', ')}`);
+    return null;
+  }
+
+  return {
+    correct: question.explanation.trim(),
+    distractors: Object.fromEntries(keys.map(key => [key, (wrongAnswers[key] as string).trim()]))
+  };
+}
+
+// Type-specific fields of one question, converted to the stored shape
+function checkQuestionFields(question: Record<string, unknown>, type: QuestionType, label: string, issues: string[]): QuestionFields | null {
+  switch (type) {
+    case 'multiple_choice': {
+      const before = issues.length;
+      const options = OPTION_LETTERS.map(letter => question[`option${letter}`]);
+      options.forEach((option, index) => {
+        if (!isNonEmptyString(option)) {
+          issues.push(`${label} needs a non-empty "option${OPTION_LETTERS[index]}"`);
+        }
+      });
+      const normalized = options.filter(isNonEmptyString).map(option => option.trim().toLowerCase());
+      if (new Set(normalized).size < normalized.length) {
+        issues.push(`${label} has duplicate options; all four must be different`);
+      }
+
+      const correctOption = typeof question.correctOption === 'string' ? question.correctOption.trim().toUpperCase() : '';
+      if (!(OPTION_LETTERS as readonly string[]).includes(correctOption)) {
+        issues.push(`${label} has correctOption "${question.correctOption}", expected A, B, C or D`);
+      }
+
+      if (issues.length > before) return null;
+      return {
+        type,
+        optionA: (options[0] as string).trim(),
+        optionB: (options[1] as string).trim(),
+        optionC: (options[2] as string).trim(),
+        optionD: (options[3] as string).trim(),
+        correctOption
+      };
+    }
+
+    case 'true_false':
+      if (typeof question.answer !== 'boolean') {
+        issues.push(`${label} needs "answer" set to true or false`);
+        return null;
+      }
+      return { type, content: null, answer: { value: question.answer } };
+
+    case 'multi_select': {
+      const options = checkStringList(question.options, 'options', label, issues);
+      const correct = question.correctIndexes;
+      if (!options) return null;
+      if (
+        !Array.isArray(correct) || correct.length === 0
+        || !correct.every(index => Number.isInteger(index) && index >= 0 && index < options.length)
+        || new Set(correct).size < correct.length
+      ) {
+        issues.push(`${label} needs "correctIndexes": distinct indexes 0-${options.length - 1} of the correct options`);
+        return null;
+      }
+      return {
+        type,
+        content: { options },
+        answer: { correct: [...(correct as number[])].sort((a, b) => a - b) }
+      };
+    }
+
+    case 'numeric': {
+      const tolerance = question.tolerance ?? 0;
+      if (typeof question.answer !== 'number' || !Number.isFinite(question.answer)) {
+        issues.push(`${label} needs a numeric "answer"`);
+        return null;
+      }
+      if (typeof tolerance !== 'number' || !Number.isFinite(tolerance) || tolerance < 0) {
+        issues.push(`${label} needs a "tolerance" of 0 or more`);
+        return null;
+      }
+      const unit = isNonEmptyString(question.unit) ? question.unit.trim() : null;
+      return { type, content: { unit }, answer: { number: question.answer, tolerance } };
+    }
+
+    case 'short_text': {
+      const accepted = question.acceptedAnswers;
+      if (!Array.isArray(accepted) || accepted.length === 0 || !accepted.every(isNonEmptyString)) {
+        issues.push(`${label} needs a non-empty "acceptedAnswers" array of strings`);
+        return null;
+      }
+      return { type, content: null, answer: { accepted: (accepted as string[]).map(answer => answer.trim()) } };
+    }
+
+    case 'ordering': {
+      const items = checkStringList(question.items, 'items', label, issues);
+      if (!items) return null;
+      // Students see the items shuffled; the key lists the shown positions in the correct order
+      const shown = shuffledIndexes(items.length);
+      return {
+        type,
+        content: { items: shown.map(index => items[index]) },
+        answer: { order: items.map((_, index) => shown.indexOf(index)) }
+      };
+    }
+
+    case 'matching': {
+      const pairs = question.pairs;
+      if (!Array.isArray(pairs) || pairs.length < 3 || pairs.length > 6) {
+        issues.push(`${label} needs a "pairs" array of 3-6 { "left", "right" } objects`);
+        return null;
+      }
+      const left = checkStringList(pairs.map(pair => pair?.left), 'pairs[].left', label, issues);
+      const right = checkStringList(pairs.map(pair => pair?.right), 'pairs[].right', label, issues);
+      if (!left || !right) return null;
+      const shown = shuffledIndexes(right.length);
+      return {
+        type,
+        content: { left, right: shown.map(index => right[index]) },
+        answer: { pairs: right.map((_, index) => shown.indexOf(index)) }
+      };
+    }
+  }
+}
+
+/**
+ * `{ questions: [...] }` where each question has a non-empty stem and a `type` from `types`
+ * with that type's fields (see the prompt in openai-generator.ts), and doesn't repeat any of
+ * `avoidStems`. Multiple choice needs four distinct options and a `correctOption` of A-D.
+ * Every question explains its answer and why each wrong choice is wrong, and is tagged with a
+ * difficulty and cognitive level. With `requireSource`, each question also cites the chapter
+ * text it is based on.
+ */
+export function questionsSchema(
+  topicTitle: string,
+  min: number,
+  max: number,
+  avoidStems: string[] = [],
+  types: QuestionType[] = ['multiple_choice'],
+  requireSource = false
+): Validator<GeneratedQuestion[]> {
+  return (value) => {
+    const issues: string[] = [];
+    const items = getArray(value, 'questions', issues);
+    if (!items) return { ok: false, issues };
+
+    checkCount(items, 'questions', min, max, issues);
+    const questions: GeneratedQuestion[] = [];
+    const stems = new Set<string>();
+    const existingStems = new Set(avoidStems.map(stem => stem.trim().toLowerCase()));
+
+    items.forEach((item, i) => {
+      const question = item as Record<string, unknown> | null;
+      const label = `Question ${i + 1}`;
+      if (!question || typeof question !== 'object') {
+        issues.push(`${label} must be an object`);
+        return;
+      }
+
+      const before = issues.length;
+      if (!isNonEmptyString(question.stem)) {
+        issues.push(`${label} needs a non-empty "stem"`);
+      } else if (stems.has(question.stem.trim().toLowerCase())) {
+        issues.push(`${label} repeats an earlier question`);
+      } else if (existingStems.has(question.stem.trim().toLowerCase())) {
+        issues.push(`${label} repeats one of the existing questions it should replace or avoid`);
+      }
+
+      // Models asked only for multiple choice often leave the type out
+      const type = (question.type ?? (types.length === 1 ? types[0] : undefined)) as QuestionType;
+      if (!types.includes(type)) {
+        issues.push(`${label} has type "${question.type}", expected one of: ${types.join(', ')}`);
+        return;
+      }
+
+      const fields = checkQuestionFields(question, type, label, issues);
+      const explanation = fields ? checkExplanation(question, fields, label, issues) : null;
+      const tags = checkTags(question, label, issues);
+      const source = requireSource ? checkSource(question.source, label, issues) : null;
+      if (fields && tags && issues.length === before) {
+        stems.add((question.stem as string).trim().toLowerCase());
+        questions.push({
+          topicId: topicTitle,
+          stem: (question.stem as string).trim(),
+          ...fields,
+          ...tags,
+          explanation,
+          ...(source ? { source } : {})
+        });
+      }
+    });
+
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, value: questions };
+  };
+}
@@ -0,0 +1,60 @@
+/*
+  # Scope students to game sessions
+
+  1. Changes
+    - Re-link `students.session_id` to `game_sessions(id)` so every player belongs to one session
+    - Add `teacher_id` to `game_sessions` so teachers only reuse their own lobby
+    - Make game codes unique among sessions that can still be joined
+    - Add indexes for roster and game code lookups
+
+  2. Security
+    - Allow players (anonymous) to read game sessions so they can join by code
+      and receive status updates over Realtime
+*/
+
+-- Detach students that point at sessions which no longer exist
+UPDATE students
+SET session_id = NULL
+WHERE session_id IS NOT NULL
+AND session_id NOT IN (SELECT id FROM game_sessions);
+
+-- Restore the foreign key that was dropped when game_sessions was temporarily removed
+ALTER TABLE students
+DROP CONSTRAINT IF EXISTS students_session_id_fkey;
+
+ALTER TABLE students
+ADD CONSTRAINT students_session_id_fkey
+FOREIGN KEY (session_id) REFERENCES game_sessions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_students_session_id ON students (session_id);
+
+-- Track which teacher owns a session
+ALTER TABLE game_sessions
+ADD COLUMN IF NOT EXISTS teacher_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_game_sessions_teacher_id ON game_sessions (teacher_id);
+
+-- Close older duplicates so the unique index below can be created
+UPDATE game_sessions g
+SET status = 'completed', ended_at = now()
+WHERE g.status <> 'completed'
+AND EXISTS (
+  SELECT 1 FROM game_sessions newer
+  WHERE newer.game_code = g.game_code
+  AND newer.status <> 'completed'
+  AND newer.created_at > g.created_at
+);
+
+-- A game code identifies exactly one joinable session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_sessions_active_code
+  ON game_sessions (game_code)
+  WHERE status <> 'completed';
+
+-- Players join without a Supabase account, so they need read access to find a session by code
+DROP POLICY IF EXISTS "Players can read game sessions" ON game_sessions;
+
+CREATE POLICY "Players can read game sessions"
+  ON game_sessions
+  FOR SELECT
+  TO anon
+  USING (true);
@@ -0,0 +1,34 @@
+/*
+  # Track AI generation requests per teacher
+
+  1. New Tables
+    - `ai_generation_requests`
+      - `id` (uuid, primary key)
+      - `teacher_id` (uuid, references auth.users)
+      - `action` (text, which generation step was requested)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `ai_generation_requests`
+    - Teachers can read their own usage
+    - Rows are only written by the `generate-content` edge function using the service role
+*/
+
+CREATE TABLE IF NOT EXISTS ai_generation_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('extract_topics', 'generate_narratives', 'generate_questions')),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Quota checks count a teacher's requests over a recent time window
+CREATE INDEX IF NOT EXISTS idx_ai_generation_requests_teacher_created
+  ON ai_generation_requests (teacher_id, created_at DESC);
+
+ALTER TABLE ai_generation_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can read their own generation requests"
+  ON ai_generation_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = teacher_id);
@@ -0,0 +1,24 @@
+/*
+  # Record where topics come from in long chapters
+
+  1. Changes
+    - `topic_details`
+      - `source_chunks` (integer[], chapter chunks the topic was extracted from)
+      - `page_start` (integer, first page the topic covers, null for pasted text)
+      - `page_end` (integer, last page the topic covers, null for pasted text)
+    - `ai_generation_requests`
+      - Allow the new `merge_topics` action, used to combine topics extracted from
+        separate chunks of a long chapter
+*/
+
+ALTER TABLE topic_details
+  ADD COLUMN IF NOT EXISTS source_chunks integer[],
+  ADD COLUMN IF NOT EXISTS page_start integer,
+  ADD COLUMN IF NOT EXISTS page_end integer;
+
+ALTER TABLE ai_generation_requests
+  DROP CONSTRAINT IF EXISTS ai_generation_requests_action_check;
+
+ALTER TABLE ai_generation_requests
+  ADD CONSTRAINT ai_generation_requests_action_check
+  CHECK (action IN ('extract_topics', 'merge_topics', 'generate_narratives', 'generate_questions'));
@@ -0,0 +1,58 @@
+/*
+  # Persist content generation jobs
+
+  1. New Tables
+    - `generation_jobs`
+      - `id` (uuid, primary key)
+      - `chapter_id` (uuid, references chapters)
+      - `teacher_id` (uuid, references auth.users)
+      - `status` (text, running, failed or completed)
+      - `current_step` (text, the step being run or that last ran)
+      - `steps` (jsonb, status, error and output of each step, keyed by step name)
+      - `error` (text, why the job last failed)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Constraints
+    - A chapter has at most one unfinished job at a time
+
+  3. Security
+    - Enable RLS on `generation_jobs`
+    - Teachers can create, read and update their own jobs
+*/
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chapter_id uuid NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  teacher_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'failed', 'completed')),
+  current_step text NOT NULL DEFAULT 'extract_topics'
+    CHECK (current_step IN ('extract_topics', 'generate_narratives', 'generate_questions', 'save_content')),
+  steps jsonb NOT NULL DEFAULT '{}'::jsonb,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_unfinished_chapter
+  ON generation_jobs (chapter_id)
+  WHERE status <> 'completed';
+
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can read their own generation jobs"
+  ON generation_jobs
+  FOR SELECT
+  TO authenticated
+  USING (teacher_id = auth.uid());
+
+CREATE POLICY "Teachers can create generation jobs"
+  ON generation_jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (teacher_id = auth.uid());
+
+CREATE POLICY "Teachers can update their own generation jobs"
+  ON generation_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (teacher_id = auth.uid());
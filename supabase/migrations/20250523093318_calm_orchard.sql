@@ -0,0 +1,25 @@
+/*
+  # Let teachers order topics
+
+  1. Changes
+    - `topic_details`
+      - `position` (integer, order of the topic within its chapter)
+    - Existing topics are numbered in the order they were created
+
+  2. Indexes
+    - `idx_topic_details_chapter_position` for loading a chapter's topics in order
+*/
+
+ALTER TABLE topic_details
+  ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 0;
+
+UPDATE topic_details t
+SET position = ordered.row_number - 1
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY chapter_id ORDER BY created_at, id) AS row_number
+  FROM topic_details
+) ordered
+WHERE t.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS idx_topic_details_chapter_position
+  ON topic_details (chapter_id, position);
@@ -0,0 +1,11 @@
+/*
+  # Let teachers approve questions
+
+  1. Changes
+    - `questions`
+      - `approved` (boolean, default false). Approved questions are kept when a
+        teacher regenerates the rest of a topic's questions.
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS approved boolean NOT NULL DEFAULT false;
@@ -0,0 +1,15 @@
+/*
+  # Teacher-paced live games
+
+  1. Changes
+    - `game_sessions`
+      - `pacing` (text, 'self_paced' or 'teacher_paced', default 'self_paced')
+      - `live_state` (jsonb, the screen the teacher last showed in a teacher-paced game).
+        Screens are pushed to students over a Realtime broadcast channel; this copy lets
+        students who join or reload mid-game catch up.
+*/
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS pacing text NOT NULL DEFAULT 'self_paced'
+    CHECK (pacing IN ('self_paced', 'teacher_paced')),
+  ADD COLUMN IF NOT EXISTS live_state jsonb;
@@ -0,0 +1,185 @@
+/*
+  # Server-authoritative answers
+
+  Students no longer receive the answer key or decide whether they were right. The server
+  records when each question was opened for a student and grades the answer when it arrives,
+  so scores can't be forged from the browser and timing is measured on one clock.
+
+  1. Changes
+    - `game_sessions`
+      - `question_seconds` (integer, default 60): time allowed per question in self-paced games
+    - `responses`
+      - `opened_at` (timestamptz): when the question was opened for the student
+      - `received_at` (timestamptz): when the server received the answer
+      - `response_ms` (integer): `received_at - opened_at` in milliseconds
+
+  2. New Tables
+    - `question_openings`: when each question was first opened for each student
+
+  3. New Functions
+    - `open_question(student_id, question_id)`: record that a question is on the student's screen
+    - `submit_answer(student_id, question_id, selected_option)`: grade and store an answer
+
+  4. Security
+    - Players (anon) can no longer read `questions.correct_option`
+    - Players can no longer write `responses` directly; answers go through `submit_answer`
+    - `question_openings` has RLS enabled with no policies: it is only written by the functions above
+*/
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS question_seconds integer NOT NULL DEFAULT 60
+    CHECK (question_seconds BETWEEN 10 AND 600);
+
+ALTER TABLE responses
+  ADD COLUMN IF NOT EXISTS opened_at timestamptz,
+  ADD COLUMN IF NOT EXISTS received_at timestamptz,
+  ADD COLUMN IF NOT EXISTS response_ms integer;
+
+CREATE TABLE IF NOT EXISTS question_openings (
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  opened_at timestamptz NOT NULL DEFAULT clock_timestamp(),
+  PRIMARY KEY (student_id, question_id)
+);
+
+ALTER TABLE question_openings ENABLE ROW LEVEL SECURITY;
+
+-- Hide the answer key from players; teachers (authenticated) keep full access
+REVOKE SELECT ON questions FROM anon;
+GRANT SELECT (id, topic_id, question_stem, option_a, option_b, option_c, option_d, created_at)
+  ON questions TO anon;
+
+-- Answers are only written by submit_answer
+REVOKE INSERT, UPDATE, DELETE ON responses FROM anon;
+
+-- Check a student may see a question: their game is running and the question is in its chapter.
+-- Teacher-paced games also require the question to be the one the teacher is showing.
+CREATE OR REPLACE FUNCTION public.check_question_access(p_student_id uuid, p_question_id uuid)
+RETURNS game_sessions AS $$
+DECLARE
+  v_session game_sessions;
+BEGIN
+  SELECT gs.* INTO v_session
+  FROM students s
+  JOIN game_sessions gs ON gs.id = s.session_id
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student is not part of a game session';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM questions q
+    JOIN topic_details t ON t.id = q.topic_id
+    WHERE q.id = p_question_id AND t.chapter_id = v_session.chapter_id
+  ) THEN
+    RAISE EXCEPTION 'Question is not part of this game';
+  END IF;
+
+  IF v_session.pacing = 'teacher_paced'
+    AND v_session.live_state -> 'question' ->> 'id' IS DISTINCT FROM p_question_id::text THEN
+    RAISE EXCEPTION 'Question is not open';
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record that a question is on the student's screen; the first opening wins
+CREATE OR REPLACE FUNCTION public.open_question(p_student_id uuid, p_question_id uuid)
+RETURNS timestamptz AS $$
+DECLARE
+  v_opened_at timestamptz;
+BEGIN
+  PERFORM public.check_question_access(p_student_id, p_question_id);
+
+  INSERT INTO question_openings (student_id, question_id)
+  VALUES (p_student_id, p_question_id)
+  ON CONFLICT (student_id, question_id) DO NOTHING;
+
+  SELECT opened_at INTO v_opened_at
+  FROM question_openings
+  WHERE student_id = p_student_id AND question_id = p_question_id;
+
+  RETURN v_opened_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grade and store an answer. 'timeout' records a question the student ran out of time on.
+-- Self-paced answers arriving after the time limit (plus a few seconds' grace for the network)
+-- count as timeouts. Teacher-paced answers are only accepted while the teacher has answers open,
+-- and the result is not returned until the teacher reveals it.
+CREATE OR REPLACE FUNCTION public.submit_answer(p_student_id uuid, p_question_id uuid, p_selected_option text)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_correct_option text;
+  v_opened_at timestamptz;
+  v_received_at timestamptz := clock_timestamp();
+  v_response_ms integer;
+  v_selected text := upper(p_selected_option);
+  v_is_correct boolean;
+BEGIN
+  IF v_selected NOT IN ('A', 'B', 'C', 'D', 'TIMEOUT') THEN
+    RAISE EXCEPTION 'Invalid option';
+  END IF;
+
+  -- Serialize submissions per student so an answer can't be recorded twice
+  PERFORM 1 FROM students WHERE id = p_student_id FOR UPDATE;
+
+  v_session := public.check_question_access(p_student_id, p_question_id);
+
+  IF v_session.pacing = 'teacher_paced' AND v_session.live_state ->> 'phase' <> 'question' THEN
+    RAISE EXCEPTION 'Answers are closed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM responses WHERE student_id = p_student_id AND question_id = p_question_id) THEN
+    RAISE EXCEPTION 'Question already answered';
+  END IF;
+
+  SELECT opened_at INTO v_opened_at
+  FROM question_openings
+  WHERE student_id = p_student_id AND question_id = p_question_id;
+
+  IF v_opened_at IS NULL THEN
+    RAISE EXCEPTION 'Question was not opened';
+  END IF;
+
+  v_response_ms := floor(extract(epoch FROM v_received_at - v_opened_at) * 1000);
+
+  IF v_session.pacing = 'self_paced' AND v_response_ms > (v_session.question_seconds + 5) * 1000 THEN
+    v_selected := 'TIMEOUT';
+  END IF;
+
+  SELECT correct_option INTO v_correct_option FROM questions WHERE id = p_question_id;
+  v_is_correct := v_selected = upper(v_correct_option);
+
+  INSERT INTO responses (
+    student_id, question_id, selected_option, is_correct,
+    submitted_at, opened_at, received_at, response_ms
+  )
+  VALUES (
+    p_student_id, p_question_id, CASE WHEN v_selected = 'TIMEOUT' THEN 'timeout' ELSE v_selected END, v_is_correct,
+    v_received_at, v_opened_at, v_received_at, v_response_ms
+  );
+
+  IF v_session.pacing = 'teacher_paced' THEN
+    RETURN jsonb_build_object('is_correct', NULL, 'correct_option', NULL, 'response_ms', v_response_ms);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_option', v_correct_option,
+    'response_ms', v_response_ms
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_question_access(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.open_question(uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_answer(uuid, uuid, text) TO anon, authenticated;
@@ -0,0 +1,174 @@
+/*
+  # Question types beyond multiple choice
+
+  1. Changes
+    - `questions`
+      - `question_type` (text, default 'multiple_choice'): multiple_choice, true_false, multi_select,
+        numeric, short_text, ordering or matching
+      - `content` (jsonb): what students see for types other than multiple choice
+        (options, items to order, or the two columns to match)
+      - `answer` (jsonb): the answer key for types other than multiple choice
+      Multiple choice questions keep using `option_a`-`option_d` and `correct_option`; other
+      types leave them empty.
+    - `generation_jobs`
+      - `settings` (jsonb): the teacher's generation choices, such as which question types to use
+
+  2. Functions
+    - `submit_answer` grades every question type and returns the answer key for self-paced games
+
+  3. Security
+    - Players (anon) can read `question_type` and `content` but not `answer`
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS question_type text NOT NULL DEFAULT 'multiple_choice'
+    CHECK (question_type IN ('multiple_choice', 'true_false', 'multi_select', 'numeric', 'short_text', 'ordering', 'matching')),
+  ADD COLUMN IF NOT EXISTS content jsonb,
+  ADD COLUMN IF NOT EXISTS answer jsonb;
+
+ALTER TABLE generation_jobs
+  ADD COLUMN IF NOT EXISTS settings jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+GRANT SELECT (question_type, content) ON questions TO anon;
+
+-- Whether a response is correct. Responses are text: a letter for multiple choice, 'true'/'false',
+-- a number, free text, or a JSON array of indexes for multi-select, ordering and matching.
+CREATE OR REPLACE FUNCTION public.grade_response(p_question questions, p_response text)
+RETURNS boolean AS $$
+DECLARE
+  v_indexes jsonb;
+  v_number numeric;
+BEGIN
+  IF p_response IS NULL OR p_response = 'timeout' THEN
+    RETURN false;
+  END IF;
+
+  CASE p_question.question_type
+    WHEN 'multiple_choice' THEN
+      RETURN upper(p_response) = upper(p_question.correct_option);
+
+    WHEN 'true_false' THEN
+      RETURN lower(p_response) = (p_question.answer ->> 'value');
+
+    WHEN 'numeric' THEN
+      BEGIN
+        v_number := p_response::numeric;
+      EXCEPTION WHEN others THEN
+        RETURN false;
+      END;
+      RETURN abs(v_number - (p_question.answer ->> 'number')::numeric)
+        <= coalesce((p_question.answer ->> 'tolerance')::numeric, 0);
+
+    WHEN 'short_text' THEN
+      RETURN EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements_text(p_question.answer -> 'accepted') AS accepted(text)
+        WHERE lower(regexp_replace(trim(accepted.text), '\s+', ' ', 'g'))
+          = lower(regexp_replace(trim(p_response), '\s+', ' ', 'g'))
+      );
+
+    ELSE
+      -- multi_select, ordering and matching answers are JSON arrays of indexes
+      BEGIN
+        v_indexes := p_response::jsonb;
+      EXCEPTION WHEN others THEN
+        RETURN false;
+      END;
+      IF jsonb_typeof(v_indexes) <> 'array' THEN
+        RETURN false;
+      END IF;
+
+      IF p_question.question_type = 'multi_select' THEN
+        -- Order doesn't matter when selecting
+        RETURN (
+          SELECT coalesce(jsonb_agg(value ORDER BY value::int), '[]'::jsonb)
+          FROM jsonb_array_elements(v_indexes)
+        ) = (
+          SELECT coalesce(jsonb_agg(value ORDER BY value::int), '[]'::jsonb)
+          FROM jsonb_array_elements(p_question.answer -> 'correct')
+        );
+      ELSIF p_question.question_type = 'ordering' THEN
+        RETURN v_indexes = p_question.answer -> 'order';
+      ELSE
+        RETURN v_indexes = p_question.answer -> 'pairs';
+      END IF;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.submit_answer(p_student_id uuid, p_question_id uuid, p_selected_option text)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_question questions;
+  v_opened_at timestamptz;
+  v_received_at timestamptz := clock_timestamp();
+  v_response_ms integer;
+  v_selected text := p_selected_option;
+  v_is_correct boolean;
+BEGIN
+  IF v_selected IS NULL OR length(v_selected) > 1000 THEN
+    RAISE EXCEPTION 'Invalid answer';
+  END IF;
+
+  -- Serialize submissions per student so an answer can't be recorded twice
+  PERFORM 1 FROM students WHERE id = p_student_id FOR UPDATE;
+
+  v_session := public.check_question_access(p_student_id, p_question_id);
+
+  IF v_session.pacing = 'teacher_paced' AND v_session.live_state ->> 'phase' <> 'question' THEN
+    RAISE EXCEPTION 'Answers are closed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM responses WHERE student_id = p_student_id AND question_id = p_question_id) THEN
+    RAISE EXCEPTION 'Question already answered';
+  END IF;
+
+  SELECT opened_at INTO v_opened_at
+  FROM question_openings
+  WHERE student_id = p_student_id AND question_id = p_question_id;
+
+  IF v_opened_at IS NULL THEN
+    RAISE EXCEPTION 'Question was not opened';
+  END IF;
+
+  v_response_ms := floor(extract(epoch FROM v_received_at - v_opened_at) * 1000);
+
+  IF v_session.pacing = 'self_paced' AND v_response_ms > (v_session.question_seconds + 5) * 1000 THEN
+    v_selected := 'timeout';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+
+  IF v_question.question_type = 'multiple_choice' AND v_selected <> 'timeout' THEN
+    v_selected := upper(v_selected);
+    IF v_selected NOT IN ('A', 'B', 'C', 'D') THEN
+      RAISE EXCEPTION 'Invalid option';
+    END IF;
+  END IF;
+
+  v_is_correct := public.grade_response(v_question, v_selected);
+
+  INSERT INTO responses (
+    student_id, question_id, selected_option, is_correct,
+    submitted_at, opened_at, received_at, response_ms
+  )
+  VALUES (
+    p_student_id, p_question_id, v_selected, v_is_correct,
+    v_received_at, v_opened_at, v_received_at, v_response_ms
+  );
+
+  IF v_session.pacing = 'teacher_paced' THEN
+    RETURN jsonb_build_object('is_correct', NULL, 'correct_option', NULL, 'answer', NULL, 'response_ms', v_response_ms);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_option', nullif(v_question.correct_option, ''),
+    'answer', v_question.answer,
+    'response_ms', v_response_ms
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.grade_response(questions, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,46 @@
+/*
+  # Store original chapter files
+
+  1. Storage
+    - `chapter-files` bucket (private) holding the document each chapter was made from, at
+      `<chapter id>/<file name>`
+
+  2. Changes
+    - `chapters`
+      - `pdf_url` (text): path of the chapter's original file in `chapter-files`, for any file
+        type. Empty for pasted chapters and imported question banks.
+
+  3. Security
+    - Teachers (authenticated) can upload, read, replace and delete chapter files
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chapter-files', 'chapter-files', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE chapters
+  ADD COLUMN IF NOT EXISTS pdf_url text;
+
+CREATE POLICY "Teachers can read chapter files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'chapter-files');
+
+CREATE POLICY "Teachers can upload chapter files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'chapter-files');
+
+CREATE POLICY "Teachers can replace chapter files"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'chapter-files');
+
+CREATE POLICY "Teachers can delete chapter files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'chapter-files');
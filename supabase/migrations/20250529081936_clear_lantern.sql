@@ -0,0 +1,17 @@
+/*
+  # Source citations for questions
+
+  1. Changes
+    - `questions`
+      - `source_excerpt` (text): the chapter text a generated question is based on, quoted by the
+        model from the excerpt it was given
+      - `source_page` (text): page number printed in the book where that text is, e.g. '42'
+      Both are empty for hand-written and imported questions.
+
+  2. Security
+    - Not granted to players (anon): citations often give the answer away
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS source_excerpt text,
+  ADD COLUMN IF NOT EXISTS source_page text;
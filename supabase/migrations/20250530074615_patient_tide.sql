@@ -0,0 +1,153 @@
+/*
+  # Answer explanations
+
+  1. Changes
+    - `questions`
+      - `explanation` (text): why the correct answer is right, shown to students after they answer
+      - `distractor_explanations` (jsonb): why each wrong answer is wrong, keyed by the answer as a
+        student gives it: the letter for multiple choice, the option index for multi-select, or
+        'true'/'false' for true / false. Other types have none.
+
+  2. Functions
+    - `submit_answer` also returns the explanations for self-paced games
+    - `get_answer_review(student_id)`: a student's answers with the answer key and explanations,
+      for reviewing once the game is over
+
+  3. Security
+    - Not granted to players (anon): explanations give the answer away. Students only get them
+      through the functions above, once they may see the answer.
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS explanation text,
+  ADD COLUMN IF NOT EXISTS distractor_explanations jsonb;
+
+CREATE OR REPLACE FUNCTION public.submit_answer(p_student_id uuid, p_question_id uuid, p_selected_option text)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_question questions;
+  v_opened_at timestamptz;
+  v_received_at timestamptz := clock_timestamp();
+  v_response_ms integer;
+  v_selected text := p_selected_option;
+  v_is_correct boolean;
+BEGIN
+  IF v_selected IS NULL OR length(v_selected) > 1000 THEN
+    RAISE EXCEPTION 'Invalid answer';
+  END IF;
+
+  -- Serialize submissions per student so an answer can't be recorded twice
+  PERFORM 1 FROM students WHERE id = p_student_id FOR UPDATE;
+
+  v_session := public.check_question_access(p_student_id, p_question_id);
+
+  IF v_session.pacing = 'teacher_paced' AND v_session.live_state ->> 'phase' <> 'question' THEN
+    RAISE EXCEPTION 'Answers are closed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM responses WHERE student_id = p_student_id AND question_id = p_question_id) THEN
+    RAISE EXCEPTION 'Question already answered';
+  END IF;
+
+  SELECT opened_at INTO v_opened_at
+  FROM question_openings
+  WHERE student_id = p_student_id AND question_id = p_question_id;
+
+  IF v_opened_at IS NULL THEN
+    RAISE EXCEPTION 'Question was not opened';
+  END IF;
+
+  v_response_ms := floor(extract(epoch FROM v_received_at - v_opened_at) * 1000);
+
+  IF v_session.pacing = 'self_paced' AND v_response_ms > (v_session.question_seconds + 5) * 1000 THEN
+    v_selected := 'timeout';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+
+  IF v_question.question_type = 'multiple_choice' AND v_selected <> 'timeout' THEN
+    v_selected := upper(v_selected);
+    IF v_selected NOT IN ('A', 'B', 'C', 'D') THEN
+      RAISE EXCEPTION 'Invalid option';
+    END IF;
+  END IF;
+
+  v_is_correct := public.grade_response(v_question, v_selected);
+
+  INSERT INTO responses (
+    student_id, question_id, selected_option, is_correct,
+    submitted_at, opened_at, received_at, response_ms
+  )
+  VALUES (
+    p_student_id, p_question_id, v_selected, v_is_correct,
+    v_received_at, v_opened_at, v_received_at, v_response_ms
+  );
+
+  IF v_session.pacing = 'teacher_paced' THEN
+    RETURN jsonb_build_object(
+      'is_correct', NULL, 'correct_option', NULL, 'answer', NULL,
+      'explanation', NULL, 'distractor_explanations', NULL, 'response_ms', v_response_ms
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_option', nullif(v_question.correct_option, ''),
+    'answer', v_question.answer,
+    'explanation', v_question.explanation,
+    'distractor_explanations', v_question.distractor_explanations,
+    'response_ms', v_response_ms
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A student's answered questions in game order, with the answer key and explanations. Self-paced
+-- students saw each key as they answered; teacher-paced students only once the game has ended.
+CREATE OR REPLACE FUNCTION public.get_answer_review(p_student_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+BEGIN
+  SELECT gs.* INTO v_session
+  FROM students s
+  JOIN game_sessions gs ON gs.id = s.session_id
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student is not part of a game session';
+  END IF;
+
+  IF v_session.pacing = 'teacher_paced'
+    AND v_session.status <> 'completed'
+    AND v_session.live_state ->> 'phase' IS DISTINCT FROM 'ended' THEN
+    RAISE EXCEPTION 'The game has not ended';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', q.id,
+      'topic_id', q.topic_id,
+      'question_type', q.question_type,
+      'question_stem', q.question_stem,
+      'option_a', q.option_a,
+      'option_b', q.option_b,
+      'option_c', q.option_c,
+      'option_d', q.option_d,
+      'content', q.content,
+      'selected_option', r.selected_option,
+      'is_correct', r.is_correct,
+      'correct_option', nullif(q.correct_option, ''),
+      'answer', q.answer,
+      'explanation', q.explanation,
+      'distractor_explanations', q.distractor_explanations
+    ) ORDER BY t.position, t.created_at, q.created_at)
+    FROM responses r
+    JOIN questions q ON q.id = r.question_id
+    JOIN topic_details t ON t.id = q.topic_id
+    WHERE r.student_id = p_student_id AND t.chapter_id = v_session.chapter_id
+  ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_answer_review(uuid) TO anon, authenticated;
@@ -0,0 +1,65 @@
+/*
+  # Question difficulty, cognitive level and per-game question choice
+
+  1. Changes
+    - `questions`
+      - `difficulty` (text): easy, medium or hard
+      - `cognitive_level` (text): the Bloom's level the question tests: recall, understand,
+        apply or analyze
+      Both are empty for questions generated before tagging, until the teacher sets them.
+    - `game_sessions`
+      - `question_ids` (uuid[]): the questions chosen for the game, e.g. to match a difficulty
+        mix; null plays every question in the chapter
+
+  2. Functions
+    - `check_question_access` also requires the question to be one chosen for the game
+
+  3. Security
+    - Tags are not granted to players (anon); they don't need them to play
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS difficulty text CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  ADD COLUMN IF NOT EXISTS cognitive_level text CHECK (cognitive_level IN ('recall', 'understand', 'apply', 'analyze'));
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS question_ids uuid[];
+
+-- Check a student may see a question: their game is running and the question is in its chapter
+-- and chosen for the game. Teacher-paced games also require the question to be the one the
+-- teacher is showing.
+CREATE OR REPLACE FUNCTION public.check_question_access(p_student_id uuid, p_question_id uuid)
+RETURNS game_sessions AS $$
+DECLARE
+  v_session game_sessions;
+BEGIN
+  SELECT gs.* INTO v_session
+  FROM students s
+  JOIN game_sessions gs ON gs.id = s.session_id
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student is not part of a game session';
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM questions q
+    JOIN topic_details t ON t.id = q.topic_id
+    WHERE q.id = p_question_id AND t.chapter_id = v_session.chapter_id
+  ) OR (v_session.question_ids IS NOT NULL AND NOT p_question_id = ANY (v_session.question_ids)) THEN
+    RAISE EXCEPTION 'Question is not part of this game';
+  END IF;
+
+  IF v_session.pacing = 'teacher_paced'
+    AND v_session.live_state -> 'question' ->> 'id' IS DISTINCT FROM p_question_id::text THEN
+    RAISE EXCEPTION 'Question is not open';
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,17 @@
+/*
+  # Adaptive question sequencing
+
+  1. Changes
+    - `game_sessions`
+      - `adaptive` (boolean, default false): in self-paced games, each student's next question
+        is chosen from how they've answered so far rather than following the chapter's order
+
+  2. Security
+    - Players (anon) can read `questions.difficulty` so their game can choose questions by it.
+      The difficulty doesn't give the answer away.
+*/
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS adaptive boolean NOT NULL DEFAULT false;
+
+GRANT SELECT (difficulty) ON questions TO anon;
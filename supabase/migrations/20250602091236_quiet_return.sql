@@ -0,0 +1,61 @@
+/*
+  # Resume a game after a reload
+
+  1. Functions
+    - `get_player_progress(student_id)`: the student's answers so far and, in self-paced games,
+      the question they were last shown but haven't answered with the seconds it has left, so a
+      student who reloads or drops can be put back where they were
+
+  2. Security
+    - Teacher-paced answers are returned without whether they were correct, which students only
+      learn when the teacher reveals it
+    - Time left is worked out on the server, so it doesn't depend on the student's clock
+*/
+
+CREATE OR REPLACE FUNCTION public.get_player_progress(p_student_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_answered jsonb;
+  v_open jsonb;
+BEGIN
+  SELECT gs.* INTO v_session
+  FROM students s
+  JOIN game_sessions gs ON gs.id = s.session_id
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student is not part of a game session';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'question_id', r.question_id,
+    'selected_option', r.selected_option,
+    'is_correct', CASE WHEN v_session.pacing = 'self_paced' THEN r.is_correct END,
+    'submitted_at', r.submitted_at
+  ) ORDER BY r.submitted_at), '[]'::jsonb)
+  INTO v_answered
+  FROM responses r
+  WHERE r.student_id = p_student_id;
+
+  -- The last question put on the student's screen that they haven't answered
+  IF v_session.pacing = 'self_paced' THEN
+    SELECT jsonb_build_object(
+      'question_id', o.question_id,
+      'seconds_left', greatest(0, v_session.question_seconds - floor(extract(epoch FROM clock_timestamp() - o.opened_at)))::integer
+    )
+    INTO v_open
+    FROM question_openings o
+    WHERE o.student_id = p_student_id
+      AND NOT EXISTS (
+        SELECT 1 FROM responses r WHERE r.student_id = p_student_id AND r.question_id = o.question_id
+      )
+    ORDER BY o.opened_at DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN jsonb_build_object('answered', v_answered, 'open_question', v_open);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_player_progress(uuid) TO anon, authenticated;
@@ -0,0 +1,22 @@
+/*
+  # Team games
+
+  1. Changes
+    - `game_sessions`
+      - `teams` (jsonb): the teams students are split into, as [{ id, name, color }]; null plays
+        individually
+      - `team_standings` (jsonb): the latest team standings from the teacher's leaderboard, so
+        students can see how their team is doing
+    - `students`
+      - `team_id` (text): the student's team, one of the session's `teams` ids
+
+  2. Security
+    - No changes: the teacher assigns teams through the existing session and student access
+*/
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS teams jsonb,
+  ADD COLUMN IF NOT EXISTS team_standings jsonb;
+
+ALTER TABLE students
+  ADD COLUMN IF NOT EXISTS team_id text;
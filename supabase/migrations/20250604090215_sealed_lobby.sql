@@ -0,0 +1,40 @@
+/*
+  # Look up game sessions for players on the server
+
+  1. Functions
+    - `get_game_session_by_code(game_code)`: the joinable session a game code belongs to, if any
+    - `get_player_session(student_id)`: the session a student has joined
+
+  2. Security
+    - Players (anonymous) can no longer read every game session; they find the one they need
+      through the functions above, which only return the matching session
+    - Players no longer receive session updates over Realtime, which needs read access to the
+      table; the lobby polls `get_player_session` instead
+*/
+
+DROP POLICY IF EXISTS "Players can read game sessions" ON game_sessions;
+
+CREATE OR REPLACE FUNCTION public.get_game_session_by_code(p_game_code text)
+RETURNS SETOF game_sessions AS $$
+BEGIN
+  RETURN QUERY
+  SELECT *
+  FROM game_sessions
+  WHERE game_code = upper(trim(p_game_code))
+    AND status <> 'completed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_player_session(p_student_id uuid)
+RETURNS SETOF game_sessions AS $$
+BEGIN
+  RETURN QUERY
+  SELECT gs.*
+  FROM students s
+  JOIN game_sessions gs ON gs.id = s.session_id
+  WHERE s.id = p_student_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_game_session_by_code(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_player_session(uuid) TO anon, authenticated;
@@ -0,0 +1,56 @@
+/*
+  # Keep team standings out of the game session
+
+  1. New Tables
+    - `team_standings`
+      - `session_id` (uuid, primary key, references game_sessions)
+      - `standings` (jsonb, the latest team standings from the teacher's leaderboard)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Drop `game_sessions.team_standings`: standings change with every answer, and each write
+      to the session reached every student as a session update
+
+  3. Functions
+    - `get_team_standings(student_id)`: the standings of the student's session, empty until the
+      teacher's leaderboard has ranked the teams
+
+  4. Security
+    - Enable RLS on `team_standings`
+    - Teachers can manage the standings of their own sessions
+    - Players (anonymous) only read their own session's standings, through `get_team_standings`
+*/
+
+CREATE TABLE IF NOT EXISTS team_standings (
+  session_id uuid PRIMARY KEY REFERENCES game_sessions(id) ON DELETE CASCADE,
+  standings jsonb NOT NULL DEFAULT '[]'::jsonb,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE team_standings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can manage standings for their own sessions"
+  ON team_standings
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM game_sessions gs WHERE gs.id = session_id AND gs.teacher_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM game_sessions gs WHERE gs.id = session_id AND gs.teacher_id = auth.uid()));
+
+ALTER TABLE game_sessions
+  DROP COLUMN IF EXISTS team_standings;
+
+CREATE OR REPLACE FUNCTION public.get_team_standings(p_student_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_standings jsonb;
+BEGIN
+  SELECT ts.standings INTO v_standings
+  FROM students s
+  JOIN team_standings ts ON ts.session_id = s.session_id
+  WHERE s.id = p_student_id;
+
+  RETURN coalesce(v_standings, '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_team_standings(uuid) TO anon, authenticated;
@@ -0,0 +1,347 @@
+/*
+  # Player tokens
+
+  Players join without a Supabase account, and student ids are on every roster, so knowing a
+  student's id was enough to answer as them or read their graded answers, and with them the
+  answer key. Each player now gets a secret token when they join, and the functions that grade
+  or return answers only act for the player who holds it.
+
+  1. New Tables
+    - `player_tokens`
+      - `student_id` (uuid, primary key, references students)
+      - `token` (uuid): the player's secret, known only to their device
+
+  2. Functions
+    - `join_game_session(session_id, name, team_id)`: add a student to a session and return them
+      with their token
+    - `check_player(student_id, player_token)`: the session of the student holding the token,
+      unless they were banned from it
+    - `open_question`, `submit_answer`, `get_answer_review` and `get_player_progress` take the
+      player's token and check the student belongs to the session before anything else
+    - `get_scoring_responses(student_id, player_token)`: the fields of a student's answers that
+      scoring needs, for the student themselves or the session's teacher
+
+  3. Security
+    - Enable RLS on `player_tokens` with no policies: tokens are only read by the functions above
+    - Players (anon) can no longer read `responses`; their own answers come from the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS player_tokens (
+  student_id uuid PRIMARY KEY REFERENCES students(id) ON DELETE CASCADE,
+  token uuid NOT NULL DEFAULT gen_random_uuid()
+);
+
+ALTER TABLE player_tokens ENABLE ROW LEVEL SECURITY;
+
+REVOKE SELECT ON responses FROM anon;
+
+DROP FUNCTION IF EXISTS public.open_question(uuid, uuid);
+DROP FUNCTION IF EXISTS public.submit_answer(uuid, uuid, text);
+DROP FUNCTION IF EXISTS public.check_question_access(uuid, uuid);
+DROP FUNCTION IF EXISTS public.get_answer_review(uuid);
+DROP FUNCTION IF EXISTS public.get_player_progress(uuid);
+
+CREATE OR REPLACE FUNCTION public.join_game_session(p_session_id uuid, p_name text, p_team_id text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_student students;
+  v_token uuid;
+BEGIN
+  IF p_name IS NULL OR length(trim(p_name)) = 0 OR length(p_name) > 100 THEN
+    RAISE EXCEPTION 'Invalid name';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM game_sessions WHERE id = p_session_id AND status <> 'completed') THEN
+    RAISE EXCEPTION 'Game is not open';
+  END IF;
+
+  INSERT INTO students (name, session_id, joined_at, status, team_id)
+  VALUES (trim(p_name), p_session_id, now(), 'waiting', p_team_id)
+  RETURNING * INTO v_student;
+
+  INSERT INTO player_tokens (student_id)
+  VALUES (v_student.id)
+  RETURNING token INTO v_token;
+
+  RETURN to_jsonb(v_student) || jsonb_build_object('player_token', v_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The session of the student holding the token; banned students no longer belong to it
+CREATE OR REPLACE FUNCTION public.check_player(p_student_id uuid, p_player_token uuid)
+RETURNS game_sessions AS $$
+DECLARE
+  v_session game_sessions;
+BEGIN
+  SELECT gs.* INTO v_session
+  FROM students s
+  JOIN player_tokens pt ON pt.student_id = s.id
+  JOIN game_sessions gs ON gs.id = s.session_id
+  WHERE s.id = p_student_id
+    AND pt.token = p_player_token
+    AND NOT s.id = ANY (coalesce(gs.banned_students, '{}'));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student is not part of a game session';
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Check a student may see a question: they belong to the game, it's running and the question is
+-- in its chapter and chosen for it. Teacher-paced games also require the question to be the one
+-- the teacher is showing.
+CREATE OR REPLACE FUNCTION public.check_question_access(p_student_id uuid, p_player_token uuid, p_question_id uuid)
+RETURNS game_sessions AS $$
+DECLARE
+  v_session game_sessions;
+BEGIN
+  v_session := public.check_player(p_student_id, p_player_token);
+
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Game is not in progress';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM questions q
+    JOIN topic_details t ON t.id = q.topic_id
+    WHERE q.id = p_question_id AND t.chapter_id = v_session.chapter_id
+  ) OR (v_session.question_ids IS NOT NULL AND NOT p_question_id = ANY (v_session.question_ids)) THEN
+    RAISE EXCEPTION 'Question is not part of this game';
+  END IF;
+
+  IF v_session.pacing = 'teacher_paced'
+    AND v_session.live_state -> 'question' ->> 'id' IS DISTINCT FROM p_question_id::text THEN
+    RAISE EXCEPTION 'Question is not open';
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record that a question is on the student's screen; the first opening wins
+CREATE OR REPLACE FUNCTION public.open_question(p_student_id uuid, p_player_token uuid, p_question_id uuid)
+RETURNS timestamptz AS $$
+DECLARE
+  v_opened_at timestamptz;
+BEGIN
+  PERFORM public.check_question_access(p_student_id, p_player_token, p_question_id);
+
+  INSERT INTO question_openings (student_id, question_id)
+  VALUES (p_student_id, p_question_id)
+  ON CONFLICT (student_id, question_id) DO NOTHING;
+
+  SELECT opened_at INTO v_opened_at
+  FROM question_openings
+  WHERE student_id = p_student_id AND question_id = p_question_id;
+
+  RETURN v_opened_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grade and store an answer. 'timeout' records a question the student ran out of time on.
+-- Self-paced answers arriving after the time limit (plus a few seconds' grace for the network)
+-- count as timeouts. Teacher-paced answers are only accepted while the teacher has answers open,
+-- and the result is not returned until the teacher reveals it.
+CREATE OR REPLACE FUNCTION public.submit_answer(p_student_id uuid, p_player_token uuid, p_question_id uuid, p_selected_option text)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_question questions;
+  v_opened_at timestamptz;
+  v_received_at timestamptz := clock_timestamp();
+  v_response_ms integer;
+  v_selected text := p_selected_option;
+  v_is_correct boolean;
+BEGIN
+  IF v_selected IS NULL OR length(v_selected) > 1000 THEN
+    RAISE EXCEPTION 'Invalid answer';
+  END IF;
+
+  -- Serialize submissions per student so an answer can't be recorded twice
+  PERFORM 1 FROM students WHERE id = p_student_id FOR UPDATE;
+
+  v_session := public.check_question_access(p_student_id, p_player_token, p_question_id);
+
+  IF v_session.pacing = 'teacher_paced' AND v_session.live_state ->> 'phase' <> 'question' THEN
+    RAISE EXCEPTION 'Answers are closed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM responses WHERE student_id = p_student_id AND question_id = p_question_id) THEN
+    RAISE EXCEPTION 'Question already answered';
+  END IF;
+
+  SELECT opened_at INTO v_opened_at
+  FROM question_openings
+  WHERE student_id = p_student_id AND question_id = p_question_id;
+
+  IF v_opened_at IS NULL THEN
+    RAISE EXCEPTION 'Question was not opened';
+  END IF;
+
+  v_response_ms := floor(extract(epoch FROM v_received_at - v_opened_at) * 1000);
+
+  IF v_session.pacing = 'self_paced' AND v_response_ms > (v_session.question_seconds + 5) * 1000 THEN
+    v_selected := 'timeout';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+
+  IF v_question.question_type = 'multiple_choice' AND v_selected <> 'timeout' THEN
+    v_selected := upper(v_selected);
+    IF v_selected NOT IN ('A', 'B', 'C', 'D') THEN
+      RAISE EXCEPTION 'Invalid option';
+    END IF;
+  END IF;
+
+  v_is_correct := public.grade_response(v_question, v_selected);
+
+  INSERT INTO responses (
+    student_id, question_id, selected_option, is_correct,
+    submitted_at, opened_at, received_at, response_ms
+  )
+  VALUES (
+    p_student_id, p_question_id, v_selected, v_is_correct,
+    v_received_at, v_opened_at, v_received_at, v_response_ms
+  );
+
+  IF v_session.pacing = 'teacher_paced' THEN
+    RETURN jsonb_build_object(
+      'is_correct', NULL, 'correct_option', NULL, 'answer', NULL,
+      'explanation', NULL, 'distractor_explanations', NULL, 'response_ms', v_response_ms
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_option', nullif(v_question.correct_option, ''),
+    'answer', v_question.answer,
+    'explanation', v_question.explanation,
+    'distractor_explanations', v_question.distractor_explanations,
+    'response_ms', v_response_ms
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A student's answered questions in game order, with the answer key and explanations. Self-paced
+-- students saw each key as they answered; teacher-paced students only once the game has ended.
+CREATE OR REPLACE FUNCTION public.get_answer_review(p_student_id uuid, p_player_token uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+BEGIN
+  v_session := public.check_player(p_student_id, p_player_token);
+
+  IF v_session.pacing = 'teacher_paced'
+    AND v_session.status <> 'completed'
+    AND v_session.live_state ->> 'phase' IS DISTINCT FROM 'ended' THEN
+    RAISE EXCEPTION 'The game has not ended';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', q.id,
+      'topic_id', q.topic_id,
+      'question_type', q.question_type,
+      'question_stem', q.question_stem,
+      'option_a', q.option_a,
+      'option_b', q.option_b,
+      'option_c', q.option_c,
+      'option_d', q.option_d,
+      'content', q.content,
+      'selected_option', r.selected_option,
+      'is_correct', r.is_correct,
+      'correct_option', nullif(q.correct_option, ''),
+      'answer', q.answer,
+      'explanation', q.explanation,
+      'distractor_explanations', q.distractor_explanations
+    ) ORDER BY t.position, t.created_at, q.created_at)
+    FROM responses r
+    JOIN questions q ON q.id = r.question_id
+    JOIN topic_details t ON t.id = q.topic_id
+    WHERE r.student_id = p_student_id AND t.chapter_id = v_session.chapter_id
+  ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A student's answers so far and, in self-paced games, the question they were last shown but
+-- haven't answered with the seconds it has left. Teacher-paced answers come without whether they
+-- were correct, which students only learn when the teacher reveals it.
+CREATE OR REPLACE FUNCTION public.get_player_progress(p_student_id uuid, p_player_token uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_answered jsonb;
+  v_open jsonb;
+BEGIN
+  v_session := public.check_player(p_student_id, p_player_token);
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'question_id', r.question_id,
+    'selected_option', r.selected_option,
+    'is_correct', CASE WHEN v_session.pacing = 'self_paced' THEN r.is_correct END,
+    'submitted_at', r.submitted_at
+  ) ORDER BY r.submitted_at), '[]'::jsonb)
+  INTO v_answered
+  FROM responses r
+  WHERE r.student_id = p_student_id;
+
+  -- The last question put on the student's screen that they haven't answered
+  IF v_session.pacing = 'self_paced' THEN
+    SELECT jsonb_build_object(
+      'question_id', o.question_id,
+      'seconds_left', greatest(0, v_session.question_seconds - floor(extract(epoch FROM clock_timestamp() - o.opened_at)))::integer
+    )
+    INTO v_open
+    FROM question_openings o
+    WHERE o.student_id = p_student_id
+      AND NOT EXISTS (
+        SELECT 1 FROM responses r WHERE r.student_id = p_student_id AND r.question_id = o.question_id
+      )
+    ORDER BY o.opened_at DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN jsonb_build_object('answered', v_answered, 'open_question', v_open);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The fields of a student's answers that scoring needs. The session's teacher may read any of
+-- their students'; players only their own.
+CREATE OR REPLACE FUNCTION public.get_scoring_responses(p_student_id uuid, p_player_token uuid DEFAULT NULL)
+RETURNS jsonb AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM students s
+    JOIN game_sessions gs ON gs.id = s.session_id
+    WHERE s.id = p_student_id AND gs.teacher_id = auth.uid()
+  ) THEN
+    PERFORM public.check_player(p_student_id, p_player_token);
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'question_id', r.question_id,
+      'selected_option', r.selected_option,
+      'is_correct', r.is_correct,
+      'submitted_at', r.submitted_at,
+      'opened_at', r.opened_at,
+      'response_ms', r.response_ms
+    ) ORDER BY r.submitted_at)
+    FROM responses r
+    WHERE r.student_id = p_student_id
+  ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_player(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_question_access(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.join_game_session(uuid, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.open_question(uuid, uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_answer(uuid, uuid, uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_answer_review(uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_player_progress(uuid, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_scoring_responses(uuid, uuid) TO anon, authenticated;
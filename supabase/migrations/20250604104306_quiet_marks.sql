@@ -0,0 +1,47 @@
+/*
+  # Keep teacher-paced results hidden until the game ends
+
+  1. Functions
+    - `get_scoring_responses` returns a teacher-paced student's answers without whether they were
+      correct until the game has ended, the same rule as `get_answer_review`. The session's
+      teacher still gets every result for the live leaderboard.
+
+  2. Security
+    - With `responses` closed to players, this and `get_player_progress` are the only ways for a
+      student to learn their results, so the rule can't be sidestepped from the browser
+*/
+
+CREATE OR REPLACE FUNCTION public.get_scoring_responses(p_student_id uuid, p_player_token uuid DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_show_results boolean;
+BEGIN
+  SELECT gs.* INTO v_session
+  FROM students s
+  JOIN game_sessions gs ON gs.id = s.session_id
+  WHERE s.id = p_student_id AND gs.teacher_id = auth.uid();
+
+  IF FOUND THEN
+    v_show_results := true;
+  ELSE
+    v_session := public.check_player(p_student_id, p_player_token);
+    v_show_results := v_session.pacing = 'self_paced'
+      OR v_session.status = 'completed'
+      OR v_session.live_state ->> 'phase' IS NOT DISTINCT FROM 'ended';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'question_id', r.question_id,
+      'selected_option', r.selected_option,
+      'is_correct', CASE WHEN v_show_results THEN r.is_correct END,
+      'submitted_at', r.submitted_at,
+      'opened_at', r.opened_at,
+      'response_ms', r.response_ms
+    ) ORDER BY r.submitted_at)
+    FROM responses r
+    WHERE r.student_id = p_student_id
+  ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,74 @@
+/*
+  # Grade malformed answers as wrong
+
+  1. Functions
+    - `grade_response` marks multi-select, ordering and matching answers wrong when they aren't
+      an array of numbers. A multi-select answer such as ["a"] used to fail the index cast and
+      reject the submission with an error instead of grading it.
+*/
+
+-- Whether a response is correct. Responses are text: a letter for multiple choice, 'true'/'false',
+-- a number, free text, or a JSON array of indexes for multi-select, ordering and matching.
+CREATE OR REPLACE FUNCTION public.grade_response(p_question questions, p_response text)
+RETURNS boolean AS $$
+DECLARE
+  v_indexes jsonb;
+  v_number numeric;
+BEGIN
+  IF p_response IS NULL OR p_response = 'timeout' THEN
+    RETURN false;
+  END IF;
+
+  CASE p_question.question_type
+    WHEN 'multiple_choice' THEN
+      RETURN upper(p_response) = upper(p_question.correct_option);
+
+    WHEN 'true_false' THEN
+      RETURN lower(p_response) = (p_question.answer ->> 'value');
+
+    WHEN 'numeric' THEN
+      BEGIN
+        v_number := p_response::numeric;
+      EXCEPTION WHEN others THEN
+        RETURN false;
+      END;
+      RETURN abs(v_number - (p_question.answer ->> 'number')::numeric)
+        <= coalesce((p_question.answer ->> 'tolerance')::numeric, 0);
+
+    WHEN 'short_text' THEN
+      RETURN EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements_text(p_question.answer -> 'accepted') AS accepted(text)
+        WHERE lower(regexp_replace(trim(accepted.text), '\s+', ' ', 'g'))
+          = lower(regexp_replace(trim(p_response), '\s+', ' ', 'g'))
+      );
+
+    ELSE
+      -- multi_select, ordering and matching answers are JSON arrays of indexes
+      BEGIN
+        v_indexes := p_response::jsonb;
+      EXCEPTION WHEN others THEN
+        RETURN false;
+      END;
+      IF jsonb_typeof(v_indexes) <> 'array'
+        OR EXISTS (SELECT 1 FROM jsonb_array_elements(v_indexes) WHERE jsonb_typeof(value) <> 'number') THEN
+        RETURN false;
+      END IF;
+
+      IF p_question.question_type = 'multi_select' THEN
+        -- Order doesn't matter when selecting
+        RETURN (
+          SELECT coalesce(jsonb_agg(value ORDER BY value::int), '[]'::jsonb)
+          FROM jsonb_array_elements(v_indexes)
+        ) = (
+          SELECT coalesce(jsonb_agg(value ORDER BY value::int), '[]'::jsonb)
+          FROM jsonb_array_elements(p_question.answer -> 'correct')
+        );
+      ELSIF p_question.question_type = 'ordering' THEN
+        RETURN v_indexes = p_question.answer -> 'order';
+      ELSE
+        RETURN v_indexes = p_question.answer -> 'pairs';
+      END IF;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
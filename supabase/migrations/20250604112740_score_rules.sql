@@ -0,0 +1,16 @@
+/*
+  # Scoring choices per game
+
+  1. Changes
+    - `game_sessions`
+      - `scoring` (jsonb): the teacher's scoring choices for the game, such as points per correct
+        answer, the speed bonus, the streak multiplier cap and a wrong answer penalty; anything
+        left out uses the defaults
+
+  2. Security
+    - No changes: the teacher sets it through the existing session access, and students get it
+      with their session from `get_player_session`
+*/
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS scoring jsonb;
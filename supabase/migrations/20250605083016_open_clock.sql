@@ -0,0 +1,182 @@
+/*
+  # Time answers from when the question could first be read
+
+  Students could read a question's text before telling the server it was open: self-paced games
+  from the `questions` columns granted to players, teacher-paced games from the session's
+  `live_state`. A student could read, think, then open and answer back to back for an answer
+  time near zero. The clock now starts when the question first reaches the student.
+
+  1. Changes
+    - `game_sessions`
+      - `live_question_opened_at` (timestamptz): when the teacher put the current question on
+        screen in a teacher-paced game, stamped by the server as the screen is saved
+
+  2. Functions
+    - `open_question` returns the question itself along with when it was opened: in self-paced
+      games it is the only way for a student to see a question
+    - `submit_answer` times teacher-paced answers from `live_question_opened_at` instead of the
+      student's own opening
+
+  3. Security
+    - Players (anon) can no longer read question text, options or content; they keep the id,
+      topic, type and difficulty needed to plan their way through the game
+*/
+
+REVOKE SELECT (question_stem, option_a, option_b, option_c, option_d, content) ON questions FROM anon;
+
+ALTER TABLE game_sessions
+  ADD COLUMN IF NOT EXISTS live_question_opened_at timestamptz;
+
+-- Stamp when each teacher-paced question starts taking answers
+CREATE OR REPLACE FUNCTION public.stamp_live_question()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.live_state ->> 'phase' = 'question'
+    AND (
+      OLD.live_state -> 'question' ->> 'id' IS DISTINCT FROM NEW.live_state -> 'question' ->> 'id'
+      OR OLD.live_state ->> 'phase' IS DISTINCT FROM 'question'
+    ) THEN
+    NEW.live_question_opened_at := clock_timestamp();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS stamp_live_question ON game_sessions;
+
+CREATE TRIGGER stamp_live_question
+  BEFORE UPDATE OF live_state ON game_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_live_question();
+
+DROP FUNCTION IF EXISTS public.open_question(uuid, uuid, uuid);
+
+-- Record that a question is on the student's screen, the first opening winning, and return it
+CREATE OR REPLACE FUNCTION public.open_question(p_student_id uuid, p_player_token uuid, p_question_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_opened_at timestamptz;
+BEGIN
+  PERFORM public.check_question_access(p_student_id, p_player_token, p_question_id);
+
+  INSERT INTO question_openings (student_id, question_id)
+  VALUES (p_student_id, p_question_id)
+  ON CONFLICT (student_id, question_id) DO NOTHING;
+
+  SELECT opened_at INTO v_opened_at
+  FROM question_openings
+  WHERE student_id = p_student_id AND question_id = p_question_id;
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'opened_at', v_opened_at,
+      'question', jsonb_build_object(
+        'id', q.id,
+        'topic_id', q.topic_id,
+        'question_type', q.question_type,
+        'question_stem', q.question_stem,
+        'option_a', q.option_a,
+        'option_b', q.option_b,
+        'option_c', q.option_c,
+        'option_d', q.option_d,
+        'content', q.content,
+        'difficulty', q.difficulty
+      )
+    )
+    FROM questions q
+    WHERE q.id = p_question_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grade and store an answer. 'timeout' records a question the student ran out of time on.
+-- Self-paced answers are timed from the student's opening of the question, and arriving after
+-- the time limit (plus a few seconds' grace for the network) count as timeouts. Teacher-paced
+-- answers are timed from when the teacher showed the question, are only accepted while the
+-- teacher has answers open, and the result is not returned until the teacher reveals it.
+CREATE OR REPLACE FUNCTION public.submit_answer(p_student_id uuid, p_player_token uuid, p_question_id uuid, p_selected_option text)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_question questions;
+  v_opened_at timestamptz;
+  v_received_at timestamptz := clock_timestamp();
+  v_response_ms integer;
+  v_selected text := p_selected_option;
+  v_is_correct boolean;
+BEGIN
+  IF v_selected IS NULL OR length(v_selected) > 1000 THEN
+    RAISE EXCEPTION 'Invalid answer';
+  END IF;
+
+  -- Serialize submissions per student so an answer can't be recorded twice
+  PERFORM 1 FROM students WHERE id = p_student_id FOR UPDATE;
+
+  v_session := public.check_question_access(p_student_id, p_player_token, p_question_id);
+
+  IF v_session.pacing = 'teacher_paced' AND v_session.live_state ->> 'phase' <> 'question' THEN
+    RAISE EXCEPTION 'Answers are closed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM responses WHERE student_id = p_student_id AND question_id = p_question_id) THEN
+    RAISE EXCEPTION 'Question already answered';
+  END IF;
+
+  IF v_session.pacing = 'teacher_paced' THEN
+    v_opened_at := v_session.live_question_opened_at;
+  ELSE
+    SELECT opened_at INTO v_opened_at
+    FROM question_openings
+    WHERE student_id = p_student_id AND question_id = p_question_id;
+  END IF;
+
+  IF v_opened_at IS NULL THEN
+    RAISE EXCEPTION 'Question was not opened';
+  END IF;
+
+  v_response_ms := floor(extract(epoch FROM v_received_at - v_opened_at) * 1000);
+
+  IF v_session.pacing = 'self_paced' AND v_response_ms > (v_session.question_seconds + 5) * 1000 THEN
+    v_selected := 'timeout';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+
+  IF v_question.question_type = 'multiple_choice' AND v_selected <> 'timeout' THEN
+    v_selected := upper(v_selected);
+    IF v_selected NOT IN ('A', 'B', 'C', 'D') THEN
+      RAISE EXCEPTION 'Invalid option';
+    END IF;
+  END IF;
+
+  v_is_correct := public.grade_response(v_question, v_selected);
+
+  INSERT INTO responses (
+    student_id, question_id, selected_option, is_correct,
+    submitted_at, opened_at, received_at, response_ms
+  )
+  VALUES (
+    p_student_id, p_question_id, v_selected, v_is_correct,
+    v_received_at, v_opened_at, v_received_at, v_response_ms
+  );
+
+  IF v_session.pacing = 'teacher_paced' THEN
+    RETURN jsonb_build_object(
+      'is_correct', NULL, 'correct_option', NULL, 'answer', NULL,
+      'explanation', NULL, 'distractor_explanations', NULL, 'response_ms', v_response_ms
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'correct_option', nullif(v_question.correct_option, ''),
+    'answer', v_question.answer,
+    'explanation', v_question.explanation,
+    'distractor_explanations', v_question.distractor_explanations,
+    'response_ms', v_response_ms
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.open_question(uuid, uuid, uuid) TO anon, authenticated;
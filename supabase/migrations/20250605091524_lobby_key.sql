@@ -0,0 +1,23 @@
+/*
+  # Require the player token to read a player's session
+
+  1. Functions
+    - `get_player_session(student_id, player_token)`: the session a student has joined, only for
+      the holder of the student's token, like the other player functions. Banned students no
+      longer get the session.
+
+  2. Security
+    - Drop `get_player_session(student_id)`, which returned any student's session, including the
+      teacher's live screen, to anyone who knew the student's id
+*/
+
+DROP FUNCTION IF EXISTS public.get_player_session(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_player_session(p_student_id uuid, p_player_token uuid)
+RETURNS SETOF game_sessions AS $$
+BEGIN
+  RETURN NEXT public.check_player(p_student_id, p_player_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_player_session(uuid, uuid) TO anon, authenticated;
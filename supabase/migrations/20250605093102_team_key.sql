@@ -0,0 +1,31 @@
+/*
+  # Require the player token to read team standings
+
+  1. Functions
+    - `get_team_standings(student_id, player_token)`: the standings of the student's session, only
+      for the holder of the student's token, like the other player functions
+
+  2. Security
+    - Drop `get_team_standings(student_id)`, which returned any session's standings to anyone who
+      knew one of its students' ids
+*/
+
+DROP FUNCTION IF EXISTS public.get_team_standings(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_team_standings(p_student_id uuid, p_player_token uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_standings jsonb;
+BEGIN
+  v_session := public.check_player(p_student_id, p_player_token);
+
+  SELECT standings INTO v_standings
+  FROM team_standings
+  WHERE session_id = v_session.id;
+
+  RETURN coalesce(v_standings, '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_team_standings(uuid, uuid) TO anon, authenticated;
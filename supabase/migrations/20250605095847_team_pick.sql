@@ -0,0 +1,59 @@
+/*
+  # Pick a joining student's team on the server
+
+  1. Functions
+    - `join_game_session(session_id, name)`: add a student to a session and return them with
+      their token. In team games the student goes on the team with the fewest members, earliest
+      first on a tie, instead of whichever team the browser asked for.
+
+  2. Security
+    - Drop `join_game_session(session_id, name, team_id)`, which stored any team id it was given
+*/
+
+DROP FUNCTION IF EXISTS public.join_game_session(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.join_game_session(p_session_id uuid, p_name text)
+RETURNS jsonb AS $$
+DECLARE
+  v_session game_sessions;
+  v_team_id text;
+  v_student students;
+  v_token uuid;
+BEGIN
+  IF p_name IS NULL OR length(trim(p_name)) = 0 OR length(p_name) > 100 THEN
+    RAISE EXCEPTION 'Invalid name';
+  END IF;
+
+  -- Serialize joins per session so students arriving together are still spread evenly
+  SELECT * INTO v_session
+  FROM game_sessions
+  WHERE id = p_session_id AND status <> 'completed'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game is not open';
+  END IF;
+
+  IF jsonb_typeof(v_session.teams) = 'array' THEN
+    SELECT t.team ->> 'id' INTO v_team_id
+    FROM jsonb_array_elements(v_session.teams) WITH ORDINALITY AS t(team, position)
+    ORDER BY (
+      SELECT count(*) FROM students s
+      WHERE s.session_id = p_session_id AND s.team_id = t.team ->> 'id'
+    ), t.position
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO students (name, session_id, joined_at, status, team_id)
+  VALUES (trim(p_name), p_session_id, now(), 'waiting', v_team_id)
+  RETURNING * INTO v_student;
+
+  INSERT INTO player_tokens (student_id)
+  VALUES (v_student.id)
+  RETURNING token INTO v_token;
+
+  RETURN to_jsonb(v_student) || jsonb_build_object('player_token', v_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.join_game_session(uuid, text) TO anon, authenticated;
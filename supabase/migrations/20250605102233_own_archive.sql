@@ -0,0 +1,45 @@
+/*
+  # Keep each teacher's chapter files to themselves
+
+  1. Storage
+    - Chapter files are stored under their teacher's folder, at
+      `<teacher id>/<chapter id>/<file name>`
+
+  2. Security
+    - Replace the `chapter-files` policies, which let any teacher read, replace or delete every
+      teacher's files, with ones limited to the teacher's own folder
+    - Files uploaded before the folders stay readable by the teacher who uploaded them
+*/
+
+DROP POLICY IF EXISTS "Teachers can read chapter files" ON storage.objects;
+DROP POLICY IF EXISTS "Teachers can upload chapter files" ON storage.objects;
+DROP POLICY IF EXISTS "Teachers can replace chapter files" ON storage.objects;
+DROP POLICY IF EXISTS "Teachers can delete chapter files" ON storage.objects;
+
+CREATE POLICY "Teachers can read their own chapter files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'chapter-files'
+    AND ((storage.foldername(name))[1] = auth.uid()::text OR owner = auth.uid())
+  );
+
+CREATE POLICY "Teachers can upload their own chapter files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'chapter-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Teachers can replace their own chapter files"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'chapter-files' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'chapter-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Teachers can delete their own chapter files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'chapter-files' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -1,9 +1,43 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import fs from 'fs';
+import path from 'path';
+
+// OCR runs fully offline: the Tesseract worker, WASM core and English model are served from
+// /ocr/ instead of a CDN. Paths are relative to node_modules; every package they come from is a
+// direct dependency, so it's installed there and not only nested under another package.
+const OCR_ASSETS: Record<string, string> = {
+  'worker.min.js': 'tesseract.js/dist/worker.min.js',
+  'core/tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'core/tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'core/tesseract-core-relaxedsimd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'lang/eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+};
+
+function ocrAssets(): Plugin {
+  const source = (name: string) => path.resolve(__dirname, 'node_modules', OCR_ASSETS[name]);
+
+  return {
+    name: 'ocr-assets',
+    configureServer(server) {
+      server.middlewares.use('/ocr/', (req, res, next) => {
+        const name = (req.url || '').split('?')[0].replace(/^\//, '');
+        if (!OCR_ASSETS[name]) return next();
+        res.setHeader('Content-Type', name.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+        fs.createReadStream(source(name)).pipe(res);
+      });
+    },
+    generateBundle() {
+      Object.keys(OCR_ASSETS).forEach(name => {
+        this.emitFile({ type: 'asset', fileName: `ocr/${name}`, source: fs.readFileSync(source(name)) });
+      });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), ocrAssets()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },